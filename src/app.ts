@@ -5,6 +5,9 @@ import { config, validateEnvironment } from './config/environment';
 import { DatabaseManager } from './config/database';
 import { securityMiddleware, errorHandler } from './middleware/security';
 import { WebSocketCommunicationService } from './services/communication.service';
+import { CommodityCatalogueService } from './services/commodity-catalogue.service';
+import { NegotiationSessionService } from './services/negotiation-session.service';
+import { AuctionService } from './services/auction.service';
 import { APIGateway } from './gateway/api-gateway';
 import { ServiceRegistry } from './gateway/service-registry';
 import { LoadBalancer } from './gateway/load-balancer';
@@ -245,6 +248,10 @@ class App {
       await this.dbManager.initializeConnections(config.database);
       this.logger.info('Database connections initialized');
 
+      // Load the commodity catalogue, seeding it on first start
+      await CommodityCatalogueService.getInstance().initialize();
+      this.logger.info('Commodity catalogue loaded');
+
       // Initialize routes after database connections
       await this.initializeRoutes();
       this.logger.info('Routes initialized');
@@ -268,6 +275,14 @@ class App {
       this.communicationService = new WebSocketCommunicationService(this.server);
       this.logger.info('WebSocket communication service initialized');
 
+      // Expire negotiation offers nobody answered in time
+      NegotiationSessionService.getInstance().startExpiryScheduler();
+      this.logger.info('Negotiation offer expiry scheduler started');
+
+      // Close auctions whose timer has run out
+      AuctionService.getInstance().startCloseScheduler();
+      this.logger.info('Auction close scheduler started');
+
       // Register microservices with the API Gateway
       await this.registerServices();
       this.logger.info('Services registered with API Gateway');
@@ -464,6 +479,10 @@ class App {
             
             // Stop health checks
             await this.serviceRegistry.stopHealthChecks();
+
+            // Stop expiring negotiation offers
+            NegotiationSessionService.getInstance().stopExpiryScheduler();
+            AuctionService.getInstance().stopCloseScheduler();
             
             // Cleanup communication service
             if (this.communicationService) {
@@ -38,11 +38,16 @@ export const config = {
     bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
     rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
     rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    // Vendors allowed to use admin endpoints (catalogue maintenance etc.), comma-separated
+    adminVendorIds: (process.env.ADMIN_VENDOR_IDS || '').split(',').map(id => id.trim()).filter(Boolean),
+    // PEM (PKCS#8) Ed25519 private key for signing offline price snapshots; an ephemeral key is used when unset
+    snapshotSigningKey: (process.env.SNAPSHOT_SIGNING_KEY || '').replace(/\\n/g, '\n'),
   },
 
   externalApis: {
     sarvamAiApiKey: process.env.SARVAM_AI_API_KEY || '',
     agmarknetApiKey: process.env.AGMARKNET_API_KEY || '',
+    priceFixtureCsvPath: process.env.PRICE_FIXTURE_CSV_PATH || '',
   },
 
   logging: {
@@ -0,0 +1,66 @@
+-- Mandi (APMC market) locations used for nearest-market price lookup
+CREATE TABLE IF NOT EXISTS mandis (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    district VARCHAR(100),
+    state VARCHAR(50) NOT NULL,
+    latitude DECIMAL(10, 8) NOT NULL,
+    longitude DECIMAL(11, 8) NOT NULL,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    -- Market names match market_data.market
+    UNIQUE(name, state)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mandis_state ON mandis(state);
+CREATE INDEX IF NOT EXISTS idx_mandis_active ON mandis(is_active);
+
+-- Seed major mandis
+INSERT INTO mandis (name, district, state, latitude, longitude) VALUES
+    ('Azadpur', 'North West Delhi', 'Delhi', 28.71670000, 77.17500000),
+    ('Lasalgaon', 'Nashik', 'Maharashtra', 20.15000000, 74.23330000),
+    ('Pimpalgaon', 'Nashik', 'Maharashtra', 20.16670000, 73.98330000),
+    ('Pune', 'Pune', 'Maharashtra', 18.49000000, 73.86500000),
+    ('Vashi', 'Thane', 'Maharashtra', 19.07600000, 73.00000000),
+    ('Nagpur', 'Nagpur', 'Maharashtra', 21.14580000, 79.08820000),
+    ('Indore', 'Indore', 'Madhya Pradesh', 22.71960000, 75.85770000),
+    ('Bhopal', 'Bhopal', 'Madhya Pradesh', 23.25990000, 77.41260000),
+    ('Khanna', 'Ludhiana', 'Punjab', 30.70000000, 76.22000000),
+    ('Karnal', 'Karnal', 'Haryana', 29.68570000, 76.99050000),
+    ('Jaipur', 'Jaipur', 'Rajasthan', 26.80000000, 75.75000000),
+    ('Kota', 'Kota', 'Rajasthan', 25.21380000, 75.86480000),
+    ('Ahmedabad', 'Ahmedabad', 'Gujarat', 23.02250000, 72.57140000),
+    ('Unjha', 'Mehsana', 'Gujarat', 23.80000000, 72.39000000),
+    ('Rajkot', 'Rajkot', 'Gujarat', 22.30390000, 70.80220000),
+    ('Hubli', 'Dharwad', 'Karnataka', 15.36470000, 75.12400000),
+    ('Bangalore', 'Bangalore Urban', 'Karnataka', 13.02800000, 77.54000000),
+    ('Koyambedu', 'Chennai', 'Tamil Nadu', 13.06940000, 80.19480000),
+    ('Erode', 'Erode', 'Tamil Nadu', 11.34100000, 77.71720000),
+    ('Guntur', 'Guntur', 'Andhra Pradesh', 16.30670000, 80.43650000),
+    ('Bowenpally', 'Hyderabad', 'Telangana', 17.47000000, 78.48000000),
+    ('Nizamabad', 'Nizamabad', 'Telangana', 18.67250000, 78.09410000),
+    ('Kolkata', 'Kolkata', 'West Bengal', 22.56700000, 88.37000000),
+    ('Patna', 'Patna', 'Bihar', 25.59410000, 85.13760000),
+    ('Lucknow', 'Lucknow', 'Uttar Pradesh', 26.84670000, 80.94620000),
+    ('Agra', 'Agra', 'Uttar Pradesh', 27.17670000, 78.00810000),
+    ('Kanpur', 'Kanpur Nagar', 'Uttar Pradesh', 26.44990000, 80.33190000),
+    ('Bhubaneswar', 'Khordha', 'Odisha', 20.29610000, 85.82450000),
+    ('Guwahati', 'Kamrup Metropolitan', 'Assam', 26.14450000, 91.73620000),
+    ('Ernakulam', 'Ernakulam', 'Kerala', 9.98160000, 76.29990000)
+ON CONFLICT (name, state) DO NOTHING;
+
+-- Update trigger for mandis
+CREATE OR REPLACE FUNCTION update_mandis_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = CURRENT_TIMESTAMP;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_mandis_timestamp
+    BEFORE UPDATE ON mandis
+    FOR EACH ROW
+    EXECUTE FUNCTION update_mandis_timestamp();
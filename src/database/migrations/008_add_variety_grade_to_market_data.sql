@@ -0,0 +1,12 @@
+-- Variety and grade dimension for market prices
+-- Existing rows are treated as the ungraded "Other" variety at FAQ (Fair Average Quality)
+ALTER TABLE market_data ADD COLUMN IF NOT EXISTS variety VARCHAR(100) NOT NULL DEFAULT 'Other';
+ALTER TABLE market_data ADD COLUMN IF NOT EXISTS grade VARCHAR(20) NOT NULL DEFAULT 'FAQ';
+
+-- One quote per commodity, variety, grade, market and day
+ALTER TABLE market_data DROP CONSTRAINT IF EXISTS market_data_commodity_market_date_key;
+ALTER TABLE market_data ADD CONSTRAINT market_data_commodity_variety_grade_market_date_key
+    UNIQUE (commodity, variety, grade, market, date);
+
+CREATE INDEX IF NOT EXISTS idx_market_data_commodity_variety_grade_date
+    ON market_data(commodity, variety, grade, date DESC);
@@ -0,0 +1,25 @@
+-- Rows from bulk imports that failed validation or looked anomalous.
+-- Kept for review instead of being dropped.
+CREATE TABLE IF NOT EXISTS market_data_quarantine (
+    id SERIAL PRIMARY KEY,
+    commodity VARCHAR(100),
+    variety VARCHAR(100),
+    grade VARCHAR(20),
+    market VARCHAR(100),
+    state VARCHAR(50),
+    date DATE,
+    min_price DECIMAL(10,2),
+    max_price DECIMAL(10,2),
+    modal_price DECIMAL(10,2),
+    arrivals INTEGER,
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('invalid', 'anomaly')),
+    details TEXT,
+    raw_data JSONB NOT NULL,
+    source VARCHAR(255),
+    row_hash VARCHAR(64) NOT NULL UNIQUE, -- makes re-imports idempotent
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_data_quarantine_status ON market_data_quarantine(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_market_data_quarantine_commodity_date ON market_data_quarantine(commodity, date DESC);
@@ -0,0 +1,27 @@
+-- Vendor-defined price alert rules, evaluated on every price update
+CREATE TABLE IF NOT EXISTS price_alert_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    vendor_id UUID NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+    name VARCHAR(100),
+    commodity VARCHAR(100) NOT NULL,
+    market VARCHAR(100), -- NULL matches updates from any market
+    metric VARCHAR(20) NOT NULL CHECK (metric IN ('modal_price', 'change_percent', 'arrivals_ratio')),
+    operator VARCHAR(2) NOT NULL CHECK (operator IN ('>', '>=', '<', '<=')),
+    threshold DECIMAL(12,2) NOT NULL,
+    window_days INTEGER NOT NULL DEFAULT 7 CHECK (window_days BETWEEN 1 AND 90),
+    cooldown_minutes INTEGER NOT NULL DEFAULT 360 CHECK (cooldown_minutes >= 0),
+    quiet_hours_start TIME, -- IST; a window may wrap past midnight
+    quiet_hours_end TIME,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_triggered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alert_rules_vendor ON price_alert_rules(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_price_alert_rules_active_commodity ON price_alert_rules(commodity) WHERE is_active;
+
+CREATE TRIGGER trigger_update_price_alert_rules_timestamp
+    BEFORE UPDATE ON price_alert_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_market_data_timestamp();
@@ -0,0 +1,21 @@
+-- Daily supply-pressure index per commodity, computed from mandi arrivals.
+-- 50 = arrivals in line with the seasonal norm; higher means more supply than usual.
+-- Empty market/state means the index covers all markets.
+CREATE TABLE IF NOT EXISTS supply_pressure_index (
+    id SERIAL PRIMARY KEY,
+    commodity VARCHAR(100) NOT NULL,
+    market VARCHAR(100) NOT NULL DEFAULT '',
+    state VARCHAR(50) NOT NULL DEFAULT '',
+    date DATE NOT NULL,
+    pressure_index DECIMAL(5,2) NOT NULL CHECK (pressure_index BETWEEN 0 AND 100),
+    supply_level VARCHAR(10) NOT NULL CHECK (supply_level IN ('high', 'medium', 'low')),
+    arrivals_ratio DECIMAL(10,3) NOT NULL,
+    z_score DECIMAL(8,3) NOT NULL,
+    norm_basis VARCHAR(10) NOT NULL CHECK (norm_basis IN ('seasonal', 'trailing')),
+    price_elasticity DECIMAL(8,3),
+    computed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(commodity, market, state, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supply_pressure_index_commodity_date ON supply_pressure_index(commodity, date DESC);
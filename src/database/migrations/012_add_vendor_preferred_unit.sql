@@ -0,0 +1,3 @@
+-- Unit a vendor wants prices and quantities shown in; prices are stored per quintal
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS preferred_unit VARCHAR(10) NOT NULL DEFAULT 'quintal'
+    CHECK (preferred_unit IN ('kg', 'quintal', 'ton', 'bag', 'crate'));
@@ -0,0 +1,15 @@
+-- Audit trail of computed prices: the source quotes, which were dropped and why, and the result.
+-- Lets a disputed price suggestion be reconstructed from its price_provenance_id.
+CREATE TABLE IF NOT EXISTS price_provenance (
+    id UUID PRIMARY KEY,
+    commodity VARCHAR(100) NOT NULL,
+    market VARCHAR(100),
+    variety VARCHAR(100) NOT NULL DEFAULT 'Other',
+    grade VARCHAR(20) NOT NULL DEFAULT 'FAQ',
+    current_price DECIMAL(10,2) NOT NULL,
+    price_data JSONB NOT NULL, -- the PriceData as computed, including its provenance
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_provenance_commodity_computed ON price_provenance(commodity, computed_at DESC);
@@ -0,0 +1,24 @@
+-- Minimum Support Price notifications loaded from official CSV/JSON releases.
+-- Rows override the bundled dataset for the same commodity, variety, crop year and season.
+CREATE TABLE IF NOT EXISTS msp_rates (
+    id SERIAL PRIMARY KEY,
+    commodity VARCHAR(100) NOT NULL,
+    variety VARCHAR(100) NOT NULL DEFAULT '', -- '' when one rate covers the crop
+    crop_year VARCHAR(7) NOT NULL CHECK (crop_year ~ '^[0-9]{4}-[0-9]{2}$'),
+    season VARCHAR(10) NOT NULL CHECK (season IN ('kharif', 'rabi')),
+    price_per_quintal DECIMAL(10,2) NOT NULL CHECK (price_per_quintal > 0),
+    effective_from DATE NOT NULL,
+    notification_ref VARCHAR(200),
+    source VARCHAR(200),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(commodity, variety, crop_year, season)
+);
+
+CREATE INDEX IF NOT EXISTS idx_msp_rates_commodity_effective ON msp_rates(commodity, effective_from DESC);
+
+CREATE TRIGGER trigger_update_msp_rates_timestamp
+    BEFORE UPDATE ON msp_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_market_data_timestamp();
@@ -0,0 +1,42 @@
+-- Commodity catalogue: canonical commodities, their regional names and category hierarchy.
+-- Seeded from the bundled catalogue on first start, then maintained through the admin API.
+CREATE TABLE IF NOT EXISTS commodity_categories (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    parent_id VARCHAR(50) REFERENCES commodity_categories(id) ON DELETE RESTRICT,
+    names JSONB NOT NULL DEFAULT '{}'::jsonb, -- language code -> name
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE TABLE IF NOT EXISTS commodities (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE, -- matches market_data.commodity
+    category_id VARCHAR(50) NOT NULL REFERENCES commodity_categories(id) ON DELETE RESTRICT,
+    names JSONB NOT NULL DEFAULT '{}'::jsonb,
+    aliases JSONB NOT NULL DEFAULT '[]'::jsonb,
+    default_unit VARCHAR(10) NOT NULL DEFAULT 'quintal'
+        CHECK (default_unit IN ('kg', 'quintal', 'ton', 'bag', 'crate')),
+    perishability VARCHAR(10) NOT NULL CHECK (perishability IN ('high', 'medium', 'low')),
+    shelf_life_days INTEGER CHECK (shelf_life_days > 0),
+    agmarknet_code INTEGER UNIQUE,
+    indicative_price DECIMAL(10,2) CHECK (indicative_price > 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commodities_category ON commodities(category_id);
+CREATE INDEX IF NOT EXISTS idx_commodity_categories_parent ON commodity_categories(parent_id);
+
+CREATE TRIGGER trigger_update_commodity_categories_timestamp
+    BEFORE UPDATE ON commodity_categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_market_data_timestamp();
+
+CREATE TRIGGER trigger_update_commodities_timestamp
+    BEFORE UPDATE ON commodities
+    FOR EACH ROW
+    EXECUTE FUNCTION update_market_data_timestamp();
@@ -0,0 +1,13 @@
+-- Review workflow for quarantined prices, including live quotes held back as anomalies
+ALTER TABLE market_data_quarantine ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(50);
+ALTER TABLE market_data_quarantine ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+ALTER TABLE market_data_quarantine ADD COLUMN IF NOT EXISTS review_note TEXT;
+-- Median of the series history the price was compared against, when it was flagged as an anomaly
+ALTER TABLE market_data_quarantine ADD COLUMN IF NOT EXISTS baseline_price DECIMAL(10,2);
+
+ALTER TABLE market_data_quarantine DROP CONSTRAINT IF EXISTS market_data_quarantine_status_check;
+ALTER TABLE market_data_quarantine ADD CONSTRAINT market_data_quarantine_status_check
+    CHECK (status IN ('pending', 'approved', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_market_data_series_date
+    ON market_data(commodity, market, variety, grade, date DESC);
@@ -0,0 +1,14 @@
+-- Offline price snapshots issued to vendors, kept so later requests can be answered with a diff
+CREATE TABLE IF NOT EXISTS price_snapshot_bundles (
+    id SERIAL PRIMARY KEY,
+    vendor_id UUID NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    state VARCHAR(50),
+    commodities JSONB NOT NULL,
+    entries JSONB NOT NULL,
+    content_hash VARCHAR(64) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (vendor_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_snapshot_bundles_vendor ON price_snapshot_bundles(vendor_id, version DESC);
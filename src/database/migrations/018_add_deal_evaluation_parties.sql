@@ -0,0 +1,11 @@
+-- Who struck an evaluated deal and at what prices, so opening suggestions can learn from a
+-- vendor's own track record. Older rows stay anonymous.
+ALTER TABLE deal_evaluations ADD COLUMN IF NOT EXISTS vendor_id VARCHAR(50);
+ALTER TABLE deal_evaluations ADD COLUMN IF NOT EXISTS counterparty_id VARCHAR(50);
+ALTER TABLE deal_evaluations ADD COLUMN IF NOT EXISTS session_id VARCHAR(100);
+ALTER TABLE deal_evaluations ADD COLUMN IF NOT EXISTS commodity VARCHAR(100);
+ALTER TABLE deal_evaluations ADD COLUMN IF NOT EXISTS final_price DECIMAL(10,2);
+ALTER TABLE deal_evaluations ADD COLUMN IF NOT EXISTS market_price DECIMAL(10,2);
+
+CREATE INDEX IF NOT EXISTS idx_deal_evaluations_vendor ON deal_evaluations(vendor_id, commodity, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_negotiation_sessions_participants ON negotiation_sessions USING GIN (participants);
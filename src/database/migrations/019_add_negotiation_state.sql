@@ -0,0 +1,10 @@
+-- Server-side negotiation state machine: where each session stands, the offer awaiting a
+-- response and when it lapses. Sessions recorded before this migration have no state.
+ALTER TABLE negotiation_sessions ADD COLUMN IF NOT EXISTS state VARCHAR(20)
+    CHECK (state IN ('opening', 'countering', 'final_offer', 'accepted', 'rejected', 'expired'));
+ALTER TABLE negotiation_sessions ADD COLUMN IF NOT EXISTS live_offer JSONB;
+ALTER TABLE negotiation_sessions ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- The expiry scheduler only scans sessions still waiting on an offer
+CREATE INDEX IF NOT EXISTS idx_negotiation_sessions_offer_expiry ON negotiation_sessions(offer_expires_at)
+    WHERE state IN ('opening', 'countering', 'final_offer');
@@ -0,0 +1,18 @@
+-- Hash-chained record of accepted negotiations: the accepted terms first, then each party's
+-- confirmation of them. Every row carries the hash of the row before it for the same session,
+-- so an edited or deleted row breaks the chain. Rows are only ever inserted.
+CREATE TABLE IF NOT EXISTS deal_records (
+    id SERIAL PRIMARY KEY,
+    session_id VARCHAR(100) NOT NULL,
+    sequence INTEGER NOT NULL,
+    event VARCHAR(20) NOT NULL CHECK (event IN ('accepted', 'confirmed')),
+    vendor_id VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    previous_hash VARCHAR(64),
+    record_hash VARCHAR(64) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    UNIQUE (session_id, sequence),
+    UNIQUE (session_id, event, vendor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_records_session ON deal_records(session_id, sequence);
@@ -0,0 +1,20 @@
+-- Versioned snapshots of the negotiation assistant's learned parameters. The highest version is
+-- the active model; training and rollbacks each insert the next version, so two servers
+-- publishing at once collide on the primary key instead of overwriting each other.
+CREATE TABLE IF NOT EXISTS negotiation_model_versions (
+    version INTEGER PRIMARY KEY CHECK (version > 0),
+    parent_version INTEGER,
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('training', 'rollback')),
+    restored_version INTEGER,
+    trained_session_id VARCHAR(100),
+    created_by VARCHAR(50),
+    parameter_sets JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- What each learning record was about, for per-commodity and per-region training counts
+ALTER TABLE learning_data ADD COLUMN IF NOT EXISTS commodity VARCHAR(100);
+ALTER TABLE learning_data ADD COLUMN IF NOT EXISTS region VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_learning_data_commodity ON learning_data(commodity);
+CREATE INDEX IF NOT EXISTS idx_learning_data_region ON learning_data(region);
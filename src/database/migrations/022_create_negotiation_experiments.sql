@@ -0,0 +1,25 @@
+-- A/B experiments on the negotiation assistant. Variants are fixed at creation so bucketing
+-- stays sticky; an experiment runs once, from draft to running to stopped.
+CREATE TABLE IF NOT EXISTS negotiation_experiments (
+    key VARCHAR(64) PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    target VARCHAR(20) NOT NULL CHECK (target IN ('opening_price', 'response')),
+    unit VARCHAR(10) NOT NULL CHECK (unit IN ('vendor', 'session')),
+    status VARCHAR(10) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+    variants JSONB NOT NULL,
+    created_by VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP WITH TIME ZONE,
+    stopped_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Only one experiment per suggestion type runs at a time, so results are not confounded
+CREATE UNIQUE INDEX IF NOT EXISTS idx_negotiation_experiments_running
+    ON negotiation_experiments(target) WHERE status = 'running';
+
+-- Experiment key -> variant for each assisted step
+ALTER TABLE negotiation_steps ADD COLUMN IF NOT EXISTS experiment_variants JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_negotiation_steps_experiment_variants
+    ON negotiation_steps USING GIN (experiment_variants) WHERE ai_assistance_used;
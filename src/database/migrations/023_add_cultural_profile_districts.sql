@@ -0,0 +1,73 @@
+-- Cultural profiles at district granularity, edited by admins and refined from negotiation outcomes.
+-- A profile is keyed by region (a state such as 'maharashtra' or an area such as 'vidarbha');
+-- districts map to the profile that describes how they trade.
+ALTER TABLE cultural_profiles ADD COLUMN IF NOT EXISTS display_name VARCHAR(100);
+ALTER TABLE cultural_profiles ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE cultural_profiles ADD COLUMN IF NOT EXISTS observed_outcomes JSONB;
+-- Outcome refinement only counts negotiations after the last admin edit
+ALTER TABLE cultural_profiles ADD COLUMN IF NOT EXISTS admin_updated_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE cultural_profiles SET display_name = 'Punjab' WHERE region = 'punjab' AND display_name IS NULL;
+UPDATE cultural_profiles SET display_name = 'Maharashtra' WHERE region = 'maharashtra' AND display_name IS NULL;
+UPDATE cultural_profiles SET display_name = 'Tamil Nadu' WHERE region = 'tamil_nadu' AND display_name IS NULL;
+UPDATE cultural_profiles SET display_name = 'Default' WHERE region = 'default' AND display_name IS NULL;
+
+-- Lower-case district name with spaces as underscores -> profile region
+CREATE TABLE IF NOT EXISTS cultural_profile_districts (
+    district VARCHAR(100) PRIMARY KEY,
+    region VARCHAR(100) NOT NULL REFERENCES cultural_profiles(region) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_cultural_profile_districts_region ON cultural_profile_districts(region);
+
+-- Every version of every profile, with who or what changed it
+CREATE TABLE IF NOT EXISTS cultural_profile_changes (
+    id SERIAL PRIMARY KEY,
+    region VARCHAR(100) NOT NULL,
+    version INTEGER NOT NULL,
+    source VARCHAR(10) NOT NULL CHECK (source IN ('admin', 'observed')),
+    changed_by VARCHAR(50),
+    note TEXT,
+    previous JSONB,
+    profile JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(region, version)
+);
+
+-- Outcome refinement aggregates learning data by district
+CREATE INDEX IF NOT EXISTS idx_learning_data_region_lower ON learning_data (LOWER(REPLACE(region, ' ', '_')));
+
+-- Vidarbha's cotton and soybean mandis trade differently from Pune's
+INSERT INTO cultural_profiles (region, display_name, state, trading_customs, communication_patterns, market_practices) VALUES
+('vidarbha', 'Vidarbha', 'Maharashtra',
+ '{"negotiationStyle": "relationship-based", "decisionMaking": "deliberate", "priceFlexibility": "low", "relationshipImportance": "high"}',
+ '{"formalityLevel": "informal", "directness": "indirect", "timeOrientation": "flexible"}',
+ '{"commonPaymentTerms": ["cash_on_delivery", "adatiya_credit", "msp_procurement"], "typicalDeliveryMethods": ["mandi_delivery", "ginning_mill_delivery", "farm_pickup"], "qualityAssessmentMethods": ["moisture_testing", "staple_length_testing", "visual_inspection"], "disputeResolutionPreferences": ["adatiya_mediation", "mandi_committee", "direct_negotiation"]}'
+),
+('pune', 'Pune', 'Maharashtra',
+ '{"negotiationStyle": "direct", "decisionMaking": "quick", "priceFlexibility": "medium", "relationshipImportance": "medium"}',
+ '{"formalityLevel": "semi-formal", "directness": "direct", "timeOrientation": "punctual"}',
+ '{"commonPaymentTerms": ["advance_payment", "upi_payment", "7_days_credit"], "typicalDeliveryMethods": ["mandi_delivery", "direct_transport", "cold_chain_delivery"], "qualityAssessmentMethods": ["grade_certification", "sample_testing", "visual_inspection"], "disputeResolutionPreferences": ["mandi_committee", "arbitration", "direct_negotiation"]}'
+)
+ON CONFLICT (region) DO NOTHING;
+
+INSERT INTO cultural_profile_districts (district, region) VALUES
+    ('nagpur', 'vidarbha'),
+    ('amravati', 'vidarbha'),
+    ('akola', 'vidarbha'),
+    ('yavatmal', 'vidarbha'),
+    ('wardha', 'vidarbha'),
+    ('buldhana', 'vidarbha'),
+    ('washim', 'vidarbha'),
+    ('chandrapur', 'vidarbha'),
+    ('gadchiroli', 'vidarbha'),
+    ('gondia', 'vidarbha'),
+    ('bhandara', 'vidarbha'),
+    ('pune', 'pune'),
+    ('nashik', 'maharashtra'),
+    ('thane', 'maharashtra'),
+    ('ludhiana', 'punjab'),
+    ('chennai', 'tamil_nadu'),
+    ('erode', 'tamil_nadu')
+ON CONFLICT (district) DO NOTHING;
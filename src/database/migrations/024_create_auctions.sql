@@ -0,0 +1,50 @@
+-- Auction sessions: a seller (often a commission agent) puts a lot up for several buyers to bid on,
+-- either openly (English, each bid must beat the leading one) or as sealed bids opened at the close.
+-- A sold lot becomes an accepted negotiation session between seller and winner, so it goes through
+-- the same deal confirmation and trade note as a negotiated deal.
+CREATE TABLE IF NOT EXISTS auctions (
+    auction_id VARCHAR(100) PRIMARY KEY,
+    seller_id VARCHAR(50) NOT NULL,
+    commodity VARCHAR(100) NOT NULL,
+    quantity DECIMAL(12,2) NOT NULL CHECK (quantity > 0),
+    unit VARCHAR(20),
+    mode VARCHAR(20) NOT NULL CHECK (mode IN ('english', 'sealed_bid')),
+    state VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (state IN ('open', 'sold', 'unsold')),
+    starting_price DECIMAL(12,2) NOT NULL CHECK (starting_price > 0),
+    reserve_price DECIMAL(12,2),
+    increment_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    increment_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+    current_market_price DECIMAL(12,2),
+    terms JSONB,
+    -- Leading bid, maintained under the row lock that orders bids
+    current_price DECIMAL(12,2),
+    leading_bidder_id VARCHAR(50),
+    bid_count INTEGER NOT NULL DEFAULT 0,
+    -- Bumped on every change, so clients can apply broadcast updates in server order
+    version INTEGER NOT NULL DEFAULT 1,
+    winning_bid_id VARCHAR(100),
+    opened_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    closed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- The close scheduler only scans auctions still taking bids
+CREATE INDEX IF NOT EXISTS idx_auctions_closing ON auctions(closes_at) WHERE state = 'open';
+CREATE INDEX IF NOT EXISTS idx_auctions_seller ON auctions(seller_id, opened_at DESC);
+
+CREATE TABLE IF NOT EXISTS auction_bids (
+    bid_id VARCHAR(100) PRIMARY KEY,
+    auction_id VARCHAR(100) NOT NULL REFERENCES auctions(auction_id) ON DELETE CASCADE,
+    bidder_id VARCHAR(50) NOT NULL,
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    sequence INTEGER NOT NULL, -- order the server accepted the bid in
+    placed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    UNIQUE(auction_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_auction_bids_bidder ON auction_bids(auction_id, bidder_id);
+
+-- Negotiated sessions and sold auctions share the deal flow; this tells them apart
+ALTER TABLE negotiation_sessions ADD COLUMN IF NOT EXISTS session_type VARCHAR(20) NOT NULL DEFAULT 'negotiation'
+    CHECK (session_type IN ('negotiation', 'auction'));
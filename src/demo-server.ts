@@ -2,6 +2,7 @@ import express from 'express';
 import { createServer } from 'http';
 import cors from 'cors';
 import path from 'path';
+import { COMMODITY_CATALOGUE, searchCatalogue } from './utils/commodity-catalogue';
 
 const app = express();
 const server = createServer(app);
@@ -21,10 +22,10 @@ app.use((req, res, next) => {
   next();
 });
 
-// Mock data for demonstration
+// Mock data for demonstration, keyed by commodity catalogue id
 const mockPriceData = [
   {
-    id: '1',
+    id: 'rice',
     commodity: 'Rice',
     currentPrice: 2000,
     priceRange: { min: 1800, max: 2200, modal: 2000 },
@@ -33,7 +34,7 @@ const mockPriceData = [
     sources: ['AGMARKNET']
   },
   {
-    id: '2',
+    id: 'wheat',
     commodity: 'Wheat',
     currentPrice: 2500,
     priceRange: { min: 2300, max: 2700, modal: 2500 },
@@ -42,7 +43,7 @@ const mockPriceData = [
     sources: ['AGMARKNET']
   },
   {
-    id: '3',
+    id: 'cotton',
     commodity: 'Cotton',
     currentPrice: 5500,
     priceRange: { min: 5200, max: 5800, modal: 5500 },
@@ -51,7 +52,7 @@ const mockPriceData = [
     sources: ['AGMARKNET']
   },
   {
-    id: '4',
+    id: 'onion',
     commodity: 'Onion',
     currentPrice: 1200,
     priceRange: { min: 1000, max: 1400, modal: 1200 },
@@ -60,7 +61,7 @@ const mockPriceData = [
     sources: ['AGMARKNET']
   },
   {
-    id: '5',
+    id: 'potato',
     commodity: 'Potato',
     currentPrice: 800,
     priceRange: { min: 700, max: 900, modal: 800 },
@@ -69,7 +70,7 @@ const mockPriceData = [
     sources: ['AGMARKNET']
   },
   {
-    id: '6',
+    id: 'tomato',
     commodity: 'Tomato',
     currentPrice: 1500,
     priceRange: { min: 1200, max: 1800, modal: 1500 },
@@ -78,7 +79,7 @@ const mockPriceData = [
     sources: ['AGMARKNET']
   },
   {
-    id: '7',
+    id: 'sugarcane',
     commodity: 'Sugarcane',
     currentPrice: 350,
     priceRange: { min: 320, max: 380, modal: 350 },
@@ -87,7 +88,7 @@ const mockPriceData = [
     sources: ['AGMARKNET']
   },
   {
-    id: '8',
+    id: 'maize',
     commodity: 'Maize',
     currentPrice: 1800,
     priceRange: { min: 1650, max: 1950, modal: 1800 },
@@ -96,7 +97,7 @@ const mockPriceData = [
     sources: ['AGMARKNET']
   },
   {
-    id: '9',
+    id: 'turmeric',
     commodity: 'Turmeric',
     currentPrice: 8500,
     priceRange: { min: 8000, max: 9000, modal: 8500 },
@@ -122,8 +123,9 @@ app.get('/api/v1/price-discovery/search', (req, res) => {
   let results = mockPriceData;
   
   if (q && typeof q === 'string') {
-    results = mockPriceData.filter(item => 
-      item.commodity.toLowerCase().includes(q.toLowerCase())
+    // Same fuzzy, multilingual matching as the API ("kanda", "प्याज")
+    results = searchCatalogue(COMMODITY_CATALOGUE, q).flatMap(result =>
+      mockPriceData.filter(item => item.id === result.commodity.id)
     );
   }
   
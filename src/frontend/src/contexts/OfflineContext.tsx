@@ -1,10 +1,56 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 
+export interface PriceSnapshotEntry {
+  commodity: string
+  scope: 'regional' | 'national'
+  currentPrice: number
+  priceRange: { min: number, max: number }
+  trend: 'rising' | 'falling' | 'stable'
+  changePercent: number
+  markets: number
+  lastUpdated: string
+}
+
+export interface PriceSnapshot {
+  version: number
+  generatedAt: string
+  region: { state?: string }
+  unit: string
+  entries: PriceSnapshotEntry[]
+  verified: boolean // false when the browser cannot check Ed25519 signatures
+}
+
 interface OfflineContextType {
   isOnline: boolean
   offlineData: Record<string, any>
   saveOfflineData: (key: string, data: any) => void
   getOfflineData: (key: string) => any
+  priceSnapshot: PriceSnapshot | null
+  refreshPriceSnapshot: () => Promise<void>
+}
+
+const SNAPSHOT_STORAGE_KEY = 'priceSnapshot'
+
+const base64ToBytes = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0))
+
+// Checks the server's Ed25519 signature; null when the browser has no Ed25519 support
+const verifySnapshotSignature = async (signed: any): Promise<boolean | null> => {
+  try {
+    const response = await fetch('/api/v1/price-discovery/snapshot/public-key')
+    const { data } = await response.json()
+    if (data.keyId !== signed.keyId) return false
+
+    const der = base64ToBytes(data.publicKey.replace(/-----[A-Z ]+-----/g, '').replace(/\s/g, ''))
+    const key = await crypto.subtle.importKey('spki', der, { name: 'Ed25519' }, false, ['verify'])
+    return await crypto.subtle.verify(
+      'Ed25519',
+      key,
+      base64ToBytes(signed.signature),
+      new TextEncoder().encode(JSON.stringify(signed.snapshot))
+    )
+  } catch (error) {
+    return null
+  }
 }
 
 const OfflineContext = createContext<OfflineContextType | undefined>(undefined)
@@ -24,6 +70,14 @@ interface OfflineProviderProps {
 export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) => {
   const [isOnline, setIsOnline] = useState(navigator.onLine)
   const [offlineData, setOfflineData] = useState<Record<string, any>>({})
+  const [priceSnapshot, setPriceSnapshot] = useState<PriceSnapshot | null>(() => {
+    try {
+      const stored = localStorage.getItem(SNAPSHOT_STORAGE_KEY)
+      return stored ? JSON.parse(stored) : null
+    } catch (error) {
+      return null
+    }
+  })
 
   useEffect(() => {
     // Load offline data from localStorage on mount
@@ -40,11 +94,16 @@ export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) =>
 
     loadOfflineData()
 
+    if (navigator.onLine) {
+      refreshPriceSnapshot()
+    }
+
     // Listen for online/offline events
     const handleOnline = () => {
       setIsOnline(true)
       // Sync offline data when coming back online
       syncOfflineData()
+      refreshPriceSnapshot()
     }
 
     const handleOffline = () => {
@@ -78,6 +137,55 @@ export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) =>
     return offlineData[key] || null
   }
 
+  // Fetches changes since the held snapshot version, or a full snapshot when there is none
+  const refreshPriceSnapshot = async () => {
+    const token = localStorage.getItem('accessToken')
+    if (!token) return
+
+    try {
+      const stored = localStorage.getItem(SNAPSHOT_STORAGE_KEY)
+      const current: PriceSnapshot | null = stored ? JSON.parse(stored) : null
+      const response = await fetch(
+        `/api/v1/price-discovery/snapshot${current ? `?since=${current.version}` : ''}`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      )
+      if (!response.ok) return
+
+      const { data: signed } = await response.json()
+      const verified = await verifySnapshotSignature(signed)
+      if (verified === false) {
+        console.error('Price snapshot signature did not verify; keeping the previous snapshot')
+        return
+      }
+
+      const { snapshot } = signed
+      let entries: PriceSnapshotEntry[]
+      if (snapshot.type === 'diff' && current && snapshot.baseVersion === current.version) {
+        const changed = new Set([...snapshot.removed, ...snapshot.upserts.map((entry: PriceSnapshotEntry) => entry.commodity)])
+        entries = [...current.entries.filter(entry => !changed.has(entry.commodity)), ...snapshot.upserts]
+      } else if (snapshot.type === 'full') {
+        entries = snapshot.entries
+      } else {
+        // A diff against a version we no longer hold; start over
+        localStorage.removeItem(SNAPSHOT_STORAGE_KEY)
+        return refreshPriceSnapshot()
+      }
+
+      const next: PriceSnapshot = {
+        version: snapshot.version,
+        generatedAt: snapshot.generatedAt,
+        region: snapshot.region,
+        unit: snapshot.unit,
+        entries: entries.sort((a, b) => a.commodity.localeCompare(b.commodity)),
+        verified: verified === true
+      }
+      setPriceSnapshot(next)
+      localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(next))
+    } catch (error) {
+      console.error('Failed to refresh price snapshot:', error)
+    }
+  }
+
   const syncOfflineData = async () => {
     // Sync cached data with server when coming back online
     try {
@@ -96,6 +204,8 @@ export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) =>
     offlineData,
     saveOfflineData,
     getOfflineData,
+    priceSnapshot,
+    refreshPriceSnapshot,
   }
 
   return (
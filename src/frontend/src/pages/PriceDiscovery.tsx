@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { useOffline } from '../contexts/OfflineContext'
+import { useOffline, PriceSnapshotEntry } from '../contexts/OfflineContext'
 import './PriceDiscovery.css'
 
 interface PriceData {
@@ -7,12 +7,32 @@ interface PriceData {
   currentPrice: number
   priceRange: { min: number, max: number, modal: number }
   lastUpdated: Date
-  volatility: number
+  volatility?: number
+  changePercent?: number // 7-day change, from the offline snapshot
   trend: 'up' | 'down' | 'stable'
 }
 
+const SNAPSHOT_TRENDS = { rising: 'up', falling: 'down', stable: 'stable' } as const
+
+const fromSnapshotEntry = (entry: PriceSnapshotEntry): PriceData => ({
+  commodity: entry.commodity,
+  currentPrice: entry.currentPrice,
+  priceRange: { ...entry.priceRange, modal: entry.currentPrice },
+  lastUpdated: new Date(entry.lastUpdated),
+  changePercent: entry.changePercent,
+  trend: SNAPSHOT_TRENDS[entry.trend]
+})
+
+const formatAge = (timestamp: string) => {
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(timestamp).getTime()) / 60000))
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`
+  const hours = Math.round(minutes / 60)
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'} ago`
+  return `${Math.round(hours / 24)} days ago`
+}
+
 const PriceDiscovery: React.FC = () => {
-  const { isOnline, getOfflineData, saveOfflineData } = useOffline()
+  const { isOnline, getOfflineData, saveOfflineData, priceSnapshot } = useOffline()
   const [searchTerm, setSearchTerm] = useState('')
   const [priceData, setPriceData] = useState<PriceData[]>([])
   const [loading, setLoading] = useState(false)
@@ -23,12 +43,25 @@ const PriceDiscovery: React.FC = () => {
     'Sugarcane', 'Cotton', 'Soybean', 'Maize', 'Turmeric'
   ]
 
+  const showSnapshot = !isOnline && priceSnapshot !== null
+  // Snapshots older than a day are flagged; mandi prices move daily
+  const snapshotIsStale = showSnapshot && Date.now() - new Date(priceSnapshot.generatedAt).getTime() > 24 * 60 * 60 * 1000
+
   useEffect(() => {
     // Load cached price data on mount
     const cachedData = getOfflineData('prices') || []
     setPriceData(cachedData)
   }, [getOfflineData])
 
+  useEffect(() => {
+    // Offline, the signed snapshot replaces whatever the last search returned
+    if (showSnapshot) {
+      setPriceData(priceSnapshot.entries
+        .filter(entry => !selectedCommodity || entry.commodity.toLowerCase().includes(selectedCommodity.toLowerCase()))
+        .map(fromSnapshotEntry))
+    }
+  }, [showSnapshot, priceSnapshot])
+
   const searchPrices = async (commodity: string) => {
     setLoading(true)
     setSelectedCommodity(commodity)
@@ -52,6 +85,10 @@ const PriceDiscovery: React.FC = () => {
           // Cache the data for offline use
           saveOfflineData('prices', transformedData)
         }
+      } else if (priceSnapshot) {
+        setPriceData(priceSnapshot.entries
+          .filter(entry => entry.commodity.toLowerCase().includes(commodity.toLowerCase()))
+          .map(fromSnapshotEntry))
       } else {
         // Filter cached data
         const cachedData = getOfflineData('prices') || []
@@ -108,10 +145,19 @@ const PriceDiscovery: React.FC = () => {
         <h1 className="page-title">Price Discovery</h1>
         <p className="page-subtitle">
           Real-time market prices from across India
-          {!isOnline && <span className="offline-note"> (Cached data)</span>}
+          {!isOnline && !showSnapshot && <span className="offline-note"> (Cached data)</span>}
         </p>
       </div>
 
+      {showSnapshot && (
+        <div className={`snapshot-banner ${snapshotIsStale ? 'stale' : ''}`}>
+          <strong>Offline.</strong> Showing prices from a snapshot taken {formatAge(priceSnapshot.generatedAt)}
+          {' '}({new Date(priceSnapshot.generatedAt).toLocaleString()}) for {priceSnapshot.region.state || 'all India'}.
+          {snapshotIsStale && ' Prices may have changed since.'}
+          {!priceSnapshot.verified && <span className="snapshot-unverified"> Signature not verified on this device.</span>}
+        </div>
+      )}
+
       {/* Search Section */}
       <section className="search-section">
         <form className="search-form" onSubmit={handleSearch}>
@@ -177,7 +223,7 @@ const PriceDiscovery: React.FC = () => {
                   
                   <div className="price-main">
                     <div className="current-price">₹{item.currentPrice}</div>
-                    <div className="price-unit">per kg</div>
+                    <div className="price-unit">per {showSnapshot ? priceSnapshot.unit : 'kg'}</div>
                   </div>
                   
                   <div className="price-range">
@@ -196,11 +242,19 @@ const PriceDiscovery: React.FC = () => {
                   </div>
                   
                   <div className="price-footer">
-                    <div className={`volatility ${getVolatilityColor(item.volatility)}`}>
-                      Volatility: {item.volatility}%
-                    </div>
+                    {item.volatility !== undefined ? (
+                      <div className={`volatility ${getVolatilityColor(item.volatility)}`}>
+                        Volatility: {item.volatility}%
+                      </div>
+                    ) : (
+                      <div className="volatility">
+                        7-day change: {item.changePercent! > 0 ? '+' : ''}{item.changePercent}%
+                      </div>
+                    )}
                     <div className="last-updated">
-                      Updated: {new Date(item.lastUpdated).toLocaleTimeString()}
+                      {showSnapshot
+                        ? `Quoted: ${new Date(item.lastUpdated).toLocaleDateString()}`
+                        : `Updated: ${new Date(item.lastUpdated).toLocaleTimeString()}`}
                     </div>
                   </div>
                 </div>
@@ -48,13 +48,15 @@ const VendorItems: React.FC = () => {
     location: ''
   })
 
-  const categories = [
+  // Replaced by the commodity catalogue once it loads
+  const [categories, setCategories] = useState<string[]>([
     'Rice', 'Wheat', 'Cotton', 'Onion', 'Potato', 'Tomato',
     'Sugarcane', 'Maize', 'Turmeric', 'Chillies', 'Pulses',
     'Vegetables', 'Fruits', 'Spices', 'Other'
-  ]
+  ])
 
-  const units = ['kg', 'quintal', 'ton', 'bag', 'box', 'piece']
+  // The units the server accepts; replaced by its list once the catalogue loads
+  const [units, setUnits] = useState<string[]>(['kg', 'quintal', 'ton', 'bag', 'crate'])
   const qualities = [
     { value: 'premium', label: 'Premium Quality' },
     { value: 'standard', label: 'Standard Quality' },
@@ -63,8 +65,26 @@ const VendorItems: React.FC = () => {
 
   useEffect(() => {
     loadVendorItems()
+    loadCatalogue()
   }, [])
 
+  const loadCatalogue = async () => {
+    try {
+      const response = await fetch('/api/v1/price-discovery/supported-commodities')
+      if (!response.ok) return
+
+      const result = await response.json()
+      if (result.success) {
+        setCategories([...result.data.commodities, 'Other'])
+        if (Array.isArray(result.data.units)) {
+          setUnits(result.data.units)
+        }
+      }
+    } catch (error) {
+      console.error('Error loading commodity catalogue:', error)
+    }
+  }
+
   const loadVendorItems = async () => {
     try {
       const token = localStorage.getItem('accessToken')
@@ -52,6 +52,19 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
   }
 };
 
+// Use after authenticateToken
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.vendor || !config.security.adminVendorIds.includes(req.vendor.vendorId)) {
+    res.status(403).json({
+      error: 'Admin access required',
+      code: 'ADMIN_REQUIRED'
+    });
+    return;
+  }
+
+  next();
+};
+
 export const optionalAuth = (req: Request, res: Response, next: NextFunction): void => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
@@ -1,9 +1,45 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
 import { AuthPayload } from '../types';
+import { AnalyticsService } from '../services/analytics.service';
+import { ArrivalsAnalyticsService } from '../services/arrivals-analytics.service';
+import { ExperimentOutcome, NegotiationExperimentService } from '../services/negotiation-experiment.service';
 
 const router = Router();
 
+// Lazy so the database connections exist before the services grab them
+let analyticsService: AnalyticsService | null = null;
+let arrivalsAnalyticsService: ArrivalsAnalyticsService | null = null;
+
+const getAnalyticsService = () => {
+  if (!analyticsService) {
+    analyticsService = new AnalyticsService();
+  }
+  return analyticsService;
+};
+
+const getArrivalsAnalyticsService = () => {
+  if (!arrivalsAnalyticsService) {
+    arrivalsAnalyticsService = new ArrivalsAnalyticsService();
+  }
+  return arrivalsAnalyticsService;
+};
+
+const experimentService = NegotiationExperimentService.getInstance();
+
+function sendExperimentOutcome(res: Response, result: ExperimentOutcome, status: number = 200) {
+  switch (result.outcome) {
+    case 'ok':
+      return res.status(status).json(result.experiment);
+    case 'invalid':
+      return res.status(400).json({ error: 'Invalid experiment', details: result.errors });
+    case 'not_found':
+      return res.status(404).json({ error: 'Experiment not found' });
+    case 'conflict':
+      return res.status(409).json({ error: result.reason });
+  }
+}
+
 // Extend Request interface to include user
 interface AuthenticatedRequest extends Request {
   user?: AuthPayload;
@@ -132,15 +168,7 @@ router.get('/trends/:commodity', authenticateToken, async (req: Request, res: Re
     const { commodity } = req.params;
     const { region } = req.query;
 
-    // Mock response for now - would use real analytics service
-    const trends = {
-      commodity,
-      region,
-      trend: 'rising',
-      priceChange: '+5.2%',
-      confidence: 85,
-      forecast: 'Prices expected to continue rising for next 2 weeks'
-    };
+    const trends = await getAnalyticsService().analyzeMarketTrends(commodity, region as string | undefined);
 
     res.json(trends);
   } catch (error) {
@@ -149,6 +177,61 @@ router.get('/trends/:commodity', authenticateToken, async (req: Request, res: Re
   }
 });
 
+// Arrivals-based supply signal: anomalies vs. seasonal norm, price elasticity and supply-pressure index
+router.get('/supply-signal/:commodity', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { commodity } = req.params;
+    const { market, state } = req.query as { market?: string; state?: string };
+
+    const signal = await getArrivalsAnalyticsService().getSupplySignal(commodity, { market, state });
+
+    if (!signal) {
+      return res.status(404).json({ error: `Not enough arrivals data for ${commodity}` });
+    }
+
+    res.json(signal);
+  } catch (error) {
+    console.error('Error getting supply signal:', error);
+    res.status(500).json({ error: 'Failed to get supply signal' });
+  }
+});
+
+// Admin route: Recompute the supply signal and publish it to supply_pressure_index
+router.post('/supply-signal/:commodity/publish', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { commodity } = req.params;
+    const { market, state } = req.body as { market?: string; state?: string };
+
+    const service = getArrivalsAnalyticsService();
+    const signal = await service.getSupplySignal(commodity, { market, state });
+
+    if (!signal) {
+      return res.status(404).json({ error: `Not enough arrivals data for ${commodity}` });
+    }
+
+    await service.publishSupplyPressure(signal);
+
+    res.json(signal);
+  } catch (error) {
+    console.error('Error publishing supply signal:', error);
+    res.status(500).json({ error: 'Failed to publish supply signal' });
+  }
+});
+
+// Latest published supply-pressure index per commodity and market
+router.get('/supply-pressure', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { commodity } = req.query as { commodity?: string };
+
+    const index = await getArrivalsAnalyticsService().getPublishedSupplyPressure(commodity);
+
+    res.json({ index, count: index.length });
+  } catch (error) {
+    console.error('Error getting supply pressure index:', error);
+    res.status(500).json({ error: 'Failed to get supply pressure index' });
+  }
+});
+
 // Generate weekly trading summary
 router.get('/weekly-summary', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -283,6 +366,62 @@ router.post('/insights/deliver', authenticateToken, async (req: AuthenticatedReq
   }
 });
 
+// Admin route: A/B experiments on negotiation suggestions
+router.get('/admin/experiments', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const experiments = await experimentService.listExperiments();
+
+    res.json({ experiments, count: experiments.length });
+  } catch (error) {
+    console.error('Error listing experiments:', error);
+    res.status(500).json({ error: 'Failed to list experiments' });
+  }
+});
+
+// Admin route: Create a draft experiment; variants are fixed from here on
+router.post('/admin/experiments', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { key, name, description, target, unit, variants } = req.body;
+
+    const result = await experimentService.createExperiment({ key, name, description, target, unit, variants }, req.vendor!.vendorId);
+
+    sendExperimentOutcome(res, result, 201);
+  } catch (error) {
+    console.error('Error creating experiment:', error);
+    res.status(500).json({ error: 'Failed to create experiment' });
+  }
+});
+
+// Admin route: Start or stop an experiment
+router.post('/admin/experiments/:key/:action(start|stop)', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { key, action } = req.params;
+
+    const result = action === 'start' ? await experimentService.start(key) : await experimentService.stop(key);
+
+    sendExperimentOutcome(res, result);
+  } catch (error) {
+    console.error('Error changing experiment status:', error);
+    res.status(500).json({ error: 'Failed to change experiment status' });
+  }
+});
+
+// Admin route: Deal rate, deal score and satisfaction per variant
+router.get('/admin/experiments/:key/results', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const results = await experimentService.getResults(req.params.key);
+
+    if (!results) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+
+    res.json(results);
+  } catch (error) {
+    console.error('Error getting experiment results:', error);
+    res.status(500).json({ error: 'Failed to get experiment results' });
+  }
+});
+
 // Admin route: Schedule weekly reports for all vendors
 router.post('/admin/schedule-weekly-reports', authenticateToken, async (req: Request, res: Response) => {
   try {
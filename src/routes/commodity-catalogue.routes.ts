@@ -0,0 +1,461 @@
+import { Router, Request, Response } from 'express';
+import { query, body, param, validationResult } from 'express-validator';
+import { CommodityCatalogueService, CommodityData, CategoryData } from '../services/commodity-catalogue.service';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { QUANTITY_UNITS, normalizeUnit } from '../utils/units';
+
+const router = Router();
+const catalogueService = CommodityCatalogueService.getInstance();
+
+const PERISHABILITY_LEVELS = ['high', 'medium', 'low'];
+const SLUG = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const isNameMap = (value: any) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) &&
+  Object.entries(value).every(([language, name]) => /^[a-z]{2,3}$/.test(language) && typeof name === 'string' && name.trim().length > 0);
+
+const categoryExists = (value: string) => !!catalogueService.listCategories().find(category => category.id === value);
+
+// Validation middleware
+const searchValidation = [
+  query('q').notEmpty().withMessage('Search text is required').isLength({ max: 100 }),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  query('category').optional().custom(categoryExists).withMessage('Unknown category'),
+];
+
+const listValidation = [
+  query('category').optional().custom(categoryExists).withMessage('Unknown category'),
+  query('includeInactive').optional().isBoolean().withMessage('includeInactive must be true or false'),
+];
+
+// Shared by create (all required fields enforced) and update (everything optional)
+function commodityValidation(isUpdate: boolean) {
+  const required = (field: string) => (isUpdate ? body(field).optional() : body(field));
+
+  return [
+    ...(isUpdate ? [] : [
+      body('id').matches(SLUG).withMessage('Id must be a lower-case slug, e.g. castor-seed').isLength({ max: 50 }),
+    ]),
+    required('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+    required('categoryId').custom(categoryExists).withMessage('Unknown category'),
+    required('perishability').isIn(PERISHABILITY_LEVELS).withMessage(`Perishability must be one of: ${PERISHABILITY_LEVELS.join(', ')}`),
+    body('names').optional().custom(isNameMap).withMessage('Names must map language codes to names, e.g. { "hi": "प्याज़" }'),
+    body('aliases').optional().isArray({ max: 30 }).withMessage('Aliases must be a list of at most 30 names'),
+    body('aliases.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Invalid alias'),
+    body('defaultUnit').optional().custom(value => !!normalizeUnit(value))
+      .withMessage(`Default unit must be one of: ${QUANTITY_UNITS.join(', ')}`),
+    body('shelfLifeDays').optional({ nullable: true }).isInt({ min: 1, max: 3650 }).withMessage('Shelf life must be between 1 and 3650 days'),
+    body('agmarknetCode').optional({ nullable: true }).isInt({ min: 1 }).withMessage('AGMARKNET code must be a positive integer'),
+    body('indicativePrice').optional({ nullable: true }).isFloat({ gt: 0 }).withMessage('Indicative price must be greater than 0'),
+    body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  ];
+}
+
+function categoryValidation(isUpdate: boolean) {
+  const required = (field: string) => (isUpdate ? body(field).optional() : body(field));
+
+  return [
+    ...(isUpdate ? [] : [
+      body('id').matches(SLUG).withMessage('Id must be a lower-case slug, e.g. leafy-vegetables').isLength({ max: 50 }),
+    ]),
+    required('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+    body('parentId').optional({ nullable: true }).custom(categoryExists).withMessage('Unknown parent category'),
+    body('names').optional().custom(isNameMap).withMessage('Names must map language codes to names, e.g. { "ta": "காய்கறிகள்" }'),
+  ];
+}
+
+const idValidation = [
+  param('id').matches(SLUG).withMessage('Invalid id'),
+];
+
+function sendValidationErrors(req: Request, res: Response): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    error: 'Validation failed',
+    code: 'VALIDATION_ERROR',
+    details: errors.array()
+  });
+  return true;
+}
+
+// The id comes from the URL on updates, so only creation reads it from the body
+function parseCommodityBody(body: any): Partial<CommodityData> {
+  return {
+    name: typeof body.name === 'string' ? body.name.trim() : undefined,
+    categoryId: body.categoryId,
+    names: body.names,
+    aliases: Array.isArray(body.aliases) ? body.aliases.map((alias: string) => alias.trim()) : undefined,
+    defaultUnit: body.defaultUnit !== undefined ? normalizeUnit(body.defaultUnit) : undefined,
+    perishability: body.perishability,
+    shelfLifeDays: body.shelfLifeDays === null ? null : (body.shelfLifeDays !== undefined ? parseInt(body.shelfLifeDays) : undefined),
+    agmarknetCode: body.agmarknetCode === null ? null : (body.agmarknetCode !== undefined ? parseInt(body.agmarknetCode) : undefined),
+    indicativePrice: body.indicativePrice === null ? null : (body.indicativePrice !== undefined ? parseFloat(body.indicativePrice) : undefined),
+    isActive: body.isActive
+  };
+}
+
+// A name or alias may only point at one commodity, otherwise lookups become ambiguous
+function findNameConflict(data: Partial<CommodityData>, commodityId?: string): string | null {
+  const names = [data.name, ...(data.aliases || []), ...Object.values(data.names || {})].filter(Boolean) as string[];
+
+  for (const name of names) {
+    const existing = catalogueService.getCommodity(name);
+    if (existing && existing.id !== commodityId) {
+      return `"${name}" already refers to ${existing.name}`;
+    }
+  }
+  return null;
+}
+
+// Unique violations from concurrent admin edits
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+// GET /api/v1/commodities - Active commodities, optionally within a category and its subcategories
+router.get('/', listValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const commodities = catalogueService.listCommodities({
+      categoryId: req.query.category as string | undefined,
+      includeInactive: req.query.includeInactive === 'true'
+    });
+
+    res.json({
+      success: true,
+      data: {
+        commodities,
+        count: commodities.length
+      }
+    });
+
+  } catch (error) {
+    console.error('List commodities error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve commodities',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/commodities/search?q=kanda - Fuzzy search across English, regional names and aliases
+router.get('/search', searchValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const results = catalogueService.search(req.query.q as string, {
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      categoryId: req.query.category as string | undefined
+    });
+
+    res.json({
+      success: true,
+      data: {
+        query: req.query.q,
+        results,
+        count: results.length
+      }
+    });
+
+  } catch (error) {
+    console.error('Commodity search error:', error);
+    res.status(500).json({
+      error: 'Failed to search commodities',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/commodities/categories - Category hierarchy with commodity counts
+router.get('/categories', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        categories: catalogueService.getCategoryTree()
+      }
+    });
+
+  } catch (error) {
+    console.error('List categories error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve categories',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/v1/commodities/categories (admin)
+router.post('/categories', authenticateToken, requireAdmin, categoryValidation(false), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    if (categoryExists(req.body.id)) {
+      res.status(409).json({
+        error: `Category ${req.body.id} already exists`,
+        code: 'CATEGORY_EXISTS'
+      });
+      return;
+    }
+
+    const category = await catalogueService.createCategory({
+      id: req.body.id,
+      name: req.body.name.trim(),
+      parentId: req.body.parentId,
+      names: req.body.names
+    } as CategoryData);
+
+    res.status(201).json({
+      success: true,
+      data: category
+    });
+
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'Category already exists', code: 'CATEGORY_EXISTS' });
+      return;
+    }
+    console.error('Create category error:', error);
+    res.status(500).json({
+      error: 'Failed to create category',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// PUT /api/v1/commodities/categories/:id (admin) - Partial update; parentId: null moves it to the top level
+router.put('/categories/:id', authenticateToken, requireAdmin, [...idValidation, ...categoryValidation(true)], async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    if (req.body.parentId && catalogueService.wouldCreateCycle(req.params.id, req.body.parentId)) {
+      res.status(400).json({
+        error: 'A category cannot be moved under itself or one of its subcategories',
+        code: 'CATEGORY_CYCLE'
+      });
+      return;
+    }
+
+    const category = await catalogueService.updateCategory(req.params.id, {
+      name: typeof req.body.name === 'string' ? req.body.name.trim() : undefined,
+      parentId: req.body.parentId,
+      names: req.body.names
+    });
+
+    if (!category) {
+      res.status(404).json({
+        error: 'Category not found',
+        code: 'CATEGORY_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: category
+    });
+
+  } catch (error) {
+    console.error('Update category error:', error);
+    res.status(500).json({
+      error: 'Failed to update category',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// DELETE /api/v1/commodities/categories/:id (admin) - Only empty categories
+router.delete('/categories/:id', authenticateToken, requireAdmin, idValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const outcome = await catalogueService.deleteCategory(req.params.id);
+
+    if (outcome === 'in_use') {
+      res.status(409).json({
+        error: 'Category still has commodities or subcategories',
+        code: 'CATEGORY_IN_USE'
+      });
+      return;
+    }
+
+    if (outcome === 'not_found') {
+      res.status(404).json({
+        error: 'Category not found',
+        code: 'CATEGORY_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Category deleted'
+    });
+
+  } catch (error) {
+    console.error('Delete category error:', error);
+    res.status(500).json({
+      error: 'Failed to delete category',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/commodities/:id - By id, or by any name or alias
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const commodity = catalogueService.getCommodity(req.params.id);
+
+    if (!commodity) {
+      res.status(404).json({
+        error: 'Commodity not found',
+        code: 'COMMODITY_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: commodity
+    });
+
+  } catch (error) {
+    console.error('Get commodity error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve commodity',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/v1/commodities (admin)
+router.post('/', authenticateToken, requireAdmin, commodityValidation(false), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const data = { id: req.body.id, ...parseCommodityBody(req.body) } as CommodityData;
+
+    if (catalogueService.listCommodities({ includeInactive: true }).some(commodity => commodity.id === data.id)) {
+      res.status(409).json({
+        error: `Commodity ${data.id} already exists`,
+        code: 'COMMODITY_EXISTS'
+      });
+      return;
+    }
+
+    const conflict = findNameConflict(data);
+    if (conflict) {
+      res.status(409).json({
+        error: conflict,
+        code: 'COMMODITY_NAME_CONFLICT'
+      });
+      return;
+    }
+
+    const commodity = await catalogueService.createCommodity(data);
+
+    res.status(201).json({
+      success: true,
+      data: commodity
+    });
+
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'Commodity id, name or AGMARKNET code already in use', code: 'COMMODITY_EXISTS' });
+      return;
+    }
+    console.error('Create commodity error:', error);
+    res.status(500).json({
+      error: 'Failed to create commodity',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// PUT /api/v1/commodities/:id (admin) - Partial update
+router.put('/:id', authenticateToken, requireAdmin, [...idValidation, ...commodityValidation(true)], async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const data = parseCommodityBody(req.body);
+
+    const conflict = findNameConflict(data, req.params.id);
+    if (conflict) {
+      res.status(409).json({
+        error: conflict,
+        code: 'COMMODITY_NAME_CONFLICT'
+      });
+      return;
+    }
+
+    const commodity = await catalogueService.updateCommodity(req.params.id, data);
+
+    if (!commodity) {
+      res.status(404).json({
+        error: 'Commodity not found',
+        code: 'COMMODITY_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: commodity
+    });
+
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'Commodity name or AGMARKNET code already in use', code: 'COMMODITY_EXISTS' });
+      return;
+    }
+    console.error('Update commodity error:', error);
+    res.status(500).json({
+      error: 'Failed to update commodity',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// DELETE /api/v1/commodities/:id (admin) - Deactivates; price history keeps the name
+router.delete('/:id', authenticateToken, requireAdmin, idValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const deleted = await catalogueService.deleteCommodity(req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({
+        error: 'Commodity not found',
+        code: 'COMMODITY_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Commodity deactivated'
+    });
+
+  } catch (error) {
+    console.error('Delete commodity error:', error);
+    res.status(500).json({
+      error: 'Failed to delete commodity',
+      code: 'CATALOGUE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -9,6 +9,7 @@ import vendorItemsRoutes from './vendor-items.routes';
 import ratingFeedbackRoutes from './rating-feedback.routes';
 import negotiationRoutes from './negotiation.routes';
 import analyticsRoutes from './analytics.routes';
+import commodityCatalogueRoutes from './commodity-catalogue.routes';
 
 const router = Router();
 
@@ -33,5 +34,6 @@ router.use('/vendor/items', vendorItemsRoutes);
 router.use('/ratings', ratingFeedbackRoutes);
 router.use('/negotiation', negotiationRoutes);
 router.use('/analytics', analyticsRoutes);
+router.use('/commodities', commodityCatalogueRoutes);
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,19 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
 import { AIBasedNegotiationAssistant } from '../services/negotiation.service';
+import {
+  NegotiationSessionService,
+  NegotiationSessionOutcome,
+  NegotiationOfferInput
+} from '../services/negotiation-session.service';
+import { DealConfirmationService, DealConfirmationOutcome } from '../services/deal-confirmation.service';
+import { AuctionService, AuctionOutcome } from '../services/auction.service';
+import { NegotiationModelService } from '../services/negotiation-model.service';
+import { CulturalProfileService } from '../services/cultural-profile.service';
+import { VendorProfileService } from '../services/vendor-profile.service';
+import { QUANTITY_UNITS, normalizeUnit } from '../utils/units';
+import { isValidProfileKey, normalizeRegionKey } from '../utils/cultural-profiles';
+import { AuctionInput, validateAuctionInput, viewAuction } from '../utils/auction-rules';
 import {
   MarketContext,
   NegotiationOffer,
@@ -11,12 +24,25 @@ import {
 
 const router = Router();
 const negotiationService = new AIBasedNegotiationAssistant();
+const vendorProfileService = new VendorProfileService();
+const sessionService = NegotiationSessionService.getInstance();
+const dealConfirmationService = DealConfirmationService.getInstance();
+const auctionService = AuctionService.getInstance();
+const modelService = NegotiationModelService.getInstance();
+const culturalProfileService = CulturalProfileService.getInstance();
 
 // Extend Request interface to include user
 interface AuthenticatedRequest extends Request {
   user?: AuthPayload;
 }
 
+// Explanations are written in the language the request asks for, else the vendor's own
+async function explanationLanguage(req: AuthenticatedRequest, requested?: unknown): Promise<string> {
+  return typeof requested === 'string' && requested.trim()
+    ? requested
+    : vendorProfileService.getPreferredLanguage(req.vendor!.vendorId);
+}
+
 // POST /negotiation/suggest-opening-price
 // Get AI-powered opening price suggestion
 router.post('/suggest-opening-price', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
@@ -29,6 +55,15 @@ router.post('/suggest-opening-price', authenticateToken, async (req: Authenticat
       });
     }
 
+    if (context.unit !== undefined && !normalizeUnit(context.unit)) {
+      return res.status(400).json({
+        error: `Unit must be one of: ${QUANTITY_UNITS.join(', ')}`
+      });
+    }
+
+    // Quantity and prices are in the stated unit, else the vendor's preferred unit
+    const unit = normalizeUnit(context.unit) || await vendorProfileService.getPreferredUnit(req.vendor!.vendorId);
+
     const marketContext: MarketContext = {
       commodity,
       quantity,
@@ -36,7 +71,13 @@ router.post('/suggest-opening-price', authenticateToken, async (req: Authenticat
       quality: context.quality,
       deliveryTerms: context.deliveryTerms,
       urgency: context.urgency || 'medium',
-      seasonality: context.seasonality || 'normal'
+      seasonality: context.seasonality, // computed from price history when omitted
+      unit,
+      // The vendor's own deals, and those with this trading partner, personalise the suggestion
+      vendorId: req.vendor!.vendorId,
+      counterpartyId: typeof context.counterpartyId === 'string' ? context.counterpartyId : undefined,
+      sessionId: typeof context.sessionId === 'string' ? context.sessionId : undefined,
+      language: await explanationLanguage(req, context.language)
     };
 
     const suggestion = await negotiationService.suggestOpeningPrice(commodity, quantity, marketContext);
@@ -60,7 +101,7 @@ router.post('/suggest-opening-price', authenticateToken, async (req: Authenticat
 // Analyze a counter-offer and provide recommendations
 router.post('/analyze-offer', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { offer, marketData } = req.body;
+    const { offer, marketData, language } = req.body;
 
     if (!offer || !marketData) {
       return res.status(400).json({
@@ -68,6 +109,13 @@ router.post('/analyze-offer', authenticateToken, async (req: AuthenticatedReques
       });
     }
 
+    if ((offer.unit !== undefined && !normalizeUnit(offer.unit)) ||
+        (marketData.unit !== undefined && !normalizeUnit(marketData.unit))) {
+      return res.status(400).json({
+        error: `Unit must be one of: ${QUANTITY_UNITS.join(', ')}`
+      });
+    }
+
     const negotiationOffer: NegotiationOffer = {
       offerId: offer.offerId,
       sessionId: offer.sessionId,
@@ -77,13 +125,17 @@ router.post('/analyze-offer', authenticateToken, async (req: AuthenticatedReques
       quantity: offer.quantity,
       proposedPrice: offer.proposedPrice,
       currentMarketPrice: offer.currentMarketPrice,
+      unit: normalizeUnit(offer.unit),
       offerType: offer.offerType,
       timestamp: new Date(offer.timestamp),
       expiresAt: offer.expiresAt ? new Date(offer.expiresAt) : undefined,
       terms: offer.terms
     };
 
-    const analysis = await negotiationService.analyzeCounterOffer(negotiationOffer, marketData);
+    const analysis = await negotiationService.analyzeCounterOffer(negotiationOffer, {
+      ...marketData,
+      unit: normalizeUnit(marketData.unit)
+    }, await explanationLanguage(req, language));
 
     res.json({
       success: true,
@@ -104,7 +156,7 @@ router.post('/analyze-offer', authenticateToken, async (req: AuthenticatedReques
 // Get AI recommendation for responding to negotiation
 router.post('/recommend-response', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { negotiationHistory } = req.body;
+    const { negotiationHistory, language } = req.body;
 
     if (!negotiationHistory || !Array.isArray(negotiationHistory)) {
       return res.status(400).json({
@@ -127,7 +179,11 @@ router.post('/recommend-response', authenticateToken, async (req: AuthenticatedR
       aiAssistanceUsed: step.aiAssistanceUsed
     }));
 
-    const recommendation = await negotiationService.recommendResponse(history);
+    const recommendation = await negotiationService.recommendResponse(
+      history,
+      req.vendor!.vendorId,
+      await explanationLanguage(req, language)
+    );
 
     res.json({
       success: true,
@@ -148,7 +204,7 @@ router.post('/recommend-response', authenticateToken, async (req: AuthenticatedR
 // Evaluate a completed deal
 router.post('/evaluate-deal', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { finalPrice, marketPrice } = req.body;
+    const { finalPrice, marketPrice, commodity, variety, unit, counterpartyId, sessionId, terms } = req.body;
 
     if (typeof finalPrice !== 'number' || typeof marketPrice !== 'number') {
       return res.status(400).json({
@@ -156,7 +212,23 @@ router.post('/evaluate-deal', authenticateToken, async (req: AuthenticatedReques
       });
     }
 
-    const evaluation = await negotiationService.evaluateDeal(finalPrice, marketPrice);
+    if (unit !== undefined && !normalizeUnit(unit)) {
+      return res.status(400).json({
+        error: `Unit must be one of: ${QUANTITY_UNITS.join(', ')}`
+      });
+    }
+
+    // Commodity is optional; with it the deal is also checked against MSP. Terms (credit days,
+    // delivery method, moisture tolerance) are valued into the price when given
+    const evaluation = await negotiationService.evaluateDeal(finalPrice, marketPrice, {
+      commodity: typeof commodity === 'string' ? commodity : undefined,
+      variety: typeof variety === 'string' ? variety : undefined,
+      unit: normalizeUnit(unit),
+      vendorId: req.vendor!.vendorId,
+      counterpartyId: typeof counterpartyId === 'string' ? counterpartyId : undefined,
+      sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+      terms: terms && typeof terms === 'object' ? terms : undefined
+    });
 
     res.json({
       success: true,
@@ -202,6 +274,489 @@ router.get('/cultural-profile/:region', authenticateToken, async (req: Authentic
   }
 });
 
+// GET /negotiation/cultural-profiles
+// Every stored cultural profile with its districts and observed outcomes (admin only)
+router.get('/cultural-profiles', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const profiles = await culturalProfileService.listProfiles();
+
+    res.json({
+      success: true,
+      data: profiles,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Cultural profile list error:', error);
+    res.status(500).json({
+      error: 'Failed to list cultural profiles',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// PUT /negotiation/cultural-profiles/:key
+// Create or replace a state or district profile (admin only)
+router.put('/cultural-profiles/:key', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const key = normalizeRegionKey(req.params.key);
+    const { note, expectedVersion, ...profile } = req.body;
+
+    if (!isValidProfileKey(key)) {
+      return res.status(400).json({
+        error: 'Profile key must be a lower-case region or district name'
+      });
+    }
+    if (expectedVersion !== undefined && (!Number.isInteger(expectedVersion) || expectedVersion < 0)) {
+      return res.status(400).json({
+        error: 'expectedVersion must be a non-negative integer'
+      });
+    }
+
+    const result = await culturalProfileService.saveProfile(key, profile, req.vendor!.vendorId, {
+      note: typeof note === 'string' ? note : undefined,
+      expectedVersion
+    });
+
+    if (result.outcome === 'invalid') {
+      return res.status(400).json({
+        error: 'Invalid cultural profile',
+        details: result.errors
+      });
+    }
+    if (result.outcome === 'conflict') {
+      return res.status(409).json({
+        error: result.reason,
+        code: 'CULTURAL_PROFILE_CHANGED'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.profile,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Cultural profile update error:', error);
+    res.status(500).json({
+      error: 'Failed to save cultural profile',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /negotiation/cultural-profiles/:key/history
+// Admin edits and outcome refinements of a profile, newest first (admin only)
+router.get('/cultural-profiles/:key/history', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const profile = await culturalProfileService.getProfile(req.params.key);
+
+    if (!profile) {
+      return res.status(404).json({
+        error: `Cultural profile ${req.params.key} not found`,
+        code: 'CULTURAL_PROFILE_NOT_FOUND'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { profile, changes: await culturalProfileService.getHistory(profile.key) },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Cultural profile history error:', error);
+    res.status(500).json({
+      error: 'Failed to load cultural profile history',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Reads an offer from a request body; returns an error message when it is unusable
+function parseOfferInput(body: any): NegotiationOfferInput | string {
+  const proposedPrice = Number(body?.proposedPrice);
+  if (!(proposedPrice > 0)) {
+    return 'proposedPrice must be a positive number';
+  }
+  if (body.quantity !== undefined && !(Number(body.quantity) > 0)) {
+    return 'quantity must be a positive number';
+  }
+  if (body.unit !== undefined && !normalizeUnit(body.unit)) {
+    return `Unit must be one of: ${QUANTITY_UNITS.join(', ')}`;
+  }
+  if (body.expiresInMinutes !== undefined && !(Number(body.expiresInMinutes) > 0)) {
+    return 'expiresInMinutes must be a positive number';
+  }
+
+  return {
+    proposedPrice,
+    quantity: body.quantity !== undefined ? Number(body.quantity) : undefined,
+    currentMarketPrice: body.currentMarketPrice !== undefined ? Number(body.currentMarketPrice) : undefined,
+    unit: body.unit !== undefined ? normalizeUnit(body.unit)! : undefined,
+    terms: body.terms,
+    final: body.final === true,
+    ttlMs: body.expiresInMinutes !== undefined ? Number(body.expiresInMinutes) * 60 * 1000 : undefined,
+    inReplyTo: body.inReplyTo,
+    message: body.message,
+    aiAssistanceUsed: body.aiAssistanceUsed === true
+  };
+}
+
+function sendSessionOutcome(res: Response, outcome: NegotiationSessionOutcome) {
+  if (outcome.outcome === 'not_found') {
+    return res.status(404).json({ error: 'Negotiation session not found', code: 'SESSION_NOT_FOUND' });
+  }
+  if (outcome.outcome === 'rejected') {
+    return res.status(outcome.code === 'NOT_PARTICIPANT' ? 403 : 409).json({
+      error: outcome.reason,
+      code: outcome.code,
+      // Participants get the current state so they can catch up; outsiders learn nothing
+      state: outcome.code === 'NOT_PARTICIPANT' ? undefined : outcome.session.state,
+      liveOffer: outcome.code === 'NOT_PARTICIPANT' ? undefined : outcome.session.liveOffer
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: outcome.session,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// POST /negotiation/sessions
+// Open a negotiation with an offer to another vendor
+router.post('/sessions', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { counterpartyId, commodity, quantity } = req.body;
+
+    if (!counterpartyId || !commodity || !quantity) {
+      return res.status(400).json({
+        error: 'Missing required fields: counterpartyId, commodity, quantity'
+      });
+    }
+
+    if (counterpartyId === req.vendor!.vendorId) {
+      return res.status(400).json({
+        error: 'Cannot negotiate with yourself'
+      });
+    }
+
+    const input = parseOfferInput(req.body);
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    const session = await sessionService.openSession(req.vendor!.vendorId, counterpartyId, commodity, {
+      ...input,
+      quantity: input.quantity!
+    });
+
+    res.status(201).json({
+      success: true,
+      data: session,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Open negotiation session error:', error);
+    res.status(500).json({
+      error: 'Failed to open negotiation session',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /negotiation/sessions/:sessionId
+// Current state and live offer of a negotiation
+router.get('/sessions/:sessionId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await sessionService.getSession(req.params.sessionId);
+
+    if (!session) {
+      return sendSessionOutcome(res, { outcome: 'not_found' });
+    }
+    if (!session.participants.includes(req.vendor!.vendorId)) {
+      return sendSessionOutcome(res, {
+        outcome: 'rejected',
+        code: 'NOT_PARTICIPANT',
+        reason: 'Only participants can view this negotiation',
+        session
+      });
+    }
+
+    sendSessionOutcome(res, { outcome: 'ok', session });
+
+  } catch (error) {
+    console.error('Get negotiation session error:', error);
+    res.status(500).json({
+      error: 'Failed to get negotiation session',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /negotiation/sessions/:sessionId/counter
+// Counter the live offer; { final: true } makes it take-it-or-leave-it
+router.post('/sessions/:sessionId/counter', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = parseOfferInput(req.body);
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    sendSessionOutcome(res, await sessionService.counter(req.params.sessionId, req.vendor!.vendorId, input));
+
+  } catch (error) {
+    console.error('Counter offer error:', error);
+    res.status(500).json({
+      error: 'Failed to counter offer',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /negotiation/sessions/:sessionId/accept
+// Accept the live offer
+router.post('/sessions/:sessionId/accept', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { inReplyTo, message } = req.body || {};
+
+    sendSessionOutcome(res, await sessionService.accept(req.params.sessionId, req.vendor!.vendorId, { inReplyTo, message }));
+
+  } catch (error) {
+    console.error('Accept offer error:', error);
+    res.status(500).json({
+      error: 'Failed to accept offer',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /negotiation/sessions/:sessionId/reject
+// Walk away from the negotiation
+router.post('/sessions/:sessionId/reject', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { inReplyTo, message } = req.body || {};
+
+    sendSessionOutcome(res, await sessionService.reject(req.params.sessionId, req.vendor!.vendorId, { inReplyTo, message }));
+
+  } catch (error) {
+    console.error('Reject offer error:', error);
+    res.status(500).json({
+      error: 'Failed to reject offer',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+function sendConfirmationOutcome(res: Response, outcome: DealConfirmationOutcome) {
+  switch (outcome.outcome) {
+    case 'not_found':
+      return res.status(404).json({ error: 'Negotiation session not found', code: 'SESSION_NOT_FOUND' });
+    case 'not_participant':
+      return res.status(403).json({ error: 'Only participants can confirm this deal', code: 'NOT_PARTICIPANT' });
+    case 'not_accepted':
+      return res.status(409).json({ error: `Negotiation is ${outcome.state}, not accepted`, code: 'DEAL_NOT_ACCEPTED' });
+    case 'terms_mismatch':
+      return res.status(409).json({
+        error: 'The terms you confirmed are not the accepted terms',
+        code: 'TERMS_MISMATCH',
+        termsHash: outcome.confirmation.termsHash
+      });
+    default:
+      return res.json({
+        success: true,
+        data: outcome.confirmation,
+        timestamp: new Date().toISOString()
+      });
+  }
+}
+
+// GET /negotiation/sessions/:sessionId/confirmation
+// Accepted terms, their hash and who has confirmed them
+router.get('/sessions/:sessionId/confirmation', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    sendConfirmationOutcome(res, await dealConfirmationService.getConfirmation(req.params.sessionId, req.vendor!.vendorId));
+
+  } catch (error) {
+    console.error('Get deal confirmation error:', error);
+    res.status(500).json({
+      error: 'Failed to get deal confirmation',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /negotiation/sessions/:sessionId/confirm
+// Confirm the accepted terms by quoting their termsHash
+router.post('/sessions/:sessionId/confirm', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { termsHash } = req.body || {};
+
+    if (typeof termsHash !== 'string' || !termsHash) {
+      return res.status(400).json({
+        error: 'Missing required field: termsHash'
+      });
+    }
+
+    sendConfirmationOutcome(res, await dealConfirmationService.confirm(req.params.sessionId, req.vendor!.vendorId, termsHash));
+
+  } catch (error) {
+    console.error('Confirm deal error:', error);
+    res.status(500).json({
+      error: 'Failed to confirm deal',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /negotiation/sessions/:sessionId/trade-note
+// Download the bilingual trade note; ?language= overrides the vendor's preferred language
+router.get('/sessions/:sessionId/trade-note', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const language = typeof req.query.language === 'string' ? req.query.language : undefined;
+    const note = await dealConfirmationService.buildTradeNote(req.params.sessionId, req.vendor!.vendorId, language);
+
+    if ('outcome' in note) {
+      return sendConfirmationOutcome(res, note);
+    }
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('Content-Language', note.language === 'en' ? 'en' : `en, ${note.language}`);
+    res.setHeader('Content-Disposition', `attachment; filename="${note.filename}"`);
+    res.send(note.html);
+
+  } catch (error) {
+    console.error('Trade note error:', error);
+    res.status(500).json({
+      error: 'Failed to generate trade note',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Reads an auction from a request body; numbers are left as sent so validation can report them
+function parseAuctionInput(body: any): AuctionInput {
+  const optionalNumber = (value: unknown) => value === undefined || value === null ? undefined : Number(value);
+  const increment = body?.increment;
+
+  return {
+    commodity: body?.commodity,
+    quantity: optionalNumber(body?.quantity),
+    unit: body?.unit !== undefined ? normalizeUnit(body.unit) ?? body.unit : undefined,
+    mode: body?.mode ?? 'english',
+    startingPrice: optionalNumber(body?.startingPrice),
+    reservePrice: optionalNumber(body?.reservePrice),
+    increment: increment !== undefined ? {
+      amount: optionalNumber(increment?.amount),
+      percent: optionalNumber(increment?.percent)
+    } : undefined,
+    durationMs: body?.durationMinutes !== undefined ? Number(body.durationMinutes) * 60 * 1000 : undefined,
+    currentMarketPrice: optionalNumber(body?.currentMarketPrice),
+    terms: body?.terms
+  };
+}
+
+function sendAuctionOutcome(res: Response, outcome: AuctionOutcome, viewerId: string) {
+  if (outcome.outcome === 'not_found') {
+    return res.status(404).json({ error: 'Auction not found', code: 'AUCTION_NOT_FOUND' });
+  }
+  if (outcome.outcome === 'rejected') {
+    const auction = viewAuction(outcome.auction, viewerId);
+    return res.status(outcome.code === 'SELLER_CANNOT_BID' ? 403 : 409).json({
+      error: outcome.reason,
+      code: outcome.code,
+      // Bidders get what they need to try again
+      state: auction.state,
+      minimumBid: auction.minimumBid,
+      version: auction.version
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: viewAuction(outcome.auction, viewerId),
+    timestamp: new Date().toISOString()
+  });
+}
+
+// POST /negotiation/auctions
+// Put a lot up for auction, English (open ascending bids) or sealed-bid
+router.post('/auctions', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = parseAuctionInput(req.body);
+    const errors = validateAuctionInput(input);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid auction',
+        details: errors
+      });
+    }
+
+    const auction = await auctionService.createAuction(req.vendor!.vendorId, input);
+
+    res.status(201).json({
+      success: true,
+      data: viewAuction(auction, req.vendor!.vendorId),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Open auction error:', error);
+    res.status(500).json({
+      error: 'Failed to open auction',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /negotiation/auctions/:auctionId
+// Current state of an auction as the caller may see it
+router.get('/auctions/:auctionId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const auction = await auctionService.getAuction(req.params.auctionId);
+
+    sendAuctionOutcome(res, auction ? { outcome: 'ok', auction } : { outcome: 'not_found' }, req.vendor!.vendorId);
+
+  } catch (error) {
+    console.error('Get auction error:', error);
+    res.status(500).json({
+      error: 'Failed to get auction',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /negotiation/auctions/:auctionId/bids
+// Place a bid; the server decides the order bids land in
+router.post('/auctions/:auctionId/bids', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const amount = Number(req.body?.amount);
+
+    if (!(amount > 0) || !isFinite(amount)) {
+      return res.status(400).json({
+        error: 'amount must be a positive number'
+      });
+    }
+
+    sendAuctionOutcome(
+      res,
+      await auctionService.placeBid(req.params.auctionId, req.vendor!.vendorId, amount),
+      req.vendor!.vendorId
+    );
+
+  } catch (error) {
+    console.error('Place bid error:', error);
+    res.status(500).json({
+      error: 'Failed to place bid',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // POST /negotiation/record-step
 // Record a negotiation step for learning
 router.post('/record-step', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
@@ -217,7 +772,7 @@ router.post('/record-step', authenticateToken, async (req: AuthenticatedRequest,
     const negotiationStep: NegotiationStep = {
       stepId: step.stepId,
       sessionId: step.sessionId,
-      vendorId: step.vendorId,
+      vendorId: req.vendor!.vendorId,
       action: step.action,
       offer: step.offer ? {
         ...step.offer,
@@ -229,11 +784,15 @@ router.post('/record-step', authenticateToken, async (req: AuthenticatedRequest,
       aiAssistanceUsed: step.aiAssistanceUsed
     };
 
-    await negotiationService.recordNegotiationStep(negotiationStep);
+    const outcome = await sessionService.recordStep(negotiationStep);
+    if (outcome.outcome !== 'ok') {
+      return sendSessionOutcome(res, outcome);
+    }
 
     res.json({
       success: true,
       message: 'Negotiation step recorded successfully',
+      data: outcome.session,
       timestamp: new Date().toISOString()
     });
 
@@ -263,7 +822,9 @@ router.post('/learn', authenticateToken, async (req: AuthenticatedRequest, res:
       outcome: learningData.outcome,
       marketConditions: learningData.marketConditions,
       negotiationMetrics: learningData.negotiationMetrics,
-      participantFeedback: learningData.participantFeedback
+      participantFeedback: learningData.participantFeedback,
+      commodity: typeof learningData.commodity === 'string' ? learningData.commodity : undefined,
+      region: typeof learningData.region === 'string' ? learningData.region : undefined
     };
 
     await negotiationService.learnFromNegotiation(data);
@@ -283,6 +844,70 @@ router.post('/learn', authenticateToken, async (req: AuthenticatedRequest, res:
   }
 });
 
+// GET /negotiation/model
+// Active learning model version, its training counts and recent versions (admin only)
+router.get('/model', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const summary = await modelService.describe();
+
+    res.json({
+      success: true,
+      data: summary,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Negotiation model summary error:', error);
+    res.status(500).json({
+      error: 'Failed to load negotiation model',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /negotiation/model/rollback
+// Restore an earlier model version's parameters (admin only)
+router.post('/model/rollback', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const version = Number(req.body.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({
+        error: 'version must be a positive integer'
+      });
+    }
+
+    const result = await modelService.rollback(version, req.vendor!.vendorId);
+
+    if (result.outcome === 'not_found') {
+      return res.status(404).json({
+        error: `Model version ${version} not found`,
+        code: 'MODEL_VERSION_NOT_FOUND'
+      });
+    }
+    if (result.outcome === 'already_active') {
+      return res.status(409).json({
+        error: `Model version ${version} is already active`,
+        code: 'MODEL_VERSION_ACTIVE'
+      });
+    }
+
+    const { parameterSets, ...model } = result.model;
+    res.json({
+      success: true,
+      data: { ...model, scopes: Object.keys(parameterSets) },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Negotiation model rollback error:', error);
+    res.status(500).json({
+      error: 'Failed to roll back negotiation model',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // GET /negotiation/health
 // Health check for negotiation service
 router.get('/health', (req: Request, res: Response) => {
@@ -296,7 +921,12 @@ router.get('/health', (req: Request, res: Response) => {
       'Response recommendations',
       'Deal evaluation',
       'Cultural adaptation',
-      'Learning system'
+      'District cultural profiles with change history',
+      'Learning system',
+      'Versioned learning model with rollback',
+      'Negotiation sessions with offer expiry',
+      'Deal confirmation and trade notes',
+      'Auction sessions (English and sealed-bid)'
     ]
   });
 });
@@ -1,20 +1,77 @@
 import { Router, Request, Response } from 'express';
-import { query, body, validationResult } from 'express-validator';
+import { query, body, param, validationResult } from 'express-validator';
 import { AGMARKNETPriceDiscoveryService } from '../services/price-discovery.service';
-import { authenticateToken } from '../middleware/auth';
+import { MandiLocatorService } from '../services/mandi-locator.service';
+import { ArbitrageService } from '../services/arbitrage.service';
+import { VendorProfileService } from '../services/vendor-profile.service';
+import { CommodityCatalogueService } from '../services/commodity-catalogue.service';
+import {
+  PriceQuarantineService,
+  QuarantineReviewResult,
+  QUARANTINE_REASONS,
+  QUARANTINE_STATUSES
+} from '../services/price-quarantine.service';
+import { PriceSnapshotService } from '../services/price-snapshot.service';
+import {
+  PriceAlertRulesService,
+  CreateAlertRuleData,
+  ALERT_RULE_METRICS,
+  ALERT_RULE_OPERATORS
+} from '../services/price-alert-rules.service';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { CommoditySpec } from '../types';
+import {
+  COMMODITY_GRADES,
+  COMMODITY_VARIETIES,
+  VendorItemQuality,
+  gradeForQuality,
+  normalizeGrade
+} from '../utils/commodity-grades';
+import { QUANTITY_UNITS, normalizeUnit, priceDataInUnit } from '../utils/units';
 
 const router = Router();
 const priceDiscoveryService = new AGMARKNETPriceDiscoveryService();
+const mandiLocatorService = new MandiLocatorService();
+const alertRulesService = new PriceAlertRulesService();
+const arbitrageService = new ArbitrageService();
+const vendorProfileService = new VendorProfileService();
+const catalogueService = CommodityCatalogueService.getInstance();
+const quarantineService = PriceQuarantineService.getInstance();
+const snapshotService = PriceSnapshotService.getInstance();
 
 // Validation middleware
+const searchValidation = [
+  query('q').optional().isLength({ max: 100 }).withMessage('Search text must be at most 100 characters'),
+  query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20'),
+];
+
+const commoditySpecValidation = [
+  query('variety').optional().isLength({ min: 1, max: 100 }).withMessage('Invalid variety'),
+  query('grade').optional().custom(value => !!normalizeGrade(value))
+    .withMessage(`Grade must be one of: ${COMMODITY_GRADES.join(', ')}`),
+  query('quality').optional().isIn(['premium', 'standard', 'economy'])
+    .withMessage('Quality must be premium, standard or economy'),
+];
+
+const unitValidation = query('unit').optional().custom(value => !!normalizeUnit(value))
+  .withMessage(`Unit must be one of: ${QUANTITY_UNITS.join(', ')}`);
+
 const getCurrentPriceValidation = [
   query('commodity').notEmpty().withMessage('Commodity is required').isLength({ max: 100 }),
   query('location').optional().isLength({ max: 100 }).withMessage('Location too long'),
+  ...commoditySpecValidation,
+  unitValidation,
 ];
 
 const getPriceHistoryValidation = [
   query('commodity').notEmpty().withMessage('Commodity is required').isLength({ max: 100 }),
   query('days').isInt({ min: 1, max: 365 }).withMessage('Days must be between 1 and 365'),
+  ...commoditySpecValidation,
+];
+
+const getForecastValidation = [
+  query('commodity').notEmpty().withMessage('Commodity is required').isLength({ max: 100 }),
+  ...commoditySpecValidation,
 ];
 
 const subscribeAlertsValidation = [
@@ -22,104 +79,136 @@ const subscribeAlertsValidation = [
   body('commodities.*').isLength({ min: 1, max: 100 }).withMessage('Invalid commodity name'),
 ];
 
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Shared by create (all required fields enforced) and update (everything optional)
+function alertRuleValidation(isUpdate: boolean) {
+  const required = (field: string) => (isUpdate ? body(field).optional() : body(field));
+
+  return [
+    body('name').optional().isLength({ max: 100 }).withMessage('Name must be at most 100 characters'),
+    required('commodity').notEmpty().withMessage('Commodity is required').isLength({ max: 100 }),
+    body('market').optional({ nullable: true }).isLength({ max: 100 }).withMessage('Market too long'),
+    required('metric').isIn(ALERT_RULE_METRICS).withMessage(`Metric must be one of: ${ALERT_RULE_METRICS.join(', ')}`),
+    required('operator').isIn(ALERT_RULE_OPERATORS).withMessage(`Operator must be one of: ${ALERT_RULE_OPERATORS.join(' ')}`),
+    required('threshold').isFloat().withMessage('Threshold must be a number'),
+    body('windowDays').optional().isInt({ min: 1, max: 90 }).withMessage('Window must be between 1 and 90 days'),
+    body('cooldownMinutes').optional().isInt({ min: 0, max: 10080 }).withMessage('Cooldown must be between 0 and 10080 minutes'),
+    body('quietHours').optional({ nullable: true }).isObject().withMessage('Quiet hours must be { start, end }'),
+    body('quietHours.start').if(body('quietHours').exists({ checkNull: true }))
+      .matches(TIME_OF_DAY).withMessage('Quiet hours start must be HH:MM'),
+    body('quietHours.end').if(body('quietHours').exists({ checkNull: true }))
+      .matches(TIME_OF_DAY).withMessage('Quiet hours end must be HH:MM'),
+    body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  ];
+}
+
+const alertRuleIdValidation = [
+  param('id').isUUID().withMessage('Invalid alert rule id'),
+];
+
+const getNearbyPricesValidation = [
+  query('commodity').notEmpty().withMessage('Commodity is required').isLength({ max: 100 }),
+  query('lat').optional().isFloat({ min: -90, max: 90 }).withMessage('Invalid latitude'),
+  query('lng').optional().isFloat({ min: -180, max: 180 }).withMessage('Invalid longitude'),
+  query('vendorId').optional().isLength({ min: 1, max: 100 }).withMessage('Invalid vendor id'),
+  query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20'),
+  query('maxDistanceKm').optional().isFloat({ min: 1, max: 2000 }).withMessage('Max distance must be between 1 and 2000 km'),
+  query('transportRate').optional().isFloat({ min: 0, max: 100 }).withMessage('Transport rate must be between 0 and 100'),
+  ...commoditySpecValidation
+];
+
+const getArbitrageValidation = [
+  query('commodity').optional().isLength({ min: 1, max: 100 }).withMessage('Invalid commodity'),
+  query('transportRate').optional().isFloat({ min: 0, max: 100 }).withMessage('Transport rate must be between 0 and 100'),
+  query('commissionPercent').optional().isFloat({ min: 0, max: 20 }).withMessage('Commission must be between 0 and 20 percent'),
+  query('minMarginPercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Minimum margin must be between 0 and 100 percent'),
+  query('maxDistanceKm').optional().isFloat({ min: 1, max: 3000 }).withMessage('Max distance must be between 1 and 3000 km'),
+  query('lookbackDays').optional().isInt({ min: 1, max: 90 }).withMessage('Lookback must be between 1 and 90 days'),
+  query('withinState').optional().isBoolean().withMessage('withinState must be true or false'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  ...commoditySpecValidation
+];
+
+const listQuarantineValidation = [
+  query('status').optional().isIn(QUARANTINE_STATUSES).withMessage(`Status must be one of: ${QUARANTINE_STATUSES.join(', ')}`),
+  query('reason').optional().isIn(QUARANTINE_REASONS).withMessage(`Reason must be one of: ${QUARANTINE_REASONS.join(', ')}`),
+  query('commodity').optional().isLength({ min: 1, max: 100 }).withMessage('Invalid commodity'),
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200'),
+  query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be 0 or more'),
+];
+
+const quarantineIdValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid quarantine entry id'),
+];
+
+const reviewQuarantineValidation = [
+  ...quarantineIdValidation,
+  body('minPrice').optional().isFloat({ gt: 0 }).withMessage('Min price must be greater than 0'),
+  body('maxPrice').optional().isFloat({ gt: 0 }).withMessage('Max price must be greater than 0'),
+  body('modalPrice').optional().isFloat({ gt: 0 }).withMessage('Modal price must be greater than 0'),
+  body('note').optional().isString().isLength({ max: 500 }).withMessage('Note must be at most 500 characters'),
+];
+
+const snapshotValidation = [
+  query('since').optional().isInt({ min: 1 }).withMessage('since must be a snapshot version'),
+  query('commodities').optional().isLength({ min: 1, max: 1000 }).withMessage('Commodities must be a comma-separated list'),
+  query('state').optional().isLength({ min: 1, max: 50 }).withMessage('Invalid state'),
+];
+
+// Variety/grade from the query; a vendor item's quality maps onto its matching grade
+function parseCommoditySpec(queryParams: Record<string, any>): CommoditySpec {
+  const { variety, grade, quality } = queryParams as { variety?: string; grade?: string; quality?: VendorItemQuality };
+
+  return {
+    variety: variety || undefined,
+    grade: grade ? normalizeGrade(grade) : (quality ? gradeForQuality(quality) : undefined)
+  };
+}
+
 // GET /api/v1/price-discovery/search - Frontend compatibility endpoint
-router.get('/search', async (req: Request, res: Response): Promise<void> => {
+router.get('/search', searchValidation, async (req: Request, res: Response): Promise<void> => {
   try {
-    const { q } = req.query as { q?: string };
-    
-    // Mock price data for common commodities
-    const mockPriceData = [
-      {
-        id: '1',
-        commodity: 'Rice',
-        currentPrice: 2000,
-        priceRange: { min: 1800, max: 2200, modal: 2000 },
-        volatility: 5.2,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      },
-      {
-        id: '2',
-        commodity: 'Wheat',
-        currentPrice: 2500,
-        priceRange: { min: 2300, max: 2700, modal: 2500 },
-        volatility: 3.8,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      },
-      {
-        id: '3',
-        commodity: 'Cotton',
-        currentPrice: 5500,
-        priceRange: { min: 5200, max: 5800, modal: 5500 },
-        volatility: 8.1,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      },
-      {
-        id: '4',
-        commodity: 'Onion',
-        currentPrice: 1200,
-        priceRange: { min: 1000, max: 1400, modal: 1200 },
-        volatility: 12.5,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      },
-      {
-        id: '5',
-        commodity: 'Potato',
-        currentPrice: 800,
-        priceRange: { min: 700, max: 900, modal: 800 },
-        volatility: 6.3,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      },
-      {
-        id: '6',
-        commodity: 'Tomato',
-        currentPrice: 1500,
-        priceRange: { min: 1200, max: 1800, modal: 1500 },
-        volatility: 15.2,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      },
-      {
-        id: '7',
-        commodity: 'Sugarcane',
-        currentPrice: 350,
-        priceRange: { min: 320, max: 380, modal: 350 },
-        volatility: 4.1,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      },
-      {
-        id: '8',
-        commodity: 'Maize',
-        currentPrice: 1800,
-        priceRange: { min: 1650, max: 1950, modal: 1800 },
-        volatility: 7.8,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      },
-      {
-        id: '9',
-        commodity: 'Turmeric',
-        currentPrice: 8500,
-        priceRange: { min: 8000, max: 9000, modal: 8500 },
-        volatility: 9.2,
-        lastUpdated: new Date(),
-        sources: ['AGMARKNET']
-      }
-    ];
-
-    let results = mockPriceData;
-    
-    if (q && typeof q === 'string') {
-      results = mockPriceData.filter(item => 
-        item.commodity.toLowerCase().includes(q.toLowerCase())
-      );
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
     }
-    
+
+    const { q } = req.query as { q?: string };
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+
+    // Matches names in any language and aliases ("kanda", "प्याज") as well as misspellings
+    const commodities = q && q.trim()
+      ? catalogueService.search(q, { limit }).map(result => result.commodity)
+      : catalogueService.listCommodities().slice(0, limit);
+
+    // Public listing: cached or stored prices only, so a search never fans out into live source fetches
+    const prices = await Promise.allSettled(
+      commodities.map(commodity => priceDiscoveryService.getStoredPrice(commodity.name))
+    );
+
+    const results = commodities.flatMap((commodity, index) => {
+      const price = prices[index];
+      if (price.status !== 'fulfilled' || !price.value) return [];
+
+      return [{
+        id: commodity.id,
+        commodity: commodity.name,
+        names: commodity.names,
+        categoryId: commodity.categoryId,
+        currentPrice: price.value.currentPrice,
+        priceRange: price.value.priceRange,
+        volatility: price.value.volatility,
+        lastUpdated: price.value.lastUpdated,
+        sources: price.value.sources
+      }];
+    });
+
     res.json({
       success: true,
       data: results,
@@ -150,11 +239,14 @@ router.get('/current-price', authenticateToken, getCurrentPriceValidation, async
 
     const { commodity, location } = req.query as { commodity: string; location?: string };
 
-    const priceData = await priceDiscoveryService.getCurrentPrice(commodity, location);
+    const priceData = await priceDiscoveryService.getCurrentPrice(commodity, location, parseCommoditySpec(req.query));
+
+    // Shown in the requested unit, else the vendor's preferred unit
+    const unit = normalizeUnit(req.query.unit as string) || await vendorProfileService.getPreferredUnit(req.vendor!.vendorId);
 
     res.json({
       success: true,
-      data: priceData
+      data: priceDataInUnit(priceData, unit)
     });
 
   } catch (error) {
@@ -167,6 +259,199 @@ router.get('/current-price', authenticateToken, getCurrentPriceValidation, async
   }
 });
 
+// GET /api/v1/price-discovery/current-price/explain
+// The current price with the quotes behind it, which were dropped and why, and how it was served
+router.get('/current-price/explain', authenticateToken, getCurrentPriceValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { commodity, location } = req.query as { commodity: string; location?: string };
+
+    const priceData = await priceDiscoveryService.getCurrentPrice(commodity, location, parseCommoditySpec(req.query));
+
+    res.json({
+      success: true,
+      data: {
+        ...priceData,
+        explanation: priceDiscoveryService.describeProvenance(priceData)
+      }
+    });
+
+  } catch (error) {
+    console.error('Price explanation error:', error);
+    res.status(500).json({
+      error: 'Failed to explain current price',
+      code: 'PRICE_EXPLAIN_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/current-price/explain/:provenanceId
+// A recorded price computation, e.g. the priceProvenanceId of a disputed price suggestion
+router.get('/current-price/explain/:provenanceId', authenticateToken, [
+  param('provenanceId').isUUID().withMessage('Invalid provenance id')
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const priceData = await priceDiscoveryService.getPriceProvenance(req.params.provenanceId);
+
+    if (!priceData) {
+      res.status(404).json({
+        error: 'Price computation not found',
+        code: 'PROVENANCE_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...priceData,
+        explanation: priceDiscoveryService.describeProvenance(priceData)
+      }
+    });
+
+  } catch (error) {
+    console.error('Price provenance lookup error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve price computation',
+      code: 'PRICE_EXPLAIN_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/nearby
+// Prices at the nearest mandis to a point (lat/lng) or a vendor, with transport-adjusted effective price.
+// Optional variety/grade/quality pick what is compared; the common variety at FAQ otherwise.
+// Defaults to the authenticated vendor when neither lat/lng nor vendorId is given.
+router.get('/nearby', authenticateToken, getNearbyPricesValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { commodity, lat, lng, vendorId, limit, maxDistanceKm, transportRate } = req.query as Record<string, string | undefined>;
+
+    if ((lat === undefined) !== (lng === undefined)) {
+      res.status(400).json({
+        error: 'Both lat and lng are required when searching by coordinates',
+        code: 'VALIDATION_ERROR'
+      });
+      return;
+    }
+
+    const result = await mandiLocatorService.getNearestMarketPrices(
+      commodity as string,
+      {
+        lat: lat !== undefined ? parseFloat(lat) : undefined,
+        lng: lng !== undefined ? parseFloat(lng) : undefined,
+        vendorId: lat === undefined ? (vendorId || req.vendor?.vendorId) : undefined
+      },
+      {
+        limit: limit ? parseInt(limit) : undefined,
+        maxDistanceKm: maxDistanceKm ? parseFloat(maxDistanceKm) : undefined,
+        transportRatePerQuintalKm: transportRate ? parseFloat(transportRate) : undefined
+      },
+      parseCommoditySpec(req.query)
+    );
+
+    if (!result) {
+      res.status(404).json({
+        error: 'Location not found',
+        code: 'LOCATION_NOT_FOUND',
+        message: 'Provide lat/lng or a vendor with a known market or coordinates'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Nearby prices error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve nearby market prices',
+      code: 'NEARBY_PRICES_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/arbitrage
+// Spreads between mandi pairs in the vendor's state, net of freight and commission
+router.get('/arbitrage', authenticateToken, getArbitrageValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const {
+      commodity, transportRate, commissionPercent, minMarginPercent, maxDistanceKm, lookbackDays, withinState, limit
+    } = req.query as Record<string, string | undefined>;
+
+    const state = await arbitrageService.getVendorState(req.vendor!.vendorId);
+
+    const result = await arbitrageService.findOpportunities({
+      commodity,
+      spec: parseCommoditySpec(req.query),
+      state: state || undefined,
+      withinState: withinState === 'true',
+      transportRatePerQuintalKm: transportRate ? parseFloat(transportRate) : undefined,
+      commissionPercent: commissionPercent ? parseFloat(commissionPercent) : undefined,
+      minMarginPercent: minMarginPercent ? parseFloat(minMarginPercent) : undefined,
+      maxDistanceKm: maxDistanceKm ? parseFloat(maxDistanceKm) : undefined,
+      lookbackDays: lookbackDays ? parseInt(lookbackDays) : undefined,
+      limit: limit ? parseInt(limit) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Arbitrage error:', error);
+    res.status(500).json({
+      error: 'Failed to find arbitrage opportunities',
+      code: 'ARBITRAGE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // GET /api/v1/price-discovery/price-history
 router.get('/price-history', authenticateToken, getPriceHistoryValidation, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -182,12 +467,14 @@ router.get('/price-history', authenticateToken, getPriceHistoryValidation, async
 
     const { commodity, days } = req.query as { commodity: string; days: string };
 
-    const history = await priceDiscoveryService.getPriceHistory(commodity, parseInt(days));
+    const spec = parseCommoditySpec(req.query);
+    const history = await priceDiscoveryService.getPriceHistory(commodity, parseInt(days), spec);
 
     res.json({
       success: true,
       data: {
         commodity,
+        ...spec,
         days: parseInt(days),
         history
       }
@@ -237,6 +524,90 @@ router.get('/trends', authenticateToken, [
   }
 });
 
+// GET /api/v1/price-discovery/forecast
+// 1/2/4/12-week price forecasts with prediction intervals and the seasonal decomposition behind them
+router.get('/forecast', authenticateToken, getForecastValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { commodity } = req.query as { commodity: string };
+
+    const forecast = await priceDiscoveryService.getPriceForecast(commodity, parseCommoditySpec(req.query));
+
+    if (!forecast) {
+      res.status(404).json({
+        error: 'Insufficient price history',
+        code: 'INSUFFICIENT_HISTORY',
+        message: `Not enough stored prices to forecast ${commodity}`
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: forecast
+    });
+
+  } catch (error) {
+    console.error('Price forecast error:', error);
+    res.status(500).json({
+      error: 'Failed to generate price forecast',
+      code: 'PRICE_FORECAST_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/forecast/backtest
+// Forecast accuracy per horizon, measured by replaying the model over stored history
+router.get('/forecast/backtest', authenticateToken, getForecastValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { commodity } = req.query as { commodity: string };
+
+    const backtest = await priceDiscoveryService.getForecastBacktest(commodity, parseCommoditySpec(req.query));
+
+    if (!backtest) {
+      res.status(404).json({
+        error: 'Insufficient price history',
+        code: 'INSUFFICIENT_HISTORY',
+        message: `Not enough stored prices to backtest ${commodity}`
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: backtest
+    });
+
+  } catch (error) {
+    console.error('Forecast backtest error:', error);
+    res.status(500).json({
+      error: 'Failed to run forecast backtest',
+      code: 'FORECAST_BACKTEST_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // POST /api/v1/price-discovery/subscribe-alerts
 router.post('/subscribe-alerts', authenticateToken, subscribeAlertsValidation, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -274,29 +645,476 @@ router.post('/subscribe-alerts', authenticateToken, subscribeAlertsValidation, a
   }
 });
 
-// GET /api/v1/price-discovery/supported-commodities
-router.get('/supported-commodities', async (req: Request, res: Response) => {
+// Alert rules from a request body; only fields that were sent are included
+function parseAlertRuleBody(requestBody: Record<string, any>): Partial<CreateAlertRuleData> {
+  const { name, commodity, market, metric, operator, threshold, windowDays, cooldownMinutes, quietHours, isActive } = requestBody;
+
+  return {
+    name,
+    commodity,
+    market,
+    metric,
+    operator,
+    threshold: threshold !== undefined ? parseFloat(threshold) : undefined,
+    windowDays: windowDays !== undefined ? parseInt(windowDays) : undefined,
+    cooldownMinutes: cooldownMinutes !== undefined ? parseInt(cooldownMinutes) : undefined,
+    quietHours: quietHours === null ? null : (quietHours ? { start: quietHours.start, end: quietHours.end } : undefined),
+    isActive: isActive !== undefined ? isActive === true || isActive === 'true' : undefined
+  };
+}
+
+// GET /api/v1/price-discovery/alerts
+// The authenticated vendor's alert rules
+router.get('/alerts', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
-    const supportedCommodities = [
-      'Rice', 'Wheat', 'Jowar', 'Bajra', 'Maize', 'Ragi', 'Arhar', 'Moong', 'Urad',
-      'Masoor', 'Gram', 'Groundnut', 'Sesamum', 'Nigerseed', 'Safflower', 'Sunflower',
-      'Soyabean', 'Castor seed', 'Cotton', 'Jute', 'Mesta', 'Sugarcane', 'Potato',
-      'Onion', 'Turmeric', 'Coriander', 'Garlic', 'Ginger', 'Chillies'
-    ];
+    const rules = await alertRulesService.getRules(req.vendor!.vendorId);
 
     res.json({
       success: true,
-      data: {
-        commodities: supportedCommodities,
-        count: supportedCommodities.length
-      }
+      data: rules
     });
 
   } catch (error) {
-    console.error('Supported commodities error:', error);
+    console.error('List alert rules error:', error);
     res.status(500).json({
-      error: 'Failed to retrieve supported commodities',
-      code: 'COMMODITIES_ERROR',
+      error: 'Failed to retrieve alert rules',
+      code: 'ALERT_RULES_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/v1/price-discovery/alerts
+router.post('/alerts', authenticateToken, alertRuleValidation(false), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const rule = await alertRulesService.createRule(
+      req.vendor!.vendorId,
+      parseAlertRuleBody(req.body) as CreateAlertRuleData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: rule
+    });
+
+  } catch (error) {
+    console.error('Create alert rule error:', error);
+    res.status(500).json({
+      error: 'Failed to create alert rule',
+      code: 'ALERT_RULES_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/alerts/:id
+router.get('/alerts/:id', authenticateToken, alertRuleIdValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const rule = await alertRulesService.getRule(req.vendor!.vendorId, req.params.id);
+
+    if (!rule) {
+      res.status(404).json({
+        error: 'Alert rule not found',
+        code: 'ALERT_RULE_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rule
+    });
+
+  } catch (error) {
+    console.error('Get alert rule error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve alert rule',
+      code: 'ALERT_RULES_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// PUT /api/v1/price-discovery/alerts/:id
+// Partial update; send quietHours: null to clear quiet hours
+router.put('/alerts/:id', authenticateToken, [...alertRuleIdValidation, ...alertRuleValidation(true)], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const rule = await alertRulesService.updateRule(req.vendor!.vendorId, req.params.id, parseAlertRuleBody(req.body));
+
+    if (!rule) {
+      res.status(404).json({
+        error: 'Alert rule not found',
+        code: 'ALERT_RULE_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rule
+    });
+
+  } catch (error) {
+    console.error('Update alert rule error:', error);
+    res.status(500).json({
+      error: 'Failed to update alert rule',
+      code: 'ALERT_RULES_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// DELETE /api/v1/price-discovery/alerts/:id
+router.delete('/alerts/:id', authenticateToken, alertRuleIdValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const deleted = await alertRulesService.deleteRule(req.vendor!.vendorId, req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({
+        error: 'Alert rule not found',
+        code: 'ALERT_RULE_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Alert rule deleted'
+    });
+
+  } catch (error) {
+    console.error('Delete alert rule error:', error);
+    res.status(500).json({
+      error: 'Failed to delete alert rule',
+      code: 'ALERT_RULES_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/snapshot?since=3 - Signed offline bundle for the vendor's state and followed commodities
+router.get('/snapshot', authenticateToken, snapshotValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const snapshot = await snapshotService.getSnapshot(req.vendor!.vendorId, {
+      since: req.query.since ? parseInt(req.query.since as string) : undefined,
+      commodities: req.query.commodities ? (req.query.commodities as string).split(',') : undefined,
+      state: req.query.state as string | undefined
+    });
+
+    res.json({
+      success: true,
+      data: snapshot
+    });
+
+  } catch (error) {
+    console.error('Price snapshot error:', error);
+    res.status(500).json({
+      error: 'Failed to build price snapshot',
+      code: 'SNAPSHOT_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/snapshot/public-key - For verifying snapshot signatures
+router.get('/snapshot/public-key', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: snapshotService.getPublicKey()
+    });
+
+  } catch (error) {
+    console.error('Snapshot public key error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve snapshot public key',
+      code: 'SNAPSHOT_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/quarantine (admin) - Prices held back for review, newest first
+router.get('/quarantine', authenticateToken, requireAdmin, listQuarantineValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    // The validator has already limited these to known values
+    const status = QUARANTINE_STATUSES.find(known => known === req.query.status) || 'pending';
+    const reason = QUARANTINE_REASONS.find(known => known === req.query.reason);
+
+    const entries = await quarantineService.listQuarantined({
+      status,
+      reason,
+      commodity: req.query.commodity as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: {
+        entries,
+        count: entries.length
+      }
+    });
+
+  } catch (error) {
+    console.error('List quarantine error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve quarantined prices',
+      code: 'QUARANTINE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/quarantine/:id (admin)
+router.get('/quarantine/:id', authenticateToken, requireAdmin, quarantineIdValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const entry = await quarantineService.getQuarantined(parseInt(req.params.id));
+
+    if (!entry) {
+      res.status(404).json({
+        error: 'Quarantine entry not found',
+        code: 'QUARANTINE_ENTRY_NOT_FOUND'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: entry
+    });
+
+  } catch (error) {
+    console.error('Get quarantine entry error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve quarantined price',
+      code: 'QUARANTINE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Shared 404/409/400 responses for review outcomes; true when a response was sent
+function sendReviewFailure(result: QuarantineReviewResult, res: Response): boolean {
+  if (result.outcome === 'not_found') {
+    res.status(404).json({
+      error: 'Quarantine entry not found',
+      code: 'QUARANTINE_ENTRY_NOT_FOUND'
+    });
+    return true;
+  }
+
+  if (result.outcome === 'already_reviewed') {
+    res.status(409).json({
+      error: `Quarantine entry was already ${result.entry!.status}`,
+      code: 'QUARANTINE_ALREADY_REVIEWED'
+    });
+    return true;
+  }
+
+  if (result.outcome === 'incomplete') {
+    res.status(400).json({
+      error: 'Entry needs a commodity, market, date and a consistent min/modal/max price before it can be approved; supply corrected prices',
+      code: 'QUARANTINE_ENTRY_INCOMPLETE'
+    });
+    return true;
+  }
+
+  return false;
+}
+
+// POST /api/v1/price-discovery/quarantine/:id/approve (admin) - Optionally with corrected prices
+router.post('/quarantine/:id/approve', authenticateToken, requireAdmin, reviewQuarantineValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const result = await quarantineService.approve(parseInt(req.params.id), req.vendor!.vendorId, {
+      minPrice: req.body.minPrice !== undefined ? parseFloat(req.body.minPrice) : undefined,
+      maxPrice: req.body.maxPrice !== undefined ? parseFloat(req.body.maxPrice) : undefined,
+      modalPrice: req.body.modalPrice !== undefined ? parseFloat(req.body.modalPrice) : undefined,
+      note: req.body.note
+    });
+
+    if (sendReviewFailure(result, res)) return;
+
+    // The approved price is now part of the history trends are computed from
+    const trends = await priceDiscoveryService.recalculateAfterCorrection(result.entry!.commodity!);
+
+    res.json({
+      success: true,
+      data: {
+        entry: result.entry,
+        trends
+      }
+    });
+
+  } catch (error) {
+    console.error('Approve quarantine entry error:', error);
+    res.status(500).json({
+      error: 'Failed to approve quarantined price',
+      code: 'QUARANTINE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/v1/price-discovery/quarantine/:id/reject (admin)
+router.post('/quarantine/:id/reject', authenticateToken, requireAdmin, reviewQuarantineValidation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const result = await quarantineService.reject(parseInt(req.params.id), req.vendor!.vendorId, req.body.note);
+
+    if (sendReviewFailure(result, res)) return;
+
+    res.json({
+      success: true,
+      data: result.entry
+    });
+
+  } catch (error) {
+    console.error('Reject quarantine entry error:', error);
+    res.status(500).json({
+      error: 'Failed to reject quarantined price',
+      code: 'QUARANTINE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/supported-commodities
+router.get('/supported-commodities', async (req: Request, res: Response) => {
+  try {
+    const catalogue = catalogueService.listCommodities();
+
+    res.json({
+      success: true,
+      data: {
+        commodities: catalogue.map(commodity => commodity.name),
+        count: catalogue.length,
+        catalogue,
+        categories: catalogueService.getCategoryTree(),
+        varieties: COMMODITY_VARIETIES,
+        grades: COMMODITY_GRADES,
+        units: QUANTITY_UNITS
+      }
+    });
+
+  } catch (error) {
+    console.error('Supported commodities error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve supported commodities',
+      code: 'COMMODITIES_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/v1/price-discovery/sources - Registered price sources with health, latency and coverage
+router.get('/sources', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const sources = priceDiscoveryService.getSourceHealth();
+
+    res.json({
+      success: true,
+      data: {
+        sources,
+        count: sources.length
+      }
+    });
+
+  } catch (error) {
+    console.error('Price sources error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve price sources',
+      code: 'PRICE_SOURCES_ERROR',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
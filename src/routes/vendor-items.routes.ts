@@ -1,9 +1,20 @@
 import { Router, Request, Response } from 'express';
 import { VendorItemsService, CreateVendorItemData, UpdateVendorItemData } from '../services/vendor-items.service';
 import { authenticateToken } from '../middleware/auth';
+import { QUANTITY_UNITS, normalizeUnit } from '../utils/units';
+import { CommodityCatalogueService } from '../services/commodity-catalogue.service';
 
 const router = Router();
 const vendorItemsService = new VendorItemsService();
+const catalogueService = CommodityCatalogueService.getInstance();
+
+// Stores the catalogue name for commodities and categories ("kanda" -> "Onion", "दालें" -> "Pulses");
+// anything else, e.g. "Other", is kept as given
+function canonicalCategory(category: string): string {
+  if (typeof category !== 'string') return category;
+  const commodity = catalogueService.getCommodity(category.trim());
+  return commodity?.name || catalogueService.getCategory(category.trim())?.name || category.trim();
+}
 
 // Apply authentication middleware to all routes
 router.use(authenticateToken);
@@ -19,7 +30,7 @@ router.get('/', async (req: Request, res: Response) => {
     const { category, quality, minPrice, maxPrice, location, status, limit, offset } = req.query;
 
     const filters = {
-      category: category as string,
+      category: category ? canonicalCategory(category as string) : undefined,
       quality: quality as string,
       minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
       maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
@@ -87,7 +98,7 @@ router.post('/', async (req: Request, res: Response) => {
 
     const itemData: CreateVendorItemData = {
       name: req.body.name,
-      category: req.body.category,
+      category: req.body.category ? canonicalCategory(req.body.category) : req.body.category,
       description: req.body.description,
       price: parseFloat(req.body.price),
       unit: req.body.unit,
@@ -121,6 +132,16 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
+    // Store a known unit so item prices can be compared with market prices
+    const unit = normalizeUnit(itemData.unit);
+    if (!unit) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Unit must be one of: ${QUANTITY_UNITS.join(', ')}` 
+      });
+    }
+    itemData.unit = unit;
+
     // Validate quality
     if (!['premium', 'standard', 'economy'].includes(itemData.quality)) {
       return res.status(400).json({ 
@@ -159,7 +180,7 @@ router.put('/:itemId', async (req: Request, res: Response) => {
 
     // Only update fields that are provided
     if (req.body.name !== undefined) updateData.name = req.body.name;
-    if (req.body.category !== undefined) updateData.category = req.body.category;
+    if (req.body.category !== undefined) updateData.category = canonicalCategory(req.body.category);
     if (req.body.description !== undefined) updateData.description = req.body.description;
     if (req.body.price !== undefined) {
       const price = parseFloat(req.body.price);
@@ -171,7 +192,16 @@ router.put('/:itemId', async (req: Request, res: Response) => {
       }
       updateData.price = price;
     }
-    if (req.body.unit !== undefined) updateData.unit = req.body.unit;
+    if (req.body.unit !== undefined) {
+      const unit = normalizeUnit(req.body.unit);
+      if (!unit) {
+        return res.status(400).json({ 
+          success: false, 
+          error: `Unit must be one of: ${QUANTITY_UNITS.join(', ')}` 
+        });
+      }
+      updateData.unit = unit;
+    }
     if (req.body.quantity !== undefined) {
       const quantity = parseInt(req.body.quantity);
       if (quantity < 0) {
@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { VendorProfileService } from '../services/vendor-profile.service';
 import { authenticateToken } from '../middleware/auth';
 import { VendorProfileData, VendorProfileUpdate, VerificationDocument, VendorSearchFilters } from '../types';
+import { QUANTITY_UNITS, normalizeUnit } from '../utils/units';
 
 const router = Router();
 const vendorProfileService = new VendorProfileService();
@@ -40,6 +41,14 @@ router.put('/profile/:vendorId', authenticateToken, async (req: Request, res: Re
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    if (updateData.preferredUnit !== undefined) {
+      const unit = normalizeUnit(updateData.preferredUnit);
+      if (!unit) {
+        return res.status(400).json({ error: `Preferred unit must be one of: ${QUANTITY_UNITS.join(', ')}` });
+      }
+      updateData.preferredUnit = unit;
+    }
+
     const updatedProfile = await vendorProfileService.updateVendorProfile(vendorId, updateData);
     
     res.json({ 
@@ -0,0 +1,122 @@
+/**
+ * Historical price backfill.
+ *
+ * Usage:
+ *   npm run backfill:prices -- <file-or-directory> [...more] [--dry-run] [--batch-size 500] [--source AGMARKNET]
+ *
+ * Accepts AGMARKNET-format CSV exports and data.gov.in JSON dumps. Directories are
+ * scanned (non-recursively) for .csv and .json files.
+ */
+import { readdirSync, statSync } from 'fs';
+import { join, extname } from 'path';
+import { DatabaseManager } from '../config/database';
+import { config } from '../config/environment';
+import { PriceBackfillService, BackfillProgress, BackfillResult } from '../services/price-backfill.service';
+
+interface CliOptions {
+  paths: string[];
+  dryRun: boolean;
+  batchSize?: number;
+  source?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { paths: [], dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--batch-size') {
+      options.batchSize = parseInt(argv[++i]);
+    } else if (arg === '--source') {
+      options.source = argv[++i];
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      options.paths.push(arg);
+    }
+  }
+
+  if (options.paths.length === 0) {
+    throw new Error('At least one file or directory is required');
+  }
+
+  if (options.batchSize !== undefined && (!isFinite(options.batchSize) || options.batchSize < 1)) {
+    throw new Error('--batch-size must be a positive integer');
+  }
+
+  return options;
+}
+
+function expandPaths(paths: string[]): string[] {
+  return paths.flatMap(path => {
+    if (statSync(path).isDirectory()) {
+      return readdirSync(path)
+        .filter(name => ['.csv', '.json'].includes(extname(name).toLowerCase()))
+        .sort()
+        .map(name => join(path, name));
+    }
+    return [path];
+  });
+}
+
+function reportProgress(progress: BackfillProgress): void {
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 100;
+  console.log(
+    `[${progress.source}] ${progress.processed}/${progress.total} (${percent}%) ` +
+    `imported=${progress.imported} quarantined=${progress.quarantined}`
+  );
+}
+
+function reportResult(result: BackfillResult): void {
+  console.log(
+    `[${result.source}] done in ${(result.durationMs / 1000).toFixed(1)}s: ` +
+    `${result.imported} imported, ${result.quarantined} quarantined${result.dryRun ? ' (dry run, nothing written)' : ''}`
+  );
+
+  for (const [reason, count] of Object.entries(result.quarantineReasons)) {
+    console.log(`  ${reason}: ${count}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const files = expandPaths(options.paths);
+  const dbManager = DatabaseManager.getInstance();
+
+  if (!options.dryRun) {
+    await dbManager.initializeConnections(config.database);
+  }
+
+  const backfillService = new PriceBackfillService();
+  let totalImported = 0;
+  let totalQuarantined = 0;
+
+  try {
+    for (const file of files) {
+      const result = await backfillService.importFile(file, {
+        source: options.source,
+        batchSize: options.batchSize,
+        dryRun: options.dryRun,
+        onProgress: reportProgress
+      });
+      reportResult(result);
+      totalImported += result.imported;
+      totalQuarantined += result.quarantined;
+    }
+
+    console.log(`Backfill complete: ${files.length} file(s), ${totalImported} imported, ${totalQuarantined} quarantined`);
+  } finally {
+    if (!options.dryRun) {
+      await dbManager.closeConnections();
+    }
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Backfill failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Loads official MSP notifications into msp_rates.
+ *
+ * Usage:
+ *   npm run msp:load -- <file> [...more] [--crop-year 2025-26] [--season kharif|rabi] [--ref "CCEA, 28 May 2025"] [--dry-run]
+ *
+ * Accepts CSV or JSON with commodity, variety and msp columns. Crop year and season can be
+ * columns or, for single-season notification tables, given on the command line.
+ */
+import { DatabaseManager } from '../config/database';
+import { config } from '../config/environment';
+import { MspService, MspLoadResult } from '../services/msp.service';
+import { CropSeason } from '../types';
+
+interface CliOptions {
+  paths: string[];
+  dryRun: boolean;
+  cropYear?: string;
+  season?: CropSeason;
+  notificationRef?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { paths: [], dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--crop-year') {
+      options.cropYear = argv[++i];
+    } else if (arg === '--season') {
+      options.season = argv[++i]?.toLowerCase() as CropSeason;
+    } else if (arg === '--ref') {
+      options.notificationRef = argv[++i];
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      options.paths.push(arg);
+    }
+  }
+
+  if (options.paths.length === 0) {
+    throw new Error('At least one notification file is required');
+  }
+
+  if (options.season !== undefined && options.season !== 'kharif' && options.season !== 'rabi') {
+    throw new Error('--season must be kharif or rabi');
+  }
+
+  return options;
+}
+
+function reportResult(result: MspLoadResult): void {
+  console.log(
+    `[${result.source}] ${result.rates.length} rate(s) parsed, ${result.loaded} loaded, ` +
+    `${result.errors.length} rejected${result.dryRun ? ' (dry run, nothing written)' : ''}`
+  );
+
+  for (const rate of result.rates) {
+    const label = rate.variety ? `${rate.commodity} (${rate.variety})` : rate.commodity;
+    console.log(`  ${label} ${rate.cropYear} ${rate.season}: ₹${rate.pricePerQuintal}/quintal`);
+  }
+
+  for (const error of result.errors) {
+    console.log(`  row ${error.row}: ${error.reason}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const dbManager = DatabaseManager.getInstance();
+
+  if (!options.dryRun) {
+    await dbManager.initializeConnections(config.database);
+  }
+
+  const mspService = new MspService();
+
+  try {
+    for (const file of options.paths) {
+      reportResult(await mspService.importFile(file, {
+        cropYear: options.cropYear,
+        season: options.season,
+        notificationRef: options.notificationRef,
+        dryRun: options.dryRun
+      }));
+    }
+  } finally {
+    if (!options.dryRun) {
+      await dbManager.closeConnections();
+    }
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('MSP load failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
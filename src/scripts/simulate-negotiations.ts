@@ -0,0 +1,150 @@
+/**
+ * Negotiation strategy backtest.
+ *
+ * Usage:
+ *   npm run simulate:negotiations -- [--scenarios 200] [--seed 1] [--commodity Onion] [--market-price 2000]
+ *                                    [--assisted seller|buyer] [--location Punjab] [--max-rounds 10] [--learn] [--json]
+ *   npm run simulate:negotiations -- --replay [--commodity Onion] [--limit 100] [--max-rounds 10] [--json]
+ *
+ * Synthetic runs pit the negotiation assistant against seeded buyer/seller agents and need no
+ * database. Replays read recorded negotiation_sessions and negotiation_steps from PostgreSQL.
+ */
+import { DatabaseManager } from '../config/database';
+import { config } from '../config/environment';
+import {
+  NegotiationSimulator,
+  NegotiationRole,
+  SimulationReport,
+  SimulationSummary
+} from '../services/negotiation-simulator.service';
+
+interface CliOptions {
+  replay: boolean;
+  scenarios: number;
+  seed: number;
+  commodity?: string;
+  marketPrice?: number;
+  assistedRole: NegotiationRole;
+  location?: string;
+  maxRounds?: number;
+  limit?: number;
+  learn: boolean;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { replay: false, scenarios: 200, seed: 1, assistedRole: 'seller', learn: false, json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--replay') {
+      options.replay = true;
+    } else if (arg === '--learn') {
+      options.learn = true;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--scenarios') {
+      options.scenarios = parseInt(argv[++i]);
+    } else if (arg === '--seed') {
+      options.seed = parseInt(argv[++i]);
+    } else if (arg === '--commodity') {
+      options.commodity = argv[++i];
+    } else if (arg === '--market-price') {
+      options.marketPrice = parseFloat(argv[++i]);
+    } else if (arg === '--assisted') {
+      options.assistedRole = argv[++i] as NegotiationRole;
+    } else if (arg === '--location') {
+      options.location = argv[++i];
+    } else if (arg === '--max-rounds') {
+      options.maxRounds = parseInt(argv[++i]);
+    } else if (arg === '--limit') {
+      options.limit = parseInt(argv[++i]);
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (!isFinite(options.scenarios) || options.scenarios < 1) {
+    throw new Error('--scenarios must be a positive integer');
+  }
+  if (!isFinite(options.seed)) {
+    throw new Error('--seed must be an integer');
+  }
+  if (options.marketPrice !== undefined && !(options.marketPrice > 0)) {
+    throw new Error('--market-price must be a positive number');
+  }
+  if (options.assistedRole !== 'seller' && options.assistedRole !== 'buyer') {
+    throw new Error('--assisted must be seller or buyer');
+  }
+  if (options.maxRounds !== undefined && (!isFinite(options.maxRounds) || options.maxRounds < 2)) {
+    throw new Error('--max-rounds must be at least 2');
+  }
+  if (options.limit !== undefined && (!isFinite(options.limit) || options.limit < 1)) {
+    throw new Error('--limit must be a positive integer');
+  }
+
+  return options;
+}
+
+function formatSummary(label: string, summary: SimulationSummary): string {
+  return `${label.padEnd(10)} ${String(summary.episodes).padStart(5)} episodes  ` +
+    `deal rate ${(summary.dealRate * 100).toFixed(1)}% (${(summary.dealRateWhenPossible * 100).toFixed(1)}% when possible)  ` +
+    `surplus ₹${summary.averageSurplus.toFixed(2)} (${(summary.surplusShare * 100).toFixed(1)}% share)  ` +
+    `rounds ${summary.averageRoundsToClose.toFixed(1)}`;
+}
+
+function reportResult(report: SimulationReport): void {
+  console.log(formatSummary('overall', report));
+
+  for (const [style, summary] of Object.entries(report.byStyle)) {
+    console.log(formatSummary(style, summary!));
+  }
+
+  if (report.actualDealRate !== undefined) {
+    console.log(`recorded deal rate ${(report.actualDealRate * 100).toFixed(1)}%, ` +
+      `price vs recorded deal ₹${report.averagePriceGainVsActual!.toFixed(2)} in the assisted vendor's favour`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const simulator = new NegotiationSimulator({ maxRounds: options.maxRounds, learn: options.learn });
+  let report: SimulationReport;
+
+  if (options.replay) {
+    const dbManager = DatabaseManager.getInstance();
+    await dbManager.initializeConnections(config.database);
+
+    try {
+      const sessions = await NegotiationSimulator.loadRecordedSessions(dbManager.getPostgresClient(), {
+        commodity: options.commodity,
+        limit: options.limit
+      });
+      report = await simulator.replay(sessions);
+    } finally {
+      await dbManager.closeConnections();
+    }
+  } else {
+    report = await simulator.runSynthetic(NegotiationSimulator.generateScenarios({
+      count: options.scenarios,
+      seed: options.seed,
+      commodity: options.commodity,
+      marketPrice: options.marketPrice,
+      assistedRole: options.assistedRole,
+      location: options.location
+    }));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    reportResult(report);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Negotiation simulation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -2,6 +2,8 @@ import { Pool } from 'pg';
 import { MongoClient, Db, Collection } from 'mongodb';
 import { DatabaseManager } from '../config/database';
 import { Vendor, TradeSession, TrustRating, PriceData } from '../types';
+import { ArrivalsAnalyticsService } from './arrivals-analytics.service';
+import { ArbitrageService } from './arbitrage.service';
 
 // Analytics-specific interfaces
 export interface UserInteraction {
@@ -38,6 +40,7 @@ export interface MarketTrendData {
   volatility: number;
   demandLevel: 'high' | 'medium' | 'low';
   supplyLevel: 'high' | 'medium' | 'low';
+  supplyPressureIndex?: number; // 0-100 from arrivals vs. seasonal norm, 50 = normal
   seasonalFactor: number;
   predictedPrice: number;
   confidence: number;
@@ -66,7 +69,7 @@ export interface WeeklyTradingSummary {
 export interface MarketInsight {
   id: string;
   vendorId: string;
-  insightType: 'price_opportunity' | 'market_trend' | 'seasonal_advice' | 'performance_tip';
+  insightType: 'price_opportunity' | 'market_trend' | 'seasonal_advice' | 'performance_tip' | 'arbitrage_opportunity';
   title: string;
   message: string;
   actionable: boolean;
@@ -99,6 +102,8 @@ export class AnalyticsService {
   private metricsCollection: Collection<TradingPerformanceMetrics>;
   private trendsCollection: Collection<MarketTrendData>;
   private insightsCollection: Collection<MarketInsight>;
+  private arrivalsAnalytics: ArrivalsAnalyticsService;
+  private arbitrage: ArbitrageService;
 
   constructor(dependencies?: DatabaseDependencies) {
     if (dependencies) {
@@ -113,6 +118,8 @@ export class AnalyticsService {
     this.metricsCollection = this.mongoDb.collection('trading_metrics');
     this.trendsCollection = this.mongoDb.collection('market_trends');
     this.insightsCollection = this.mongoDb.collection('market_insights');
+    this.arrivalsAnalytics = new ArrivalsAnalyticsService(this.pgPool);
+    this.arbitrage = new ArbitrageService(this.pgPool);
   }
 
   // User Interaction Tracking (Requirement 8.1)
@@ -298,14 +305,27 @@ export class AnalyticsService {
         const arrivals = priceHistory.map(p => parseInt(p.arrivals) || 0);
         const avgArrivals = arrivals.length > 0 ? arrivals.reduce((a, b) => a + b, 0) / arrivals.length : 100;
         
-        const supplyLevel: 'high' | 'medium' | 'low' = 
+        let supplyLevel: 'high' | 'medium' | 'low' = 
           avgArrivals > 200 ? 'high' : avgArrivals > 100 ? 'medium' : 'low';
         
         // Demand level based on price trend and volatility
-        const demandLevel: 'high' | 'medium' | 'low' = 
+        let demandLevel: 'high' | 'medium' | 'low' = 
           trendDirection === 'rising' && volatility > 0.1 ? 'high' : 
           trendDirection === 'falling' ? 'low' : 'medium';
 
+        // Prefer the arrivals signal (arrivals vs. seasonal norm) when there is enough history
+        let supplyPressureIndex: number | undefined;
+        try {
+          const supplySignal = await this.arrivalsAnalytics.getSupplySignal(commodity, region ? { state: region } : {});
+          if (supplySignal) {
+            supplyLevel = supplySignal.supplyLevel;
+            demandLevel = supplySignal.demandLevel;
+            supplyPressureIndex = supplySignal.supplyPressureIndex;
+          }
+        } catch (error) {
+          console.warn(`Supply signal unavailable for ${commodity}, using arrival averages:`, error);
+        }
+
         // Seasonal factor (simplified - would use historical seasonal data)
         const month = new Date().getMonth();
         const seasonalFactor = Math.sin((month / 12) * 2 * Math.PI) * 0.1 + 1;
@@ -322,6 +342,7 @@ export class AnalyticsService {
           volatility,
           demandLevel,
           supplyLevel,
+          supplyPressureIndex,
           seasonalFactor,
           predictedPrice,
           confidence,
@@ -517,6 +538,11 @@ export class AnalyticsService {
         }
       }
       
+      // Cross-mandi spreads in the vendor's state for the commodities they trade
+      if (metrics.commodities.length > 0) {
+        insights.push(...await this.generateArbitrageInsights(vendorId, metrics.commodities));
+      }
+      
       // Performance improvement insights
       if (metrics.successRate < 70) {
         insights.push({
@@ -563,6 +589,39 @@ export class AnalyticsService {
     }
   }
 
+  private async generateArbitrageInsights(vendorId: string, commodities: string[]): Promise<MarketInsight[]> {
+    const insights: MarketInsight[] = [];
+
+    try {
+      const state = await this.arbitrage.getVendorState(vendorId);
+      if (!state) return insights;
+
+      for (const commodity of commodities) {
+        const { opportunities } = await this.arbitrage.findOpportunities({ commodity, state, minMarginPercent: 3, limit: 1 });
+        const best = opportunities[0];
+        if (!best) continue;
+
+        insights.push({
+          id: `insight_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          vendorId,
+          insightType: 'arbitrage_opportunity',
+          title: `Buy ${commodity} in ${best.buyMarket.market}, sell in ${best.sellMarket.market}`,
+          message: `${commodity} is ₹${best.buyMarket.modalPrice}/quintal in ${best.buyMarket.market} and ₹${best.sellMarket.modalPrice}/quintal in ${best.sellMarket.market}. After transport and commission the margin is about ₹${best.netMarginPerQuintal}/quintal (${best.marginPercent.toFixed(1)}%).`,
+          actionable: true,
+          priority: best.marginPercent >= 8 && best.volatilityLevel !== 'high' ? 'high' : 'medium',
+          relatedCommodities: [commodity],
+          validUntil: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000), // mandi spreads close quickly
+          createdAt: new Date(),
+          delivered: false
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to generate arbitrage insights:', error instanceof Error ? error.message : error);
+    }
+
+    return insights;
+  }
+
   // Deliver insights to vendors (Requirement 8.5)
   async deliverInsights(vendorId: string): Promise<void> {
     try {
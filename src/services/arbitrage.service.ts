@@ -0,0 +1,247 @@
+import { Pool } from 'pg';
+import { DatabaseManager } from '../config/database';
+import { GeoPoint, haversineDistanceKm, isValidCoordinate } from '../utils/geo';
+import { CommoditySpec } from '../types';
+import { normalizeVariety } from '../utils/commodity-grades';
+import { DEFAULT_TRANSPORT_RATE_PER_QUINTAL_KM } from './mandi-locator.service';
+
+export interface MarketQuote {
+  commodity: string;
+  variety: string;
+  grade: string;
+  market: string;
+  state: string;
+  date: Date;
+  modalPrice: number;
+  averagePrice: number;
+  volatility: number; // coefficient of variation of the modal price over the lookback
+  samples: number;
+  coordinates?: GeoPoint;
+}
+
+export interface ArbitrageOptions {
+  commodity?: string;
+  spec?: CommoditySpec;
+  state?: string;
+  withinState?: boolean;          // both mandis in the state, rather than either
+  transportRatePerQuintalKm?: number;
+  commissionPercent?: number;
+  minMarginPercent?: number;
+  maxDistanceKm?: number;
+  lookbackDays?: number;
+  limit?: number;
+}
+
+export interface ArbitrageOpportunity {
+  commodity: string;
+  variety: string;
+  grade: string;
+  buyMarket: { market: string; state: string; modalPrice: number; date: Date; volatility: number };
+  sellMarket: { market: string; state: string; modalPrice: number; date: Date; volatility: number };
+  distanceKm: number;
+  grossSpread: number;            // ₹ per quintal, before costs
+  transportCostPerQuintal: number;
+  commissionPerQuintal: number;
+  netMarginPerQuintal: number;
+  marginPercent: number;          // net margin over the landed cost
+  stabilityScore: number;         // 1 = steady prices at both mandis, 0 = very volatile
+  volatilityLevel: 'low' | 'medium' | 'high';
+  score: number;
+}
+
+export interface ArbitrageResult {
+  state?: string;
+  transportRatePerQuintalKm: number;
+  commissionPercent: number;
+  marketsCompared: number;
+  marketsWithoutLocation: string[];
+  opportunities: ArbitrageOpportunity[];
+}
+
+// Commission agent's cut plus market fee, charged on both the purchase and the sale
+const DEFAULT_COMMISSION_PERCENT = 2;
+const DEFAULT_LOOKBACK_DAYS = 14;
+const DEFAULT_LIMIT = 20;
+// Coefficient of variation at which a mandi's price is considered too erratic to plan a trip around
+const MAX_TOLERATED_VOLATILITY = 0.3;
+
+/**
+ * Finds buy-low/sell-high spreads for the same commodity, variety and grade between mandi pairs,
+ * net of freight and commission.
+ */
+export class ArbitrageService {
+  private readonly pgPool: Pool;
+
+  constructor(pgPool?: Pool) {
+    this.pgPool = pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+
+  async findOpportunities(options: ArbitrageOptions = {}): Promise<ArbitrageResult> {
+    const quotes = await this.getLatestQuotes(options);
+    return this.rankOpportunities(quotes, options);
+  }
+
+  async getVendorState(vendorId: string): Promise<string | null> {
+    const result = await this.pgPool.query('SELECT state FROM vendors WHERE id = $1', [vendorId]);
+    return result.rows[0]?.state || null;
+  }
+
+  rankOpportunities(quotes: MarketQuote[], options: ArbitrageOptions = {}): ArbitrageResult {
+    const transportRate = options.transportRatePerQuintalKm ?? DEFAULT_TRANSPORT_RATE_PER_QUINTAL_KM;
+    const commissionPercent = options.commissionPercent ?? DEFAULT_COMMISSION_PERCENT;
+    const commission = commissionPercent / 100;
+    const state = options.state?.toLowerCase();
+
+    const located = quotes.filter(quote => isValidCoordinate(quote.coordinates));
+    const marketsWithoutLocation = [...new Set(
+      quotes.filter(quote => !isValidCoordinate(quote.coordinates)).map(quote => quote.market)
+    )];
+
+    // Only like-for-like produce can be traded across mandis
+    const groups = new Map<string, MarketQuote[]>();
+    for (const quote of located) {
+      const key = [quote.commodity, quote.variety, quote.grade].join('|').toLowerCase();
+      groups.set(key, [...(groups.get(key) || []), quote]);
+    }
+
+    const opportunities: ArbitrageOpportunity[] = [];
+
+    for (const group of groups.values()) {
+      for (const buy of group) {
+        for (const sell of group) {
+          if (buy === sell || sell.modalPrice <= buy.modalPrice) continue;
+
+          if (state) {
+            const buyInState = buy.state.toLowerCase() === state;
+            const sellInState = sell.state.toLowerCase() === state;
+            if (options.withinState ? !(buyInState && sellInState) : !(buyInState || sellInState)) continue;
+          }
+
+          const distanceKm = haversineDistanceKm(buy.coordinates!, sell.coordinates!);
+          if (options.maxDistanceKm !== undefined && distanceKm > options.maxDistanceKm) continue;
+
+          const transportCost = distanceKm * transportRate;
+          const commissionCost = (buy.modalPrice + sell.modalPrice) * commission;
+          const netMargin = sell.modalPrice - buy.modalPrice - transportCost - commissionCost;
+          const landedCost = buy.modalPrice * (1 + commission) + transportCost;
+          const marginPercent = (netMargin / landedCost) * 100;
+
+          if (netMargin <= 0 || marginPercent < (options.minMarginPercent ?? 0)) continue;
+
+          const volatility = Math.max(buy.volatility, sell.volatility);
+          const stabilityScore = Math.max(0, 1 - volatility / MAX_TOLERATED_VOLATILITY);
+
+          opportunities.push({
+            commodity: buy.commodity,
+            variety: buy.variety,
+            grade: buy.grade,
+            buyMarket: this.toLeg(buy),
+            sellMarket: this.toLeg(sell),
+            distanceKm: this.round(distanceKm, 1),
+            grossSpread: this.round(sell.modalPrice - buy.modalPrice),
+            transportCostPerQuintal: this.round(transportCost),
+            commissionPerQuintal: this.round(commissionCost),
+            netMarginPerQuintal: this.round(netMargin),
+            marginPercent: this.round(marginPercent),
+            stabilityScore: this.round(stabilityScore),
+            // Same thresholds as calculatePriceRanges
+            volatilityLevel: volatility < 0.05 ? 'low' : volatility < 0.15 ? 'medium' : 'high',
+            score: this.round(marginPercent * stabilityScore)
+          });
+        }
+      }
+    }
+
+    opportunities.sort((a, b) => b.score - a.score || b.netMarginPerQuintal - a.netMarginPerQuintal);
+
+    return {
+      state: options.state,
+      transportRatePerQuintalKm: transportRate,
+      commissionPercent,
+      marketsCompared: located.length,
+      marketsWithoutLocation,
+      opportunities: opportunities.slice(0, options.limit || DEFAULT_LIMIT)
+    };
+  }
+
+  private async getLatestQuotes(options: ArbitrageOptions): Promise<MarketQuote[]> {
+    const params: any[] = [options.lookbackDays || DEFAULT_LOOKBACK_DAYS];
+    let filters = '';
+
+    if (options.commodity) {
+      params.push(options.commodity);
+      filters += ` AND commodity = $${params.length}`;
+    }
+
+    if (options.spec?.variety) {
+      // Stored varieties use the canonical spelling; without a commodity there is none to pick, so ignore case
+      params.push(normalizeVariety(options.commodity || '', options.spec.variety));
+      filters += options.commodity
+        ? ` AND variety = $${params.length}`
+        : ` AND LOWER(variety) = LOWER($${params.length})`;
+    }
+
+    if (options.spec?.grade) {
+      params.push(options.spec.grade);
+      filters += ` AND grade = $${params.length}`;
+    }
+
+    const result = await this.pgPool.query(`
+      WITH recent AS (
+        SELECT commodity, variety, grade, market, state, date, modal_price
+        FROM market_data
+        WHERE date >= CURRENT_DATE - $1::int AND modal_price > 0${filters}
+      ),
+      stats AS (
+        SELECT commodity, variety, grade, LOWER(market) AS market_key,
+               AVG(modal_price) AS average_price, STDDEV_SAMP(modal_price) AS stddev_price, COUNT(*) AS samples
+        FROM recent
+        GROUP BY commodity, variety, grade, LOWER(market)
+      )
+      SELECT DISTINCT ON (r.commodity, r.variety, r.grade, LOWER(r.market))
+             r.commodity, r.variety, r.grade, r.market, r.state, r.date, r.modal_price,
+             s.average_price, s.stddev_price, s.samples, m.latitude, m.longitude
+      FROM recent r
+      JOIN stats s ON s.commodity = r.commodity AND s.variety = r.variety AND s.grade = r.grade
+        AND s.market_key = LOWER(r.market)
+      LEFT JOIN mandis m ON LOWER(m.name) = LOWER(r.market) AND m.is_active = true
+      ORDER BY r.commodity, r.variety, r.grade, LOWER(r.market), r.date DESC
+    `, params);
+
+    return result.rows.map((row: any) => {
+      const averagePrice = parseFloat(row.average_price);
+      const stddev = parseFloat(row.stddev_price);
+      const coordinates = { lat: parseFloat(row.latitude), lng: parseFloat(row.longitude) };
+
+      return {
+        commodity: row.commodity,
+        variety: row.variety,
+        grade: row.grade,
+        market: row.market,
+        state: row.state,
+        date: new Date(row.date),
+        modalPrice: parseFloat(row.modal_price),
+        averagePrice,
+        // A single quote tells us nothing about stability; treat it as moderately volatile
+        volatility: isFinite(stddev) && averagePrice > 0 ? stddev / averagePrice : 0.1,
+        samples: parseInt(row.samples),
+        coordinates: isValidCoordinate(coordinates) ? coordinates : undefined
+      };
+    });
+  }
+
+  private toLeg(quote: MarketQuote): ArbitrageOpportunity['buyMarket'] {
+    return {
+      market: quote.market,
+      state: quote.state,
+      modalPrice: quote.modalPrice,
+      date: quote.date,
+      volatility: this.round(quote.volatility, 4)
+    };
+  }
+
+  private round(value: number, decimals: number = 2): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -0,0 +1,330 @@
+import { Pool } from 'pg';
+import { DatabaseManager } from '../config/database';
+
+export interface ArrivalObservation {
+  date: Date;
+  arrivals: number;
+  price: number;
+}
+
+export interface SupplyScope {
+  market?: string;
+  state?: string;
+}
+
+export interface ArrivalAnomaly {
+  date: Date;
+  arrivals: number;
+  norm: number;
+  ratio: number;
+  type: 'glut' | 'shortage';
+}
+
+export interface PriceElasticity {
+  coefficient: number; // % price change per 1% change in arrivals (usually negative)
+  rSquared: number;
+  samples: number;
+}
+
+export interface SupplySignal extends SupplyScope {
+  commodity: string;
+  asOf: Date;
+  recentArrivals: number;      // mean daily arrivals over the last week
+  seasonalNorm: number;        // typical daily arrivals for this time of year
+  normBasis: 'seasonal' | 'trailing';
+  arrivalsRatio: number;
+  zScore: number;
+  anomaly: 'glut' | 'shortage' | null;
+  recentAnomalies: ArrivalAnomaly[];
+  elasticity: PriceElasticity | null;
+  expectedPriceImpactPercent: number | null; // price move the current arrivals level implies
+  supplyPressureIndex: number; // 0-100, 50 = normal
+  supplyLevel: 'high' | 'medium' | 'low';
+  demandLevel: 'high' | 'medium' | 'low';
+}
+
+interface DailyArrivals {
+  day: number;
+  arrivals: number;
+  price: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_OBSERVATIONS = 14;
+const RECENT_DAYS = 7;
+const TRAILING_NORM_DAYS = 28;
+const ANOMALY_LOOKBACK_DAYS = 30;
+const ANOMALY_Z = 2;
+const MIN_LOG_SPREAD = 0.05;
+const DEMAND_RESIDUAL_PERCENT = 3;
+
+/**
+ * Supply/demand analytics from mandi arrivals: arrival anomalies against the seasonal norm,
+ * price elasticity to arrivals, and a supply-pressure index.
+ */
+export class ArrivalsAnalyticsService {
+  private readonly pgPool: Pool;
+
+  constructor(pgPool?: Pool) {
+    this.pgPool = pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+
+  async getSupplySignal(commodity: string, scope: SupplyScope = {}, lookbackDays: number = 730): Promise<SupplySignal | null> {
+    const params: any[] = [commodity, lookbackDays];
+    let scopeFilter = '';
+
+    if (scope.market) {
+      params.push(scope.market);
+      scopeFilter += ` AND LOWER(market) = LOWER($${params.length})`;
+    }
+
+    if (scope.state) {
+      params.push(scope.state);
+      scopeFilter += ` AND LOWER(state) = LOWER($${params.length})`;
+    }
+
+    const result = await this.pgPool.query(`
+      SELECT date, SUM(arrivals) as arrivals, AVG(modal_price) as price
+      FROM market_data
+      WHERE commodity = $1 AND date >= CURRENT_DATE - $2::int${scopeFilter}
+      GROUP BY date
+      ORDER BY date ASC
+    `, params);
+
+    const series: ArrivalObservation[] = (result?.rows || []).map((row: any) => ({
+      date: new Date(row.date),
+      arrivals: parseFloat(row.arrivals),
+      price: parseFloat(row.price)
+    }));
+
+    return this.computeSupplySignal(commodity, scope, series);
+  }
+
+  /**
+   * Stores the day's index so dashboards and other services can read it without recomputing.
+   */
+  async publishSupplyPressure(signal: SupplySignal): Promise<void> {
+    await this.pgPool.query(`
+      INSERT INTO supply_pressure_index
+        (commodity, market, state, date, pressure_index, supply_level, arrivals_ratio, z_score, norm_basis, price_elasticity)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (commodity, market, state, date) DO UPDATE SET
+        pressure_index = EXCLUDED.pressure_index,
+        supply_level = EXCLUDED.supply_level,
+        arrivals_ratio = EXCLUDED.arrivals_ratio,
+        z_score = EXCLUDED.z_score,
+        norm_basis = EXCLUDED.norm_basis,
+        price_elasticity = EXCLUDED.price_elasticity,
+        computed_at = NOW()
+    `, [
+      signal.commodity,
+      signal.market || '',
+      signal.state || '',
+      signal.asOf,
+      signal.supplyPressureIndex,
+      signal.supplyLevel,
+      signal.arrivalsRatio,
+      signal.zScore,
+      signal.normBasis,
+      signal.elasticity?.coefficient ?? null
+    ]);
+  }
+
+  /**
+   * Latest published index for each commodity and scope.
+   */
+  async getPublishedSupplyPressure(commodity?: string): Promise<Array<{
+    commodity: string;
+    market?: string;
+    state?: string;
+    date: Date;
+    supplyPressureIndex: number;
+    supplyLevel: 'high' | 'medium' | 'low';
+  }>> {
+    const result = await this.pgPool.query(`
+      SELECT DISTINCT ON (commodity, market, state) commodity, market, state, date, pressure_index, supply_level
+      FROM supply_pressure_index
+      ${commodity ? 'WHERE commodity = $1' : ''}
+      ORDER BY commodity, market, state, date DESC
+    `, commodity ? [commodity] : []);
+
+    return result.rows.map((row: any) => ({
+      commodity: row.commodity,
+      market: row.market || undefined,
+      state: row.state || undefined,
+      date: new Date(row.date),
+      supplyPressureIndex: parseFloat(row.pressure_index),
+      supplyLevel: row.supply_level
+    }));
+  }
+
+  computeSupplySignal(commodity: string, scope: SupplyScope, observations: ArrivalObservation[]): SupplySignal | null {
+    const series = this.toDailySeries(observations);
+    if (series.length < MIN_OBSERVATIONS) return null;
+
+    const lastDay = series[series.length - 1].day;
+    const recent = series.filter(point => point.day > lastDay - RECENT_DAYS);
+    const history = series.filter(point => point.day <= lastDay - RECENT_DAYS);
+    if (recent.length === 0 || history.length < RECENT_DAYS) return null;
+
+    const { normFor, basis, comparison } = this.buildNorm(history, lastDay);
+    const norm = normFor(lastDay);
+
+    const spread = Math.max(MIN_LOG_SPREAD, this.standardDeviation(comparison.map(point => Math.log(point.arrivals / normFor(point.day)))));
+    const recentArrivals = this.mean(recent.map(point => point.arrivals));
+    const logRatio = Math.log(recentArrivals / norm);
+    const zScore = logRatio / spread;
+
+    const recentAnomalies: ArrivalAnomaly[] = series
+      .filter(point => point.day > lastDay - ANOMALY_LOOKBACK_DAYS)
+      .map(point => ({ point, dayNorm: normFor(point.day) }))
+      .filter(({ point, dayNorm }) => Math.abs(Math.log(point.arrivals / dayNorm) / spread) >= ANOMALY_Z)
+      .map(({ point, dayNorm }) => ({
+        date: new Date(point.day * DAY_MS),
+        arrivals: point.arrivals,
+        norm: this.round(dayNorm),
+        ratio: this.round(point.arrivals / dayNorm),
+        type: point.arrivals > dayNorm ? 'glut' as const : 'shortage' as const
+      }));
+
+    const elasticity = this.estimateElasticity(series);
+    const supplyPressureIndex = Math.round(50 + 50 * Math.tanh(zScore / 2));
+
+    return {
+      commodity,
+      ...scope,
+      asOf: new Date(lastDay * DAY_MS),
+      recentArrivals: this.round(recentArrivals),
+      seasonalNorm: this.round(norm),
+      normBasis: basis,
+      arrivalsRatio: this.round(recentArrivals / norm),
+      zScore: this.round(zScore),
+      anomaly: zScore >= ANOMALY_Z ? 'glut' : zScore <= -ANOMALY_Z ? 'shortage' : null,
+      recentAnomalies,
+      elasticity,
+      expectedPriceImpactPercent: elasticity ? this.round((Math.exp(elasticity.coefficient * logRatio) - 1) * 100) : null,
+      supplyPressureIndex,
+      supplyLevel: supplyPressureIndex >= 65 ? 'high' : supplyPressureIndex <= 35 ? 'low' : 'medium',
+      demandLevel: this.inferDemandLevel(recent, history, elasticity)
+    };
+  }
+
+  private toDailySeries(observations: ArrivalObservation[]): DailyArrivals[] {
+    return observations
+      .filter(o => isFinite(o.arrivals) && o.arrivals > 0 && isFinite(o.price) && o.price > 0)
+      .map(o => {
+        const when = new Date(o.date);
+        return {
+          day: Date.UTC(when.getFullYear(), when.getMonth(), when.getDate()) / DAY_MS,
+          arrivals: o.arrivals,
+          price: o.price
+        };
+      })
+      .filter(point => isFinite(point.day))
+      .sort((a, b) => a.day - b.day);
+  }
+
+  /**
+   * With a year or more of history the norm for a day is the median arrivals in the same month
+   * of previous years; otherwise it is the median of the four weeks before the recent window.
+   */
+  private buildNorm(history: DailyArrivals[], lastDay: number): {
+    normFor: (day: number) => number;
+    basis: 'seasonal' | 'trailing';
+    comparison: DailyArrivals[];
+  } {
+    const span = history[history.length - 1].day - history[0].day;
+    const month = this.monthOf(lastDay);
+    const sameMonth = history.filter(point => this.monthOf(point.day) === month);
+
+    if (span >= 365 && sameMonth.length >= RECENT_DAYS) {
+      const byMonth = new Map<number, number>();
+      for (let m = 0; m < 12; m++) {
+        const values = history.filter(point => this.monthOf(point.day) === m).map(point => point.arrivals);
+        if (values.length > 0) byMonth.set(m, this.median(values));
+      }
+      const overall = this.median(history.map(point => point.arrivals));
+
+      return {
+        normFor: day => byMonth.get(this.monthOf(day)) ?? overall,
+        basis: 'seasonal',
+        comparison: history
+      };
+    }
+
+    const trailing = history.filter(point => point.day > lastDay - RECENT_DAYS - TRAILING_NORM_DAYS);
+    const comparison = trailing.length >= RECENT_DAYS ? trailing : history;
+    const norm = this.median(comparison.map(point => point.arrivals));
+
+    return { normFor: () => norm, basis: 'trailing', comparison };
+  }
+
+  // Log-log regression of price on arrivals
+  private estimateElasticity(series: DailyArrivals[]): PriceElasticity | null {
+    const xs = series.map(point => Math.log(point.arrivals));
+    const ys = series.map(point => Math.log(point.price));
+    const meanX = this.mean(xs);
+    const meanY = this.mean(ys);
+
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (let i = 0; i < xs.length; i++) {
+      sxx += (xs[i] - meanX) ** 2;
+      sxy += (xs[i] - meanX) * (ys[i] - meanY);
+      syy += (ys[i] - meanY) ** 2;
+    }
+
+    if (sxx === 0 || syy === 0) return null;
+
+    return {
+      coefficient: Math.round((sxy / sxx) * 1000) / 1000,
+      rSquared: Math.round(((sxy * sxy) / (sxx * syy)) * 1000) / 1000,
+      samples: series.length
+    };
+  }
+
+  /**
+   * Demand is read from the part of the week-on-week price move that arrivals do not explain:
+   * prices rising faster than supply alone implies means buyers are keen.
+   */
+  private inferDemandLevel(
+    recent: DailyArrivals[],
+    history: DailyArrivals[],
+    elasticity: PriceElasticity | null
+  ): 'high' | 'medium' | 'low' {
+    const previous = history.slice(-RECENT_DAYS);
+    const priceChange = (this.mean(recent.map(p => p.price)) / this.mean(previous.map(p => p.price)) - 1) * 100;
+    const arrivalsRatio = this.mean(recent.map(p => p.arrivals)) / this.mean(previous.map(p => p.arrivals));
+    const explained = elasticity ? (Math.pow(arrivalsRatio, elasticity.coefficient) - 1) * 100 : 0;
+    const residual = priceChange - explained;
+
+    if (residual > DEMAND_RESIDUAL_PERCENT) return 'high';
+    if (residual < -DEMAND_RESIDUAL_PERCENT) return 'low';
+    return 'medium';
+  }
+
+  private monthOf(day: number): number {
+    return new Date(day * DAY_MS).getUTCMonth();
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((a, b) => a + b, 0) / values.length;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+
+  private standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = this.mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
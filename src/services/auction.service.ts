@@ -0,0 +1,407 @@
+import { Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { AuctionBid, AuctionSession, AuctionState, NegotiationOffer } from '../types';
+import {
+  AuctionBidError,
+  AuctionInput,
+  DEFAULT_BID_INCREMENT,
+  auctionCloseTime,
+  checkBid,
+  highestBid,
+  meetsReserve,
+  minimumBid,
+  withoutAmount
+} from '../utils/auction-rules';
+
+export type AuctionOutcome =
+  | { outcome: 'ok'; auction: AuctionSession }
+  | { outcome: 'not_found' }
+  | { outcome: 'rejected'; code: AuctionBidError; reason: string; auction: AuctionSession };
+
+export interface AuctionUpdateEvent {
+  auctionId: string;
+  action: 'open' | 'bid' | 'close';
+  state: AuctionState;
+  version: number;          // apply updates in this order; the server assigns it under the row lock
+  bid?: AuctionBid;         // the amount is withheld while a sealed-bid auction is open
+  currentPrice?: number;
+  minimumBid?: number;
+  bidCount: number;
+  closesAt: Date;
+  winningBid?: AuctionBid;
+  at: Date;
+}
+
+/**
+ * Delivers auction updates to everyone watching and to the seller and bidders; Socket.IO in production.
+ */
+export interface AuctionEventTransport {
+  publish(auctionId: string, vendorIds: string[], event: AuctionUpdateEvent): void;
+}
+
+const AUCTION_COLUMNS = `auction_id, seller_id, commodity, quantity, unit, mode, state, starting_price, reserve_price,
+  increment_amount, increment_percent, current_market_price, terms, current_price, leading_bidder_id, bid_count,
+  version, winning_bid_id, opened_at, closes_at, closed_at`;
+
+/**
+ * Auction sessions where several buyers bid on one seller's lot. Bids are taken under a row
+ * lock on the auction, which fixes their order and the leading bid; a sweep closes auctions whose
+ * timer has run out. A sold lot becomes an accepted negotiation session between seller and
+ * winner, so confirmation and the trade note work as they do for negotiated deals.
+ */
+export class AuctionService {
+  private static instance: AuctionService;
+  private transport: AuctionEventTransport | null = null;
+  private closeTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly pgPool?: Pool) {}
+
+  public static getInstance(): AuctionService {
+    if (!AuctionService.instance) {
+      AuctionService.instance = new AuctionService();
+    }
+    return AuctionService.instance;
+  }
+
+  setEventTransport(transport: AuctionEventTransport | null): void {
+    this.transport = transport;
+  }
+
+  async createAuction(sellerId: string, input: AuctionInput): Promise<AuctionSession> {
+    const at = new Date();
+    const auction: AuctionSession = {
+      auctionId: uuidv4(),
+      sellerId,
+      commodity: input.commodity,
+      quantity: input.quantity,
+      unit: input.unit,
+      mode: input.mode,
+      state: 'open',
+      startingPrice: input.startingPrice,
+      reservePrice: input.reservePrice,
+      increment: { ...DEFAULT_BID_INCREMENT, ...input.increment },
+      currentMarketPrice: input.currentMarketPrice,
+      terms: input.terms,
+      bidCount: 0,
+      version: 1,
+      bids: [],
+      openedAt: at,
+      closesAt: auctionCloseTime(at, input.durationMs)
+    };
+
+    await this.getPool().query(`
+      INSERT INTO auctions (
+        auction_id, seller_id, commodity, quantity, unit, mode, starting_price, reserve_price,
+        increment_amount, increment_percent, current_market_price, terms, opened_at, closes_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+    `, [
+      auction.auctionId,
+      sellerId,
+      auction.commodity,
+      auction.quantity,
+      auction.unit ?? null,
+      auction.mode,
+      auction.startingPrice,
+      auction.reservePrice ?? null,
+      auction.increment.amount,
+      auction.increment.percent,
+      auction.currentMarketPrice ?? null,
+      auction.terms ? JSON.stringify(auction.terms) : null,
+      at,
+      auction.closesAt
+    ]);
+
+    this.publish(auction, 'open', at);
+    return auction;
+  }
+
+  async getAuction(auctionId: string): Promise<AuctionSession | null> {
+    const pool = this.getPool();
+    const result = await pool.query(`SELECT ${AUCTION_COLUMNS} FROM auctions WHERE auction_id = $1`, [auctionId]);
+    if (result.rows.length === 0) return null;
+    return this.mapRowToAuction(result.rows[0], await this.loadBids(pool, auctionId));
+  }
+
+  /**
+   * Takes a bid if the auction's rules allow it. A bid that arrives after the timer ran out
+   * closes the auction there and then rather than waiting for the next sweep.
+   */
+  async placeBid(auctionId: string, bidderId: string, amount: number): Promise<AuctionOutcome> {
+    const at = new Date();
+    const client = await this.getPool().connect();
+    let outcome: AuctionOutcome;
+    let event: { auction: AuctionSession; action: AuctionUpdateEvent['action']; bid?: AuctionBid } | null = null;
+
+    try {
+      await client.query('BEGIN');
+      const auction = await this.lockAuction(client, auctionId);
+
+      if (!auction) {
+        await client.query('ROLLBACK');
+        return { outcome: 'not_found' };
+      }
+
+      const check = checkBid(auction, { bidderId, amount, at });
+
+      if (check.outcome === 'refused') {
+        if (auction.state === 'open' && check.code === 'AUCTION_CLOSED') {
+          const closed = await this.close(client, auction, at);
+          await client.query('COMMIT');
+          event = { auction: closed, action: 'close' };
+          outcome = { outcome: 'rejected', code: check.code, reason: check.reason, auction: closed };
+        } else {
+          await client.query('ROLLBACK');
+          return { outcome: 'rejected', code: check.code, reason: check.reason, auction };
+        }
+      } else {
+        const bid: AuctionBid = { bidId: uuidv4(), bidderId, amount, sequence: auction.bidCount + 1, placedAt: at };
+        const leads = auction.currentPrice === undefined || amount > auction.currentPrice;
+
+        await client.query(`
+          INSERT INTO auction_bids (bid_id, auction_id, bidder_id, amount, sequence, placed_at)
+          VALUES ($1, $2, $3, $4, $5, $6)
+        `, [bid.bidId, auctionId, bidderId, amount, bid.sequence, at]);
+
+        const updated: AuctionSession = {
+          ...auction,
+          currentPrice: leads ? amount : auction.currentPrice,
+          leadingBidderId: leads ? bidderId : auction.leadingBidderId,
+          bidCount: bid.sequence,
+          version: auction.version + 1,
+          bids: [...auction.bids, bid],
+          closesAt: check.closesAt
+        };
+
+        await client.query(`
+          UPDATE auctions
+          SET current_price = $2, leading_bidder_id = $3, bid_count = $4, version = $5, closes_at = $6
+          WHERE auction_id = $1
+        `, [auctionId, updated.currentPrice, updated.leadingBidderId, updated.bidCount, updated.version, updated.closesAt]);
+        await client.query('COMMIT');
+
+        event = { auction: updated, action: 'bid', bid };
+        outcome = { outcome: 'ok', auction: updated };
+      }
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    this.publish(event.auction, event.action, at, event.bid);
+    return outcome;
+  }
+
+  /**
+   * Closes every open auction whose timer has run out and tells everyone involved.
+   * Returns how many auctions closed.
+   */
+  async closeDueAuctions(now: Date = new Date()): Promise<number> {
+    const due = await this.getPool().query(
+      `SELECT auction_id FROM auctions WHERE state = 'open' AND closes_at <= $1 ORDER BY closes_at`,
+      [now]
+    );
+
+    let closed = 0;
+    for (const row of due.rows) {
+      if (await this.closeIfDue(row.auction_id, now)) {
+        closed++;
+      }
+    }
+    return closed;
+  }
+
+  startCloseScheduler(intervalMs: number = 5 * 1000): void {
+    if (this.closeTimer) return;
+
+    this.closeTimer = setInterval(() => {
+      this.closeDueAuctions().catch(error => console.error('Error closing auctions:', error));
+    }, intervalMs);
+    this.closeTimer.unref?.();
+  }
+
+  stopCloseScheduler(): void {
+    if (this.closeTimer) {
+      clearInterval(this.closeTimer);
+      this.closeTimer = null;
+    }
+  }
+
+  private async closeIfDue(auctionId: string, now: Date): Promise<boolean> {
+    const client = await this.getPool().connect();
+    let closed: AuctionSession | null = null;
+
+    try {
+      await client.query('BEGIN');
+      const auction = await this.lockAuction(client, auctionId);
+
+      // A late bid may have pushed the close back since the auction was picked up
+      if (auction?.state === 'open' && auction.closesAt.getTime() <= now.getTime()) {
+        closed = await this.close(client, auction, now);
+        await client.query('COMMIT');
+      } else {
+        await client.query('ROLLBACK');
+      }
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (closed) {
+      this.publish(closed, 'close', now);
+    }
+    return closed !== null;
+  }
+
+  private async close(client: PoolClient, auction: AuctionSession, at: Date): Promise<AuctionSession> {
+    const best = highestBid(auction.bids);
+    const winningBid = best && meetsReserve(best.amount, auction.reservePrice) ? best : undefined;
+    const state: AuctionState = winningBid ? 'sold' : 'unsold';
+    const version = auction.version + 1;
+
+    await client.query(`
+      UPDATE auctions SET state = $2, closed_at = $3, winning_bid_id = $4, version = $5
+      WHERE auction_id = $1
+    `, [auction.auctionId, state, at, winningBid?.bidId ?? null, version]);
+
+    if (winningBid) {
+      await this.recordSale(client, auction, winningBid, at);
+    }
+
+    return {
+      ...auction,
+      state,
+      version,
+      closedAt: at,
+      currentPrice: best?.amount,
+      leadingBidderId: best?.bidderId,
+      winningBid
+    };
+  }
+
+  // The winning bid as the accepted offer of a negotiation session, which the deal flow reads
+  private async recordSale(client: PoolClient, auction: AuctionSession, bid: AuctionBid, at: Date): Promise<void> {
+    const offer: NegotiationOffer = {
+      offerId: bid.bidId,
+      sessionId: auction.auctionId,
+      fromVendorId: bid.bidderId,
+      toVendorId: auction.sellerId,
+      commodity: auction.commodity,
+      quantity: auction.quantity,
+      proposedPrice: bid.amount,
+      currentMarketPrice: auction.currentMarketPrice ?? 0,
+      unit: auction.unit,
+      offerType: 'final',
+      timestamp: bid.placedAt,
+      terms: auction.terms
+    };
+    const finalDeal = {
+      agreedPrice: bid.amount,
+      marketPriceAtTime: auction.currentMarketPrice,
+      quantity: auction.quantity,
+      unit: auction.unit,
+      offerId: bid.bidId,
+      acceptedBy: auction.sellerId, // the seller agreed to sell to the highest bidder when opening the auction
+      acceptedAt: at
+    };
+
+    await client.query(`
+      INSERT INTO negotiation_sessions (
+        session_id, participants, commodity, status, state, live_offer, start_time, end_time, final_deal, session_type
+      ) VALUES ($1, $2, $3, 'completed', 'accepted', $4, $5, $6, $7, 'auction')
+      ON CONFLICT (session_id) DO NOTHING
+    `, [
+      auction.auctionId,
+      [auction.sellerId, bid.bidderId],
+      auction.commodity,
+      JSON.stringify(offer),
+      auction.openedAt,
+      at,
+      JSON.stringify(finalDeal)
+    ]);
+  }
+
+  private async lockAuction(client: PoolClient, auctionId: string): Promise<AuctionSession | null> {
+    const result = await client.query(`SELECT ${AUCTION_COLUMNS} FROM auctions WHERE auction_id = $1 FOR UPDATE`, [auctionId]);
+    if (result.rows.length === 0) return null;
+    return this.mapRowToAuction(result.rows[0], await this.loadBids(client, auctionId));
+  }
+
+  private async loadBids(queryable: Pool | PoolClient, auctionId: string): Promise<AuctionBid[]> {
+    const result = await queryable.query(
+      'SELECT bid_id, bidder_id, amount, sequence, placed_at FROM auction_bids WHERE auction_id = $1 ORDER BY sequence',
+      [auctionId]
+    );
+    return result.rows.map(row => ({
+      bidId: row.bid_id,
+      bidderId: row.bidder_id,
+      amount: Number(row.amount),
+      sequence: row.sequence,
+      placedAt: new Date(row.placed_at)
+    }));
+  }
+
+  private publish(auction: AuctionSession, action: AuctionUpdateEvent['action'], at: Date, bid?: AuctionBid): void {
+    if (!this.transport) return;
+
+    const sealed = auction.mode === 'sealed_bid' && auction.state === 'open';
+    const event: AuctionUpdateEvent = {
+      auctionId: auction.auctionId,
+      action,
+      state: auction.state,
+      version: auction.version,
+      bid: bid && sealed ? withoutAmount(bid) : bid,
+      currentPrice: sealed ? undefined : auction.currentPrice,
+      minimumBid: auction.state === 'open' ? minimumBid(auction) : undefined,
+      bidCount: auction.bidCount,
+      closesAt: auction.closesAt,
+      winningBid: auction.winningBid,
+      at
+    };
+    const vendorIds = [auction.sellerId, ...new Set(auction.bids.map(existing => existing.bidderId))];
+
+    try {
+      this.transport.publish(auction.auctionId, vendorIds, event);
+    } catch (error) {
+      // The change is already committed; watchers see it on their next fetch
+      console.error('Error publishing auction update:', error);
+    }
+  }
+
+  private mapRowToAuction(row: any, bids: AuctionBid[]): AuctionSession {
+    const parse = (value: any) => typeof value === 'string' ? JSON.parse(value) : value;
+    const optionalNumber = (value: any) => value === null || value === undefined ? undefined : Number(value);
+
+    return {
+      auctionId: row.auction_id,
+      sellerId: row.seller_id,
+      commodity: row.commodity,
+      quantity: Number(row.quantity),
+      unit: row.unit || undefined,
+      mode: row.mode,
+      state: row.state,
+      startingPrice: Number(row.starting_price),
+      reservePrice: optionalNumber(row.reserve_price),
+      increment: { amount: Number(row.increment_amount), percent: Number(row.increment_percent) },
+      currentMarketPrice: optionalNumber(row.current_market_price),
+      terms: parse(row.terms) || undefined,
+      currentPrice: optionalNumber(row.current_price),
+      leadingBidderId: row.leading_bidder_id || undefined,
+      bidCount: row.bid_count,
+      version: row.version,
+      bids,
+      winningBid: row.winning_bid_id ? bids.find(bid => bid.bidId === row.winning_bid_id) : undefined,
+      openedAt: new Date(row.opened_at),
+      closesAt: new Date(row.closes_at),
+      closedAt: row.closed_at ? new Date(row.closed_at) : undefined
+    };
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
@@ -0,0 +1,359 @@
+import { Pool } from 'pg';
+import { DatabaseManager } from '../config/database';
+import {
+  COMMODITY_CATALOGUE,
+  COMMODITY_CATEGORIES,
+  categoryWithDescendants,
+  findCatalogueCommodity,
+  normalizeCommodityText,
+  searchCatalogue
+} from '../utils/commodity-catalogue';
+import { CatalogueCommodity, CommodityCategory, CommoditySearchResult, Perishability, QuantityUnit } from '../types';
+
+export interface CommodityData {
+  id: string;
+  name: string;
+  categoryId: string;
+  names?: Record<string, string>;
+  aliases?: string[];
+  defaultUnit?: QuantityUnit;
+  perishability: Perishability;
+  shelfLifeDays?: number | null;
+  agmarknetCode?: number | null;
+  indicativePrice?: number | null;
+  isActive?: boolean;
+}
+
+export type UpdateCommodityData = Partial<Omit<CommodityData, 'id'>>;
+
+export interface CategoryData {
+  id: string;
+  name: string;
+  parentId?: string | null;
+  names?: Record<string, string>;
+}
+
+export type UpdateCategoryData = Partial<Omit<CategoryData, 'id'>>;
+
+export interface CategoryNode extends CommodityCategory {
+  children: CategoryNode[];
+  commodityCount: number;
+}
+
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+const COMMODITY_COLUMNS = `
+  id, name, category_id, names, aliases, default_unit, perishability,
+  shelf_life_days, agmarknet_code, indicative_price, is_active
+`;
+
+/**
+ * Canonical commodities and categories. Reads are served from memory so price discovery and
+ * search never wait on the database. Until initialize() runs at startup the bundled catalogue
+ * is served; after that the database copy, refreshed periodically and on every admin write.
+ */
+export class CommodityCatalogueService {
+  private static instance: CommodityCatalogueService;
+  private commodities: CatalogueCommodity[] = COMMODITY_CATALOGUE;
+  private categories: CommodityCategory[] = COMMODITY_CATEGORIES;
+  private initialized = false;
+  private loadedAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(private readonly pgPool?: Pool) {}
+
+  public static getInstance(): CommodityCatalogueService {
+    if (!CommodityCatalogueService.instance) {
+      CommodityCatalogueService.instance = new CommodityCatalogueService();
+    }
+    return CommodityCatalogueService.instance;
+  }
+
+  listCommodities(options: { categoryId?: string; includeInactive?: boolean } = {}): CatalogueCommodity[] {
+    const commodities = this.current().commodities;
+    const categoryIds = options.categoryId ? categoryWithDescendants(this.categories, options.categoryId) : null;
+
+    return commodities.filter(commodity =>
+      (commodity.isActive || options.includeInactive) &&
+      (!categoryIds || categoryIds.has(commodity.categoryId))
+    );
+  }
+
+  /**
+   * Looks a commodity up by id, canonical name, translated name or alias.
+   */
+  getCommodity(idOrName: string): CatalogueCommodity | null {
+    const commodities = this.current().commodities;
+    return commodities.find(commodity => commodity.id === idOrName) || findCatalogueCommodity(commodities, idOrName) || null;
+  }
+
+  /**
+   * The canonical name for free text ("kanda" -> "Onion"), or the trimmed input when unknown.
+   */
+  canonicalName(name: string): string {
+    return this.getCommodity(name.trim())?.name || name.trim();
+  }
+
+  search(query: string, options: { limit?: number; categoryId?: string } = {}): CommoditySearchResult[] {
+    return searchCatalogue(this.listCommodities({ categoryId: options.categoryId }), query, { limit: options.limit });
+  }
+
+  listCategories(): CommodityCategory[] {
+    return this.current().categories;
+  }
+
+  getCategory(idOrName: string): CommodityCategory | null {
+    const key = normalizeCommodityText(idOrName);
+    return this.current().categories.find(category =>
+      category.id === idOrName ||
+      [category.name, ...Object.values(category.names || {})].some(name => normalizeCommodityText(name) === key)
+    ) || null;
+  }
+
+  getCategoryTree(): CategoryNode[] {
+    const { categories, commodities } = this.current();
+    const build = (parentId?: string): CategoryNode[] => categories
+      .filter(category => (category.parentId || undefined) === parentId)
+      .map(category => ({
+        ...category,
+        children: build(category.id),
+        commodityCount: commodities.filter(commodity => commodity.isActive && commodity.categoryId === category.id).length
+      }));
+
+    return build(undefined);
+  }
+
+  async createCommodity(data: CommodityData): Promise<CatalogueCommodity> {
+    const result = await this.getPool().query(`
+      INSERT INTO commodities (
+        id, name, category_id, names, aliases, default_unit, perishability,
+        shelf_life_days, agmarknet_code, indicative_price, is_active
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING ${COMMODITY_COLUMNS}
+    `, [
+      data.id,
+      data.name,
+      data.categoryId,
+      JSON.stringify(data.names || {}),
+      JSON.stringify(data.aliases || []),
+      data.defaultUnit || 'quintal',
+      data.perishability,
+      data.shelfLifeDays ?? null,
+      data.agmarknetCode ?? null,
+      data.indicativePrice ?? null,
+      data.isActive ?? true
+    ]);
+
+    await this.refresh();
+    return this.mapCommodityRow(result.rows[0]);
+  }
+
+  async updateCommodity(id: string, data: UpdateCommodityData): Promise<CatalogueCommodity | null> {
+    const columns: Record<string, any> = {
+      name: data.name,
+      category_id: data.categoryId,
+      names: data.names !== undefined ? JSON.stringify(data.names) : undefined,
+      aliases: data.aliases !== undefined ? JSON.stringify(data.aliases) : undefined,
+      default_unit: data.defaultUnit,
+      perishability: data.perishability,
+      shelf_life_days: data.shelfLifeDays,
+      agmarknet_code: data.agmarknetCode,
+      indicative_price: data.indicativePrice,
+      is_active: data.isActive
+    };
+
+    const row = await this.updateRow('commodities', COMMODITY_COLUMNS, id, columns);
+    return row ? this.mapCommodityRow(row) : null;
+  }
+
+  /**
+   * Deactivates rather than deletes: stored prices and vendor items keep referring to the name.
+   */
+  async deleteCommodity(id: string): Promise<boolean> {
+    return (await this.updateCommodity(id, { isActive: false })) !== null;
+  }
+
+  async createCategory(data: CategoryData): Promise<CommodityCategory> {
+    const result = await this.getPool().query(`
+      INSERT INTO commodity_categories (id, name, parent_id, names)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id, name, parent_id, names
+    `, [data.id, data.name, data.parentId || null, JSON.stringify(data.names || {})]);
+
+    await this.refresh();
+    return this.mapCategoryRow(result.rows[0]);
+  }
+
+  async updateCategory(id: string, data: UpdateCategoryData): Promise<CommodityCategory | null> {
+    const row = await this.updateRow('commodity_categories', 'id, name, parent_id, names', id, {
+      name: data.name,
+      parent_id: data.parentId,
+      names: data.names !== undefined ? JSON.stringify(data.names) : undefined
+    });
+
+    return row ? this.mapCategoryRow(row) : null;
+  }
+
+  /**
+   * Only empty categories can be removed; returns 'in_use' while commodities or subcategories remain.
+   */
+  async deleteCategory(id: string): Promise<'deleted' | 'not_found' | 'in_use'> {
+    const { categories, commodities } = this.current();
+
+    if (categories.some(category => category.parentId === id) || commodities.some(commodity => commodity.categoryId === id)) {
+      return 'in_use';
+    }
+
+    const result = await this.getPool().query('DELETE FROM commodity_categories WHERE id = $1', [id]);
+    await this.refresh();
+
+    return (result.rowCount || 0) > 0 ? 'deleted' : 'not_found';
+  }
+
+  /**
+   * True when moving a category under parentId would make it its own ancestor.
+   */
+  wouldCreateCycle(categoryId: string, parentId: string): boolean {
+    return categoryWithDescendants(this.listCategories(), categoryId).has(parentId);
+  }
+
+  /**
+   * Loads the catalogue from the database, seeding it from the bundled list on first start.
+   */
+  async initialize(): Promise<void> {
+    try {
+      const count = await this.getPool().query('SELECT COUNT(*) AS count FROM commodities');
+      if (parseInt(count.rows[0].count) === 0) {
+        await this.seed();
+      }
+    } catch (error) {
+      console.error('Error seeding commodity catalogue:', error);
+    }
+
+    this.initialized = true;
+    await this.refresh();
+  }
+
+  async refresh(): Promise<void> {
+    if (this.refreshing) return this.refreshing;
+
+    this.refreshing = (async () => {
+      try {
+        const db = this.getPool();
+        const categoryRows = (await db.query('SELECT id, name, parent_id, names FROM commodity_categories ORDER BY name'))?.rows || [];
+        const commodityRows = (await db.query(`SELECT ${COMMODITY_COLUMNS} FROM commodities ORDER BY name`))?.rows || [];
+
+        if (commodityRows.length > 0) {
+          this.categories = categoryRows.map((row: any) => this.mapCategoryRow(row));
+          this.commodities = commodityRows.map((row: any) => this.mapCommodityRow(row));
+        }
+      } catch (error) {
+        // The bundled catalogue keeps serving
+        console.error('Error loading commodity catalogue:', error);
+      } finally {
+        this.loadedAt = Date.now();
+        this.refreshing = null;
+      }
+    })();
+
+    return this.refreshing;
+  }
+
+  private current(): { commodities: CatalogueCommodity[]; categories: CommodityCategory[] } {
+    if (this.initialized && Date.now() - this.loadedAt > REFRESH_INTERVAL_MS) {
+      void this.refresh();
+    }
+    return { commodities: this.commodities, categories: this.categories };
+  }
+
+  // Parents before children so the parent_id foreign key holds
+  private async seed(): Promise<void> {
+    const db = this.getPool();
+    const ordered = [...COMMODITY_CATEGORIES].sort((a, b) => (a.parentId ? 1 : 0) - (b.parentId ? 1 : 0));
+
+    for (const category of ordered) {
+      await db.query(`
+        INSERT INTO commodity_categories (id, name, parent_id, names)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (id) DO NOTHING
+      `, [category.id, category.name, category.parentId || null, JSON.stringify(category.names || {})]);
+    }
+
+    for (const commodity of COMMODITY_CATALOGUE) {
+      await db.query(`
+        INSERT INTO commodities (
+          id, name, category_id, names, aliases, default_unit, perishability,
+          shelf_life_days, agmarknet_code, indicative_price, is_active
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        ON CONFLICT (id) DO NOTHING
+      `, [
+        commodity.id,
+        commodity.name,
+        commodity.categoryId,
+        JSON.stringify(commodity.names),
+        JSON.stringify(commodity.aliases),
+        commodity.defaultUnit,
+        commodity.perishability,
+        commodity.shelfLifeDays ?? null,
+        commodity.agmarknetCode ?? null,
+        commodity.indicativePrice ?? null,
+        commodity.isActive
+      ]);
+    }
+
+    console.log(`Seeded commodity catalogue with ${COMMODITY_CATALOGUE.length} commodities`);
+  }
+
+  private async updateRow(table: string, returning: string, id: string, columns: Record<string, any>): Promise<any | null> {
+    const assignments: string[] = [];
+    const values: any[] = [];
+
+    for (const [column, value] of Object.entries(columns)) {
+      if (value === undefined) continue;
+      values.push(value);
+      assignments.push(`${column} = $${values.length}`);
+    }
+
+    const db = this.getPool();
+    values.push(id);
+    const result = assignments.length > 0
+      ? await db.query(`UPDATE ${table} SET ${assignments.join(', ')} WHERE id = $${values.length} RETURNING ${returning}`, values)
+      : await db.query(`SELECT ${returning} FROM ${table} WHERE id = $1`, [id]);
+
+    if (result.rows.length === 0) return null;
+
+    await this.refresh();
+    return result.rows[0];
+  }
+
+  private mapCategoryRow(row: any): CommodityCategory {
+    return {
+      id: row.id,
+      name: row.name,
+      ...(row.parent_id ? { parentId: row.parent_id } : {}),
+      names: row.names || {}
+    };
+  }
+
+  private mapCommodityRow(row: any): CatalogueCommodity {
+    return {
+      id: row.id,
+      name: row.name,
+      categoryId: row.category_id,
+      names: row.names || {},
+      aliases: row.aliases || [],
+      defaultUnit: row.default_unit,
+      perishability: row.perishability,
+      ...(row.shelf_life_days ? { shelfLifeDays: row.shelf_life_days } : {}),
+      ...(row.agmarknet_code ? { agmarknetCode: row.agmarknet_code } : {}),
+      ...(row.indicative_price ? { indicativePrice: parseFloat(row.indicative_price) } : {}),
+      isActive: row.is_active
+    };
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
@@ -5,6 +5,10 @@ import { DatabaseManager } from '../config/database';
 import { SarvamTranslationService } from './translation.service';
 import { ErrorHandler } from '../utils/error-handling';
 import { SecurityMonitor } from '../utils/security-monitoring';
+import { PriceStreamService, PriceChannel, PriceStreamTransport } from './price-stream.service';
+import { NegotiationSessionService } from './negotiation-session.service';
+import { AuctionService } from './auction.service';
+import { viewAuction } from '../utils/auction-rules';
 import { 
   Message, 
   TradeSession, 
@@ -31,12 +35,17 @@ export class WebSocketCommunicationService implements CommunicationService {
   private activeConnections: Map<string, WebSocketConnection> = new Map();
   private activeSessions: Map<string, TradeSession> = new Map();
   private sessionParticipants: Map<string, SessionParticipant[]> = new Map();
+  private priceStream: PriceStreamService;
+
+  // A price batch counts as delivered when the client acks it, or after this long
+  private readonly priceAckTimeoutMs = 10000;
 
   constructor(httpServer: HTTPServer) {
     this.dbManager = DatabaseManager.getInstance();
     this.translationService = new SarvamTranslationService();
     this.errorHandler = ErrorHandler.getInstance();
     this.securityMonitor = SecurityMonitor.getInstance();
+    this.priceStream = PriceStreamService.getInstance();
     
     // Initialize Socket.IO server
     this.io = new SocketIOServer(httpServer, {
@@ -48,6 +57,22 @@ export class WebSocketCommunicationService implements CommunicationService {
     });
 
     this.setupSocketHandlers();
+
+    // Negotiation moves and expiries reach every participant's connected devices
+    NegotiationSessionService.getInstance().setEventTransport({
+      publish: (vendorIds, event) => {
+        for (const vendorId of vendorIds) {
+          this.io.to(`vendor:${vendorId}`).emit('negotiation_updated', event);
+        }
+      }
+    });
+
+    // Bids and closes reach everyone watching the auction, and the seller and bidders wherever they are
+    AuctionService.getInstance().setEventTransport({
+      publish: (auctionId, vendorIds, event) => {
+        this.io.to([`auction:${auctionId}`, ...vendorIds.map(vendorId => `vendor:${vendorId}`)]).emit('auction_updated', event);
+      }
+    });
   }
 
   private setupSocketHandlers(): void {
@@ -140,6 +165,7 @@ export class WebSocketCommunicationService implements CommunicationService {
 
           this.activeConnections.set(socket.id, connection);
           socket.join(`vendor:${vendorId}`);
+          this.priceStream.addConnection(socket.id, this.createPriceTransport(socket));
           
           socket.emit('authenticated', { success: true, connectionId: connection.id });
           console.log(`Vendor ${vendorId} authenticated with socket ${socket.id}`);
@@ -181,6 +207,35 @@ export class WebSocketCommunicationService implements CommunicationService {
         }
       });
 
+      // Handle watching an auction; the snapshot is followed by auction_updated events in version order
+      socket.on('join_auction', async (data: { auctionId: string }) => {
+        try {
+          const connection = this.activeConnections.get(socket.id);
+          if (!connection) {
+            socket.emit('error', { message: 'Not authenticated' });
+            return;
+          }
+
+          const auction = await AuctionService.getInstance().getAuction(data.auctionId);
+          if (!auction) {
+            socket.emit('error', { message: 'Auction not found' });
+            return;
+          }
+
+          socket.join(`auction:${data.auctionId}`);
+          connection.lastActivity = new Date();
+          socket.emit('auction_joined', viewAuction(auction, connection.vendorId));
+
+        } catch (error) {
+          console.error('Join auction error:', error);
+          socket.emit('error', { message: 'Failed to join auction' });
+        }
+      });
+
+      socket.on('leave_auction', (data: { auctionId: string }) => {
+        socket.leave(`auction:${data.auctionId}`);
+      });
+
       // Handle sending messages
       socket.on('send_message', async (data: { sessionId: string, content: string, messageType?: string }) => {
         try {
@@ -258,9 +313,51 @@ export class WebSocketCommunicationService implements CommunicationService {
         }
       });
 
+      // Handle price channel subscriptions
+      socket.on('subscribe_prices', (data: { channels: PriceChannel[]; minChangePercent?: number; minIntervalMs?: number }) => {
+        try {
+          const connection = this.activeConnections.get(socket.id);
+          if (!connection) {
+            socket.emit('error', { message: 'Not authenticated' });
+            return;
+          }
+
+          const result = this.priceStream.subscribe(socket.id, Array.isArray(data?.channels) ? data.channels : [], {
+            minChangePercent: data?.minChangePercent,
+            minIntervalMs: data?.minIntervalMs
+          });
+          connection.lastActivity = new Date();
+
+          socket.emit('prices_subscribed', {
+            ...result,
+            channels: this.priceStream.getSubscriptions(socket.id)
+          });
+
+        } catch (error) {
+          console.error('Price subscription error:', error);
+          socket.emit('error', { message: 'Failed to subscribe to prices' });
+        }
+      });
+
+      socket.on('unsubscribe_prices', (data: { channels: PriceChannel[] }) => {
+        try {
+          const removed = this.priceStream.unsubscribe(socket.id, Array.isArray(data?.channels) ? data.channels : []);
+
+          socket.emit('prices_unsubscribed', {
+            unsubscribed: removed,
+            channels: this.priceStream.getSubscriptions(socket.id)
+          });
+
+        } catch (error) {
+          console.error('Price unsubscription error:', error);
+          socket.emit('error', { message: 'Failed to unsubscribe from prices' });
+        }
+      });
+
       // Handle disconnection
       socket.on('disconnect', () => {
         console.log(`Client disconnected: ${socket.id}`);
+        this.priceStream.removeConnection(socket.id);
         
         const connection = this.activeConnections.get(socket.id);
         if (connection) {
@@ -729,6 +826,24 @@ export class WebSocketCommunicationService implements CommunicationService {
     }
   }
 
+  /**
+   * Price batches go out one at a time: the next is held (and keeps coalescing) until the
+   * client acks the previous one, so a slow connection never builds up a backlog.
+   */
+  private createPriceTransport(socket: Socket): PriceStreamTransport {
+    let awaitingAck = false;
+
+    return {
+      send: (batch) => {
+        awaitingAck = true;
+        socket.timeout(this.priceAckTimeoutMs).emit('price_updates', batch, () => {
+          awaitingAck = false;
+        });
+      },
+      isCongested: () => awaitingAck || !socket.connected
+    };
+  }
+
   private getSocketByVendorId(vendorId: string): Socket | null {
     for (const [socketId, connection] of this.activeConnections.entries()) {
       if (connection.vendorId === vendorId) {
@@ -742,6 +857,8 @@ export class WebSocketCommunicationService implements CommunicationService {
   public async cleanup(): Promise<void> {
     try {
       // Close all socket connections
+      NegotiationSessionService.getInstance().setEventTransport(null);
+      AuctionService.getInstance().setEventTransport(null);
       this.io.close();
       
       // Clear in-memory data
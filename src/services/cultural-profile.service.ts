@@ -0,0 +1,365 @@
+import { Pool, PoolClient } from 'pg';
+import { DatabaseManager } from '../config/database';
+import { CulturalProfile, CulturalProfileChange, CulturalProfileObservations, LearningData } from '../types';
+import {
+  BUILT_IN_CULTURAL_PROFILES,
+  CulturalProfileInput,
+  DEFAULT_CULTURAL_PROFILE,
+  DEFAULT_PROFILE_KEY,
+  locationKeys,
+  normalizeRegionKey,
+  refineTradingCustoms,
+  validateCulturalProfile
+} from '../utils/cultural-profiles';
+
+export type CulturalProfileOutcome =
+  | { outcome: 'ok'; profile: CulturalProfile }
+  | { outcome: 'invalid'; errors: string[] }
+  | { outcome: 'conflict'; reason: string };
+
+// How long a server keeps profiles and district mappings before re-reading them
+const SNAPSHOT_CACHE_MS = 60 * 1000;
+// Older negotiations no longer describe how a region trades
+const OBSERVATION_WINDOW_DAYS = 180;
+const HISTORY_LIMIT = 50;
+
+const PROFILE_QUERY = `
+  SELECT p.region, p.display_name, p.state, p.trading_customs, p.communication_patterns,
+         p.market_practices, p.version, p.observed_outcomes,
+         COALESCE(ARRAY_AGG(d.district ORDER BY d.district) FILTER (WHERE d.district IS NOT NULL), '{}') AS districts
+  FROM cultural_profiles p
+  LEFT JOIN cultural_profile_districts d ON d.region = p.region
+`;
+
+interface ProfileSnapshot {
+  profiles: Map<string, CulturalProfile>;
+  districts: Map<string, string>; // district -> profile key
+  loadedAt: number;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Cultural profiles read from the database, resolved from a location by district, then state,
+ * then the default profile. Admin edits and outcome refinements each publish a new profile
+ * version and record the before and after in cultural_profile_changes.
+ */
+export class CulturalProfileService {
+  private static instance: CulturalProfileService;
+  private snapshot: ProfileSnapshot | null = null;
+
+  constructor(private readonly pgPool?: Pool) {}
+
+  public static getInstance(): CulturalProfileService {
+    if (!CulturalProfileService.instance) {
+      CulturalProfileService.instance = new CulturalProfileService();
+    }
+    return CulturalProfileService.instance;
+  }
+
+  /**
+   * Profile for a location such as 'Akola', 'Pune' or 'Nagpur, Maharashtra'. Unknown places get
+   * the default profile under their own name.
+   */
+  async resolve(location: string): Promise<CulturalProfile> {
+    const { profiles, districts } = await this.getSnapshot();
+
+    for (const key of locationKeys(location)) {
+      const profile = profiles.get(key) || profiles.get(districts.get(key));
+      if (profile) return profile;
+    }
+
+    const fallback = profiles.get(DEFAULT_PROFILE_KEY) || DEFAULT_CULTURAL_PROFILE;
+    return { ...fallback, region: location, state: location };
+  }
+
+  async listProfiles(): Promise<CulturalProfile[]> {
+    const result = await this.getPool().query(`${PROFILE_QUERY} GROUP BY p.id ORDER BY p.region`);
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  async getProfile(key: string): Promise<CulturalProfile | null> {
+    return this.loadProfile(this.getPool(), normalizeRegionKey(key));
+  }
+
+  /**
+   * Creates or replaces a profile. Listed districts move to this profile; districts it no longer
+   * lists fall back to their state's profile. With expectedVersion, a profile someone else
+   * changed in the meantime is left alone.
+   */
+  async saveProfile(
+    key: string,
+    input: Partial<CulturalProfileInput>,
+    adminId: string,
+    options: { note?: string; expectedVersion?: number } = {}
+  ): Promise<CulturalProfileOutcome> {
+    const errors = validateCulturalProfile(input);
+    if (errors.length > 0) {
+      return { outcome: 'invalid', errors };
+    }
+
+    const profileKey = normalizeRegionKey(key);
+    const client = await this.getPool().connect();
+
+    try {
+      await client.query('BEGIN');
+      const previous = await this.lockProfile(client, profileKey);
+
+      if (options.expectedVersion !== undefined && (previous?.version ?? 0) !== options.expectedVersion) {
+        await client.query('ROLLBACK');
+        return { outcome: 'conflict', reason: `Profile ${profileKey} is at version ${previous?.version ?? 0}, not ${options.expectedVersion}` };
+      }
+
+      // An admin edit restarts the observation window, so refinement never undoes it with older sessions
+      await client.query(`
+        INSERT INTO cultural_profiles (
+          region, display_name, state, trading_customs, communication_patterns, market_practices, version, admin_updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, 1, NOW())
+        ON CONFLICT (region) DO UPDATE SET
+          display_name = EXCLUDED.display_name,
+          state = EXCLUDED.state,
+          trading_customs = EXCLUDED.trading_customs,
+          communication_patterns = EXCLUDED.communication_patterns,
+          market_practices = EXCLUDED.market_practices,
+          version = cultural_profiles.version + 1,
+          observed_outcomes = NULL,
+          admin_updated_at = NOW()
+      `, [
+        profileKey,
+        input.region.trim(),
+        input.state.trim(),
+        JSON.stringify(input.tradingCustoms),
+        JSON.stringify(input.communicationPatterns),
+        JSON.stringify(input.marketPractices)
+      ]);
+
+      if (input.districts) {
+        const districts = [...new Set(input.districts.map(normalizeRegionKey))];
+        await client.query(
+          'DELETE FROM cultural_profile_districts WHERE region = $1 AND NOT (district = ANY($2))',
+          [profileKey, districts]
+        );
+        await client.query(`
+          INSERT INTO cultural_profile_districts (district, region)
+          SELECT UNNEST($2::text[]), $1
+          ON CONFLICT (district) DO UPDATE SET region = EXCLUDED.region
+        `, [profileKey, districts]);
+      }
+
+      const profile = await this.recordChange(client, profileKey, previous, {
+        source: 'admin',
+        changedBy: adminId,
+        note: options.note
+      });
+      await client.query('COMMIT');
+      this.snapshot = null;
+      return { outcome: 'ok', profile };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getHistory(key: string): Promise<CulturalProfileChange[]> {
+    const result = await this.getPool().query(`
+      SELECT region, version, source, changed_by, note, previous, profile, created_at
+      FROM cultural_profile_changes
+      WHERE region = $1
+      ORDER BY version DESC
+      LIMIT $2
+    `, [normalizeRegionKey(key), HISTORY_LIMIT]);
+
+    return result.rows.map((row: any) => ({
+      key: row.region,
+      version: row.version,
+      source: row.source,
+      changedBy: row.changed_by || undefined,
+      note: row.note || undefined,
+      previous: row.previous ? this.parseJson(row.previous) : undefined,
+      profile: this.parseJson(row.profile),
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  /**
+   * Refreshes what negotiations in the outcome's region looked like and, once there are enough
+   * of them, moves the profile's decision-making and price flexibility to match. Returns the
+   * profile when its traits changed.
+   */
+  async recordOutcome(learningData: LearningData): Promise<CulturalProfile | null> {
+    if (!learningData.region) return null;
+
+    const resolved = await this.resolve(learningData.region);
+    // The default profile covers unrelated places, and built-in profiles mean the database is unavailable
+    if (!resolved.key || resolved.key === DEFAULT_PROFILE_KEY || resolved.version === undefined) {
+      return null;
+    }
+
+    const observations = await this.observe(resolved);
+    if (!observations) return null;
+
+    const tradingCustoms = refineTradingCustoms(resolved.tradingCustoms, observations);
+    const changed = tradingCustoms.decisionMaking !== resolved.tradingCustoms.decisionMaking ||
+      tradingCustoms.priceFlexibility !== resolved.tradingCustoms.priceFlexibility;
+
+    if (!changed) {
+      await this.getPool().query(
+        'UPDATE cultural_profiles SET observed_outcomes = $2 WHERE region = $1',
+        [resolved.key, JSON.stringify(observations)]
+      );
+      this.snapshot = null;
+      return null;
+    }
+
+    const client = await this.getPool().connect();
+    try {
+      await client.query('BEGIN');
+      const previous = await this.lockProfile(client, resolved.key);
+
+      // Someone edited the profile since it was read; the next outcome will look again
+      if (!previous || previous.version !== resolved.version) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(`
+        UPDATE cultural_profiles
+        SET trading_customs = $2, observed_outcomes = $3, version = version + 1
+        WHERE region = $1
+      `, [resolved.key, JSON.stringify(tradingCustoms), JSON.stringify(observations)]);
+
+      const profile = await this.recordChange(client, resolved.key, previous, {
+        source: 'observed',
+        note: `${observations.sessions} negotiations since ${observations.since.toISOString().slice(0, 10)}: ` +
+          `${observations.averageOffers} offers per negotiation, ${observations.averagePriceMovement}% average agreed price move`
+      });
+      await client.query('COMMIT');
+      this.snapshot = null;
+      return profile;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async observe(profile: CulturalProfile): Promise<CulturalProfileObservations | null> {
+    const places = [profile.key, ...(profile.districts || [])];
+    const result = await this.getPool().query(`
+      WITH observation_window AS (
+        SELECT GREATEST(COALESCE(admin_updated_at, '-infinity'::timestamptz), NOW() - $3::int * INTERVAL '1 day') AS since
+        FROM cultural_profiles
+        WHERE region = $1
+      )
+      SELECT w.since,
+             COUNT(l.id) AS sessions,
+             COUNT(l.id) FILTER (WHERE l.outcome = 'successful') AS successful,
+             AVG((l.negotiation_metrics ->> 'numberOfOffers')::numeric) AS average_offers,
+             AVG(ABS((l.negotiation_metrics ->> 'priceMovement')::numeric)) FILTER (WHERE l.outcome = 'successful') AS average_price_movement
+      FROM observation_window w
+      LEFT JOIN learning_data l ON LOWER(REPLACE(l.region, ' ', '_')) = ANY($2) AND l.created_at > w.since
+      GROUP BY w.since
+    `, [profile.key, places, OBSERVATION_WINDOW_DAYS]);
+
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const sessions = parseInt(row.sessions || '0', 10);
+    return {
+      sessions,
+      successRate: sessions > 0 ? round(parseInt(row.successful || '0', 10) / sessions, 4) : 0,
+      averageOffers: row.average_offers != null ? round(parseFloat(row.average_offers), 2) : 0,
+      averagePriceMovement: row.average_price_movement != null ? round(parseFloat(row.average_price_movement), 2) : 0,
+      since: new Date(row.since),
+      updatedAt: new Date()
+    };
+  }
+
+  // Locks the profile row for the rest of the transaction and returns it as it was
+  private async lockProfile(client: PoolClient, key: string): Promise<CulturalProfile | null> {
+    const locked = await client.query('SELECT region FROM cultural_profiles WHERE region = $1 FOR UPDATE', [key]);
+    return locked.rows.length > 0 ? this.loadProfile(client, key) : null;
+  }
+
+  private async recordChange(
+    client: PoolClient,
+    key: string,
+    previous: CulturalProfile | null,
+    change: Pick<CulturalProfileChange, 'source' | 'changedBy' | 'note'>
+  ): Promise<CulturalProfile> {
+    const profile = await this.loadProfile(client, key);
+    await client.query(`
+      INSERT INTO cultural_profile_changes (region, version, source, changed_by, note, previous, profile)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      key,
+      profile.version,
+      change.source,
+      change.changedBy ?? null,
+      change.note ?? null,
+      previous ? JSON.stringify(previous) : null,
+      JSON.stringify(profile)
+    ]);
+    return profile;
+  }
+
+  private async loadProfile(db: Pool | PoolClient, key: string): Promise<CulturalProfile | null> {
+    const result = await db.query(`${PROFILE_QUERY} WHERE p.region = $1 GROUP BY p.id`, [key]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  private async getSnapshot(): Promise<ProfileSnapshot> {
+    if (this.snapshot && Date.now() - this.snapshot.loadedAt < SNAPSHOT_CACHE_MS) {
+      return this.snapshot;
+    }
+
+    let profiles: CulturalProfile[] = [];
+    try {
+      profiles = await this.listProfiles();
+    } catch (error) {
+      console.error('Error loading cultural profiles, using built-in profiles:', error);
+    }
+    if (profiles.length === 0) {
+      profiles = BUILT_IN_CULTURAL_PROFILES;
+    }
+
+    this.snapshot = {
+      profiles: new Map(profiles.map(profile => [profile.key, profile])),
+      districts: new Map(profiles.flatMap(profile => (profile.districts || []).map(district => [district, profile.key] as [string, string]))),
+      loadedAt: Date.now()
+    };
+    return this.snapshot;
+  }
+
+  private mapRow(row: any): CulturalProfile {
+    const observed = row.observed_outcomes ? this.parseJson(row.observed_outcomes) : null;
+
+    return {
+      key: row.region,
+      region: row.display_name || row.region,
+      state: row.state,
+      districts: row.districts || [],
+      version: row.version,
+      tradingCustoms: this.parseJson(row.trading_customs),
+      communicationPatterns: this.parseJson(row.communication_patterns),
+      marketPractices: this.parseJson(row.market_practices),
+      ...(observed
+        ? { observedOutcomes: { ...observed, since: new Date(observed.since), updatedAt: new Date(observed.updatedAt) } }
+        : {})
+    };
+  }
+
+  private parseJson(value: any): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
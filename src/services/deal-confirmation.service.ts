@@ -0,0 +1,298 @@
+import { createHash } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { DatabaseManager } from '../config/database';
+import { SarvamTranslationService, TranslationService } from './translation.service';
+import { DealConfirmation, DealRecordEntry, DealRecordTerms, NegotiationOffer } from '../types';
+import { BASE_UNIT } from '../utils/units';
+import { TRADE_NOTE_TEXTS, TradeNoteParty, renderTradeNote } from '../utils/trade-note';
+
+export type DealConfirmationOutcome =
+  | { outcome: 'ok'; confirmation: DealConfirmation }
+  | { outcome: 'not_found' }
+  | { outcome: 'not_participant' }
+  | { outcome: 'not_accepted'; state: string }
+  | { outcome: 'terms_mismatch'; confirmation: DealConfirmation };
+
+export interface TradeNote {
+  filename: string;
+  html: string;
+  language: string;
+}
+
+// Keys sorted at every level, so a payload hashes the same after a round trip through JSONB
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Binding confirmation of accepted negotiations. Acceptance writes the agreed terms as the first
+ * record of a per-deal hash chain; each participant then confirms by quoting that record's hash,
+ * which proves they confirmed exactly those terms. The chain is the source for the trade note.
+ */
+export class DealConfirmationService {
+  private static instance: DealConfirmationService;
+
+  constructor(
+    private readonly pgPool?: Pool,
+    private readonly translator: Pick<TranslationService, 'translateMessage'> = new SarvamTranslationService()
+  ) {}
+
+  public static getInstance(): DealConfirmationService {
+    if (!DealConfirmationService.instance) {
+      DealConfirmationService.instance = new DealConfirmationService();
+    }
+    return DealConfirmationService.instance;
+  }
+
+  /**
+   * The deal record for a participant, starting the chain if the negotiation was just accepted.
+   */
+  getConfirmation(sessionId: string, vendorId: string): Promise<DealConfirmationOutcome> {
+    return this.withDeal(sessionId, vendorId, async (_client, confirmation) => ({ outcome: 'ok', confirmation }));
+  }
+
+  /**
+   * Records the vendor's confirmation of the terms they were shown. Confirming twice is harmless.
+   */
+  confirm(sessionId: string, vendorId: string, termsHash: string): Promise<DealConfirmationOutcome> {
+    return this.withDeal(sessionId, vendorId, async (client, confirmation) => {
+      if (termsHash !== confirmation.termsHash) {
+        return { outcome: 'terms_mismatch', confirmation };
+      }
+      if (!confirmation.pendingVendorIds.includes(vendorId)) {
+        return { outcome: 'ok', confirmation };
+      }
+
+      const records = [...confirmation.records, await this.appendRecord(client, sessionId, confirmation.records, 'confirmed', vendorId, { termsHash })];
+      return { outcome: 'ok', confirmation: this.summarise(sessionId, confirmation.terms.participants, records) };
+    });
+  }
+
+  /**
+   * Bilingual HTML trade note: English beside the requested language, the vendor's preferred
+   * one by default. Falls back to English alone when the translation service is unavailable.
+   */
+  async buildTradeNote(sessionId: string, vendorId: string, language?: string): Promise<DealConfirmationOutcome | TradeNote> {
+    const result = await this.getConfirmation(sessionId, vendorId);
+    if (result.outcome !== 'ok') return result;
+
+    const { confirmation } = result;
+    const parties = await this.loadParties(confirmation.terms.participants);
+    const targetLanguage = language || parties.find(party => party.vendorId === vendorId)?.language || 'en';
+    const translations = await this.translateTexts(targetLanguage);
+
+    return {
+      filename: `trade-note-${sessionId}.html`,
+      language: translations ? targetLanguage : 'en',
+      html: renderTradeNote(confirmation, { parties, language: targetLanguage, translations })
+    };
+  }
+
+  /**
+   * Recomputes every hash and link in a deal's records.
+   */
+  verifyChain(sessionId: string, records: DealRecordEntry[]): boolean {
+    return records.every((record, index) =>
+      record.sequence === index + 1 &&
+      (record.previousHash ?? null) === (index === 0 ? null : records[index - 1].recordHash) &&
+      record.recordHash === this.hashRecord(sessionId, record)
+    );
+  }
+
+  private async withDeal(
+    sessionId: string,
+    vendorId: string,
+    action: (client: PoolClient, confirmation: DealConfirmation) => Promise<DealConfirmationOutcome>
+  ): Promise<DealConfirmationOutcome> {
+    const client = await this.getPool().connect();
+
+    try {
+      await client.query('BEGIN');
+      // The session row lock serialises confirmations of the same deal
+      const session = await client.query(
+        'SELECT participants, state, live_offer, final_deal FROM negotiation_sessions WHERE session_id = $1 FOR UPDATE',
+        [sessionId]
+      );
+
+      if (session.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return { outcome: 'not_found' };
+      }
+
+      const row = session.rows[0];
+      const participants: string[] = row.participants || [];
+      if (!participants.includes(vendorId)) {
+        await client.query('ROLLBACK');
+        return { outcome: 'not_participant' };
+      }
+      if (row.state !== 'accepted') {
+        await client.query('ROLLBACK');
+        return { outcome: 'not_accepted', state: row.state || 'unknown' };
+      }
+
+      const records = await this.loadRecords(client, sessionId);
+      if (records.length === 0) {
+        const terms = this.acceptedTerms(row, participants);
+        records.push(await this.appendRecord(client, sessionId, records, 'accepted', terms.acceptedBy, terms));
+      }
+
+      const outcome = await action(client, this.summarise(sessionId, participants, records));
+      await client.query('COMMIT');
+      return outcome;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private acceptedTerms(row: any, participants: string[]): DealRecordTerms {
+    const parse = (value: any) => typeof value === 'string' ? JSON.parse(value) : value;
+    const offer: NegotiationOffer = parse(row.live_offer);
+    const finalDeal = parse(row.final_deal) || {};
+    const unit = offer.unit || BASE_UNIT;
+
+    return {
+      offerId: offer.offerId,
+      commodity: offer.commodity,
+      quantity: offer.quantity,
+      unit,
+      price: offer.proposedPrice,
+      totalValue: Math.round(offer.proposedPrice * offer.quantity * 100) / 100,
+      ...(offer.currentMarketPrice > 0 ? { currentMarketPrice: offer.currentMarketPrice } : {}),
+      ...(offer.terms ? { terms: JSON.parse(JSON.stringify(offer.terms)) } : {}),
+      offeredBy: offer.fromVendorId,
+      acceptedBy: finalDeal.acceptedBy || offer.toVendorId,
+      participants,
+      acceptedAt: new Date(finalDeal.acceptedAt || Date.now()).toISOString()
+    };
+  }
+
+  private async appendRecord(
+    client: PoolClient,
+    sessionId: string,
+    records: DealRecordEntry[],
+    event: DealRecordEntry['event'],
+    vendorId: string,
+    payload: DealRecordEntry['payload']
+  ): Promise<DealRecordEntry> {
+    const previous = records[records.length - 1];
+    const entry: Omit<DealRecordEntry, 'recordHash'> = {
+      sequence: records.length + 1,
+      event,
+      vendorId,
+      payload,
+      previousHash: previous?.recordHash,
+      createdAt: new Date()
+    };
+    const recordHash = this.hashRecord(sessionId, entry);
+
+    await client.query(`
+      INSERT INTO deal_records (session_id, sequence, event, vendor_id, payload, previous_hash, record_hash, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [sessionId, entry.sequence, event, vendorId, JSON.stringify(payload), entry.previousHash ?? null, recordHash, entry.createdAt]);
+
+    return { ...entry, recordHash };
+  }
+
+  private async loadRecords(client: PoolClient, sessionId: string): Promise<DealRecordEntry[]> {
+    const result = await client.query(`
+      SELECT sequence, event, vendor_id, payload, previous_hash, record_hash, created_at
+      FROM deal_records
+      WHERE session_id = $1
+      ORDER BY sequence ASC
+    `, [sessionId]);
+
+    return result.rows.map((row: any) => ({
+      sequence: row.sequence,
+      event: row.event,
+      vendorId: row.vendor_id,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      previousHash: row.previous_hash || undefined,
+      recordHash: row.record_hash,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  private summarise(sessionId: string, participants: string[], records: DealRecordEntry[]): DealConfirmation {
+    const confirmations = records
+      .filter(record => record.event === 'confirmed')
+      .map(record => ({ vendorId: record.vendorId, confirmedAt: record.createdAt }));
+    const pendingVendorIds = participants.filter(id => !confirmations.some(confirmation => confirmation.vendorId === id));
+
+    return {
+      sessionId,
+      status: pendingVendorIds.length === 0 ? 'confirmed' : 'awaiting_confirmation',
+      terms: records[0].payload as DealRecordTerms,
+      termsHash: records[0].recordHash,
+      confirmations,
+      pendingVendorIds,
+      records,
+      chainValid: this.verifyChain(sessionId, records)
+    };
+  }
+
+  private hashRecord(sessionId: string, record: Omit<DealRecordEntry, 'recordHash'>): string {
+    return createHash('sha256').update(canonicalJson({
+      sessionId,
+      sequence: record.sequence,
+      event: record.event,
+      vendorId: record.vendorId,
+      payload: record.payload,
+      previousHash: record.previousHash ?? null,
+      createdAt: record.createdAt.toISOString()
+    })).digest('hex');
+  }
+
+  private async loadParties(vendorIds: string[]): Promise<TradeNoteParty[]> {
+    try {
+      const result = await this.getPool().query(
+        'SELECT id, name, phone, market, district, state, preferred_language FROM vendors WHERE id = ANY($1)',
+        [vendorIds]
+      );
+      return vendorIds.map(vendorId => {
+        const row = result.rows.find((candidate: any) => String(candidate.id) === vendorId);
+        return {
+          vendorId,
+          name: row?.name || vendorId,
+          phone: row?.phone,
+          location: row ? [row.market, row.district, row.state].filter(Boolean).join(', ') : undefined,
+          language: row?.preferred_language
+        };
+      });
+    } catch (error) {
+      console.error('Error loading trade note parties:', error);
+      return vendorIds.map(vendorId => ({ vendorId, name: vendorId }));
+    }
+  }
+
+  // Note labels in the target language, or null to print English only
+  private async translateTexts(language: string): Promise<Record<string, string> | null> {
+    if (language === 'en') return null;
+
+    try {
+      const entries = await Promise.all(Object.entries(TRADE_NOTE_TEXTS).map(async ([key, text]) => {
+        const result = await this.translator.translateMessage(text, 'en', language);
+        return [key, result.translatedText] as const;
+      }));
+      return Object.fromEntries(entries);
+    } catch (error) {
+      console.error(`Error translating trade note to ${language}:`, error);
+      return null;
+    }
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
@@ -0,0 +1,218 @@
+import { Pool } from 'pg';
+import { DatabaseManager } from '../config/database';
+import { DealHistoryModel, PersonalPriceComponent } from '../types';
+
+export interface PastDeal {
+  agreedPrice: number;
+  marketPrice: number;      // market price when the deal was struck, same unit as agreedPrice
+  openingPrice?: number;    // the vendor's first offer, when the negotiation was recorded
+  counterpartyIds: string[];
+  closedAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOOKBACK_DAYS = 365;
+const MAX_DEALS = 50;
+const MIN_DEALS = 3;
+const FULL_CONFIDENCE_DEALS = 10;
+const RECENCY_HALF_LIFE_DAYS = 90;
+const RATIO_SPREAD_FOR_ZERO_CONFIDENCE = 0.1; // closing ratios spread this widely tell us nothing
+const MAX_CONCESSION = 0.3;
+const MAX_PERSONAL_WEIGHT = 0.5;
+const COUNTERPARTY_BOOST = 2; // history with the same partner outweighs the vendor's overall record
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Per-vendor and per-counterparty models of how a vendor's past deals in a commodity closed
+ * against the market and how much they conceded from their opening offer.
+ *
+ * Deals come from completed negotiation sessions (with the vendor's first offer from their
+ * recorded steps) and from deal evaluations that name the vendor.
+ */
+export class DealHistoryService {
+  private static instance: DealHistoryService;
+  private readonly deals = new Map<string, { deals: PastDeal[]; loadedAt: number }>();
+
+  constructor(private readonly pgPool?: Pool) {}
+
+  public static getInstance(): DealHistoryService {
+    if (!DealHistoryService.instance) {
+      DealHistoryService.instance = new DealHistoryService();
+    }
+    return DealHistoryService.instance;
+  }
+
+  /**
+   * Opening price the vendor's history points to for a market price, or null when they have
+   * too few deals in the commodity to say.
+   */
+  async getPersonalComponent(
+    vendorId: string,
+    commodity: string,
+    marketPrice: number,
+    counterpartyId?: string
+  ): Promise<PersonalPriceComponent | null> {
+    const deals = await this.getDeals(vendorId, commodity);
+    const models = [
+      this.buildModel(deals, 'vendor'),
+      counterpartyId ? this.buildModel(deals.filter(deal => deal.counterpartyIds.includes(counterpartyId)), 'counterparty') : null
+    ].filter((model): model is DealHistoryModel => model !== null && model.confidence > 0);
+
+    if (models.length === 0) return null;
+
+    const influence = (model: DealHistoryModel) => model.confidence * (model.scope === 'counterparty' ? COUNTERPARTY_BOOST : 1);
+    const totalInfluence = models.reduce((sum, model) => sum + influence(model), 0);
+    const suggestedPrice = models.reduce(
+      (sum, model) => sum + this.impliedOpeningPrice(model, marketPrice) * influence(model),
+      0
+    ) / totalInfluence;
+    const confidence = Math.max(...models.map(model => model.confidence));
+
+    return {
+      suggestedPrice: Math.round(suggestedPrice * 100) / 100,
+      weight: Math.round(MAX_PERSONAL_WEIGHT * confidence * 100) / 100,
+      confidence,
+      models
+    };
+  }
+
+  /**
+   * Summarises deals into closing ratio, concession rate and confidence; null below the
+   * minimum number of deals.
+   */
+  buildModel(deals: PastDeal[], scope: DealHistoryModel['scope'], now: Date = new Date()): DealHistoryModel | null {
+    // Ratios far from the market are unit mix-ups or data errors rather than negotiating style
+    const usable = deals.filter(deal => {
+      const ratio = deal.agreedPrice / deal.marketPrice;
+      return deal.marketPrice > 0 && ratio >= 0.5 && ratio <= 1.5;
+    });
+    if (usable.length < MIN_DEALS) return null;
+
+    const weightOf = (deal: PastDeal) => Math.pow(0.5, Math.max(0, now.getTime() - deal.closedAt.getTime()) / DAY_MS / RECENCY_HALF_LIFE_DAYS);
+    const weightedMean = (items: PastDeal[], value: (deal: PastDeal) => number) => {
+      const totalWeight = items.reduce((sum, deal) => sum + weightOf(deal), 0);
+      return items.reduce((sum, deal) => sum + value(deal) * weightOf(deal), 0) / totalWeight;
+    };
+
+    const closingRatio = weightedMean(usable, deal => deal.agreedPrice / deal.marketPrice);
+    const spread = Math.sqrt(weightedMean(usable, deal => Math.pow(deal.agreedPrice / deal.marketPrice - closingRatio, 2)));
+
+    const withOpening = usable.filter(deal => deal.openingPrice && deal.openingPrice > 0);
+    const concessionRate = withOpening.length > 0
+      ? weightedMean(withOpening, deal => (deal.openingPrice! - deal.agreedPrice) / deal.openingPrice!)
+      : null;
+
+    const sampleFactor = Math.min(1, usable.length / FULL_CONFIDENCE_DEALS);
+    const consistency = Math.max(0, 1 - spread / RATIO_SPREAD_FOR_ZERO_CONFIDENCE);
+
+    return {
+      scope,
+      deals: usable.length,
+      closingRatio: Math.round(closingRatio * 10000) / 10000,
+      concessionRate: concessionRate === null ? null : Math.round(concessionRate * 10000) / 10000,
+      confidence: Math.round(sampleFactor * consistency * 100) / 100
+    };
+  }
+
+  /**
+   * Drops cached deals after the vendor closes or evaluates a new one.
+   */
+  forget(vendorId: string): void {
+    for (const key of this.deals.keys()) {
+      if (key.startsWith(`${vendorId}:`)) this.deals.delete(key);
+    }
+  }
+
+  // Open where the vendor's usual concession still lands them at their usual closing ratio
+  private impliedOpeningPrice(model: DealHistoryModel, marketPrice: number): number {
+    const concession = Math.max(-MAX_CONCESSION, Math.min(MAX_CONCESSION, model.concessionRate ?? 0));
+    return marketPrice * model.closingRatio / (1 - concession);
+  }
+
+  private async getDeals(vendorId: string, commodity: string): Promise<PastDeal[]> {
+    const key = `${vendorId}:${commodity.toLowerCase()}`;
+    const cached = this.deals.get(key);
+
+    if (cached && Date.now() - cached.loadedAt <= CACHE_TTL_MS) {
+      return cached.deals;
+    }
+
+    try {
+      const deals = await this.loadDeals(vendorId, commodity);
+      this.deals.set(key, { deals, loadedAt: Date.now() });
+      return deals;
+    } catch (error) {
+      // Suggestions fall back to market-only pricing without the vendor's history
+      console.error('Error loading deal history:', error);
+      return cached?.deals || [];
+    }
+  }
+
+  private async loadDeals(vendorId: string, commodity: string): Promise<PastDeal[]> {
+    const db = this.getPool();
+
+    const sessions = await db.query(`
+      SELECT s.session_id, s.participants, s.final_deal, COALESCE(s.end_time, s.updated_at) AS closed_at,
+             (SELECT st.offer_data->>'proposedPrice'
+              FROM negotiation_steps st
+              WHERE st.session_id = s.session_id AND st.vendor_id = $1 AND st.offer_data IS NOT NULL
+              ORDER BY st.timestamp ASC
+              LIMIT 1) AS opening_price
+      FROM negotiation_sessions s
+      WHERE $1 = ANY(s.participants) AND LOWER(s.commodity) = LOWER($2)
+        AND s.status = 'completed' AND s.final_deal IS NOT NULL
+        AND COALESCE(s.end_time, s.updated_at) > NOW() - $3::int * INTERVAL '1 day'
+      ORDER BY closed_at DESC
+      LIMIT $4
+    `, [vendorId, commodity, LOOKBACK_DAYS, MAX_DEALS]);
+
+    const deals: PastDeal[] = [];
+    const sessionIds = new Set<string>();
+
+    for (const row of sessions.rows) {
+      const finalDeal = typeof row.final_deal === 'string' ? JSON.parse(row.final_deal) : row.final_deal;
+      const agreedPrice = parseFloat(finalDeal?.agreedPrice);
+      const marketPrice = parseFloat(finalDeal?.marketPriceAtTime);
+      if (!(agreedPrice > 0) || !(marketPrice > 0)) continue;
+
+      sessionIds.add(row.session_id);
+      deals.push({
+        agreedPrice,
+        marketPrice,
+        openingPrice: row.opening_price ? parseFloat(row.opening_price) : undefined,
+        counterpartyIds: (row.participants || []).filter((id: string) => id !== vendorId),
+        closedAt: new Date(row.closed_at)
+      });
+    }
+
+    // Evaluations of deals negotiated elsewhere; those of recorded sessions are already counted
+    const evaluations = await db.query(`
+      SELECT session_id, counterparty_id, final_price, market_price, created_at
+      FROM deal_evaluations
+      WHERE vendor_id = $1 AND LOWER(commodity) = LOWER($2)
+        AND final_price IS NOT NULL AND market_price > 0
+        AND created_at > NOW() - $3::int * INTERVAL '1 day'
+      ORDER BY created_at DESC
+      LIMIT $4
+    `, [vendorId, commodity, LOOKBACK_DAYS, MAX_DEALS]);
+
+    for (const row of evaluations.rows) {
+      if (row.session_id && sessionIds.has(row.session_id)) continue;
+
+      deals.push({
+        agreedPrice: parseFloat(row.final_price),
+        marketPrice: parseFloat(row.market_price),
+        counterpartyIds: row.counterparty_id ? [row.counterparty_id] : [],
+        closedAt: new Date(row.created_at)
+      });
+    }
+
+    return deals
+      .sort((a, b) => b.closedAt.getTime() - a.closedAt.getTime())
+      .slice(0, MAX_DEALS);
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
@@ -0,0 +1,359 @@
+import { DatabaseManager } from '../config/database';
+import { GeoPoint, haversineDistanceKm, isValidCoordinate } from '../utils/geo';
+import { CommoditySpec } from '../types';
+import { DEFAULT_GRADE, DEFAULT_VARIETY, normalizeGrade, normalizeVariety } from '../utils/commodity-grades';
+
+export interface Mandi {
+  id: number;
+  name: string;
+  district?: string;
+  state: string;
+  coordinates: GeoPoint;
+}
+
+export interface NearbyMarketPrice {
+  market: string;
+  district?: string;
+  state: string;
+  coordinates?: GeoPoint;
+  distanceKm: number;
+  date: Date;
+  minPrice: number;
+  maxPrice: number;
+  modalPrice: number;
+  arrivals: number;
+  hasArrivalsToday: boolean;
+  transportCostPerQuintal: number;
+  effectivePrice: number; // modal price net of transport to this mandi
+}
+
+export interface NearestMandiQuery {
+  lat?: number;
+  lng?: number;
+  vendorId?: string;
+}
+
+export interface NearestMandiOptions {
+  limit?: number;
+  maxDistanceKm?: number;
+  transportRatePerQuintalKm?: number;
+  lookbackDays?: number;
+}
+
+export interface NearestMandiPriceResult {
+  commodity: string;
+  variety: string;
+  grade: string;
+  origin: {
+    coordinates: GeoPoint;
+    vendorId?: string;
+    homeMarket?: string;
+  };
+  transportRatePerQuintalKm: number;
+  markets: NearbyMarketPrice[];
+  selectedMarket: NearbyMarketPrice | null;
+  bestEffectivePrice: NearbyMarketPrice | null;
+  fallbackUsed: boolean;
+  fallbackReason?: string;
+}
+
+// Approximate truck freight for farm produce, in ₹ per quintal per km
+export const DEFAULT_TRANSPORT_RATE_PER_QUINTAL_KM = 0.35;
+const DEFAULT_LIMIT = 5;
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+export class MandiLocatorService {
+  private readonly dbManager: DatabaseManager;
+  private readonly redisClient;
+
+  constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+    this.redisClient = this.dbManager.getRedisClient();
+  }
+
+  /**
+   * Prices for the N nearest mandis to a point or a vendor, ranked by distance. Every mandi is
+   * priced for the same variety and grade: unless the spec says otherwise, the variety most of the
+   * nearby mandis quote, at FAQ.
+   * Returns null if the origin cannot be resolved (unknown vendor or no location on file).
+   */
+  async getNearestMarketPrices(
+    commodity: string,
+    query: NearestMandiQuery,
+    options: NearestMandiOptions = {},
+    spec: CommoditySpec = {}
+  ): Promise<NearestMandiPriceResult | null> {
+    const limit = options.limit || DEFAULT_LIMIT;
+    const transportRate = options.transportRatePerQuintalKm ?? DEFAULT_TRANSPORT_RATE_PER_QUINTAL_KM;
+    const lookbackDays = options.lookbackDays || DEFAULT_LOOKBACK_DAYS;
+    const grade = normalizeGrade(spec.grade) || DEFAULT_GRADE;
+
+    const mandis = await this.getMandis();
+    const origin = await this.resolveOrigin(query, mandis);
+
+    if (!origin) {
+      return null;
+    }
+
+    const ranked = mandis
+      .map(mandi => ({ mandi, distanceKm: haversineDistanceKm(origin.coordinates, mandi.coordinates) }))
+      .filter(entry => options.maxDistanceKm === undefined || entry.distanceKm <= options.maxDistanceKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+
+    // Look further than the requested limit so mandis without data don't leave gaps
+    const candidates = ranked.slice(0, limit * 3);
+    const marketNames = candidates.map(entry => entry.mandi.name);
+    if (origin.homeMarket && !marketNames.some(name => name.toLowerCase() === origin.homeMarket!.toLowerCase())) {
+      marketNames.push(origin.homeMarket);
+    }
+
+    const variety = spec.variety
+      ? normalizeVariety(commodity, spec.variety)
+      : await this.getBestSupportedVariety(commodity, grade, marketNames, lookbackDays);
+
+    const latestPrices = await this.getLatestPrices(commodity, { variety, grade }, marketNames, lookbackDays);
+    const today = new Date().toDateString();
+
+    const toMarketPrice = (name: string, distanceKm: number, mandi?: Mandi): NearbyMarketPrice | null => {
+      const row = latestPrices.get(name.toLowerCase());
+      if (!row) return null;
+
+      const transportCost = Math.round(distanceKm * transportRate * 100) / 100;
+      return {
+        market: mandi?.name || row.market,
+        district: mandi?.district,
+        state: mandi?.state || row.state,
+        coordinates: mandi?.coordinates,
+        distanceKm: Math.round(distanceKm * 10) / 10,
+        date: row.date,
+        minPrice: row.minPrice,
+        maxPrice: row.maxPrice,
+        modalPrice: row.modalPrice,
+        arrivals: row.arrivals,
+        hasArrivalsToday: row.date.toDateString() === today && row.arrivals > 0,
+        transportCostPerQuintal: transportCost,
+        effectivePrice: Math.round((row.modalPrice - transportCost) * 100) / 100
+      };
+    };
+
+    const markets = candidates
+      .map(entry => toMarketPrice(entry.mandi.name, entry.distanceKm, entry.mandi))
+      .filter((price): price is NearbyMarketPrice => price !== null)
+      .slice(0, limit);
+
+    // For a bare lat/lng the nearest mandi stands in for the vendor's own market
+    const homeMarket = origin.homeMarket || ranked[0]?.mandi.name;
+    let homePrice: NearbyMarketPrice | null = null;
+    if (homeMarket) {
+      const homeMandi = mandis.find(m => m.name.toLowerCase() === homeMarket.toLowerCase());
+      homePrice = markets.find(m => m.market.toLowerCase() === homeMarket.toLowerCase()) ||
+        toMarketPrice(
+          homeMarket,
+          homeMandi ? haversineDistanceKm(origin.coordinates, homeMandi.coordinates) : 0,
+          homeMandi
+        );
+    }
+
+    const selection = this.selectMarket(homePrice, markets, homeMarket);
+
+    const bestEffectivePrice = markets.length > 0
+      ? markets.reduce((best, m) => m.effectivePrice > best.effectivePrice ? m : best)
+      : null;
+
+    return {
+      commodity,
+      variety,
+      grade,
+      origin,
+      transportRatePerQuintalKm: transportRate,
+      markets,
+      selectedMarket: selection.market,
+      bestEffectivePrice,
+      fallbackUsed: selection.fallbackUsed,
+      fallbackReason: selection.reason
+    };
+  }
+
+  async getMandis(): Promise<Mandi[]> {
+    const cacheKey = 'mandis:all';
+
+    try {
+      const cached = await this.redisClient.get(cacheKey);
+      if (cached) {
+        return JSON.parse(cached);
+      }
+    } catch (error) {
+      console.error('Mandi cache read error:', error);
+    }
+
+    try {
+      const db = this.dbManager.getPostgresClient();
+      const result = await db.query(
+        'SELECT id, name, district, state, latitude, longitude FROM mandis WHERE is_active = true'
+      );
+
+      const mandis: Mandi[] = result.rows
+        .map(row => ({
+          id: row.id,
+          name: row.name,
+          district: row.district || undefined,
+          state: row.state,
+          coordinates: { lat: parseFloat(row.latitude), lng: parseFloat(row.longitude) }
+        }))
+        .filter(mandi => mandi.name && isValidCoordinate(mandi.coordinates));
+
+      // Mandi locations rarely change; cache for a day
+      await this.redisClient.setEx(cacheKey, 86400, JSON.stringify(mandis));
+
+      return mandis;
+
+    } catch (error) {
+      console.error('Error loading mandis:', error);
+      return [];
+    }
+  }
+
+  private selectMarket(
+    homePrice: NearbyMarketPrice | null,
+    markets: NearbyMarketPrice[],
+    homeMarket?: string
+  ): { market: NearbyMarketPrice | null; fallbackUsed: boolean; reason?: string } {
+    if (homePrice?.hasArrivalsToday) {
+      return { market: homePrice, fallbackUsed: false };
+    }
+
+    const nearestWithArrivals = markets.find(m => m.hasArrivalsToday);
+    if (nearestWithArrivals) {
+      return {
+        market: nearestWithArrivals,
+        fallbackUsed: true,
+        reason: `${homeMarket} has no arrivals today; using ${nearestWithArrivals.market} (${nearestWithArrivals.distanceKm} km away)`
+      };
+    }
+
+    const latest = homePrice || markets[0] || null;
+    if (!latest) {
+      return { market: null, fallbackUsed: false, reason: 'No recent prices for nearby mandis' };
+    }
+
+    return {
+      market: latest,
+      fallbackUsed: latest !== homePrice,
+      reason: `No nearby mandi has arrivals today; using latest price from ${latest.market} (${latest.date.toDateString()})`
+    };
+  }
+
+  private async resolveOrigin(
+    query: NearestMandiQuery,
+    mandis: Mandi[]
+  ): Promise<NearestMandiPriceResult['origin'] | null> {
+    const point = { lat: query.lat, lng: query.lng };
+    if (isValidCoordinate(point)) {
+      return { coordinates: point };
+    }
+
+    if (!query.vendorId) {
+      return null;
+    }
+
+    try {
+      const db = this.dbManager.getPostgresClient();
+      const result = await db.query(
+        'SELECT market, latitude, longitude FROM vendors WHERE id = $1',
+        [query.vendorId]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const vendor = result.rows[0];
+      const coordinates = { lat: parseFloat(vendor.latitude), lng: parseFloat(vendor.longitude) };
+
+      if (isValidCoordinate(coordinates)) {
+        return { coordinates, vendorId: query.vendorId, homeMarket: vendor.market || undefined };
+      }
+
+      // No coordinates on file; place the vendor at their own mandi
+      const homeMandi = mandis.find(m => vendor.market && m.name.toLowerCase() === String(vendor.market).toLowerCase());
+      if (homeMandi) {
+        return { coordinates: homeMandi.coordinates, vendorId: query.vendorId, homeMarket: homeMandi.name };
+      }
+
+      return null;
+
+    } catch (error) {
+      console.error('Error resolving vendor location:', error);
+      return null;
+    }
+  }
+
+  // Variety quoted by the most candidate mandis, then by arrivals; the catch-all variety when none are
+  private async getBestSupportedVariety(commodity: string, grade: string, markets: string[], lookbackDays: number): Promise<string> {
+    if (markets.length === 0) return DEFAULT_VARIETY;
+
+    try {
+      const db = this.dbManager.getPostgresClient();
+      const result = await db.query(`
+        SELECT variety, COUNT(DISTINCT LOWER(market)) as markets, SUM(arrivals) as arrivals
+        FROM market_data
+        WHERE commodity = $1
+        AND grade = $2
+        AND LOWER(market) = ANY($3)
+        AND date >= CURRENT_DATE - $4::int
+        GROUP BY variety
+        ORDER BY markets DESC, arrivals DESC
+        LIMIT 1
+      `, [commodity, grade, markets.map(m => m.toLowerCase()), lookbackDays]);
+
+      return result.rows[0]?.variety || DEFAULT_VARIETY;
+    } catch (error) {
+      console.error('Error finding the most quoted variety:', error);
+      return DEFAULT_VARIETY;
+    }
+  }
+
+  private async getLatestPrices(
+    commodity: string,
+    spec: Required<CommoditySpec>,
+    markets: string[],
+    lookbackDays: number
+  ): Promise<Map<string, { market: string; state: string; date: Date; minPrice: number; maxPrice: number; modalPrice: number; arrivals: number }>> {
+    const prices = new Map();
+    if (markets.length === 0) return prices;
+
+    try {
+      const db = this.dbManager.getPostgresClient();
+      const result = await db.query(`
+        SELECT DISTINCT ON (LOWER(market)) market, state, date, min_price, max_price, modal_price, arrivals
+        FROM market_data
+        WHERE commodity = $1
+        AND variety = $2
+        AND grade = $3
+        AND LOWER(market) = ANY($4)
+        AND date >= CURRENT_DATE - $5::int
+        ORDER BY LOWER(market), date DESC
+      `, [commodity, spec.variety, spec.grade, markets.map(m => m.toLowerCase()), lookbackDays]);
+
+      for (const row of result.rows) {
+        const modalPrice = parseFloat(row.modal_price);
+        if (!row.market || !isFinite(modalPrice) || modalPrice <= 0) continue;
+
+        prices.set(String(row.market).toLowerCase(), {
+          market: row.market,
+          state: row.state,
+          date: new Date(row.date),
+          minPrice: parseFloat(row.min_price),
+          maxPrice: parseFloat(row.max_price),
+          modalPrice,
+          arrivals: parseInt(row.arrivals) || 0
+        });
+      }
+
+    } catch (error) {
+      console.error('Error fetching nearby market prices:', error);
+    }
+
+    return prices;
+  }
+}
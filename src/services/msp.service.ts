@@ -0,0 +1,233 @@
+import { readFileSync } from 'fs';
+import { extname, basename } from 'path';
+import { Pool } from 'pg';
+import { DatabaseManager } from '../config/database';
+import { parseCsv, normalizeCsvHeader } from '../utils/csv';
+import { MSP_RATES, compareWithMsp, findMspRate, mspCommodityName } from '../utils/msp';
+import { CropSeason, MspComparison, MspRate } from '../types';
+
+export interface MspNotificationDefaults {
+  cropYear?: string;
+  season?: CropSeason;
+  notificationRef?: string;
+}
+
+export interface MspParseResult {
+  rates: MspRate[];
+  errors: Array<{ row: number; reason: string }>;
+}
+
+export interface MspLoadResult extends MspParseResult {
+  source: string;
+  loaded: number;
+  dryRun: boolean;
+}
+
+export interface MspLookupOptions {
+  variety?: string;
+  date?: Date;
+}
+
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * MSP rates: the bundled dataset overlaid with notifications loaded into msp_rates.
+ *
+ * Lookups are synchronous against an in-memory copy so they can run on every price
+ * request; the copy is refreshed from the database in the background.
+ */
+export class MspService {
+  private static instance: MspService;
+  private loadedRates: MspRate[] = [];
+  private loadedAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(private readonly pgPool?: Pool) {}
+
+  public static getInstance(): MspService {
+    if (!MspService.instance) {
+      MspService.instance = new MspService();
+    }
+    return MspService.instance;
+  }
+
+  getRates(): MspRate[] {
+    if (Date.now() - this.loadedAt > REFRESH_INTERVAL_MS) {
+      void this.refresh();
+    }
+
+    if (this.loadedRates.length === 0) return MSP_RATES;
+
+    // A loaded notification replaces the bundled rate for the same season
+    const loadedKeys = new Set(this.loadedRates.map(rate => this.rateKey(rate)));
+    return [...MSP_RATES.filter(rate => !loadedKeys.has(this.rateKey(rate))), ...this.loadedRates];
+  }
+
+  findRate(commodity: string, options: MspLookupOptions = {}): MspRate | null {
+    return findMspRate(this.getRates(), commodity, options);
+  }
+
+  /**
+   * Compares a per-quintal price with the MSP in force. Null for commodities without an MSP.
+   */
+  compare(pricePerQuintal: number, commodity: string, options: MspLookupOptions = {}): MspComparison | null {
+    const rate = this.findRate(commodity, options);
+    return rate ? compareWithMsp(pricePerQuintal, rate) : null;
+  }
+
+  async refresh(): Promise<void> {
+    if (this.refreshing) return this.refreshing;
+
+    this.refreshing = (async () => {
+      try {
+        const result = await this.getPool().query(`
+          SELECT commodity, variety, crop_year, season, price_per_quintal, effective_from, notification_ref
+          FROM msp_rates
+        `);
+
+        this.loadedRates = (result?.rows || []).map((row: any) => ({
+          commodity: row.commodity,
+          ...(row.variety ? { variety: row.variety } : {}),
+          cropYear: row.crop_year,
+          season: row.season,
+          pricePerQuintal: parseFloat(row.price_per_quintal),
+          effectiveFrom: new Date(row.effective_from),
+          notificationRef: row.notification_ref || undefined
+        }));
+      } catch (error) {
+        // The bundled dataset still answers lookups
+        console.error('Error loading MSP rates:', error);
+      } finally {
+        this.loadedAt = Date.now();
+        this.refreshing = null;
+      }
+    })();
+
+    return this.refreshing;
+  }
+
+  async importFile(filePath: string, options: MspNotificationDefaults & { dryRun?: boolean } = {}): Promise<MspLoadResult> {
+    const content = readFileSync(filePath, 'utf-8');
+    const rows = extname(filePath).toLowerCase() === '.json'
+      ? this.parseJsonNotification(content)
+      : parseCsv(content);
+
+    return this.loadRates(this.parseNotification(rows, options), { source: basename(filePath), dryRun: options.dryRun });
+  }
+
+  async loadRates(parsed: MspParseResult, options: { source?: string; dryRun?: boolean } = {}): Promise<MspLoadResult> {
+    const source = options.source || 'import';
+
+    if (!options.dryRun) {
+      for (const rate of parsed.rates) {
+        await this.getPool().query(`
+          INSERT INTO msp_rates (commodity, variety, crop_year, season, price_per_quintal, effective_from, notification_ref, source)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          ON CONFLICT (commodity, variety, crop_year, season) DO UPDATE SET
+            price_per_quintal = EXCLUDED.price_per_quintal,
+            effective_from = EXCLUDED.effective_from,
+            notification_ref = EXCLUDED.notification_ref,
+            source = EXCLUDED.source
+        `, [
+          rate.commodity,
+          rate.variety || '',
+          rate.cropYear,
+          rate.season,
+          rate.pricePerQuintal,
+          rate.effectiveFrom,
+          rate.notificationRef || null,
+          source
+        ]);
+      }
+
+      await this.refresh();
+    }
+
+    return { ...parsed, source, loaded: options.dryRun ? 0 : parsed.rates.length, dryRun: !!options.dryRun };
+  }
+
+  /**
+   * Accepts a plain array of records or { records: [...] }, as data.gov.in publishes them.
+   */
+  parseJsonNotification(content: string): Record<string, string>[] {
+    const parsed = JSON.parse(content);
+    const records: any[] = Array.isArray(parsed) ? parsed : (parsed.records || parsed.rates || []);
+
+    return records.map(record => {
+      const row: Record<string, string> = {};
+      for (const [key, value] of Object.entries(record || {})) {
+        row[normalizeCsvHeader(key)] = value === null || value === undefined ? '' : String(value);
+      }
+      return row;
+    });
+  }
+
+  /**
+   * Notification tables usually cover one season, so crop year and season can come from the
+   * defaults instead of a column. The effective date defaults to the start of the marketing season.
+   */
+  parseNotification(rows: Record<string, string>[], defaults: MspNotificationDefaults = {}): MspParseResult {
+    const result: MspParseResult = { rates: [], errors: [] };
+
+    rows.forEach((row, index) => {
+      const rowNumber = index + 1;
+      const commodity = mspCommodityName(row.commodity || row.crop) || (row.commodity || row.crop || '').trim();
+      const cropYear = this.normalizeCropYear(row.crop_year || row.marketing_season || row.year || defaults.cropYear);
+      const season = ((row.season || defaults.season || '').trim().toLowerCase()) as CropSeason;
+      const price = parseFloat((row.msp || row.price_per_quintal || row.msp_rs_per_quintal || row.price || '').replace(/[₹,\s]/g, ''));
+
+      if (!commodity) {
+        result.errors.push({ row: rowNumber, reason: 'Commodity is required' });
+      } else if (!cropYear) {
+        result.errors.push({ row: rowNumber, reason: 'Crop year must look like 2024-25' });
+      } else if (season !== 'kharif' && season !== 'rabi') {
+        result.errors.push({ row: rowNumber, reason: 'Season must be kharif or rabi' });
+      } else if (!isFinite(price) || price <= 0) {
+        result.errors.push({ row: rowNumber, reason: 'MSP must be a positive price per quintal' });
+      } else {
+        const effectiveFrom = row.effective_from ? new Date(row.effective_from) : this.seasonStart(cropYear, season);
+        if (isNaN(effectiveFrom.getTime())) {
+          result.errors.push({ row: rowNumber, reason: `Invalid effective date: ${row.effective_from}` });
+          return;
+        }
+
+        const variety = (row.variety || '').trim();
+        result.rates.push({
+          commodity,
+          ...(variety ? { variety } : {}),
+          cropYear,
+          season,
+          pricePerQuintal: price,
+          effectiveFrom,
+          notificationRef: (row.notification_ref || row.notification || defaults.notificationRef || '').trim() || undefined
+        });
+      }
+    });
+
+    return result;
+  }
+
+  // '2024-25', '2024-2025' and '2024–25' all mean the 2024-25 crop year
+  private normalizeCropYear(value?: string): string | undefined {
+    const match = (value || '').trim().match(/^(\d{4})\s*[-–/]\s*(\d{2}|\d{4})$/);
+    if (!match) return undefined;
+
+    const start = parseInt(match[1]);
+    const end = parseInt(match[2].slice(-2));
+    return end === (start + 1) % 100 ? `${start}-${match[2].slice(-2)}` : undefined;
+  }
+
+  // Kharif marketing starts in October of the first year, rabi in April
+  private seasonStart(cropYear: string, season: CropSeason): Date {
+    const startYear = cropYear.slice(0, 4);
+    return new Date(season === 'kharif' ? `${startYear}-10-01` : `${startYear}-04-01`);
+  }
+
+  private rateKey(rate: MspRate): string {
+    return [rate.commodity, rate.variety || '', rate.cropYear, rate.season].join('|').toLowerCase();
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
@@ -0,0 +1,277 @@
+import { Pool } from 'pg';
+import { DatabaseManager } from '../config/database';
+import {
+  ExperimentAssignment,
+  ExperimentResults,
+  ExperimentTarget,
+  ExperimentVariantResults,
+  NegotiationExperiment,
+  NegotiationStep
+} from '../types';
+import { ExperimentInput, bucketVariant, experimentTargetForStep, validateExperiment } from '../utils/negotiation-experiments';
+
+export type ExperimentOutcome =
+  | { outcome: 'ok'; experiment: NegotiationExperiment }
+  | { outcome: 'invalid'; errors: string[] }
+  | { outcome: 'not_found' }
+  | { outcome: 'conflict'; reason: string };
+
+// How long a server keeps the list of running experiments before re-reading it
+const RUNNING_CACHE_MS = 30 * 1000;
+
+const EXPERIMENT_COLUMNS = `key, name, description, target, unit, status, variants, created_by,
+  created_at, started_at, stopped_at`;
+
+// Sessions with an assisted step made under each variant of experiment $1
+const EXPOSED_SESSIONS = `
+  SELECT DISTINCT session_id, experiment_variants ->> $1 AS variant
+  FROM negotiation_steps
+  WHERE ai_assistance_used AND experiment_variants ? $1
+`;
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * A/B experiments on opening price suggestions and response recommendations. Vendors or sessions
+ * are bucketed by hash, assisted steps are tagged with the variant that advised them, and
+ * results compare deal rate, deal score and satisfaction across variants.
+ */
+export class NegotiationExperimentService {
+  private static instance: NegotiationExperimentService;
+  private running: { experiments: NegotiationExperiment[]; loadedAt: number } | null = null;
+
+  constructor(private readonly pgPool?: Pool) {}
+
+  public static getInstance(): NegotiationExperimentService {
+    if (!NegotiationExperimentService.instance) {
+      NegotiationExperimentService.instance = new NegotiationExperimentService();
+    }
+    return NegotiationExperimentService.instance;
+  }
+
+  async createExperiment(input: Partial<ExperimentInput>, adminId: string): Promise<ExperimentOutcome> {
+    const experiment = {
+      ...input,
+      variants: Array.isArray(input.variants)
+        ? input.variants.map(variant => ({ key: variant?.key, weight: variant?.weight ?? 1, parameters: variant?.parameters || {} }))
+        : input.variants
+    } as ExperimentInput;
+
+    const errors = validateExperiment(experiment);
+    if (errors.length > 0) {
+      return { outcome: 'invalid', errors };
+    }
+
+    try {
+      const result = await this.getPool().query(`
+        INSERT INTO negotiation_experiments (key, name, description, target, unit, variants, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING ${EXPERIMENT_COLUMNS}
+      `, [
+        experiment.key,
+        experiment.name.trim(),
+        experiment.description || null,
+        experiment.target,
+        experiment.unit,
+        JSON.stringify(experiment.variants),
+        adminId
+      ]);
+      return { outcome: 'ok', experiment: this.mapRow(result.rows[0]) };
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return { outcome: 'conflict', reason: `Experiment ${experiment.key} already exists` };
+      }
+      throw error;
+    }
+  }
+
+  async listExperiments(): Promise<NegotiationExperiment[]> {
+    const result = await this.getPool().query(`SELECT ${EXPERIMENT_COLUMNS} FROM negotiation_experiments ORDER BY created_at DESC`);
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  async getExperiment(key: string): Promise<NegotiationExperiment | null> {
+    const result = await this.getPool().query(`SELECT ${EXPERIMENT_COLUMNS} FROM negotiation_experiments WHERE key = $1`, [key]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Starts a draft experiment. Only one experiment per target runs at a time.
+   */
+  async start(key: string): Promise<ExperimentOutcome> {
+    return this.transition(key, 'draft', 'running', 'started_at');
+  }
+
+  /**
+   * Stops a running experiment. A stopped experiment keeps its results but cannot restart.
+   */
+  async stop(key: string): Promise<ExperimentOutcome> {
+    return this.transition(key, 'running', 'stopped', 'stopped_at');
+  }
+
+  /**
+   * Variants of the running experiments on a target for this vendor and session. Experiments
+   * bucketed by session are skipped when there is no session yet.
+   */
+  async assign(target: ExperimentTarget, unit: { vendorId?: string; sessionId?: string }): Promise<ExperimentAssignment[]> {
+    const experiments = await this.getRunningExperiments();
+
+    return experiments
+      .filter(experiment => experiment.target === target)
+      .flatMap(experiment => {
+        const unitId = experiment.unit === 'vendor' ? unit.vendorId : unit.sessionId;
+        if (!unitId) return [];
+        const variant = bucketVariant(experiment.key, unitId, experiment.variants);
+        return [{ experimentKey: experiment.key, variant: variant.key, parameters: variant.parameters }];
+      });
+  }
+
+  /**
+   * Experiment key -> variant for an assisted step, or null when no running experiment
+   * advised it. The variant is recomputed, so it matches what the assistant served.
+   */
+  async variantsForStep(step: Pick<NegotiationStep, 'action' | 'vendorId' | 'sessionId' | 'aiAssistanceUsed'>): Promise<Record<string, string> | null> {
+    const target = experimentTargetForStep(step.action);
+    if (!step.aiAssistanceUsed || !target) return null;
+
+    try {
+      const assignments = await this.assign(target, { vendorId: step.vendorId, sessionId: step.sessionId });
+      return assignments.length > 0
+        ? Object.fromEntries(assignments.map(assignment => [assignment.experimentKey, assignment.variant]))
+        : null;
+    } catch (error) {
+      console.error('Error assigning experiment variants to step:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Deal rate, deal score and satisfaction for each variant.
+   */
+  async getResults(key: string): Promise<ExperimentResults | null> {
+    const experiment = await this.getExperiment(key);
+    if (!experiment) return null;
+
+    const pool = this.getPool();
+    const [sessions, evaluations, feedback] = await Promise.all([
+      pool.query(`
+        SELECT exposed.variant,
+               COUNT(*) AS sessions,
+               COUNT(*) FILTER (WHERE s.state IN ('accepted', 'rejected', 'expired')) AS concluded,
+               COUNT(*) FILTER (WHERE s.state = 'accepted') AS deals
+        FROM (${EXPOSED_SESSIONS}) exposed
+        LEFT JOIN negotiation_sessions s ON s.session_id = exposed.session_id
+        GROUP BY exposed.variant
+      `, [key]),
+      pool.query(`
+        SELECT exposed.variant, COUNT(*) AS evaluated, AVG(e.overall_score) AS average_score
+        FROM (${EXPOSED_SESSIONS}) exposed
+        JOIN deal_evaluations e ON e.session_id = exposed.session_id
+        GROUP BY exposed.variant
+      `, [key]),
+      pool.query(`
+        SELECT exposed.variant, COUNT(*) AS responses,
+               AVG((feedback ->> 'satisfactionScore')::numeric) AS average_satisfaction
+        FROM (${EXPOSED_SESSIONS}) exposed
+        JOIN learning_data l ON l.session_id = exposed.session_id
+        CROSS JOIN LATERAL jsonb_array_elements(l.participant_feedback) AS feedback
+        WHERE feedback ? 'satisfactionScore'
+        GROUP BY exposed.variant
+      `, [key])
+    ]);
+
+    const rowFor = (rows: any[], variant: string) => rows.find(row => row.variant === variant);
+    const variants: ExperimentVariantResults[] = experiment.variants.map(({ key: variant }) => {
+      const sessionRow = rowFor(sessions.rows, variant);
+      const evaluationRow = rowFor(evaluations.rows, variant);
+      const feedbackRow = rowFor(feedback.rows, variant);
+      const concluded = parseInt(sessionRow?.concluded || '0', 10);
+      const deals = parseInt(sessionRow?.deals || '0', 10);
+
+      return {
+        variant,
+        sessions: parseInt(sessionRow?.sessions || '0', 10),
+        concludedSessions: concluded,
+        deals,
+        dealRate: concluded > 0 ? round(deals / concluded, 4) : null,
+        evaluatedDeals: parseInt(evaluationRow?.evaluated || '0', 10),
+        averageDealScore: evaluationRow?.average_score != null ? round(parseFloat(evaluationRow.average_score), 2) : null,
+        feedbackResponses: parseInt(feedbackRow?.responses || '0', 10),
+        averageSatisfaction: feedbackRow?.average_satisfaction != null ? round(parseFloat(feedbackRow.average_satisfaction), 2) : null
+      };
+    });
+
+    return { experiment, variants, generatedAt: new Date() };
+  }
+
+  private async transition(
+    key: string,
+    from: NegotiationExperiment['status'],
+    to: NegotiationExperiment['status'],
+    timestampColumn: 'started_at' | 'stopped_at'
+  ): Promise<ExperimentOutcome> {
+    try {
+      const result = await this.getPool().query(`
+        UPDATE negotiation_experiments
+        SET status = $2, ${timestampColumn} = NOW()
+        WHERE key = $1 AND status = $3
+        RETURNING ${EXPERIMENT_COLUMNS}
+      `, [key, to, from]);
+
+      if (result.rows.length === 0) {
+        const existing = await this.getExperiment(key);
+        return existing
+          ? { outcome: 'conflict', reason: `Experiment ${key} is ${existing.status}, not ${from}` }
+          : { outcome: 'not_found' };
+      }
+
+      this.running = null;
+      return { outcome: 'ok', experiment: this.mapRow(result.rows[0]) };
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return { outcome: 'conflict', reason: 'Another experiment on the same suggestions is already running' };
+      }
+      throw error;
+    }
+  }
+
+  private async getRunningExperiments(): Promise<NegotiationExperiment[]> {
+    if (this.running && Date.now() - this.running.loadedAt < RUNNING_CACHE_MS) {
+      return this.running.experiments;
+    }
+
+    const result = await this.getPool().query(
+      `SELECT ${EXPERIMENT_COLUMNS} FROM negotiation_experiments WHERE status = 'running'`
+    );
+    const experiments = result.rows.map((row: any) => this.mapRow(row));
+    this.running = { experiments, loadedAt: Date.now() };
+    return experiments;
+  }
+
+  private mapRow(row: any): NegotiationExperiment {
+    return {
+      key: row.key,
+      name: row.name,
+      description: row.description || undefined,
+      target: row.target,
+      unit: row.unit,
+      status: row.status,
+      variants: typeof row.variants === 'string' ? JSON.parse(row.variants) : row.variants,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      stoppedAt: row.stopped_at ? new Date(row.stopped_at) : undefined
+    };
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
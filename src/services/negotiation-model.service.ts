@@ -0,0 +1,285 @@
+import { DatabaseManager } from '../config/database';
+import { NegotiationDataStore } from './negotiation.service';
+import {
+  LearningData,
+  NegotiationModelParameters,
+  NegotiationModelSummary,
+  NegotiationModelVersion
+} from '../types';
+import { resolveParameters, trainParameterSets } from '../utils/negotiation-model';
+
+export type NegotiationModelRollbackOutcome =
+  | { outcome: 'ok'; model: NegotiationModelVersion }
+  | { outcome: 'not_found' }
+  | { outcome: 'already_active'; model: NegotiationModelVersion };
+
+const ACTIVE_MODEL_KEY = 'negotiation_model:active';
+const ACTIVE_VERSION_KEY = 'negotiation_model:version';
+// Short enough that a cache write lost to a race heals within minutes
+const CACHE_TTL_SECONDS = 300;
+const PUBLISH_ATTEMPTS = 3;
+const HISTORY_LIMIT = 20;
+// Every trained session publishes a version; older ones can no longer be rolled back to
+export const KEPT_MODEL_VERSIONS = 200;
+
+const VERSION_COLUMNS = `version, parent_version, reason, restored_version, trained_session_id,
+  created_by, created_at`;
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+/**
+ * Versioned store for the negotiation assistant's learned parameters, shared by every server.
+ *
+ * Postgres keeps the most recent versions; the newest is active. Redis holds the active version number and
+ * snapshot, and each server keeps the snapshot in memory until the number changes, so a
+ * suggestion costs one small Redis read. Training and rollback publish the next version and
+ * retry from the latest one if another server published first.
+ */
+export class NegotiationModelService {
+  private static instance: NegotiationModelService;
+  private active: NegotiationModelVersion | null = null;
+
+  constructor(private readonly dataStore?: NegotiationDataStore) {}
+
+  public static getInstance(): NegotiationModelService {
+    if (!NegotiationModelService.instance) {
+      NegotiationModelService.instance = new NegotiationModelService();
+    }
+    return NegotiationModelService.instance;
+  }
+
+  async getActiveModel(): Promise<NegotiationModelVersion> {
+    const cachedVersion = await this.readCache(ACTIVE_VERSION_KEY);
+    if (cachedVersion !== null && this.active && String(this.active.version) === cachedVersion) {
+      return this.active;
+    }
+
+    if (cachedVersion !== null) {
+      const cached = await this.readCache(ACTIVE_MODEL_KEY);
+      const model = cached ? this.fromJson(cached) : null;
+      if (model && String(model.version) === cachedVersion) {
+        this.active = model;
+        return model;
+      }
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Parameters for a commodity and region, from the most specific set with enough training.
+   */
+  async getParameters(commodity?: string, region?: string): Promise<{ version: number; scope: string; parameters: NegotiationModelParameters }> {
+    const model = await this.getActiveModel();
+    return { version: model.version, ...resolveParameters(model.parameterSets, commodity, region) };
+  }
+
+  /**
+   * Publishes a version trained on one more negotiation.
+   */
+  train(learningData: LearningData): Promise<NegotiationModelVersion> {
+    return this.publish(current => ({
+      reason: 'training',
+      trainedSessionId: learningData.sessionId,
+      parameterSets: trainParameterSets(current.parameterSets, learningData)
+    }));
+  }
+
+  /**
+   * Restores an earlier version's parameters by publishing them as the next version, so the
+   * version history stays linear and the rollback itself can be undone.
+   */
+  async rollback(version: number, adminId: string): Promise<NegotiationModelRollbackOutcome> {
+    const result = await this.getPool().query(
+      'SELECT version, parameter_sets, created_at FROM negotiation_model_versions WHERE version = $1',
+      [version]
+    );
+    if (result.rows.length === 0) {
+      return { outcome: 'not_found' };
+    }
+
+    const parameterSets = this.parseJson(result.rows[0].parameter_sets);
+    const current = await this.refresh();
+    if (current.version === version) {
+      return { outcome: 'already_active', model: current };
+    }
+
+    const model = await this.publish(() => ({
+      reason: 'rollback',
+      restoredVersion: version,
+      createdBy: adminId,
+      parameterSets
+    }));
+    return { outcome: 'ok', model };
+  }
+
+  /**
+   * The active version with its training counts, and the recent version history.
+   */
+  async describe(): Promise<NegotiationModelSummary> {
+    const model = await this.refresh();
+    const pool = this.getPool();
+
+    const [history, totals, byCommodity, byRegion] = await Promise.all([
+      pool.query(`SELECT ${VERSION_COLUMNS} FROM negotiation_model_versions ORDER BY version DESC LIMIT $1`, [HISTORY_LIMIT]),
+      pool.query(`
+        SELECT COUNT(*) AS total,
+               COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '30 days') AS last_30_days
+        FROM learning_data
+      `),
+      pool.query('SELECT LOWER(commodity) AS scope, COUNT(*) AS count FROM learning_data WHERE commodity IS NOT NULL GROUP BY LOWER(commodity)'),
+      pool.query('SELECT LOWER(region) AS scope, COUNT(*) AS count FROM learning_data WHERE region IS NOT NULL GROUP BY LOWER(region)')
+    ]);
+    const counts = (rows: any[]) => Object.fromEntries(rows.map(row => [row.scope, parseInt(row.count, 10)]));
+    const { parameterSets, ...version } = model;
+
+    return {
+      activeVersion: model.version,
+      parentVersion: version.parentVersion,
+      reason: version.reason,
+      restoredVersion: version.restoredVersion,
+      createdAt: version.createdAt,
+      parameterSets: Object.entries(parameterSets)
+        .map(([scope, parameters]) => ({
+          scope,
+          trainingSessions: parameters.trainingSessions,
+          successfulSessions: parameters.successfulSessions,
+          weights: parameters.weights
+        }))
+        .sort((a, b) => b.trainingSessions - a.trainingSessions),
+      learningData: {
+        total: parseInt(totals.rows[0]?.total || '0', 10),
+        last30Days: parseInt(totals.rows[0]?.last_30_days || '0', 10),
+        byCommodity: counts(byCommodity.rows),
+        byRegion: counts(byRegion.rows)
+      },
+      history: history.rows.map((row: any) => this.fromRow(row))
+    };
+  }
+
+  private async publish(
+    build: (current: NegotiationModelVersion) => Pick<NegotiationModelVersion, 'reason' | 'parameterSets' | 'restoredVersion' | 'trainedSessionId' | 'createdBy'>
+  ): Promise<NegotiationModelVersion> {
+    let current = await this.getActiveModel();
+
+    for (let attempt = 1; ; attempt++) {
+      const model: NegotiationModelVersion = {
+        ...build(current),
+        version: current.version + 1,
+        parentVersion: current.version > 0 ? current.version : undefined,
+        createdAt: new Date()
+      };
+
+      try {
+        await this.getPool().query(`
+          INSERT INTO negotiation_model_versions (
+            version, parent_version, reason, restored_version, trained_session_id, created_by, parameter_sets, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `, [
+          model.version,
+          model.parentVersion ?? null,
+          model.reason,
+          model.restoredVersion ?? null,
+          model.trainedSessionId ?? null,
+          model.createdBy ?? null,
+          JSON.stringify(model.parameterSets),
+          model.createdAt
+        ]);
+      } catch (error) {
+        // Another server published this version first: rebuild on top of theirs
+        if (isUniqueViolation(error) && attempt < PUBLISH_ATTEMPTS) {
+          current = await this.refresh();
+          continue;
+        }
+        throw error;
+      }
+
+      await this.cache(model);
+      await this.prune(model.version);
+      return model;
+    }
+  }
+
+  private async prune(latestVersion: number): Promise<void> {
+    try {
+      await this.getPool().query(
+        'DELETE FROM negotiation_model_versions WHERE version <= $1',
+        [latestVersion - KEPT_MODEL_VERSIONS]
+      );
+    } catch (error) {
+      console.error('Error pruning negotiation model versions:', error);
+    }
+  }
+
+  // Latest version from Postgres, re-cached; the untrained default when nothing is stored yet
+  private async refresh(): Promise<NegotiationModelVersion> {
+    const result = await this.getPool().query(`
+      SELECT ${VERSION_COLUMNS}, parameter_sets
+      FROM negotiation_model_versions
+      ORDER BY version DESC
+      LIMIT 1
+    `);
+
+    const model: NegotiationModelVersion = result.rows.length > 0
+      ? { ...this.fromRow(result.rows[0]), parameterSets: this.parseJson(result.rows[0].parameter_sets) || {} }
+      : { version: 0, reason: 'initial', parameterSets: {}, createdAt: new Date(0) };
+
+    await this.cache(model);
+    return model;
+  }
+
+  private async cache(model: NegotiationModelVersion): Promise<void> {
+    this.active = model;
+    try {
+      const redis = this.getRedis();
+      await redis.setEx(ACTIVE_MODEL_KEY, CACHE_TTL_SECONDS, JSON.stringify(model));
+      await redis.setEx(ACTIVE_VERSION_KEY, CACHE_TTL_SECONDS, String(model.version));
+    } catch (error) {
+      console.error('Error caching negotiation model:', error);
+    }
+  }
+
+  private async readCache(key: string): Promise<string | null> {
+    try {
+      return await this.getRedis().get(key);
+    } catch (error) {
+      console.error('Error reading cached negotiation model:', error);
+      return null;
+    }
+  }
+
+  private fromJson(json: string): NegotiationModelVersion | null {
+    try {
+      const parsed = JSON.parse(json);
+      return { ...parsed, createdAt: new Date(parsed.createdAt) };
+    } catch {
+      return null;
+    }
+  }
+
+  private fromRow(row: any): Omit<NegotiationModelVersion, 'parameterSets'> {
+    return {
+      version: row.version,
+      parentVersion: row.parent_version ?? undefined,
+      reason: row.reason,
+      restoredVersion: row.restored_version ?? undefined,
+      trainedSessionId: row.trained_session_id ?? undefined,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private parseJson(value: any): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
+  private getPool() {
+    return (this.dataStore || DatabaseManager.getInstance()).getPostgresClient();
+  }
+
+  private getRedis() {
+    return (this.dataStore || DatabaseManager.getInstance()).getRedisClient();
+  }
+}
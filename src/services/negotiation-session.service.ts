@@ -0,0 +1,474 @@
+import { Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { NegotiationExperimentService } from './negotiation-experiment.service';
+import { NegotiationOffer, NegotiationSession, NegotiationState, NegotiationStep, QuantityUnit } from '../types';
+import {
+  LIVE_STATES,
+  NegotiationAction,
+  NegotiationMoveError,
+  applyNegotiationMove,
+  isLiveState,
+  offerExpiry,
+  statusForState
+} from '../utils/negotiation-state';
+
+export interface NegotiationOfferInput {
+  proposedPrice: number;
+  quantity?: number;           // defaults to the quantity of the offer being answered
+  currentMarketPrice?: number;
+  unit?: QuantityUnit;
+  terms?: NegotiationOffer['terms'];
+  final?: boolean;             // take it or leave it: the other side can only accept or reject
+  ttlMs?: number;              // how long the offer stands; clamped, two hours when absent
+  inReplyTo?: string;          // offerId being countered
+  message?: string;
+  aiAssistanceUsed?: boolean;
+}
+
+export interface NegotiationReplyInput {
+  inReplyTo?: string;
+  message?: string;
+  aiAssistanceUsed?: boolean;
+}
+
+export interface NegotiationUpdateEvent {
+  sessionId: string;
+  action: NegotiationAction;
+  state: NegotiationState;
+  actorId?: string; // absent when the offer lapsed
+  offer?: NegotiationOffer;
+  at: Date;
+}
+
+/**
+ * Delivers session updates to participants; Socket.IO vendor rooms in production.
+ */
+export interface NegotiationEventTransport {
+  publish(vendorIds: string[], event: NegotiationUpdateEvent): void;
+}
+
+export type NegotiationSessionOutcome =
+  | { outcome: 'ok'; session: NegotiationSession }
+  | { outcome: 'not_found' }
+  | { outcome: 'rejected'; code: NegotiationMoveError; reason: string; session: NegotiationSession };
+
+// Legacy step actions recorded before sessions had explicit states
+const STEP_ACTIONS: Record<Exclude<NegotiationAction, 'expire'>, NegotiationStep['action']> = {
+  open: 'offer',
+  counter: 'counter',
+  final_offer: 'counter',
+  accept: 'accept',
+  reject: 'reject'
+};
+
+const SESSION_COLUMNS = `session_id, participants, commodity, state, status, live_offer,
+  start_time, end_time, final_deal, session_type`;
+
+/**
+ * Server-side negotiation sessions. Every offer, counter, acceptance and rejection goes through
+ * the state machine under a row lock, so two replies racing for the same offer cannot both
+ * land, and a periodic sweep expires offers nobody answered in time.
+ */
+export class NegotiationSessionService {
+  private static instance: NegotiationSessionService;
+  private transport: NegotiationEventTransport | null = null;
+  private expiryTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly experiments: NegotiationExperimentService;
+
+  constructor(private readonly pgPool?: Pool, experiments?: NegotiationExperimentService) {
+    this.experiments = experiments || (pgPool ? new NegotiationExperimentService(pgPool) : NegotiationExperimentService.getInstance());
+  }
+
+  public static getInstance(): NegotiationSessionService {
+    if (!NegotiationSessionService.instance) {
+      NegotiationSessionService.instance = new NegotiationSessionService();
+    }
+    return NegotiationSessionService.instance;
+  }
+
+  setEventTransport(transport: NegotiationEventTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Starts a negotiation with the vendor's opening offer to a counterparty.
+   */
+  async openSession(
+    vendorId: string,
+    counterpartyId: string,
+    commodity: string,
+    input: NegotiationOfferInput & { quantity: number; sessionId?: string }
+  ): Promise<NegotiationSession> {
+    const at = new Date();
+    const sessionId = input.sessionId || uuidv4();
+    const state: NegotiationState = input.final ? 'final_offer' : 'opening';
+    const offer: NegotiationOffer = {
+      offerId: uuidv4(),
+      sessionId,
+      fromVendorId: vendorId,
+      toVendorId: counterpartyId,
+      commodity,
+      quantity: input.quantity,
+      proposedPrice: input.proposedPrice,
+      currentMarketPrice: input.currentMarketPrice ?? 0,
+      unit: input.unit,
+      offerType: input.final ? 'final' : 'initial',
+      timestamp: at,
+      expiresAt: offerExpiry(at, input.ttlMs),
+      terms: input.terms
+    };
+    const session: NegotiationSession = {
+      sessionId,
+      participants: [vendorId, counterpartyId],
+      commodity,
+      state,
+      status: statusForState(state),
+      liveOffer: offer,
+      startTime: at
+    };
+
+    const client = await this.getPool().connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`
+        INSERT INTO negotiation_sessions (
+          session_id, participants, commodity, status, state, live_offer, offer_expires_at, start_time
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [sessionId, session.participants, commodity, session.status, state, JSON.stringify(offer), offer.expiresAt, at]);
+      await this.insertStep(client, sessionId, vendorId, 'open', offer, input, at);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    this.publish(session, { sessionId, action: 'open', state, actorId: vendorId, offer, at });
+    return session;
+  }
+
+  counter(sessionId: string, vendorId: string, input: NegotiationOfferInput): Promise<NegotiationSessionOutcome> {
+    return this.act(sessionId, vendorId, input.final ? 'final_offer' : 'counter', input);
+  }
+
+  accept(sessionId: string, vendorId: string, input: NegotiationReplyInput = {}): Promise<NegotiationSessionOutcome> {
+    return this.act(sessionId, vendorId, 'accept', input);
+  }
+
+  reject(sessionId: string, vendorId: string, input: NegotiationReplyInput = {}): Promise<NegotiationSessionOutcome> {
+    return this.act(sessionId, vendorId, 'reject', input);
+  }
+
+  async getSession(sessionId: string): Promise<NegotiationSession | null> {
+    const result = await this.getPool().query(
+      `SELECT ${SESSION_COLUMNS} FROM negotiation_sessions WHERE session_id = $1`,
+      [sessionId]
+    );
+    return result.rows.length > 0 ? this.mapRowToSession(result.rows[0]) : null;
+  }
+
+  /**
+   * Records a step in the older free-form shape. An offer for an unknown session opens it;
+   * other actions go through the state machine. Messages do not change state.
+   */
+  async recordStep(step: NegotiationStep): Promise<NegotiationSessionOutcome> {
+    const session = await this.getSession(step.sessionId);
+
+    if (step.action === 'message') {
+      if (!session) return { outcome: 'not_found' };
+      if (!session.participants.includes(step.vendorId)) {
+        return { outcome: 'rejected', code: 'NOT_PARTICIPANT', reason: 'Only participants can act on this negotiation', session };
+      }
+      await this.getPool().query(`
+        INSERT INTO negotiation_steps (step_id, session_id, vendor_id, action, message, timestamp, ai_assistance_used)
+        VALUES ($1, $2, $3, 'message', $4, $5, $6)
+      `, [step.stepId || uuidv4(), step.sessionId, step.vendorId, step.message, step.timestamp, step.aiAssistanceUsed]);
+      return { outcome: 'ok', session };
+    }
+
+    if (step.action === 'accept' || step.action === 'reject') {
+      const reply = { inReplyTo: step.offer?.offerId, message: step.message, aiAssistanceUsed: step.aiAssistanceUsed };
+      return step.action === 'accept'
+        ? this.accept(step.sessionId, step.vendorId, reply)
+        : this.reject(step.sessionId, step.vendorId, reply);
+    }
+
+    if (!step.offer) {
+      return session
+        ? { outcome: 'rejected', code: 'INVALID_TRANSITION', reason: `A ${step.action} step needs an offer`, session }
+        : { outcome: 'not_found' };
+    }
+
+    const input: NegotiationOfferInput = {
+      proposedPrice: step.offer.proposedPrice,
+      quantity: step.offer.quantity,
+      currentMarketPrice: step.offer.currentMarketPrice,
+      unit: step.offer.unit,
+      terms: step.offer.terms,
+      final: step.offer.offerType === 'final',
+      ttlMs: step.offer.expiresAt ? new Date(step.offer.expiresAt).getTime() - Date.now() : undefined,
+      message: step.message,
+      aiAssistanceUsed: step.aiAssistanceUsed
+    };
+
+    if (!session) {
+      if (step.action !== 'offer' || !step.offer.toVendorId) return { outcome: 'not_found' };
+      // Keep the caller's session id so their later steps find it
+      const opened = await this.openSession(step.vendorId, step.offer.toVendorId, step.offer.commodity, {
+        ...input,
+        quantity: step.offer.quantity,
+        sessionId: step.sessionId
+      });
+      return { outcome: 'ok', session: opened };
+    }
+
+    return this.counter(step.sessionId, step.vendorId, input);
+  }
+
+  /**
+   * Expires every session whose live offer has lapsed and tells its participants.
+   * Returns how many sessions expired.
+   */
+  async expireStaleOffers(now: Date = new Date()): Promise<number> {
+    const result = await this.getPool().query(`
+      UPDATE negotiation_sessions
+      SET state = 'expired', status = 'expired', end_time = $1, offer_expires_at = NULL
+      WHERE state = ANY($2) AND offer_expires_at <= $1
+      RETURNING ${SESSION_COLUMNS}
+    `, [now, LIVE_STATES]);
+
+    for (const row of result.rows) {
+      const session = this.mapRowToSession(row);
+      this.publish(session, { sessionId: session.sessionId, action: 'expire', state: 'expired', offer: session.liveOffer, at: now });
+    }
+
+    return result.rows.length;
+  }
+
+  startExpiryScheduler(intervalMs: number = 60 * 1000): void {
+    if (this.expiryTimer) return;
+
+    this.expiryTimer = setInterval(() => {
+      this.expireStaleOffers().catch(error => console.error('Error expiring negotiation offers:', error));
+    }, intervalMs);
+    this.expiryTimer.unref?.();
+  }
+
+  stopExpiryScheduler(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private async act(
+    sessionId: string,
+    vendorId: string,
+    action: Exclude<NegotiationAction, 'open' | 'expire'>,
+    input: NegotiationOfferInput | NegotiationReplyInput
+  ): Promise<NegotiationSessionOutcome> {
+    const at = new Date();
+    const client = await this.getPool().connect();
+    let outcome: NegotiationSessionOutcome;
+    let event: NegotiationUpdateEvent | null = null;
+
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `SELECT ${SESSION_COLUMNS} FROM negotiation_sessions WHERE session_id = $1 FOR UPDATE`,
+        [sessionId]
+      );
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return { outcome: 'not_found' };
+      }
+
+      const session = this.mapRowToSession(result.rows[0]);
+      const move = applyNegotiationMove(session, { action, actorId: vendorId, inReplyTo: input.inReplyTo, at });
+
+      if (move.outcome === 'refused') {
+        if (move.code === 'OFFER_EXPIRED') {
+          // Settle the expiry now rather than waiting for the next sweep
+          const expired = await this.saveState(client, session, 'expired', session.liveOffer, at);
+          await client.query('COMMIT');
+          event = { sessionId, action: 'expire', state: 'expired', offer: expired.liveOffer, at };
+          outcome = { outcome: 'rejected', code: move.code, reason: move.reason, session: expired };
+        } else {
+          await client.query('ROLLBACK');
+          return { outcome: 'rejected', code: move.code, reason: move.reason, session };
+        }
+      } else {
+        const offer = action === 'counter' || action === 'final_offer'
+          ? this.buildCounterOffer(session, vendorId, input as NegotiationOfferInput, action === 'final_offer', at)
+          : session.liveOffer;
+        const updated = await this.saveState(client, session, move.state, offer, at, action === 'accept' ? vendorId : undefined);
+        await this.insertStep(client, sessionId, vendorId, action, offer, input, at);
+        await client.query('COMMIT');
+        event = { sessionId, action, state: move.state, actorId: vendorId, offer, at };
+        outcome = { outcome: 'ok', session: updated };
+      }
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    this.publish(outcome.session, event);
+    return outcome;
+  }
+
+  private buildCounterOffer(
+    session: NegotiationSession,
+    vendorId: string,
+    input: NegotiationOfferInput,
+    final: boolean,
+    at: Date
+  ): NegotiationOffer {
+    const previous = session.liveOffer;
+
+    return {
+      offerId: uuidv4(),
+      sessionId: session.sessionId,
+      fromVendorId: vendorId,
+      toVendorId: session.participants.find(id => id !== vendorId) || '',
+      commodity: session.commodity,
+      quantity: input.quantity ?? previous?.quantity ?? 0,
+      proposedPrice: input.proposedPrice,
+      currentMarketPrice: input.currentMarketPrice ?? previous?.currentMarketPrice ?? 0,
+      unit: input.unit ?? previous?.unit,
+      offerType: final ? 'final' : 'counter',
+      timestamp: at,
+      expiresAt: offerExpiry(at, input.ttlMs),
+      terms: input.terms ?? previous?.terms
+    };
+  }
+
+  private async saveState(
+    client: PoolClient,
+    session: NegotiationSession,
+    state: NegotiationState,
+    offer: NegotiationOffer | undefined,
+    at: Date,
+    acceptedBy?: string
+  ): Promise<NegotiationSession> {
+    const live = isLiveState(state);
+    const finalDeal = acceptedBy && offer ? {
+      agreedPrice: offer.proposedPrice,
+      marketPriceAtTime: offer.currentMarketPrice > 0 ? offer.currentMarketPrice : undefined,
+      quantity: offer.quantity,
+      unit: offer.unit,
+      offerId: offer.offerId,
+      acceptedBy
+    } : undefined;
+
+    await client.query(`
+      UPDATE negotiation_sessions
+      SET state = $2, status = $3, live_offer = $4, offer_expires_at = $5,
+          end_time = $6, final_deal = COALESCE($7, final_deal)
+      WHERE session_id = $1
+    `, [
+      session.sessionId,
+      state,
+      statusForState(state),
+      offer ? JSON.stringify(offer) : null,
+      live ? offer?.expiresAt ?? null : null,
+      live ? null : at,
+      finalDeal ? JSON.stringify({ ...finalDeal, acceptedAt: at }) : null
+    ]);
+
+    return {
+      ...session,
+      state,
+      status: statusForState(state),
+      liveOffer: offer,
+      endTime: live ? undefined : at,
+      finalDeal: finalDeal ?? session.finalDeal
+    };
+  }
+
+  private async insertStep(
+    client: PoolClient,
+    sessionId: string,
+    vendorId: string,
+    action: Exclude<NegotiationAction, 'expire'>,
+    offer: NegotiationOffer | undefined,
+    input: NegotiationReplyInput,
+    at: Date
+  ): Promise<void> {
+    // Assisted steps remember which experiment variants advised them
+    const experimentVariants = await this.experiments.variantsForStep({
+      action: STEP_ACTIONS[action],
+      vendorId,
+      sessionId,
+      aiAssistanceUsed: input.aiAssistanceUsed ?? false
+    });
+
+    await client.query(`
+      INSERT INTO negotiation_steps (
+        step_id, session_id, vendor_id, action, offer_data, message, timestamp, ai_assistance_used, experiment_variants
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      uuidv4(),
+      sessionId,
+      vendorId,
+      STEP_ACTIONS[action],
+      offer ? JSON.stringify(offer) : null,
+      input.message ?? null,
+      at,
+      input.aiAssistanceUsed ?? false,
+      experimentVariants ? JSON.stringify(experimentVariants) : null
+    ]);
+  }
+
+  private publish(session: NegotiationSession, event: NegotiationUpdateEvent | null): void {
+    if (!event || !this.transport) return;
+
+    try {
+      this.transport.publish(session.participants, event);
+    } catch (error) {
+      // The state change is already committed; participants see it on their next fetch
+      console.error('Error publishing negotiation update:', error);
+    }
+  }
+
+  private mapRowToSession(row: any): NegotiationSession {
+    const parse = (value: any) => typeof value === 'string' ? JSON.parse(value) : value;
+    const offer = parse(row.live_offer);
+    const finalDeal = parse(row.final_deal);
+
+    return {
+      sessionId: row.session_id,
+      participants: row.participants || [],
+      commodity: row.commodity,
+      state: row.state || this.stateForStatus(row.status),
+      status: row.status,
+      liveOffer: offer ? {
+        ...offer,
+        timestamp: new Date(offer.timestamp),
+        expiresAt: offer.expiresAt ? new Date(offer.expiresAt) : undefined
+      } : undefined,
+      startTime: new Date(row.start_time),
+      endTime: row.end_time ? new Date(row.end_time) : undefined,
+      finalDeal: finalDeal || undefined,
+      sessionType: row.session_type || undefined
+    };
+  }
+
+  // Sessions recorded before the state machine only have a status
+  private stateForStatus(status: NegotiationSession['status']): NegotiationState {
+    switch (status) {
+      case 'completed': return 'accepted';
+      case 'cancelled': return 'rejected';
+      case 'expired': return 'expired';
+      default: return 'countering';
+    }
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
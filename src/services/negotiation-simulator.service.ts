@@ -0,0 +1,576 @@
+import { Pool } from 'pg';
+import { AIBasedNegotiationAssistant, NegotiationDataStore } from './negotiation.service';
+import { PriceDiscoveryService } from './price-discovery.service';
+import { MspService } from './msp.service';
+import { NegotiationOffer, NegotiationStep, PriceData, PriceHistory, TrendAnalysis } from '../types';
+
+export type NegotiationRole = 'buyer' | 'seller';
+export type AgentStyle = 'hardball' | 'fair' | 'eager';
+
+export interface AgentStyleParameters {
+  anchor: number;     // how far past the market price the agent opens, as a fraction
+  concession: number; // share of the remaining gap to its reservation price given up each round
+  patience: number;   // offers the agent makes before it settles for anything acceptable or leaves
+}
+
+export const AGENT_STYLES: Record<AgentStyle, AgentStyleParameters> = {
+  hardball: { anchor: 0.15, concession: 0.15, patience: 8 },
+  fair: { anchor: 0.08, concession: 0.3, patience: 6 },
+  eager: { anchor: 0.04, concession: 0.5, patience: 4 }
+};
+
+export interface SyntheticScenario {
+  id: string;
+  commodity: string;
+  quantity: number;
+  location?: string;
+  marketPrice: number;        // per quintal
+  volatility?: number;
+  assisted: { role: NegotiationRole; reservationPrice: number };
+  counterparty: { reservationPrice: number; style: AgentStyle };
+}
+
+export interface ScenarioGenerationOptions {
+  count: number;
+  seed?: number;
+  commodity?: string;
+  marketPrice?: number;
+  assistedRole?: NegotiationRole;
+  location?: string;
+}
+
+// A negotiation as recorded in negotiation_sessions and negotiation_steps
+export interface RecordedSession {
+  sessionId: string;
+  commodity: string;
+  marketPrice: number;
+  offers: { vendorId: string; price: number; quantity?: number; location?: string }[];
+  finalPrice?: number;
+}
+
+export interface SimulationEpisode {
+  id: string;
+  source: 'synthetic' | 'replay';
+  style?: AgentStyle;
+  assistedRole: NegotiationRole;
+  deal: boolean;
+  price?: number;
+  rounds: number;
+  endedBy: 'agreement' | 'walk_away' | 'round_limit';
+  assistedSurplus: number;    // price beyond the assisted vendor's reservation price; 0 without a deal
+  availableSurplus: number;   // gap between the two reservation prices; 0 when no deal was possible
+  actual?: { deal: boolean; price?: number }; // what happened in the recorded session
+}
+
+export interface SimulationSummary {
+  episodes: number;
+  deals: number;
+  dealRate: number;
+  dealRateWhenPossible: number; // among episodes where the reservation prices overlapped
+  averageSurplus: number;       // assisted vendor's surplus per deal
+  surplusShare: number;         // of the available surplus, averaged over deals
+  averageRoundsToClose: number;
+}
+
+export interface SimulationReport extends SimulationSummary {
+  byStyle: Partial<Record<AgentStyle, SimulationSummary>>;
+  actualDealRate?: number;           // replays only
+  averagePriceGainVsActual?: number; // replays only; per deal both closed, in the assisted vendor's favour
+  episodesDetail: SimulationEpisode[];
+}
+
+export interface SimulatorOptions {
+  maxRounds?: number; // offers from both sides combined
+  learn?: boolean;    // feed each outcome to the assistant's learning system before the next episode
+}
+
+type CounterpartyMove = { action: 'accept' } | { action: 'counter'; price: number } | { action: 'walk_away' };
+
+interface Counterparty {
+  respond(assistedPrice: number): CounterpartyMove;
+}
+
+const DEFAULT_MAX_ROUNDS = 10;
+const DEFAULT_MARKET_PRICE = 2000;
+const ASSISTED_VENDOR_ID = 'simulated-vendor';
+const COUNTERPARTY_ID = 'simulated-counterparty';
+
+/**
+ * Synthetic trader with a reservation price that concedes toward it at a rate set by its style.
+ */
+class SyntheticCounterparty implements Counterparty {
+  private current: number;
+  private offers = 0;
+  private readonly params: AgentStyleParameters;
+
+  constructor(
+    private readonly role: NegotiationRole,
+    private readonly reservationPrice: number,
+    style: AgentStyle,
+    marketPrice: number
+  ) {
+    this.params = AGENT_STYLES[style];
+    this.current = role === 'buyer'
+      ? Math.min(reservationPrice, marketPrice * (1 - this.params.anchor))
+      : Math.max(reservationPrice, marketPrice * (1 + this.params.anchor));
+  }
+
+  respond(assistedPrice: number): CounterpartyMove {
+    const acceptable = this.role === 'buyer' ? assistedPrice <= this.reservationPrice : assistedPrice >= this.reservationPrice;
+    const next = this.offers === 0 ? this.current : this.current + (this.reservationPrice - this.current) * this.params.concession;
+    const noWorseThanNext = this.role === 'buyer' ? assistedPrice <= next : assistedPrice >= next;
+
+    if (acceptable && (noWorseThanNext || this.offers >= this.params.patience)) {
+      return { action: 'accept' };
+    }
+    if (this.offers >= this.params.patience) {
+      return { action: 'walk_away' };
+    }
+
+    this.current = next;
+    this.offers++;
+    return { action: 'counter', price: Math.round(next * 100) / 100 };
+  }
+}
+
+/**
+ * Replays a recorded trader's offers in order. They accept anything at least as good for them
+ * as the price the real session closed at or their next recorded offer, and leave when their
+ * recorded offers run out.
+ */
+class ScriptedCounterparty implements Counterparty {
+  private index = 0;
+
+  constructor(
+    private readonly role: NegotiationRole,
+    private readonly offers: number[],
+    private readonly finalPrice?: number
+  ) {}
+
+  respond(assistedPrice: number): CounterpartyMove {
+    const atLeastAsGood = (price: number) => (this.role === 'buyer' ? assistedPrice <= price : assistedPrice >= price);
+
+    if (this.finalPrice !== undefined && atLeastAsGood(this.finalPrice)) {
+      return { action: 'accept' };
+    }
+    if (this.index >= this.offers.length) {
+      return { action: 'walk_away' };
+    }
+
+    const next = this.offers[this.index++];
+    return atLeastAsGood(next) ? { action: 'accept' } : { action: 'counter', price: next };
+  }
+}
+
+/**
+ * Market data for the scenario being simulated, in place of live price discovery.
+ */
+class ScenarioPriceDiscovery implements PriceDiscoveryService {
+  private market: PriceData = this.priceData('Unknown', DEFAULT_MARKET_PRICE, 0.05);
+
+  setMarket(commodity: string, marketPrice: number, volatility: number = 0.05): PriceData {
+    this.market = this.priceData(commodity, marketPrice, volatility);
+    return this.market;
+  }
+
+  async getCurrentPrice(): Promise<PriceData> {
+    return this.market;
+  }
+
+  async getPriceHistory(): Promise<PriceHistory[]> {
+    return [];
+  }
+
+  async getPriceTrends(commodity: string): Promise<TrendAnalysis> {
+    return {
+      commodity,
+      trend: 'stable',
+      changePercent: 0,
+      volatility: this.market.volatility,
+      prediction: { nextWeek: this.market.currentPrice, confidence: 0.5 },
+      seasonality: 'normal'
+    };
+  }
+
+  async subscribeToAlerts(): Promise<void> {
+    return;
+  }
+
+  async calculatePriceRanges() {
+    const { min, max, modal } = this.market.priceRange;
+    return {
+      current: { min, max, modal },
+      historical: { min, max, average: modal },
+      volatilityLevel: 'low' as const
+    };
+  }
+
+  private priceData(commodity: string, marketPrice: number, volatility: number): PriceData {
+    return {
+      commodity,
+      currentPrice: marketPrice,
+      priceRange: { min: marketPrice * 0.95, max: marketPrice * 1.05, modal: marketPrice },
+      lastUpdated: new Date(),
+      sources: ['simulation'],
+      volatility
+    };
+  }
+}
+
+// Learning state lives only for the simulation run; nothing is written to the real databases
+function createOfflineDataStore(): { dataStore: NegotiationDataStore; pool: Pool } {
+  const cache = new Map<string, string>();
+  const pool = { query: async () => ({ rows: [] }) } as unknown as Pool;
+  const redis = {
+    get: async (key: string) => cache.get(key) ?? null,
+    setEx: async (key: string, _ttl: number, value: string) => {
+      cache.set(key, value);
+      return 'OK';
+    },
+    del: async (key: string) => (cache.delete(key) ? 1 : 0)
+  };
+
+  return {
+    pool,
+    dataStore: {
+      getPostgresClient: () => pool,
+      getRedisClient: () => redis as unknown as ReturnType<NegotiationDataStore['getRedisClient']>
+    }
+  };
+}
+
+// Deterministic PRNG so generated scenarios and test runs are reproducible
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Offline negotiation simulator for backtesting the negotiation assistant's strategy.
+ *
+ * The assisted vendor opens at the assistant's suggested price and answers every counter-offer
+ * as `analyzeCounterOffer` and `recommendResponse` advise, never crossing their own reservation
+ * price. Counterparties are synthetic agents or recorded traders replayed from negotiation_steps.
+ */
+export class NegotiationSimulator {
+  private readonly assistant: AIBasedNegotiationAssistant;
+  private readonly priceDiscovery = new ScenarioPriceDiscovery();
+  private readonly maxRounds: number;
+  private readonly learn: boolean;
+
+  constructor(options: SimulatorOptions = {}) {
+    const { dataStore, pool } = createOfflineDataStore();
+
+    this.assistant = new AIBasedNegotiationAssistant({
+      dataStore,
+      priceDiscoveryService: this.priceDiscovery,
+      mspService: new MspService(pool)
+    });
+    this.maxRounds = options.maxRounds || DEFAULT_MAX_ROUNDS;
+    this.learn = options.learn || false;
+  }
+
+  /**
+   * Random scenarios around a market price: each side's reservation price falls within ±12% of
+   * market, so some pairs have no price both would accept.
+   */
+  static generateScenarios(options: ScenarioGenerationOptions): SyntheticScenario[] {
+    const random = seededRandom(options.seed ?? 1);
+    const marketPrice = options.marketPrice || DEFAULT_MARKET_PRICE;
+    const styles = Object.keys(AGENT_STYLES) as AgentStyle[];
+    const role = options.assistedRole || 'seller';
+    const around = (low: number, high: number) => Math.round(marketPrice * (low + random() * (high - low)) * 100) / 100;
+
+    return Array.from({ length: options.count }, (_, index) => {
+      const sellerReservation = around(0.88, 1.02);
+      const buyerReservation = around(0.98, 1.12);
+
+      return {
+        id: `synthetic-${index + 1}`,
+        commodity: options.commodity || 'Onion',
+        quantity: Math.round(10 + random() * 90),
+        location: options.location,
+        marketPrice,
+        assisted: { role, reservationPrice: role === 'seller' ? sellerReservation : buyerReservation },
+        counterparty: {
+          reservationPrice: role === 'seller' ? buyerReservation : sellerReservation,
+          style: styles[Math.floor(random() * styles.length)]
+        }
+      };
+    });
+  }
+
+  /**
+   * Recorded sessions with at least two offers, newest first, for replay.
+   */
+  static async loadRecordedSessions(pool: Pool, options: { commodity?: string; limit?: number } = {}): Promise<RecordedSession[]> {
+    const result = await pool.query(`
+      SELECT s.session_id, s.commodity, s.final_deal,
+             json_agg(json_build_object('vendorId', st.vendor_id, 'offer', st.offer_data) ORDER BY st.timestamp) AS steps
+      FROM negotiation_sessions s
+      JOIN negotiation_steps st ON st.session_id = s.session_id AND st.offer_data IS NOT NULL
+      WHERE s.status IN ('completed', 'cancelled', 'expired')
+        AND ($1::text IS NULL OR LOWER(s.commodity) = LOWER($1))
+      GROUP BY s.session_id, s.commodity, s.final_deal, s.start_time
+      HAVING COUNT(st.id) >= 2
+      ORDER BY s.start_time DESC
+      LIMIT $2
+    `, [options.commodity || null, options.limit || 100]);
+
+    return result.rows.map((row: any) => {
+      const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+      const finalDeal = parse(row.final_deal);
+      const steps = parse(row.steps) as any[];
+      const quotedMarketPrice = steps.map(step => parseFloat(step.offer.currentMarketPrice)).find(price => price > 0);
+
+      return {
+        sessionId: row.session_id,
+        commodity: row.commodity,
+        marketPrice: parseFloat(finalDeal?.marketPriceAtTime) || quotedMarketPrice || 0,
+        offers: steps.map(step => ({
+          vendorId: step.vendorId,
+          price: parseFloat(step.offer.proposedPrice),
+          quantity: step.offer.quantity,
+          location: step.offer.terms?.deliveryLocation
+        })),
+        finalPrice: finalDeal?.agreedPrice !== undefined ? parseFloat(finalDeal.agreedPrice) : undefined
+      };
+    }).filter((session: RecordedSession) => session.marketPrice > 0);
+  }
+
+  async runSynthetic(scenarios: SyntheticScenario[]): Promise<SimulationReport> {
+    const episodes: SimulationEpisode[] = [];
+
+    for (const scenario of scenarios) {
+      const counterparty = new SyntheticCounterparty(
+        scenario.assisted.role === 'seller' ? 'buyer' : 'seller',
+        scenario.counterparty.reservationPrice,
+        scenario.counterparty.style,
+        scenario.marketPrice
+      );
+
+      episodes.push({
+        ...await this.negotiate(scenario, counterparty),
+        source: 'synthetic',
+        style: scenario.counterparty.style
+      });
+    }
+
+    return this.report(episodes);
+  }
+
+  /**
+   * Puts the assistant in place of the vendor who opened each recorded session; the other
+   * trader repeats their recorded offers. Each side's reservation price is the furthest they
+   * went in the recording, including the agreed price.
+   */
+  async replay(sessions: RecordedSession[]): Promise<SimulationReport> {
+    const episodes: SimulationEpisode[] = [];
+
+    for (const session of sessions) {
+      const assistedId = session.offers[0].vendorId;
+      const own = session.offers.filter(offer => offer.vendorId === assistedId).map(offer => offer.price);
+      const theirs = session.offers.filter(offer => offer.vendorId !== assistedId).map(offer => offer.price);
+      if (theirs.length === 0) continue;
+
+      const role: NegotiationRole = theirs[0] < own[0] ? 'seller' : 'buyer';
+      const agreed = session.finalPrice !== undefined ? [session.finalPrice] : [];
+      const [ownFurthest, theirFurthest] = role === 'seller'
+        ? [Math.min(...own, ...agreed), Math.max(...theirs, ...agreed)]
+        : [Math.max(...own, ...agreed), Math.min(...theirs, ...agreed)];
+
+      const scenario: SyntheticScenario = {
+        id: session.sessionId,
+        commodity: session.commodity,
+        quantity: session.offers[0].quantity || 1,
+        location: session.offers[0].location,
+        marketPrice: session.marketPrice,
+        assisted: { role, reservationPrice: ownFurthest },
+        counterparty: { reservationPrice: theirFurthest, style: 'fair' }
+      };
+      const counterparty = new ScriptedCounterparty(role === 'seller' ? 'buyer' : 'seller', theirs, session.finalPrice);
+
+      episodes.push({
+        ...await this.negotiate(scenario, counterparty),
+        source: 'replay',
+        actual: { deal: session.finalPrice !== undefined, price: session.finalPrice }
+      });
+    }
+
+    return this.report(episodes);
+  }
+
+  private async negotiate(
+    scenario: SyntheticScenario,
+    counterparty: Counterparty
+  ): Promise<Omit<SimulationEpisode, 'source'>> {
+    const { role, reservationPrice } = scenario.assisted;
+    const counterpartyReservation = scenario.counterparty.reservationPrice;
+    const availableSurplus = Math.max(0, Math.round((role === 'seller'
+      ? counterpartyReservation - reservationPrice
+      : reservationPrice - counterpartyReservation) * 100) / 100);
+    const marketData = this.priceDiscovery.setMarket(scenario.commodity, scenario.marketPrice, scenario.volatility);
+    const history: NegotiationStep[] = [];
+    const worseForAssisted = (a: number, b: number) => (role === 'seller' ? a < b : a > b);
+    const withinReservation = (price: number) => !worseForAssisted(price, reservationPrice);
+
+    const suggestion = await this.assistant.suggestOpeningPrice(scenario.commodity, scenario.quantity, {
+      commodity: scenario.commodity,
+      quantity: scenario.quantity,
+      location: scenario.location,
+      urgency: 'medium',
+      seasonality: 'normal'
+    });
+
+    let ask = worseForAssisted(suggestion.suggestedPrice, reservationPrice) ? reservationPrice : suggestion.suggestedPrice;
+    const opening = ask;
+    history.push(this.step(scenario, history.length, ASSISTED_VENDOR_ID, ask));
+
+    const finish = async (endedBy: SimulationEpisode['endedBy'], price?: number): Promise<Omit<SimulationEpisode, 'source'>> => {
+      const deal = price !== undefined;
+      const assistedSurplus = deal ? Math.round(Math.abs(price! - reservationPrice) * 100) / 100 : 0;
+
+      if (this.learn) {
+        await this.assistant.learnFromNegotiation({
+          sessionId: scenario.id,
+          outcome: deal ? 'successful' : 'failed',
+          marketConditions: { volatility: marketData.volatility, demand: 'medium', supply: 'medium', seasonality: 'normal' },
+          negotiationMetrics: {
+            duration: history.length,
+            numberOfOffers: history.length,
+            priceMovement: deal ? ((price! - opening) / opening) * 100 : 0,
+            aiAccuracy: deal ? Math.max(0, 1 - Math.abs(price! - opening) / price!) : 0
+          },
+          participantFeedback: [{
+            vendorId: ASSISTED_VENDOR_ID,
+            satisfactionScore: deal ? Math.min(5, 3 + (assistedSurplus / scenario.marketPrice) * 20) : 1,
+            aiHelpfulness: deal ? 4 : 2,
+            suggestions: []
+          }],
+          commodity: scenario.commodity,
+          region: scenario.location
+        });
+      }
+
+      return {
+        id: scenario.id,
+        assistedRole: role,
+        deal,
+        ...(deal ? { price: Math.round(price! * 100) / 100 } : {}),
+        rounds: history.length,
+        endedBy,
+        assistedSurplus,
+        availableSurplus
+      };
+    };
+
+    while (history.length < this.maxRounds) {
+      const move = counterparty.respond(ask);
+      if (move.action === 'accept') return finish('agreement', ask);
+      if (move.action === 'walk_away') return finish('walk_away');
+
+      const offered = move.price;
+      history.push(this.step(scenario, history.length, COUNTERPARTY_ID, offered));
+      if (history.length >= this.maxRounds) break;
+
+      const offer = history[history.length - 1].offer!;
+      const analysis = await this.assistant.analyzeCounterOffer(offer, marketData);
+      const response = await this.assistant.recommendResponse(history);
+
+      if (withinReservation(offered) && (analysis.recommendation === 'accept' || response.recommendedAction === 'accept')) {
+        return finish('agreement', offered);
+      }
+
+      // Concede toward the suggested counter, but never past the reservation price or back up
+      let counter = analysis.suggestedCounterPrice ?? ask;
+      if (worseForAssisted(counter, reservationPrice)) counter = reservationPrice;
+      if (worseForAssisted(ask, counter)) counter = ask;
+      if (!worseForAssisted(offered, counter)) return finish('agreement', offered);
+
+      ask = counter;
+      history.push(this.step(scenario, history.length, ASSISTED_VENDOR_ID, ask));
+    }
+
+    return finish('round_limit');
+  }
+
+  private step(scenario: SyntheticScenario, index: number, vendorId: string, price: number): NegotiationStep {
+    const timestamp = new Date(Date.UTC(2024, 0, 15, 10, index));
+    const offer: NegotiationOffer = {
+      offerId: `${scenario.id}-offer-${index + 1}`,
+      sessionId: scenario.id,
+      fromVendorId: vendorId,
+      toVendorId: vendorId === ASSISTED_VENDOR_ID ? COUNTERPARTY_ID : ASSISTED_VENDOR_ID,
+      commodity: scenario.commodity,
+      quantity: scenario.quantity,
+      proposedPrice: price,
+      currentMarketPrice: scenario.marketPrice,
+      offerType: index === 0 ? 'initial' : 'counter',
+      timestamp,
+      terms: scenario.location ? { deliveryLocation: scenario.location } : undefined
+    };
+
+    return {
+      stepId: offer.offerId,
+      sessionId: scenario.id,
+      vendorId,
+      action: index === 0 ? 'offer' : 'counter',
+      offer,
+      timestamp,
+      aiAssistanceUsed: vendorId === ASSISTED_VENDOR_ID
+    };
+  }
+
+  private report(episodes: SimulationEpisode[]): SimulationReport {
+    const byStyle: SimulationReport['byStyle'] = {};
+    for (const style of Object.keys(AGENT_STYLES) as AgentStyle[]) {
+      const ofStyle = episodes.filter(episode => episode.style === style);
+      if (ofStyle.length > 0) byStyle[style] = this.summarise(ofStyle);
+    }
+
+    const report: SimulationReport = { ...this.summarise(episodes), byStyle, episodesDetail: episodes };
+
+    const replayed = episodes.filter(episode => episode.actual);
+    if (replayed.length > 0) {
+      const bothClosed = replayed.filter(episode => episode.deal && episode.actual!.deal);
+      report.actualDealRate = round(replayed.filter(episode => episode.actual!.deal).length / replayed.length);
+      report.averagePriceGainVsActual = round(mean(bothClosed.map(episode => {
+        const difference = episode.price! - episode.actual!.price!;
+        return episode.assistedRole === 'seller' ? difference : -difference;
+      })));
+    }
+
+    return report;
+  }
+
+  private summarise(episodes: SimulationEpisode[]): SimulationSummary {
+    const deals = episodes.filter(episode => episode.deal);
+    const possible = episodes.filter(episode => episode.availableSurplus > 0);
+
+    return {
+      episodes: episodes.length,
+      deals: deals.length,
+      dealRate: round(episodes.length > 0 ? deals.length / episodes.length : 0),
+      dealRateWhenPossible: round(possible.length > 0 ? possible.filter(episode => episode.deal).length / possible.length : 0),
+      averageSurplus: round(mean(deals.map(episode => episode.assistedSurplus))),
+      surplusShare: round(mean(deals
+        .filter(episode => episode.availableSurplus > 0)
+        .map(episode => Math.min(1, episode.assistedSurplus / episode.availableSurplus)))),
+      averageRoundsToClose: round(mean(deals.map(episode => episode.rounds)))
+    };
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
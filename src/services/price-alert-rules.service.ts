@@ -0,0 +1,410 @@
+import { DatabaseManager } from '../config/database';
+import { PriceAlert, PriceData } from '../types';
+import { CommodityCatalogueService } from './commodity-catalogue.service';
+import { DEFAULT_GRADE, normalizeGrade, normalizeVariety } from '../utils/commodity-grades';
+
+export type AlertRuleMetric = 'modal_price' | 'change_percent' | 'arrivals_ratio';
+export type AlertRuleOperator = '>' | '>=' | '<' | '<=';
+
+export const ALERT_RULE_METRICS: AlertRuleMetric[] = ['modal_price', 'change_percent', 'arrivals_ratio'];
+export const ALERT_RULE_OPERATORS: AlertRuleOperator[] = ['>', '>=', '<', '<='];
+
+/**
+ * A vendor-defined alert condition, e.g.
+ *   Onion modal at Lasalgaon > 2500      -> { metric: 'modal_price', market: 'Lasalgaon', operator: '>', threshold: 2500 }
+ *   7-day change < -10%                  -> { metric: 'change_percent', windowDays: 7, operator: '<', threshold: -10 }
+ *   arrivals spike 2x the 7-day average  -> { metric: 'arrivals_ratio', windowDays: 7, operator: '>=', threshold: 2 }
+ */
+export interface PriceAlertRule {
+  id: string;
+  vendorId: string;
+  name?: string;
+  commodity: string;
+  market?: string;
+  metric: AlertRuleMetric;
+  operator: AlertRuleOperator;
+  threshold: number;
+  windowDays: number;
+  cooldownMinutes: number;
+  quietHours?: { start: string; end: string }; // HH:MM, IST
+  isActive: boolean;
+  lastTriggeredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateAlertRuleData {
+  name?: string;
+  commodity: string;
+  market?: string;
+  metric: AlertRuleMetric;
+  operator: AlertRuleOperator;
+  threshold: number;
+  windowDays?: number;
+  cooldownMinutes?: number;
+  quietHours?: { start: string; end: string } | null;
+  isActive?: boolean;
+}
+
+export type UpdateAlertRuleData = Partial<CreateAlertRuleData>;
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DEFAULT_COOLDOWN_MINUTES = 360;
+const IST_OFFSET_MINUTES = 330;
+
+const RULE_COLUMNS = `
+  id, vendor_id, name, commodity, market, metric, operator, threshold, window_days, cooldown_minutes,
+  quiet_hours_start, quiet_hours_end, is_active, last_triggered_at, created_at, updated_at
+`;
+
+/**
+ * Stores vendor alert rules and evaluates them against incoming prices.
+ */
+export class PriceAlertRulesService {
+  private readonly dbManager: DatabaseManager;
+
+  constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  async createRule(vendorId: string, data: CreateAlertRuleData): Promise<PriceAlertRule> {
+    const db = this.dbManager.getPostgresClient();
+
+    const result = await db.query(`
+      INSERT INTO price_alert_rules
+        (vendor_id, name, commodity, market, metric, operator, threshold, window_days, cooldown_minutes,
+         quiet_hours_start, quiet_hours_end, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING ${RULE_COLUMNS}
+    `, [
+      vendorId,
+      data.name || null,
+      this.canonicalCommodity(data.commodity),
+      data.market || null,
+      data.metric,
+      data.operator,
+      data.threshold,
+      data.windowDays ?? DEFAULT_WINDOW_DAYS,
+      data.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+      data.quietHours?.start || null,
+      data.quietHours?.end || null,
+      data.isActive ?? true
+    ]);
+
+    return this.mapRowToRule(result.rows[0]);
+  }
+
+  async getRules(vendorId: string): Promise<PriceAlertRule[]> {
+    const db = this.dbManager.getPostgresClient();
+
+    const result = await db.query(
+      `SELECT ${RULE_COLUMNS} FROM price_alert_rules WHERE vendor_id = $1 ORDER BY created_at DESC`,
+      [vendorId]
+    );
+
+    return result.rows.map(row => this.mapRowToRule(row));
+  }
+
+  async getRule(vendorId: string, ruleId: string): Promise<PriceAlertRule | null> {
+    const db = this.dbManager.getPostgresClient();
+
+    const result = await db.query(
+      `SELECT ${RULE_COLUMNS} FROM price_alert_rules WHERE id = $1 AND vendor_id = $2`,
+      [ruleId, vendorId]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToRule(result.rows[0]) : null;
+  }
+
+  async updateRule(vendorId: string, ruleId: string, data: UpdateAlertRuleData): Promise<PriceAlertRule | null> {
+    const columns: Record<string, any> = {
+      name: data.name,
+      commodity: data.commodity !== undefined ? this.canonicalCommodity(data.commodity) : undefined,
+      market: data.market,
+      metric: data.metric,
+      operator: data.operator,
+      threshold: data.threshold,
+      window_days: data.windowDays,
+      cooldown_minutes: data.cooldownMinutes,
+      is_active: data.isActive
+    };
+
+    // null clears the quiet hours; undefined leaves them alone
+    if (data.quietHours !== undefined) {
+      columns.quiet_hours_start = data.quietHours?.start || null;
+      columns.quiet_hours_end = data.quietHours?.end || null;
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    for (const [column, value] of Object.entries(columns)) {
+      if (value !== undefined) {
+        values.push(value === '' ? null : value);
+        updates.push(`${column} = $${values.length}`);
+      }
+    }
+
+    if (updates.length === 0) {
+      return this.getRule(vendorId, ruleId);
+    }
+
+    values.push(ruleId, vendorId);
+
+    const db = this.dbManager.getPostgresClient();
+    const result = await db.query(`
+      UPDATE price_alert_rules SET ${updates.join(', ')}
+      WHERE id = $${values.length - 1} AND vendor_id = $${values.length}
+      RETURNING ${RULE_COLUMNS}
+    `, values);
+
+    return result.rows.length > 0 ? this.mapRowToRule(result.rows[0]) : null;
+  }
+
+  async deleteRule(vendorId: string, ruleId: string): Promise<boolean> {
+    const db = this.dbManager.getPostgresClient();
+
+    const result = await db.query(
+      'DELETE FROM price_alert_rules WHERE id = $1 AND vendor_id = $2',
+      [ruleId, vendorId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Evaluates every active rule for the commodity against a fresh price and records an alert
+   * for each match. Rules inside their cooldown or quiet hours are skipped without consuming
+   * the cooldown, so a condition that still holds fires on the first update afterwards.
+   */
+  async evaluate(priceData: PriceData, now: Date = new Date()): Promise<PriceAlert[]> {
+    const db = this.dbManager.getPostgresClient();
+
+    const result = await db.query(
+      `SELECT ${RULE_COLUMNS} FROM price_alert_rules WHERE LOWER(commodity) = LOWER($1) AND is_active = true`,
+      [this.canonicalCommodity(priceData.commodity)]
+    );
+
+    const rules = result.rows
+      .map(row => this.mapRowToRule(row))
+      .filter(rule => !rule.market || this.sameMarket(rule.market, priceData.market));
+
+    const baselines = new Map<string, number | null>();
+    const alerts: PriceAlert[] = [];
+
+    for (const rule of rules) {
+      if (this.isCoolingDown(rule, now) || this.isInQuietHours(rule, now)) continue;
+
+      const value = await this.measure(rule, priceData, baselines);
+      if (value === null || !this.compare(value, rule.operator, rule.threshold)) continue;
+
+      const alert: PriceAlert = {
+        id: `alert_${now.getTime()}_${rule.id}`,
+        vendorId: rule.vendorId,
+        commodity: priceData.commodity,
+        alertType: rule.metric === 'modal_price' ? 'price_threshold' : 'market_change',
+        threshold: rule.threshold,
+        currentValue: Math.round(value * 100) / 100,
+        message: this.describeMatch(rule, value, priceData),
+        createdAt: now
+      };
+
+      if (!(await this.claimAndRecord(rule, alert, now))) continue;
+
+      alerts.push(alert);
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Claims the rule's cooldown and records the alert in one transaction. Concurrent price fetches
+   * evaluate the same rules and only the one that claims the cooldown fires; if the alert cannot
+   * be recorded the claim is rolled back, so the rule is not silenced for a whole cooldown.
+   */
+  private async claimAndRecord(rule: PriceAlertRule, alert: PriceAlert, now: Date): Promise<boolean> {
+    const client = await this.dbManager.getPostgresClient().connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const claimed = await client.query(`
+        UPDATE price_alert_rules SET last_triggered_at = $1
+        WHERE id = $2
+        AND (last_triggered_at IS NULL OR last_triggered_at <= $1::timestamptz - cooldown_minutes * INTERVAL '1 minute')
+        RETURNING id
+      `, [now, rule.id]);
+
+      if (claimed.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await client.query(
+        'INSERT INTO vendor_alerts (id, vendor_id, commodity, alert_type, threshold_value, current_value, message, created_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
+        [alert.id, alert.vendorId, alert.commodity, alert.alertType, alert.threshold, alert.currentValue, alert.message, alert.createdAt]
+      );
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  isCoolingDown(rule: PriceAlertRule, now: Date): boolean {
+    if (!rule.lastTriggeredAt) return false;
+    return now.getTime() - rule.lastTriggeredAt.getTime() < rule.cooldownMinutes * 60 * 1000;
+  }
+
+  isInQuietHours(rule: PriceAlertRule, now: Date): boolean {
+    if (!rule.quietHours) return false;
+
+    const start = this.minutesOfDay(rule.quietHours.start);
+    const end = this.minutesOfDay(rule.quietHours.end);
+    if (start === null || end === null || start === end) return false;
+
+    const current = (now.getUTCHours() * 60 + now.getUTCMinutes() + IST_OFFSET_MINUTES) % (24 * 60);
+
+    // e.g. 22:00-06:00 wraps past midnight
+    return start < end ? current >= start && current < end : current >= start || current < end;
+  }
+
+  private async measure(rule: PriceAlertRule, priceData: PriceData, baselines: Map<string, number | null>): Promise<number | null> {
+    if (rule.metric === 'modal_price') {
+      return priceData.currentPrice;
+    }
+
+    const key = `${rule.metric}|${rule.windowDays}`;
+    if (!baselines.has(key)) {
+      baselines.set(key, rule.metric === 'change_percent'
+        ? await this.getPriceBefore(priceData, rule.windowDays)
+        : await this.getAverageDailyArrivals(priceData, rule.windowDays));
+    }
+
+    const baseline = baselines.get(key);
+    if (!baseline || baseline <= 0) return null;
+
+    return rule.metric === 'change_percent'
+      ? ((priceData.currentPrice - baseline) / baseline) * 100
+      : (priceData.arrivals || 0) / baseline;
+  }
+
+  // Modal price on the latest day at least `days` ago, averaged across markets unless the update is for one market
+  private async getPriceBefore(priceData: PriceData, days: number): Promise<number | null> {
+    const db = this.dbManager.getPostgresClient();
+    const params: any[] = [days];
+    const filters = this.historyFilters(priceData, params);
+
+    const result = await db.query(`
+      SELECT date, AVG(modal_price) as price
+      FROM market_data
+      WHERE date <= CURRENT_DATE - $1::int${filters}
+      GROUP BY date
+      ORDER BY date DESC
+      LIMIT 1
+    `, params);
+
+    const price = parseFloat(result.rows[0]?.price);
+    return isFinite(price) ? price : null;
+  }
+
+  private async getAverageDailyArrivals(priceData: PriceData, days: number): Promise<number | null> {
+    const db = this.dbManager.getPostgresClient();
+    const params: any[] = [days];
+    const filters = this.historyFilters(priceData, params);
+
+    const result = await db.query(`
+      SELECT AVG(daily_arrivals) as average
+      FROM (
+        SELECT date, SUM(arrivals) as daily_arrivals
+        FROM market_data
+        WHERE date < CURRENT_DATE AND date >= CURRENT_DATE - $1::int${filters}
+        GROUP BY date
+      ) daily
+    `, params);
+
+    const average = parseFloat(result.rows[0]?.average);
+    return isFinite(average) ? average : null;
+  }
+
+  // History for the update's own variety and grade, so Basmati is not measured against common rice
+  private historyFilters(priceData: PriceData, params: any[]): string {
+    const commodity = this.canonicalCommodity(priceData.commodity);
+    params.push(
+      commodity,
+      normalizeVariety(commodity, priceData.variety),
+      normalizeGrade(priceData.grade) || DEFAULT_GRADE
+    );
+    let filters = ` AND commodity = $${params.length - 2} AND variety = $${params.length - 1} AND grade = $${params.length}`;
+
+    if (priceData.market) {
+      params.push(priceData.market);
+      filters += ` AND LOWER(market) = LOWER($${params.length})`;
+    }
+
+    return filters;
+  }
+
+  private compare(value: number, operator: AlertRuleOperator, threshold: number): boolean {
+    switch (operator) {
+      case '>': return value > threshold;
+      case '>=': return value >= threshold;
+      case '<': return value < threshold;
+      case '<=': return value <= threshold;
+    }
+  }
+
+  private describeMatch(rule: PriceAlertRule, value: number, priceData: PriceData): string {
+    const where = priceData.market ? ` at ${priceData.market}` : '';
+    const label = rule.name ? `${rule.name}: ` : '';
+
+    switch (rule.metric) {
+      case 'modal_price':
+        return `${label}${priceData.commodity} modal price${where} is ₹${value.toFixed(2)} (${rule.operator} ₹${rule.threshold})`;
+      case 'change_percent':
+        return `${label}${priceData.commodity} price${where} changed ${value.toFixed(1)}% over ${rule.windowDays} days (${rule.operator} ${rule.threshold}%)`;
+      case 'arrivals_ratio':
+        return `${label}${priceData.commodity} arrivals${where} are ${value.toFixed(1)}x the ${rule.windowDays}-day average (${rule.operator} ${rule.threshold}x)`;
+    }
+  }
+
+  private sameMarket(ruleMarket: string, market?: string): boolean {
+    return !!market && ruleMarket.trim().toLowerCase() === market.trim().toLowerCase();
+  }
+
+  private canonicalCommodity(commodity: string): string {
+    return CommodityCatalogueService.getInstance().canonicalName(commodity);
+  }
+
+  private minutesOfDay(time: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})/.exec(time);
+    if (!match) return null;
+    return parseInt(match[1]) * 60 + parseInt(match[2]);
+  }
+
+  private mapRowToRule(row: any): PriceAlertRule {
+    return {
+      id: row.id,
+      vendorId: row.vendor_id,
+      name: row.name || undefined,
+      commodity: row.commodity,
+      market: row.market || undefined,
+      metric: row.metric,
+      operator: row.operator,
+      threshold: parseFloat(row.threshold),
+      windowDays: parseInt(row.window_days),
+      cooldownMinutes: parseInt(row.cooldown_minutes),
+      quietHours: row.quiet_hours_start && row.quiet_hours_end
+        ? { start: String(row.quiet_hours_start).slice(0, 5), end: String(row.quiet_hours_end).slice(0, 5) }
+        : undefined,
+      isActive: row.is_active,
+      lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,299 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { extname, basename } from 'path';
+import { DatabaseManager } from '../config/database';
+import { DataValidator } from '../utils/error-handling';
+import { parseCsv, normalizeCsvHeader } from '../utils/csv';
+import { DEFAULT_GRADE, normalizeGrade, normalizeVariety } from '../utils/commodity-grades';
+
+export interface BackfillRow {
+  commodity: string;
+  variety: string;
+  grade: string;
+  market: string;
+  state: string;
+  date: Date | null;
+  minPrice: number;
+  maxPrice: number;
+  modalPrice: number;
+  arrivals: number;
+  raw: Record<string, string>;
+}
+
+export interface BackfillProgress {
+  source: string;
+  total: number;
+  processed: number;
+  imported: number;
+  quarantined: number;
+}
+
+export interface BackfillResult extends BackfillProgress {
+  quarantineReasons: Record<string, number>;
+  durationMs: number;
+  dryRun: boolean;
+}
+
+export interface BackfillOptions {
+  source?: string;
+  batchSize?: number;
+  dryRun?: boolean;
+  anomalyWindow?: number; // number of previous prices per series used as the anomaly baseline
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+interface QuarantineEntry {
+  row: BackfillRow;
+  reason: 'invalid' | 'anomaly';
+  details: string;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+const DEFAULT_ANOMALY_WINDOW = 14;
+
+/**
+ * Imports historical AGMARKNET-format dumps (CSV or JSON) into market_data.
+ *
+ * Re-running an import is safe: rows upsert on (commodity, variety, grade, market, date)
+ * and quarantined rows are keyed by a hash of their raw content.
+ */
+export class PriceBackfillService {
+  private readonly dbManager: DatabaseManager;
+
+  constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  async importFile(filePath: string, options: BackfillOptions = {}): Promise<BackfillResult> {
+    const content = readFileSync(filePath, 'utf-8');
+    const rawRows = extname(filePath).toLowerCase() === '.json'
+      ? this.parseJsonDump(content)
+      : parseCsv(content);
+
+    return this.importRows(rawRows, { ...options, source: options.source || basename(filePath) });
+  }
+
+  async importRows(rawRows: Record<string, string>[], options: BackfillOptions = {}): Promise<BackfillResult> {
+    const startTime = Date.now();
+    const source = options.source || 'import';
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const anomalyWindow = options.anomalyWindow || DEFAULT_ANOMALY_WINDOW;
+
+    const rows = rawRows.map(raw => this.parseRow(raw));
+
+    // Chronological order so each row is compared against the prices before it
+    rows.sort((a, b) => (a.date?.getTime() || 0) - (b.date?.getTime() || 0));
+
+    const progress: BackfillProgress = { source, total: rows.length, processed: 0, imported: 0, quarantined: 0 };
+    const quarantineReasons: Record<string, number> = {};
+    const seriesWindows = new Map<string, number[]>();
+
+    for (let offset = 0; offset < rows.length; offset += batchSize) {
+      const batch = rows.slice(offset, offset + batchSize);
+      const accepted: BackfillRow[] = [];
+      const quarantined: QuarantineEntry[] = [];
+
+      for (const row of batch) {
+        const problem = this.checkRow(row, seriesWindows, anomalyWindow);
+        if (problem) {
+          quarantined.push({ row, ...problem });
+          quarantineReasons[problem.details] = (quarantineReasons[problem.details] || 0) + 1;
+        } else {
+          accepted.push(row);
+        }
+      }
+
+      if (!options.dryRun) {
+        await this.writeBatch(accepted, quarantined, source);
+      }
+
+      progress.processed += batch.length;
+      progress.imported += accepted.length;
+      progress.quarantined += quarantined.length;
+      options.onProgress?.({ ...progress });
+    }
+
+    return {
+      ...progress,
+      quarantineReasons,
+      durationMs: Date.now() - startTime,
+      dryRun: !!options.dryRun
+    };
+  }
+
+  /**
+   * Accepts either the data.gov.in API shape ({ records: [...] }) or a plain array of records.
+   */
+  parseJsonDump(content: string): Record<string, string>[] {
+    const parsed = JSON.parse(content);
+    const records: any[] = Array.isArray(parsed) ? parsed : (parsed.records || []);
+
+    return records.map(record => {
+      const row: Record<string, string> = {};
+      for (const [key, value] of Object.entries(record || {})) {
+        row[normalizeCsvHeader(key)] = value === null || value === undefined ? '' : String(value);
+      }
+      return row;
+    });
+  }
+
+  parseRow(raw: Record<string, string>): BackfillRow {
+    const commodity = (raw.commodity || '').trim();
+
+    return {
+      commodity,
+      variety: normalizeVariety(commodity, raw.variety),
+      grade: normalizeGrade(raw.grade) || DEFAULT_GRADE,
+      market: (raw.market || raw.market_name || '').trim(),
+      state: (raw.state || raw.state_name || 'Unknown').trim(),
+      date: this.parseArrivalDate(raw.arrival_date || raw.date || raw.price_date || ''),
+      minPrice: this.parsePrice(raw.min_price || raw.min_x0020_price),
+      maxPrice: this.parsePrice(raw.max_price || raw.max_x0020_price),
+      modalPrice: this.parsePrice(raw.modal_price || raw.modal_x0020_price),
+      arrivals: parseInt((raw.arrivals || raw.arrivals_tonnes || '0').replace(/,/g, '')) || 0,
+      raw
+    };
+  }
+
+  /**
+   * AGMARKNET exports use dd/mm/yyyy; API dumps use ISO dates.
+   */
+  parseArrivalDate(value: string): Date | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const dayFirst = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    if (dayFirst) {
+      const [, day, month, year] = dayFirst;
+      const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day)));
+      return date.getUTCDate() === parseInt(day) ? date : null;
+    }
+
+    const parsed = new Date(trimmed);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  private parsePrice(value?: string): number {
+    if (!value) return NaN;
+    return parseFloat(value.replace(/,/g, ''));
+  }
+
+  private checkRow(
+    row: BackfillRow,
+    seriesWindows: Map<string, number[]>,
+    anomalyWindow: number
+  ): { reason: 'invalid' | 'anomaly'; details: string } | null {
+    if (!row.commodity || !row.market) {
+      return { reason: 'invalid', details: 'missing_commodity_or_market' };
+    }
+
+    if (!row.date) {
+      return { reason: 'invalid', details: 'invalid_date' };
+    }
+
+    const priceData = {
+      currentPrice: row.modalPrice,
+      priceRange: { min: row.minPrice, max: row.maxPrice, modal: row.modalPrice }
+    };
+
+    if (!DataValidator.validatePriceData(priceData)) {
+      return { reason: 'invalid', details: 'invalid_price_range' };
+    }
+
+    const seriesKey = `${row.commodity}|${row.variety}|${row.grade}|${row.market}`.toLowerCase();
+    const window = seriesWindows.get(seriesKey) || [];
+    const isAnomaly = DataValidator.detectPriceAnomalies(priceData, window.map(price => ({ price })));
+
+    // Anomalous prices still enter the window; the median absorbs one-off spikes
+    // while a genuine level shift stops being flagged after a few days
+    window.push(row.modalPrice);
+    if (window.length > anomalyWindow) window.shift();
+    seriesWindows.set(seriesKey, window);
+
+    return isAnomaly ? { reason: 'anomaly', details: 'deviation_from_median' } : null;
+  }
+
+  private async writeBatch(accepted: BackfillRow[], quarantined: QuarantineEntry[], source: string): Promise<void> {
+    const pool = this.dbManager.getPostgresClient();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // A dump can repeat a (commodity, variety, grade, market, date); the last one wins
+      const unique = new Map<string, BackfillRow>();
+      for (const row of accepted) {
+        unique.set(`${row.commodity}|${row.variety}|${row.grade}|${row.market}|${row.date!.toISOString().slice(0, 10)}`, row);
+      }
+
+      for (const row of unique.values()) {
+        await client.query(`
+          INSERT INTO market_data (commodity, variety, grade, market, state, date, min_price, max_price, modal_price, arrivals, sources)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          ON CONFLICT (commodity, variety, grade, market, date) DO UPDATE SET
+            state = EXCLUDED.state,
+            min_price = EXCLUDED.min_price,
+            max_price = EXCLUDED.max_price,
+            modal_price = EXCLUDED.modal_price,
+            arrivals = EXCLUDED.arrivals,
+            sources = EXCLUDED.sources
+        `, [
+          row.commodity,
+          row.variety,
+          row.grade,
+          row.market,
+          row.state,
+          row.date,
+          row.minPrice,
+          row.maxPrice,
+          row.modalPrice,
+          row.arrivals,
+          JSON.stringify([`backfill:${source}`])
+        ]);
+      }
+
+      for (const entry of quarantined) {
+        const { row } = entry;
+        await client.query(`
+          INSERT INTO market_data_quarantine
+            (commodity, variety, grade, market, state, date, min_price, max_price, modal_price, arrivals, reason, details, raw_data, source, row_hash)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+          ON CONFLICT (row_hash) DO NOTHING
+        `, [
+          row.commodity || null,
+          row.variety,
+          row.grade,
+          row.market || null,
+          row.state,
+          row.date,
+          this.finiteOrNull(row.minPrice),
+          this.finiteOrNull(row.maxPrice),
+          this.finiteOrNull(row.modalPrice),
+          row.arrivals,
+          entry.reason,
+          entry.details,
+          JSON.stringify(row.raw),
+          source,
+          this.hashRow(row.raw)
+        ]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Backfill batch failed:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private hashRow(raw: Record<string, string>): string {
+    const canonical = Object.keys(raw).sort().map(key => `${key}=${raw[key]}`).join('\u0001');
+    return createHash('sha256').update(canonical).digest('hex');
+  }
+
+  private finiteOrNull(value: number): number | null {
+    return isFinite(value) ? value : null;
+  }
+}
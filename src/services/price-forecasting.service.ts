@@ -0,0 +1,373 @@
+import { PriceForecastPoint, SeasonalityLevel } from '../types';
+
+export interface PriceObservation {
+  date: Date;
+  price: number;
+}
+
+export interface SeasonalDecomposition {
+  observations: number;
+  from: Date;
+  to: Date;
+  level: number;              // deseasonalized price at the last observation
+  trendPercentPerWeek: number;
+  weeklyEffects: number[] | null;  // % effect by day of week, 0 = Sunday
+  annualEffects: number[] | null;  // % effect by month, 0 = January
+  residualStd: number;        // in log-price units
+}
+
+export interface PriceForecast {
+  commodity: string;
+  generatedAt: Date;
+  intervalLevel: number;
+  seasonality: SeasonalityLevel;
+  decomposition: SeasonalDecomposition;
+  horizons: PriceForecastPoint[];
+}
+
+export interface BacktestHorizonMetrics {
+  weeksAhead: number;
+  samples: number;
+  mae: number | null;
+  mape: number | null;             // %
+  rmse: number | null;
+  intervalCoverage: number | null; // share of actuals inside the prediction interval
+  naiveMape: number | null;        // % error of "last price carries forward", for comparison
+}
+
+export interface ForecastBacktest {
+  commodity: string;
+  generatedAt: Date;
+  origins: number;
+  horizons: BacktestHorizonMetrics[];
+}
+
+export interface BacktestOptions {
+  horizons?: number[];
+  minTrainingDays?: number;
+  maxOrigins?: number;
+}
+
+interface DailyPoint {
+  day: number;   // days since epoch
+  value: number; // log of the day's mean price
+}
+
+interface FittedModel {
+  lastDay: number;
+  level: number;  // log space
+  slope: number;  // log change per day
+  weekly: number[] | null;
+  annual: number[] | null;
+  residualStd: number;
+}
+
+export const FORECAST_HORIZONS_WEEKS = [1, 2, 4, 12];
+export const MIN_FORECAST_OBSERVATIONS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVAL_LEVEL = 0.8;
+const INTERVAL_Z = 1.2816;
+const TREND_WINDOW_DAYS = 90;
+const TREND_DAMPING = 0.99;       // per day, keeps 12-week forecasts from running away
+const MIN_WEEKLY_SPAN_DAYS = 21;
+const MIN_ANNUAL_SPAN_DAYS = 365;
+const MIN_RESIDUAL_STD = 0.005;
+const SEASONAL_THRESHOLD = 0.05;  // a month 5% above/below the yearly norm counts as peak/off-peak
+const ACTUAL_MATCH_TOLERANCE_DAYS = 3;
+
+/**
+ * Seasonal price forecasting.
+ *
+ * Works on log prices so seasonal effects are multiplicative: the daily series is split into
+ * an annual (month-of-year) component, a weekly (day-of-week) component and a damped linear
+ * trend fitted on the recent deseasonalized prices. Components that the history is too short
+ * to estimate are left out rather than guessed.
+ */
+export class PriceForecastingService {
+  forecast(commodity: string, history: PriceObservation[], horizons: number[] = FORECAST_HORIZONS_WEEKS): PriceForecast | null {
+    const series = this.toDailySeries(history);
+    if (series.length < MIN_FORECAST_OBSERVATIONS) return null;
+
+    const model = this.fit(series);
+
+    return {
+      commodity,
+      generatedAt: new Date(),
+      intervalLevel: INTERVAL_LEVEL,
+      seasonality: this.classifySeasonality(model, model.lastDay),
+      decomposition: this.describe(series, model),
+      horizons: horizons.map(weeks => this.project(model, weeks))
+    };
+  }
+
+  /**
+   * Rolling-origin backtest: refits the model at weekly origins (most recent first) using only
+   * data up to each origin and scores the forecasts against what was actually observed.
+   */
+  backtest(commodity: string, history: PriceObservation[], options: BacktestOptions = {}): ForecastBacktest | null {
+    const horizons = options.horizons || FORECAST_HORIZONS_WEEKS;
+    const minTrainingDays = options.minTrainingDays || 56;
+    const maxOrigins = options.maxOrigins || 26;
+
+    const series = this.toDailySeries(history);
+    if (series.length < MIN_FORECAST_OBSERVATIONS) return null;
+
+    const firstDay = series[0].day;
+    const lastDay = series[series.length - 1].day;
+    const errors = new Map<number, { actual: number; predicted: number; naive: number; covered: boolean }[]>(
+      horizons.map(weeks => [weeks, []])
+    );
+    let origins = 0;
+
+    for (let origin = lastDay - 7; origin >= firstDay + minTrainingDays && origins < maxOrigins; origin -= 7) {
+      const training = series.filter(point => point.day <= origin);
+      if (training.length < MIN_FORECAST_OBSERVATIONS) break;
+
+      const model = this.fit(training);
+      const lastPrice = Math.exp(training[training.length - 1].value);
+      origins++;
+
+      for (const weeks of horizons) {
+        const actual = this.findActual(series, model.lastDay + weeks * 7);
+        if (actual === null) continue;
+
+        const point = this.project(model, weeks);
+        errors.get(weeks)!.push({
+          actual,
+          predicted: point.price,
+          naive: lastPrice,
+          covered: actual >= point.lower && actual <= point.upper
+        });
+      }
+    }
+
+    return {
+      commodity,
+      generatedAt: new Date(),
+      origins,
+      horizons: horizons.map(weeks => this.scoreHorizon(weeks, errors.get(weeks)!))
+    };
+  }
+
+  private toDailySeries(history: PriceObservation[]): DailyPoint[] {
+    const byDay = new Map<number, { sum: number; count: number }>();
+
+    for (const { date, price } of history) {
+      if (!isFinite(price) || price <= 0) continue;
+      const when = new Date(date);
+      if (isNaN(when.getTime())) continue;
+
+      // Calendar day as the database reports it, independent of the server time zone
+      const day = Date.UTC(when.getFullYear(), when.getMonth(), when.getDate()) / DAY_MS;
+      const bucket = byDay.get(day) || { sum: 0, count: 0 };
+      bucket.sum += price;
+      bucket.count++;
+      byDay.set(day, bucket);
+    }
+
+    return Array.from(byDay.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([day, { sum, count }]) => ({ day, value: Math.log(sum / count) }));
+  }
+
+  private fit(series: DailyPoint[]): FittedModel {
+    const firstDay = series[0].day;
+    const lastDay = series[series.length - 1].day;
+    const span = lastDay - firstDay;
+
+    // Annual effects are measured against a straight line through the whole history (a moving
+    // average short enough to be useful would absorb the seasonal swing itself), weekly effects
+    // against a one-week centered moving average
+    let annual: number[] | null = null;
+    if (span >= MIN_ANNUAL_SPAN_DAYS) {
+      const line = this.fitLine(series);
+      annual = this.estimateSeasonalEffects(series, series.map(p => line.intercept + line.slope * p.day), 12, day => this.monthOf(day));
+    }
+
+    const withoutAnnual = annual
+      ? series.map(point => ({ day: point.day, value: point.value - annual[this.monthOf(point.day)] }))
+      : series;
+
+    const weekly = span >= MIN_WEEKLY_SPAN_DAYS
+      ? this.estimateSeasonalEffects(withoutAnnual, this.centeredMovingAverage(withoutAnnual, 3), 7, day => this.dayOfWeek(day))
+      : null;
+
+    const deseasonalized = weekly
+      ? withoutAnnual.map(point => ({ day: point.day, value: point.value - weekly[this.dayOfWeek(point.day)] }))
+      : withoutAnnual;
+
+    const recent = deseasonalized.filter(point => point.day > lastDay - TREND_WINDOW_DAYS);
+    const trendPoints = recent.length >= 2 ? recent : deseasonalized;
+    const { slope, intercept } = this.fitLine(trendPoints);
+
+    const residuals = trendPoints.map(point => point.value - (intercept + slope * point.day));
+    const dof = Math.max(1, residuals.length - 2);
+    const residualStd = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / dof);
+
+    return {
+      lastDay,
+      level: intercept + slope * lastDay,
+      slope,
+      weekly,
+      annual,
+      residualStd: Math.max(MIN_RESIDUAL_STD, residualStd)
+    };
+  }
+
+  /**
+   * Mean deviation from a baseline, grouped into buckets and centered on zero.
+   * Buckets with no observations get no effect.
+   */
+  private estimateSeasonalEffects(
+    series: DailyPoint[],
+    baseline: number[],
+    buckets: number,
+    bucketOf: (day: number) => number
+  ): number[] {
+    const sums = new Array(buckets).fill(0);
+    const counts = new Array(buckets).fill(0);
+
+    series.forEach((point, i) => {
+      const bucket = bucketOf(point.day);
+      sums[bucket] += point.value - baseline[i];
+      counts[bucket]++;
+    });
+
+    const effects = sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : 0));
+    const observed = effects.filter((_, i) => counts[i] > 0);
+    const mean = observed.reduce((a, b) => a + b, 0) / Math.max(1, observed.length);
+
+    return effects.map((effect, i) => (counts[i] > 0 ? effect - mean : 0));
+  }
+
+  private centeredMovingAverage(series: DailyPoint[], halfWindowDays: number): number[] {
+    const averages: number[] = [];
+    let start = 0;
+    let end = 0;
+    let windowSum = 0;
+
+    for (const point of series) {
+      while (end < series.length && series[end].day <= point.day + halfWindowDays) {
+        windowSum += series[end].value;
+        end++;
+      }
+      while (series[start].day < point.day - halfWindowDays) {
+        windowSum -= series[start].value;
+        start++;
+      }
+      averages.push(windowSum / (end - start));
+    }
+
+    return averages;
+  }
+
+  private fitLine(points: DailyPoint[]): { slope: number; intercept: number } {
+    const n = points.length;
+    const meanX = points.reduce((sum, p) => sum + p.day, 0) / n;
+    const meanY = points.reduce((sum, p) => sum + p.value, 0) / n;
+    const sxx = points.reduce((sum, p) => sum + (p.day - meanX) ** 2, 0);
+    const sxy = points.reduce((sum, p) => sum + (p.day - meanX) * (p.value - meanY), 0);
+    const slope = sxx > 0 ? sxy / sxx : 0;
+
+    return { slope, intercept: meanY - slope * meanX };
+  }
+
+  private project(model: FittedModel, weeksAhead: number): PriceForecastPoint {
+    const days = weeksAhead * 7;
+    const targetDay = model.lastDay + days;
+    const dampedDays = TREND_DAMPING * (1 - Math.pow(TREND_DAMPING, days)) / (1 - TREND_DAMPING);
+
+    const logPrice = model.level
+      + model.slope * dampedDays
+      + (model.annual ? model.annual[this.monthOf(targetDay)] : 0)
+      + (model.weekly ? model.weekly[this.dayOfWeek(targetDay)] : 0);
+
+    // Uncertainty widens with the horizon
+    const spread = INTERVAL_Z * model.residualStd * Math.sqrt(1 + days / 7);
+
+    return {
+      weeksAhead,
+      date: new Date(targetDay * DAY_MS),
+      price: this.round(Math.exp(logPrice)),
+      lower: this.round(Math.exp(logPrice - spread)),
+      upper: this.round(Math.exp(logPrice + spread))
+    };
+  }
+
+  private classifySeasonality(model: FittedModel, day: number): SeasonalityLevel {
+    if (!model.annual) return 'normal';
+
+    const effect = Math.exp(model.annual[this.monthOf(day)]) - 1;
+    if (effect >= SEASONAL_THRESHOLD) return 'peak';
+    if (effect <= -SEASONAL_THRESHOLD) return 'off-peak';
+    return 'normal';
+  }
+
+  private describe(series: DailyPoint[], model: FittedModel): SeasonalDecomposition {
+    const toPercent = (effects: number[] | null) =>
+      effects ? effects.map(effect => this.round((Math.exp(effect) - 1) * 100)) : null;
+
+    return {
+      observations: series.length,
+      from: new Date(series[0].day * DAY_MS),
+      to: new Date(model.lastDay * DAY_MS),
+      level: this.round(Math.exp(model.level)),
+      trendPercentPerWeek: this.round((Math.exp(model.slope * 7) - 1) * 100),
+      weeklyEffects: toPercent(model.weekly),
+      annualEffects: toPercent(model.annual),
+      residualStd: Math.round(model.residualStd * 10000) / 10000
+    };
+  }
+
+  private findActual(series: DailyPoint[], targetDay: number): number | null {
+    let best: DailyPoint | null = null;
+
+    for (const point of series) {
+      const distance = Math.abs(point.day - targetDay);
+      if (distance <= ACTUAL_MATCH_TOLERANCE_DAYS && (!best || distance < Math.abs(best.day - targetDay))) {
+        best = point;
+      }
+    }
+
+    return best ? Math.exp(best.value) : null;
+  }
+
+  private scoreHorizon(
+    weeksAhead: number,
+    samples: { actual: number; predicted: number; naive: number; covered: boolean }[]
+  ): BacktestHorizonMetrics {
+    if (samples.length === 0) {
+      return { weeksAhead, samples: 0, mae: null, mape: null, rmse: null, intervalCoverage: null, naiveMape: null };
+    }
+
+    const n = samples.length;
+    const mae = samples.reduce((sum, s) => sum + Math.abs(s.predicted - s.actual), 0) / n;
+    const mape = samples.reduce((sum, s) => sum + Math.abs(s.predicted - s.actual) / s.actual, 0) / n * 100;
+    const rmse = Math.sqrt(samples.reduce((sum, s) => sum + (s.predicted - s.actual) ** 2, 0) / n);
+    const naiveMape = samples.reduce((sum, s) => sum + Math.abs(s.naive - s.actual) / s.actual, 0) / n * 100;
+    const intervalCoverage = samples.filter(s => s.covered).length / n;
+
+    return {
+      weeksAhead,
+      samples: n,
+      mae: this.round(mae),
+      mape: this.round(mape),
+      rmse: this.round(rmse),
+      intervalCoverage: this.round(intervalCoverage),
+      naiveMape: this.round(naiveMape)
+    };
+  }
+
+  private monthOf(day: number): number {
+    return new Date(day * DAY_MS).getUTCMonth();
+  }
+
+  private dayOfWeek(day: number): number {
+    return new Date(day * DAY_MS).getUTCDay();
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,426 @@
+import { createHash } from 'crypto';
+import { Pool } from 'pg';
+import { DatabaseManager } from '../config/database';
+import { PriceData } from '../types';
+import { DataValidator } from '../utils/error-handling';
+import { DEFAULT_GRADE, DEFAULT_VARIETY } from '../utils/commodity-grades';
+
+export type QuarantineReason = 'invalid' | 'anomaly';
+export type QuarantineStatus = 'pending' | 'approved' | 'rejected';
+
+export const QUARANTINE_REASONS: QuarantineReason[] = ['invalid', 'anomaly'];
+export const QUARANTINE_STATUSES: QuarantineStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * A price held back from market_data: live quotes that failed validation or deviated from
+ * their series history, and rows quarantined by historical backfills.
+ */
+export interface QuarantinedPrice {
+  id: number;
+  commodity?: string;
+  variety?: string;
+  grade?: string;
+  market?: string;
+  state?: string;
+  date?: Date;
+  minPrice?: number;
+  maxPrice?: number;
+  modalPrice?: number;
+  arrivals: number;
+  reason: QuarantineReason;
+  details?: string;
+  baselinePrice?: number; // median the price was compared against
+  source?: string;
+  status: QuarantineStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  rawData: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface QuarantineFilters {
+  status?: QuarantineStatus;
+  commodity?: string;
+  reason?: QuarantineReason;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Prices an admin can substitute when approving, e.g. after confirming a decimal slip with the mandi.
+ */
+export interface QuarantineCorrection {
+  minPrice?: number;
+  maxPrice?: number;
+  modalPrice?: number;
+  note?: string;
+}
+
+export interface QuarantineReviewResult {
+  outcome: 'approved' | 'rejected' | 'not_found' | 'already_reviewed' | 'incomplete';
+  entry?: QuarantinedPrice;
+}
+
+export interface PriceCheckResult {
+  reason: QuarantineReason;
+  details: string;
+  baselinePrice?: number;
+}
+
+export interface SeriesPricePoint {
+  date: Date;
+  minPrice: number;
+  maxPrice: number;
+  modalPrice: number;
+  sources: string[];
+}
+
+const HISTORY_DAYS = 14;
+const HISTORY_TTL_MS = 15 * 60 * 1000;
+const MIN_HISTORY_POINTS = 3; // fewer points than this say too little about the normal level
+
+const QUARANTINE_COLUMNS = `
+  id, commodity, variety, grade, market, state, date, min_price, max_price, modal_price, arrivals,
+  reason, details, baseline_price, source, status, reviewed_by, reviewed_at, review_note, raw_data, created_at
+`;
+
+/**
+ * Screens live prices against the rolling history of their series (commodity, variety, grade
+ * and market) and keeps outliers in market_data_quarantine until an admin reviews them.
+ *
+ * Series history is loaded once per series and then kept current in memory, so screening
+ * adds at most one query to a price fetch.
+ */
+export class PriceQuarantineService {
+  private static instance: PriceQuarantineService;
+  private readonly history = new Map<string, { points: SeriesPricePoint[]; loadedAt: number }>();
+
+  constructor(private readonly pgPool?: Pool) {}
+
+  public static getInstance(): PriceQuarantineService {
+    if (!PriceQuarantineService.instance) {
+      PriceQuarantineService.instance = new PriceQuarantineService();
+    }
+    return PriceQuarantineService.instance;
+  }
+
+  /**
+   * Accepted prices for the series over the last two weeks, newest first.
+   */
+  async getSeriesHistory(priceData: Pick<PriceData, 'commodity' | 'variety' | 'grade' | 'market'>): Promise<SeriesPricePoint[]> {
+    const key = this.seriesKey(priceData);
+    const cached = this.history.get(key);
+
+    if (cached && Date.now() - cached.loadedAt <= HISTORY_TTL_MS) {
+      return cached.points;
+    }
+
+    try {
+      const result = await this.getPool().query(`
+        SELECT date, min_price, max_price, modal_price, sources
+        FROM market_data
+        WHERE commodity = $1 AND market = $2 AND variety = $3 AND grade = $4
+          AND date >= CURRENT_DATE - $5::int
+        ORDER BY date DESC
+      `, [
+        priceData.commodity,
+        priceData.market || 'Unknown',
+        priceData.variety || DEFAULT_VARIETY,
+        priceData.grade || DEFAULT_GRADE,
+        HISTORY_DAYS
+      ]);
+
+      const points = (result?.rows || []).map((row: any) => ({
+        date: new Date(row.date),
+        minPrice: parseFloat(row.min_price),
+        maxPrice: parseFloat(row.max_price),
+        modalPrice: parseFloat(row.modal_price),
+        sources: typeof row.sources === 'string' ? JSON.parse(row.sources) : (row.sources || [])
+      }));
+
+      this.history.set(key, { points, loadedAt: Date.now() });
+      return points;
+    } catch (error) {
+      // Without history nothing is flagged as an anomaly; invalid prices are still caught
+      console.error('Error loading price series history:', error);
+      return cached?.points || [];
+    }
+  }
+
+  /**
+   * Null when the price can be accepted. Anomalies need at least three points of history.
+   */
+  checkPrice(priceData: Pick<PriceData, 'currentPrice' | 'priceRange'>, history: SeriesPricePoint[]): PriceCheckResult | null {
+    if (!DataValidator.validatePriceData(priceData)) {
+      return { reason: 'invalid', details: 'invalid_price_range' };
+    }
+
+    if (history.length < MIN_HISTORY_POINTS) return null;
+
+    const baseline = history.map(point => ({ price: point.modalPrice }));
+    if (!DataValidator.detectPriceAnomalies(priceData, baseline)) return null;
+
+    const sorted = history.map(point => point.modalPrice).sort((a, b) => a - b);
+    return {
+      reason: 'anomaly',
+      details: 'deviation_from_median',
+      baselinePrice: sorted[Math.floor(sorted.length / 2)]
+    };
+  }
+
+  /**
+   * Adds an accepted live price to the in-memory series history; one point per day.
+   */
+  recordAccepted(priceData: PriceData): void {
+    const cached = this.history.get(this.seriesKey(priceData));
+    if (!cached) return;
+
+    const point: SeriesPricePoint = {
+      date: new Date(priceData.lastUpdated),
+      minPrice: priceData.priceRange.min,
+      maxPrice: priceData.priceRange.max,
+      modalPrice: priceData.priceRange.modal,
+      sources: priceData.sources
+    };
+    const day = point.date.toISOString().slice(0, 10);
+
+    cached.points = [point, ...cached.points.filter(existing => existing.date.toISOString().slice(0, 10) !== day)]
+      .slice(0, HISTORY_DAYS);
+  }
+
+  /**
+   * Holds a live price back for review. The same quote fetched again the same day is stored once.
+   */
+  async quarantinePrice(priceData: PriceData, check: PriceCheckResult): Promise<void> {
+    const market = priceData.market || 'Unknown';
+    const variety = priceData.variety || DEFAULT_VARIETY;
+    const grade = priceData.grade || DEFAULT_GRADE;
+    const date = new Date(priceData.lastUpdated);
+
+    const rowHash = createHash('sha256')
+      .update([this.seriesKey(priceData), date.toISOString().slice(0, 10), priceData.priceRange.modal].join('\u0001'))
+      .digest('hex');
+
+    try {
+      await this.getPool().query(`
+        INSERT INTO market_data_quarantine
+          (commodity, variety, grade, market, state, date, min_price, max_price, modal_price, arrivals,
+           reason, details, baseline_price, raw_data, source, row_hash)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        ON CONFLICT (row_hash) DO NOTHING
+      `, [
+        priceData.commodity,
+        variety,
+        grade,
+        market,
+        priceData.state || 'Unknown',
+        date,
+        this.finiteOrNull(priceData.priceRange?.min),
+        this.finiteOrNull(priceData.priceRange?.max),
+        this.finiteOrNull(priceData.priceRange?.modal),
+        priceData.arrivals || 0,
+        check.reason,
+        check.details,
+        check.baselinePrice ?? null,
+        JSON.stringify(priceData),
+        `live:${priceData.sources.join(',')}`,
+        rowHash
+      ]);
+    } catch (error) {
+      console.error('Error quarantining price:', error);
+    }
+  }
+
+  async listQuarantined(filters: QuarantineFilters = {}): Promise<QuarantinedPrice[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+
+    if (filters.commodity) {
+      values.push(filters.commodity);
+      conditions.push(`LOWER(commodity) = LOWER($${values.length})`);
+    }
+
+    if (filters.reason) {
+      values.push(filters.reason);
+      conditions.push(`reason = $${values.length}`);
+    }
+
+    values.push(filters.limit || 50, filters.offset || 0);
+
+    const result = await this.getPool().query(`
+      SELECT ${QUARANTINE_COLUMNS}
+      FROM market_data_quarantine
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length}
+    `, values);
+
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  async getQuarantined(id: number): Promise<QuarantinedPrice | null> {
+    const result = await this.getPool().query(
+      `SELECT ${QUARANTINE_COLUMNS} FROM market_data_quarantine WHERE id = $1`,
+      [id]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Writes the (optionally corrected) price into market_data and marks the entry approved.
+   * 'incomplete' when the entry still lacks a commodity, market, date or a valid price range.
+   */
+  async approve(id: number, reviewerId: string, correction: QuarantineCorrection = {}): Promise<QuarantineReviewResult> {
+    const client = await this.getPool().connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `SELECT ${QUARANTINE_COLUMNS} FROM market_data_quarantine WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return { outcome: 'not_found' };
+      }
+
+      const entry = this.mapRow(result.rows[0]);
+      if (entry.status !== 'pending') {
+        await client.query('ROLLBACK');
+        return { outcome: 'already_reviewed', entry };
+      }
+
+      const minPrice = correction.minPrice ?? entry.minPrice;
+      const maxPrice = correction.maxPrice ?? entry.maxPrice;
+      const modalPrice = correction.modalPrice ?? entry.modalPrice;
+      const complete = !!entry.commodity && !!entry.market && !!entry.date &&
+        DataValidator.validatePriceData({ currentPrice: modalPrice, priceRange: { min: minPrice, max: maxPrice, modal: modalPrice } });
+
+      if (!complete) {
+        await client.query('ROLLBACK');
+        return { outcome: 'incomplete', entry };
+      }
+
+      // Live entries keep the quoting sources in raw_data; backfill entries only the dump name
+      const sources = Array.isArray(entry.rawData.sources) ? entry.rawData.sources : [`backfill:${entry.source || 'import'}`];
+
+      await client.query(`
+        INSERT INTO market_data (commodity, variety, grade, market, state, date, min_price, max_price, modal_price, arrivals, sources)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        ON CONFLICT (commodity, variety, grade, market, date) DO UPDATE SET
+          min_price = EXCLUDED.min_price,
+          max_price = EXCLUDED.max_price,
+          modal_price = EXCLUDED.modal_price,
+          arrivals = EXCLUDED.arrivals,
+          sources = EXCLUDED.sources
+      `, [
+        entry.commodity,
+        entry.variety || DEFAULT_VARIETY,
+        entry.grade || DEFAULT_GRADE,
+        entry.market,
+        entry.state || 'Unknown',
+        entry.date,
+        minPrice,
+        maxPrice,
+        modalPrice,
+        entry.arrivals,
+        JSON.stringify([...sources, 'quarantine:approved'])
+      ]);
+
+      const updated = await client.query(`
+        UPDATE market_data_quarantine
+        SET status = 'approved', min_price = $2, max_price = $3, modal_price = $4,
+            reviewed_by = $5, reviewed_at = CURRENT_TIMESTAMP, review_note = $6
+        WHERE id = $1
+        RETURNING ${QUARANTINE_COLUMNS}
+      `, [id, minPrice, maxPrice, modalPrice, reviewerId, correction.note || null]);
+
+      await client.query('COMMIT');
+
+      // Reloaded with the approved price on the next check
+      this.history.delete(this.seriesKey({
+        commodity: entry.commodity!,
+        variety: entry.variety,
+        grade: entry.grade,
+        market: entry.market
+      }));
+
+      return { outcome: 'approved', entry: this.mapRow(updated.rows[0]) };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async reject(id: number, reviewerId: string, note?: string): Promise<QuarantineReviewResult> {
+    const result = await this.getPool().query(`
+      UPDATE market_data_quarantine
+      SET status = 'rejected', reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP, review_note = $3
+      WHERE id = $1 AND status = 'pending'
+      RETURNING ${QUARANTINE_COLUMNS}
+    `, [id, reviewerId, note || null]);
+
+    if (result.rows.length > 0) {
+      return { outcome: 'rejected', entry: this.mapRow(result.rows[0]) };
+    }
+
+    const existing = await this.getQuarantined(id);
+    return existing ? { outcome: 'already_reviewed', entry: existing } : { outcome: 'not_found' };
+  }
+
+  private seriesKey(priceData: Pick<PriceData, 'commodity' | 'variety' | 'grade' | 'market'>): string {
+    return [
+      priceData.commodity,
+      priceData.variety || DEFAULT_VARIETY,
+      priceData.grade || DEFAULT_GRADE,
+      priceData.market || 'Unknown'
+    ].join('|').toLowerCase();
+  }
+
+  private mapRow(row: any): QuarantinedPrice {
+    const decimal = (value: any) => (value === null || value === undefined ? undefined : parseFloat(value));
+
+    return {
+      id: row.id,
+      commodity: row.commodity || undefined,
+      variety: row.variety || undefined,
+      grade: row.grade || undefined,
+      market: row.market || undefined,
+      state: row.state || undefined,
+      date: row.date ? new Date(row.date) : undefined,
+      minPrice: decimal(row.min_price),
+      maxPrice: decimal(row.max_price),
+      modalPrice: decimal(row.modal_price),
+      arrivals: row.arrivals || 0,
+      reason: row.reason,
+      details: row.details || undefined,
+      baselinePrice: decimal(row.baseline_price),
+      source: row.source || undefined,
+      status: row.status,
+      reviewedBy: row.reviewed_by || undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      reviewNote: row.review_note || undefined,
+      rawData: typeof row.raw_data === 'string' ? JSON.parse(row.raw_data) : (row.raw_data || {}),
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private finiteOrNull(value?: number): number | null {
+    return typeof value === 'number' && isFinite(value) ? value : null;
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
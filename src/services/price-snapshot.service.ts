@@ -0,0 +1,342 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, KeyObject } from 'crypto';
+import { Pool } from 'pg';
+import { DatabaseManager } from '../config/database';
+import { config } from '../config/environment';
+import { CommodityCatalogueService } from './commodity-catalogue.service';
+import {
+  PriceSnapshotBundle,
+  PriceSnapshotDiff,
+  PriceSnapshotEntry,
+  SignedPriceSnapshot
+} from '../types';
+
+export interface SnapshotOptions {
+  since?: number;          // version the client already holds; answered with a diff when still stored
+  commodities?: string[];  // overrides the vendor's followed commodities
+  state?: string;          // overrides the vendor's own state
+}
+
+interface StoredBundle {
+  version: number;
+  state?: string;
+  commodities: string[];
+  entries: PriceSnapshotEntry[];
+  contentHash: string;
+}
+
+interface DailyPrice {
+  date: Date;
+  modalPrice: number;
+  minPrice: number;
+  maxPrice: number;
+  markets: number;
+}
+
+interface SigningKey {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  keyId: string;
+}
+
+const SNAPSHOT_WINDOW_DAYS = 30;
+const TREND_RECENT_DAYS = 7;
+const TREND_THRESHOLD_PERCENT = 2;
+const DEFAULT_COMMODITY_COUNT = 10;
+const KEPT_VERSIONS = 5;
+const MAX_COMMODITIES = 50;
+const MAX_STORE_ATTEMPTS = 3;
+
+/**
+ * Compact, signed price snapshots for vendors who are often offline: current prices, 30-day
+ * ranges and trend direction for the vendor's state and followed commodities.
+ *
+ * Each distinct snapshot gets the next version number for the vendor. A client sending the
+ * version it holds receives only the entries that changed since.
+ */
+export class PriceSnapshotService {
+  private static instance: PriceSnapshotService;
+  private signingKey?: SigningKey;
+
+  constructor(private readonly pgPool?: Pool, private readonly signingKeyPem?: string) {}
+
+  public static getInstance(): PriceSnapshotService {
+    if (!PriceSnapshotService.instance) {
+      PriceSnapshotService.instance = new PriceSnapshotService();
+    }
+    return PriceSnapshotService.instance;
+  }
+
+  async getSnapshot(vendorId: string, options: SnapshotOptions = {}): Promise<SignedPriceSnapshot> {
+    const state = options.state ?? await this.getVendorState(vendorId);
+    const commodities = options.commodities?.length
+      ? this.canonicalCommodities(options.commodities)
+      : await this.getFollowedCommodities(vendorId);
+
+    const entries = await this.buildEntries(commodities, state);
+    const contentHash = createHash('sha256').update(JSON.stringify({ state, commodities, entries })).digest('hex');
+
+    const version = await this.storeBundle(vendorId, { state, commodities, entries, contentHash });
+
+    const base = options.since !== undefined && options.since !== version
+      ? await this.loadBundle(vendorId, options.since)
+      : null;
+
+    const header = {
+      vendorId,
+      version,
+      generatedAt: new Date().toISOString(),
+      region: state ? { state } : {},
+      commodities,
+      unit: 'quintal' as const
+    };
+
+    let snapshot: PriceSnapshotBundle | PriceSnapshotDiff;
+    if (options.since === version) {
+      snapshot = { type: 'diff', ...header, baseVersion: version, upserts: [], removed: [] };
+    } else if (base) {
+      snapshot = { type: 'diff', ...header, baseVersion: base.version, ...this.diffEntries(base.entries, entries) };
+    } else {
+      snapshot = { type: 'full', ...header, entries };
+    }
+
+    return this.sign(snapshot);
+  }
+
+  /**
+   * Public half of the signing key, for clients and other services verifying bundles.
+   */
+  getPublicKey(): { keyId: string; algorithm: 'Ed25519'; publicKey: string } {
+    const key = this.getSigningKey();
+    return {
+      keyId: key.keyId,
+      algorithm: 'Ed25519',
+      publicKey: key.publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    };
+  }
+
+  verifySnapshot(signed: SignedPriceSnapshot): boolean {
+    const key = this.getSigningKey();
+    if (signed.keyId !== key.keyId) return false;
+
+    return verify(null, Buffer.from(JSON.stringify(signed.snapshot)), key.publicKey, Buffer.from(signed.signature, 'base64'));
+  }
+
+  /**
+   * Summarises a commodity's daily series (oldest first) into a snapshot entry.
+   */
+  summariseSeries(
+    commodity: string,
+    days: DailyPrice[],
+    scope: PriceSnapshotEntry['scope']
+  ): PriceSnapshotEntry | null {
+    if (days.length === 0) return null;
+
+    const latest = days[days.length - 1];
+    const recentFrom = latest.date.getTime() - (TREND_RECENT_DAYS - 1) * 24 * 60 * 60 * 1000;
+    const recent = days.filter(day => day.date.getTime() >= recentFrom);
+    const earlier = days.filter(day => day.date.getTime() < recentFrom);
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    const changePercent = earlier.length > 0
+      ? Math.round((average(recent.map(day => day.modalPrice)) / average(earlier.map(day => day.modalPrice)) - 1) * 1000) / 10
+      : 0;
+
+    return {
+      commodity,
+      scope,
+      currentPrice: Math.round(latest.modalPrice),
+      priceRange: {
+        min: Math.round(Math.min(...days.map(day => day.minPrice))),
+        max: Math.round(Math.max(...days.map(day => day.maxPrice)))
+      },
+      trend: changePercent > TREND_THRESHOLD_PERCENT ? 'rising' : changePercent < -TREND_THRESHOLD_PERCENT ? 'falling' : 'stable',
+      changePercent,
+      markets: latest.markets,
+      lastUpdated: latest.date.toISOString().slice(0, 10)
+    };
+  }
+
+  diffEntries(base: PriceSnapshotEntry[], current: PriceSnapshotEntry[]): { upserts: PriceSnapshotEntry[]; removed: string[] } {
+    const baseByCommodity = new Map(base.map(entry => [entry.commodity, JSON.stringify(entry)]));
+    const currentCommodities = new Set(current.map(entry => entry.commodity));
+
+    return {
+      upserts: current.filter(entry => baseByCommodity.get(entry.commodity) !== JSON.stringify(entry)),
+      removed: base.map(entry => entry.commodity).filter(commodity => !currentCommodities.has(commodity))
+    };
+  }
+
+  // Regional figures where the state has quotes in the window, national ones otherwise
+  private async buildEntries(commodities: string[], state?: string): Promise<PriceSnapshotEntry[]> {
+    const regional = state ? await this.loadDailySeries(commodities, state) : new Map<string, DailyPrice[]>();
+    const missing = commodities.filter(commodity => !regional.has(commodity));
+    const national = missing.length > 0 ? await this.loadDailySeries(missing) : new Map<string, DailyPrice[]>();
+
+    return commodities
+      .map(commodity => regional.has(commodity)
+        ? this.summariseSeries(commodity, regional.get(commodity)!, 'regional')
+        : this.summariseSeries(commodity, national.get(commodity) || [], 'national'))
+      .filter((entry): entry is PriceSnapshotEntry => entry !== null);
+  }
+
+  private async loadDailySeries(commodities: string[], state?: string): Promise<Map<string, DailyPrice[]>> {
+    const result = await this.getPool().query(`
+      SELECT commodity, date,
+             AVG(modal_price) AS modal_price, MIN(min_price) AS min_price, MAX(max_price) AS max_price,
+             COUNT(DISTINCT market) AS markets
+      FROM market_data
+      WHERE commodity = ANY($1) AND date >= CURRENT_DATE - $2::int
+        AND ($3::text IS NULL OR state = $3)
+      GROUP BY commodity, date
+      ORDER BY commodity, date
+    `, [commodities, SNAPSHOT_WINDOW_DAYS, state || null]);
+
+    const series = new Map<string, DailyPrice[]>();
+    for (const row of result.rows) {
+      const days = series.get(row.commodity) || [];
+      days.push({
+        date: new Date(row.date),
+        modalPrice: parseFloat(row.modal_price),
+        minPrice: parseFloat(row.min_price),
+        maxPrice: parseFloat(row.max_price),
+        markets: parseInt(row.markets)
+      });
+      series.set(row.commodity, days);
+    }
+    return series;
+  }
+
+  private async getVendorState(vendorId: string): Promise<string | undefined> {
+    const result = await this.getPool().query('SELECT state FROM vendors WHERE id = $1', [vendorId]);
+    return result.rows[0]?.state || undefined;
+  }
+
+  /**
+   * Commodities the vendor subscribed to, set alert rules on or sells; a default set otherwise.
+   */
+  private async getFollowedCommodities(vendorId: string): Promise<string[]> {
+    // price_alerts.vendor_id is a VARCHAR, the other two are UUIDs
+    const result = await this.getPool().query(`
+      SELECT commodity FROM price_alerts WHERE vendor_id = $1
+      UNION
+      SELECT commodity FROM price_alert_rules WHERE vendor_id = $2 AND is_active = true
+      UNION
+      SELECT category AS commodity FROM vendor_items WHERE vendor_id = $2 AND status = 'active'
+    `, [vendorId, vendorId]);
+
+    const followed = this.canonicalCommodities(result.rows.map((row: any) => row.commodity));
+    return followed.length > 0
+      ? followed
+      : CommodityCatalogueService.getInstance().listCommodities().slice(0, DEFAULT_COMMODITY_COUNT).map(commodity => commodity.name);
+  }
+
+  // Catalogue names only, e.g. vendor item categories such as "Vegetables" are dropped
+  private canonicalCommodities(names: string[]): string[] {
+    const catalogue = CommodityCatalogueService.getInstance();
+    const canonical = names
+      .map(name => catalogue.getCommodity(String(name).trim())?.name)
+      .filter((name): name is string => !!name);
+
+    return Array.from(new Set(canonical)).sort().slice(0, MAX_COMMODITIES);
+  }
+
+  private async loadBundle(vendorId: string, version?: number): Promise<StoredBundle | null> {
+    const result = await this.getPool().query(`
+      SELECT version, state, commodities, entries, content_hash
+      FROM price_snapshot_bundles
+      WHERE vendor_id = $1 AND ($2::int IS NULL OR version = $2)
+      ORDER BY version DESC
+      LIMIT 1
+    `, [vendorId, version ?? null]);
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+    return {
+      version: row.version,
+      state: row.state || undefined,
+      commodities: parse(row.commodities),
+      entries: parse(row.entries),
+      contentHash: row.content_hash
+    };
+  }
+
+  /**
+   * Version holding the content: the latest one if the content is unchanged, so polling clients
+   * get an empty diff, else the next one. The number is allocated by the INSERT itself; when a
+   * concurrent request takes it first the insert does nothing and the latest version is re-read.
+   */
+  private async storeBundle(vendorId: string, bundle: Omit<StoredBundle, 'version'>): Promise<number> {
+    const db = this.getPool();
+
+    for (let attempt = 0; attempt < MAX_STORE_ATTEMPTS; attempt++) {
+      const latest = await this.loadBundle(vendorId);
+      if (latest?.contentHash === bundle.contentHash) {
+        return latest.version;
+      }
+
+      const result = await db.query(`
+        INSERT INTO price_snapshot_bundles (vendor_id, version, state, commodities, entries, content_hash)
+        SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5
+        FROM price_snapshot_bundles
+        WHERE vendor_id = $1
+        ON CONFLICT (vendor_id, version) DO NOTHING
+        RETURNING version
+      `, [
+        vendorId,
+        bundle.state || null,
+        JSON.stringify(bundle.commodities),
+        JSON.stringify(bundle.entries),
+        bundle.contentHash
+      ]);
+
+      if (result.rows.length > 0) {
+        const version: number = result.rows[0].version;
+        await db.query(
+          'DELETE FROM price_snapshot_bundles WHERE vendor_id = $1 AND version <= $2',
+          [vendorId, version - KEPT_VERSIONS]
+        );
+        return version;
+      }
+    }
+
+    throw new Error(`Could not allocate a snapshot version for vendor ${vendorId}`);
+  }
+
+  private sign(snapshot: PriceSnapshotBundle | PriceSnapshotDiff): SignedPriceSnapshot {
+    const key = this.getSigningKey();
+
+    return {
+      snapshot,
+      signature: sign(null, Buffer.from(JSON.stringify(snapshot)), key.privateKey).toString('base64'),
+      keyId: key.keyId,
+      algorithm: 'Ed25519'
+    };
+  }
+
+  private getSigningKey(): SigningKey {
+    if (!this.signingKey) {
+      const pem = this.signingKeyPem ?? config.security.snapshotSigningKey;
+      let privateKey: KeyObject;
+
+      if (pem) {
+        privateKey = createPrivateKey(pem);
+      } else {
+        // Bundles signed with an ephemeral key stop verifying after a restart
+        console.warn('SNAPSHOT_SIGNING_KEY not set; signing price snapshots with an ephemeral key');
+        privateKey = generateKeyPairSync('ed25519').privateKey;
+      }
+
+      const publicKey = createPublicKey(privateKey);
+      const keyId = createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex').slice(0, 16);
+      this.signingKey = { privateKey, publicKey, keyId };
+    }
+
+    return this.signingKey;
+  }
+
+  private getPool(): Pool {
+    return this.pgPool || DatabaseManager.getInstance().getPostgresClient();
+  }
+}
@@ -0,0 +1,365 @@
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import { CircuitBreaker } from '../utils/error-handling';
+import { parseCsv } from '../utils/csv';
+import { CommoditySpec } from '../types';
+import { GRADE_PRICE_FACTORS, DEFAULT_GRADE, normalizeGrade, normalizeVariety } from '../utils/commodity-grades';
+import { CommodityCatalogueService } from './commodity-catalogue.service';
+
+/**
+ * A single price observation returned by a price source for one commodity/market.
+ * Prices are per quintal, as published by AGMARKNET.
+ */
+export interface SourcePriceRecord {
+  commodity: string;
+  variety?: string;
+  grade?: string;
+  market: string;
+  state: string;
+  date: Date;
+  minPrice: number;
+  maxPrice: number;
+  modalPrice: number;
+  arrivals: number;
+}
+
+export interface PriceSourceCoverage {
+  commodities: string[] | '*';
+  markets: string[] | '*';
+  states?: string[];
+}
+
+export interface PriceSourceHealth {
+  id: string;
+  name: string;
+  status: 'healthy' | 'degraded' | 'down';
+  circuitState: string;
+  trustWeight: number;
+  coverage: PriceSourceCoverage;
+  lastLatencyMs: number | null;
+  averageLatencyMs: number | null;
+  successCount: number;
+  failureCount: number;
+  emptyCount: number;
+  lastSuccessAt?: Date;
+  lastFailureAt?: Date;
+  lastError?: string;
+}
+
+export interface PriceSourceAdapter {
+  readonly id: string;
+  readonly name: string;
+  readonly trustWeight: number;
+  getCoverage(): PriceSourceCoverage;
+  supports(commodity: string, market?: string): boolean;
+  fetchPrice(commodity: string, location?: string, spec?: CommoditySpec): Promise<SourcePriceRecord | null>;
+  getHealth(): PriceSourceHealth;
+}
+
+/**
+ * Shared plumbing for adapters: circuit breaking, latency tracking and coverage checks.
+ * Subclasses only implement fetchRecord().
+ */
+export abstract class BasePriceSourceAdapter implements PriceSourceAdapter {
+  private readonly circuitBreaker: CircuitBreaker;
+  private lastLatencyMs: number | null = null;
+  private averageLatencyMs: number | null = null;
+  private successCount = 0;
+  private failureCount = 0;
+  private emptyCount = 0;
+  private lastSuccessAt?: Date;
+  private lastFailureAt?: Date;
+  private lastError?: string;
+
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly trustWeight: number,
+    protected readonly coverage: PriceSourceCoverage = { commodities: '*', markets: '*' }
+  ) {
+    this.circuitBreaker = new CircuitBreaker(3, 30000, 60000); // 3 failures, 30s timeout, 1 min monitoring
+  }
+
+  protected abstract fetchRecord(commodity: string, location?: string, spec?: CommoditySpec): Promise<SourcePriceRecord | null>;
+
+  getCoverage(): PriceSourceCoverage {
+    return this.coverage;
+  }
+
+  supports(commodity: string, market?: string): boolean {
+    const { commodities, markets } = this.coverage;
+
+    if (commodities !== '*' && !commodities.some(c => c.toLowerCase() === commodity.toLowerCase())) {
+      return false;
+    }
+
+    if (market && markets !== '*' && !markets.some(m => m.toLowerCase() === market.toLowerCase())) {
+      return false;
+    }
+
+    return true;
+  }
+
+  async fetchPrice(commodity: string, location?: string, spec?: CommoditySpec): Promise<SourcePriceRecord | null> {
+    const startTime = Date.now();
+
+    try {
+      const record = await this.circuitBreaker.execute(() => this.fetchRecord(commodity, location, spec));
+      this.recordLatency(Date.now() - startTime);
+
+      if (record) {
+        this.successCount++;
+        this.lastSuccessAt = new Date();
+      } else {
+        this.emptyCount++;
+      }
+
+      return record;
+    } catch (error) {
+      this.recordLatency(Date.now() - startTime);
+      this.failureCount++;
+      this.lastFailureAt = new Date();
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  getHealth(): PriceSourceHealth {
+    const circuitState = this.circuitBreaker.getState();
+    let status: PriceSourceHealth['status'] = 'healthy';
+
+    if (circuitState === 'open') {
+      status = 'down';
+    } else if (circuitState === 'half-open' || this.circuitBreaker.getFailureCount() > 0) {
+      status = 'degraded';
+    }
+
+    return {
+      id: this.id,
+      name: this.name,
+      status,
+      circuitState,
+      trustWeight: this.trustWeight,
+      coverage: this.coverage,
+      lastLatencyMs: this.lastLatencyMs,
+      averageLatencyMs: this.averageLatencyMs,
+      successCount: this.successCount,
+      failureCount: this.failureCount,
+      emptyCount: this.emptyCount,
+      lastSuccessAt: this.lastSuccessAt,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError
+    };
+  }
+
+  private recordLatency(latencyMs: number): void {
+    this.lastLatencyMs = latencyMs;
+    // Exponential moving average so a single slow call doesn't dominate
+    this.averageLatencyMs = this.averageLatencyMs === null
+      ? latencyMs
+      : Math.round(this.averageLatencyMs * 0.8 + latencyMs * 0.2);
+  }
+}
+
+interface AGMARKNETResponse {
+  records: Array<{
+    commodity: string;
+    variety?: string;
+    grade?: string;
+    market: string;
+    state: string;
+    arrival_date: string;
+    min_price: string;
+    max_price: string;
+    modal_price: string;
+    arrivals: string;
+  }>;
+}
+
+export class AGMARKNETSourceAdapter extends BasePriceSourceAdapter {
+  private readonly baseUrl = 'https://api.data.gov.in/resource/9ef84268-d588-465a-a308-a864a43d0070';
+
+  constructor(private readonly apiKey: string, trustWeight: number = 1.0) {
+    super('agmarknet', 'AGMARKNET', trustWeight);
+  }
+
+  // Request and parse errors propagate so the circuit breaker and health report count them;
+  // null means AGMARKNET has no record for this commodity and market
+  protected async fetchRecord(commodity: string, location?: string, spec?: CommoditySpec): Promise<SourcePriceRecord | null> {
+    const params = new URLSearchParams({
+      'api-key': this.apiKey,
+      format: 'json',
+      limit: '10',
+      'filters[commodity]': commodity
+    });
+
+    if (location) {
+      params.append('filters[market]', location);
+    }
+
+    if (spec?.variety) {
+      params.append('filters[variety]', spec.variety);
+    }
+
+    if (spec?.grade) {
+      params.append('filters[grade]', spec.grade);
+    }
+
+    const response = await axios.get(`${this.baseUrl}?${params.toString()}`, {
+      timeout: 5000
+    });
+
+    const data = response.data as AGMARKNETResponse;
+
+    if (data.records && data.records.length > 0) {
+      const record = data.records[0];
+      return {
+        commodity: record.commodity,
+        variety: normalizeVariety(commodity, record.variety),
+        grade: normalizeGrade(record.grade) || DEFAULT_GRADE,
+        market: record.market,
+        state: record.state,
+        modalPrice: parseFloat(record.modal_price),
+        minPrice: parseFloat(record.min_price),
+        maxPrice: parseFloat(record.max_price),
+        arrivals: parseInt(record.arrivals) || 0,
+        date: new Date(record.arrival_date)
+      };
+    }
+
+    return null;
+  }
+}
+
+export class DataGovSourceAdapter extends BasePriceSourceAdapter {
+  constructor(trustWeight: number = 0.8) {
+    super('data_gov_in', 'data.gov.in', trustWeight);
+  }
+
+  protected async fetchRecord(commodity: string, location?: string, spec?: CommoditySpec): Promise<SourcePriceRecord | null> {
+    // Fallback API endpoint (simulated - in real implementation would use actual data.gov.in API)
+    // Fix: Use deterministic pricing based on commodity to avoid floating-point comparison issues
+    const basePrice = this.getBasePriceForCommodity(commodity);
+
+    // Use deterministic variation based on commodity hash to avoid random floating-point issues
+    const commodityHash = commodity.split('').reduce((a, b) => a + b.charCodeAt(0), 0);
+    const variation = (commodityHash % 200) - 100; // ±100 variation based on commodity name
+
+    // Simulated feed quotes FAQ; other grades follow the typical grade spread
+    const grade = normalizeGrade(spec?.grade) || DEFAULT_GRADE;
+    const modalPrice = (basePrice + variation) * GRADE_PRICE_FACTORS[grade];
+    const minPrice = modalPrice - 200;
+    const maxPrice = modalPrice + 200;
+
+    return {
+      commodity,
+      variety: normalizeVariety(commodity, spec?.variety),
+      grade,
+      market: location || 'Delhi',
+      state: 'Delhi',
+      modalPrice: Math.round(modalPrice * 100) / 100, // Round to 2 decimal places
+      minPrice: Math.round(minPrice * 100) / 100,
+      maxPrice: Math.round(maxPrice * 100) / 100,
+      arrivals: Math.floor((commodityHash % 1000) + 50), // Deterministic arrivals
+      date: new Date()
+    };
+
+  }
+
+  private getBasePriceForCommodity(commodity: string): number {
+    // Deterministic base prices for consistent testing, from the catalogue's indicative prices
+    return CommodityCatalogueService.getInstance().getCommodity(commodity)?.indicativePrice ?? 2000;
+  }
+}
+
+/**
+ * Serves prices from an in-memory record set, e.g. a private wholesale feed export,
+ * a mandi ledger dump or a test fixture. Returns the most recent record per commodity/market.
+ */
+export class FixturePriceSourceAdapter extends BasePriceSourceAdapter {
+  private readonly records: SourcePriceRecord[];
+
+  constructor(id: string, name: string, records: SourcePriceRecord[], trustWeight: number = 0.5) {
+    const commodities = [...new Set(records.map(r => r.commodity))];
+    const markets = [...new Set(records.map(r => r.market))];
+    const states = [...new Set(records.map(r => r.state))];
+    super(id, name, trustWeight, { commodities, markets, states });
+    this.records = records;
+  }
+
+  /**
+   * Loads an AGMARKNET-format CSV file (Commodity, Variety, Grade, Market, State,
+   * Arrival_Date, Min_Price, Max_Price, Modal_Price, Arrivals).
+   */
+  static fromCsvFile(id: string, name: string, filePath: string, trustWeight?: number): FixturePriceSourceAdapter {
+    const rows = parseCsv(readFileSync(filePath, 'utf-8'));
+    const records = rows
+      .map(row => ({
+        commodity: row.commodity,
+        variety: normalizeVariety(row.commodity, row.variety),
+        grade: normalizeGrade(row.grade) || DEFAULT_GRADE,
+        market: row.market,
+        state: row.state,
+        date: new Date(row.arrival_date || row.date),
+        minPrice: parseFloat(row.min_price),
+        maxPrice: parseFloat(row.max_price),
+        modalPrice: parseFloat(row.modal_price),
+        arrivals: parseInt(row.arrivals) || 0
+      }))
+      .filter(record => record.commodity && isFinite(record.modalPrice));
+
+    return new FixturePriceSourceAdapter(id, name, records, trustWeight);
+  }
+
+  protected async fetchRecord(commodity: string, location?: string, spec?: CommoditySpec): Promise<SourcePriceRecord | null> {
+    const grade = normalizeGrade(spec?.grade);
+    const matches = this.records.filter(record =>
+      record.commodity.toLowerCase() === commodity.toLowerCase() &&
+      (!location || record.market.toLowerCase() === location.toLowerCase()) &&
+      (!spec?.variety || (record.variety || '').toLowerCase() === spec.variety.toLowerCase()) &&
+      (!grade || normalizeGrade(record.grade) === grade)
+    );
+
+    if (matches.length === 0) return null;
+
+    return matches.reduce((latest, record) => record.date > latest.date ? record : latest);
+  }
+}
+
+/**
+ * Registry of price sources consulted by the price discovery service.
+ * New feeds (eNAM, state APMC, private wholesale) are plugged in via register().
+ */
+export class PriceSourceRegistry {
+  private readonly adapters: Map<string, PriceSourceAdapter> = new Map();
+
+  register(adapter: PriceSourceAdapter): void {
+    if (adapter.trustWeight <= 0 || !isFinite(adapter.trustWeight)) {
+      throw new Error(`Price source ${adapter.id} must have a positive trust weight`);
+    }
+    if (this.adapters.has(adapter.id)) {
+      throw new Error(`Price source ${adapter.id} is already registered`);
+    }
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  unregister(id: string): boolean {
+    return this.adapters.delete(id);
+  }
+
+  get(id: string): PriceSourceAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  list(): PriceSourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  getAdaptersFor(commodity: string, market?: string): PriceSourceAdapter[] {
+    return this.list().filter(adapter => adapter.supports(commodity, market));
+  }
+
+  getHealthReport(): PriceSourceHealth[] {
+    return this.list().map(adapter => adapter.getHealth());
+  }
+}
@@ -0,0 +1,281 @@
+import { PriceData } from '../types';
+
+export interface PriceChannel {
+  commodity: string;
+  market?: string; // omitted = every market for the commodity
+}
+
+export interface PriceDelta {
+  channel: string;
+  commodity: string;
+  market?: string;
+  variety?: string;
+  grade?: string;
+  price: number;
+  previousPrice: number | null; // last price this client was sent, else the last one published
+  change: number | null;
+  changePercent: number | null;
+  priceRange: { min: number; max: number; modal: number };
+  lastUpdated: Date;
+}
+
+export interface PriceUpdateBatch {
+  updates: PriceDelta[];
+  coalesced: number; // updates superseded by a newer price before they could be sent
+  pending: number;   // updates held back for the next flush
+}
+
+export interface SubscribeOptions {
+  minChangePercent?: number; // skip updates smaller than this
+  minIntervalMs?: number;    // slowest clients can ask for fewer, larger batches
+}
+
+export interface SubscribeResult {
+  subscribed: string[];
+  rejected: Array<{ channel: string; reason: string }>;
+}
+
+/**
+ * Transport the stream pushes through; a Socket.IO socket in production.
+ */
+export interface PriceStreamTransport {
+  send(batch: PriceUpdateBatch): void;
+  isCongested(): boolean; // true while earlier frames are still queued for the client
+}
+
+interface PendingUpdate {
+  priceData: PriceData;
+  previousPublished?: number; // price before this update, for clients that haven't been sent one yet
+}
+
+interface Subscriber {
+  transport: PriceStreamTransport;
+  channels: Set<string>;
+  minChangePercent: number;
+  minIntervalMs: number;
+  lastFlushAt: number;
+  pending: Map<string, PendingUpdate>;
+  lastSent: Map<string, number>;
+  coalesced: number;
+}
+
+export const MAX_SUBSCRIPTIONS_PER_CONNECTION = 20;
+export const MAX_UPDATES_PER_BATCH = 10;
+const FLUSH_INTERVAL_MS = 1000;
+const MIN_CLIENT_INTERVAL_MS = 1000;
+const MAX_CLIENT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Pushes price updates to subscribed connections. Updates are coalesced per channel (a newer
+ * price replaces one not yet sent), batched, throttled per connection and held back while a
+ * connection is congested, so slow mobile clients get the latest prices rather than a backlog.
+ */
+export class PriceStreamService {
+  private static instance: PriceStreamService;
+  private subscribers: Map<string, Subscriber> = new Map();
+  private lastPublished: Map<string, number> = new Map();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  public static getInstance(): PriceStreamService {
+    if (!PriceStreamService.instance) {
+      PriceStreamService.instance = new PriceStreamService();
+    }
+    return PriceStreamService.instance;
+  }
+
+  static channelKey(channel: PriceChannel): string {
+    return `${channel.commodity.trim().toLowerCase()}:${(channel.market || '*').trim().toLowerCase()}`;
+  }
+
+  addConnection(connectionId: string, transport: PriceStreamTransport): void {
+    this.subscribers.set(connectionId, {
+      transport,
+      channels: new Set(),
+      minChangePercent: 0,
+      minIntervalMs: MIN_CLIENT_INTERVAL_MS,
+      lastFlushAt: 0,
+      pending: new Map(),
+      lastSent: new Map(),
+      coalesced: 0
+    });
+  }
+
+  removeConnection(connectionId: string): void {
+    this.subscribers.delete(connectionId);
+    if (this.subscribers.size === 0) {
+      this.stopFlushing();
+    }
+  }
+
+  subscribe(connectionId: string, channels: PriceChannel[], options: SubscribeOptions = {}): SubscribeResult {
+    const subscriber = this.subscribers.get(connectionId);
+    const result: SubscribeResult = { subscribed: [], rejected: [] };
+
+    if (!subscriber) {
+      channels.forEach(channel => result.rejected.push({ channel: PriceStreamService.channelKey(channel), reason: 'Not connected' }));
+      return result;
+    }
+
+    for (const channel of channels) {
+      if (!channel?.commodity || typeof channel.commodity !== 'string') {
+        result.rejected.push({ channel: String(channel?.commodity), reason: 'Commodity is required' });
+        continue;
+      }
+
+      const key = PriceStreamService.channelKey(channel);
+      if (!subscriber.channels.has(key) && subscriber.channels.size >= MAX_SUBSCRIPTIONS_PER_CONNECTION) {
+        result.rejected.push({ channel: key, reason: `Limit of ${MAX_SUBSCRIPTIONS_PER_CONNECTION} channels per connection reached` });
+        continue;
+      }
+
+      subscriber.channels.add(key);
+      result.subscribed.push(key);
+    }
+
+    if (options.minChangePercent !== undefined) {
+      subscriber.minChangePercent = Math.max(0, options.minChangePercent);
+    }
+    if (options.minIntervalMs !== undefined) {
+      subscriber.minIntervalMs = Math.min(MAX_CLIENT_INTERVAL_MS, Math.max(MIN_CLIENT_INTERVAL_MS, options.minIntervalMs));
+    }
+
+    if (subscriber.channels.size > 0) {
+      this.startFlushing();
+    }
+
+    return result;
+  }
+
+  unsubscribe(connectionId: string, channels: PriceChannel[]): string[] {
+    const subscriber = this.subscribers.get(connectionId);
+    if (!subscriber) return [];
+
+    const removed: string[] = [];
+    for (const channel of channels) {
+      const key = PriceStreamService.channelKey(channel);
+      if (subscriber.channels.delete(key)) {
+        removed.push(key);
+      }
+    }
+
+    // Drop queued updates that no remaining channel wants
+    for (const [key, { priceData }] of subscriber.pending) {
+      if (!this.matchingChannel(subscriber, priceData)) {
+        subscriber.pending.delete(key);
+      }
+    }
+
+    return removed;
+  }
+
+  getSubscriptions(connectionId: string): string[] {
+    return Array.from(this.subscribers.get(connectionId)?.channels || []);
+  }
+
+  /**
+   * Queues a freshly stored price for every connection subscribed to its commodity/market.
+   */
+  publish(priceData: PriceData): void {
+    const key = this.priceKey(priceData);
+    const previousPublished = this.lastPublished.get(key);
+    this.lastPublished.set(key, priceData.currentPrice);
+
+    for (const subscriber of this.subscribers.values()) {
+      if (!this.matchingChannel(subscriber, priceData)) continue;
+
+      const superseded = subscriber.pending.get(key);
+      if (superseded) {
+        subscriber.coalesced++;
+      }
+      subscriber.pending.set(key, {
+        priceData,
+        previousPublished: superseded ? superseded.previousPublished : previousPublished
+      });
+    }
+  }
+
+  /**
+   * Sends due batches. Runs on a timer while anyone is subscribed; exposed for tests.
+   */
+  flush(now: number = Date.now()): void {
+    for (const subscriber of this.subscribers.values()) {
+      if (subscriber.pending.size === 0) continue;
+      if (now - subscriber.lastFlushAt < subscriber.minIntervalMs) continue;
+      if (subscriber.transport.isCongested()) continue;
+
+      const updates: PriceDelta[] = [];
+
+      for (const [key, { priceData, previousPublished }] of subscriber.pending) {
+        if (updates.length >= MAX_UPDATES_PER_BATCH) break;
+        subscriber.pending.delete(key);
+
+        const delta = this.toDelta(priceData, subscriber.lastSent.get(key) ?? previousPublished);
+        if (delta.changePercent !== null && Math.abs(delta.changePercent) < subscriber.minChangePercent) continue;
+
+        subscriber.lastSent.set(key, priceData.currentPrice);
+        updates.push(delta);
+      }
+
+      if (updates.length === 0) continue;
+
+      try {
+        subscriber.transport.send({ updates, coalesced: subscriber.coalesced, pending: subscriber.pending.size });
+        subscriber.coalesced = 0;
+        subscriber.lastFlushAt = now;
+      } catch (error) {
+        console.error('Price stream send error:', error);
+      }
+    }
+  }
+
+  shutdown(): void {
+    this.stopFlushing();
+    this.subscribers.clear();
+    this.lastPublished.clear();
+  }
+
+  private toDelta(priceData: PriceData, previous?: number): PriceDelta {
+    const previousPrice = previous ?? null;
+    const change = previousPrice !== null ? Math.round((priceData.currentPrice - previousPrice) * 100) / 100 : null;
+
+    return {
+      channel: PriceStreamService.channelKey({ commodity: priceData.commodity, market: priceData.market }),
+      commodity: priceData.commodity,
+      market: priceData.market,
+      variety: priceData.variety,
+      grade: priceData.grade,
+      price: priceData.currentPrice,
+      previousPrice,
+      change,
+      changePercent: previousPrice ? Math.round(((priceData.currentPrice - previousPrice) / previousPrice) * 10000) / 100 : null,
+      priceRange: priceData.priceRange,
+      lastUpdated: priceData.lastUpdated
+    };
+  }
+
+  private matchingChannel(subscriber: Subscriber, priceData: PriceData): boolean {
+    return subscriber.channels.has(PriceStreamService.channelKey({ commodity: priceData.commodity, market: priceData.market })) ||
+      subscriber.channels.has(PriceStreamService.channelKey({ commodity: priceData.commodity }));
+  }
+
+  // Variety and grade are part of the key so that e.g. Basmati and Sona Masuri don't overwrite each other
+  private priceKey(priceData: PriceData): string {
+    const base = PriceStreamService.channelKey({ commodity: priceData.commodity, market: priceData.market });
+    return [base, priceData.variety, priceData.grade].filter(Boolean).join(':').toLowerCase();
+  }
+
+  private startFlushing(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    // Don't keep the process alive just for the stream
+    this.flushTimer.unref?.();
+  }
+
+  private stopFlushing(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+}
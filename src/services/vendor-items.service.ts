@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import { DatabaseManager } from '../config/database';
+import { BASE_UNIT, convertPrice, normalizeUnit } from '../utils/units';
 
 export interface VendorItem {
   id: string;
@@ -9,6 +10,7 @@ export interface VendorItem {
   description?: string;
   price: number;
   unit: string;
+  pricePerQuintal?: number; // for comparison with market prices; absent when the unit is not convertible
   quantity: number;
   quality: 'premium' | 'standard' | 'economy';
   location: string;
@@ -468,14 +470,20 @@ export class VendorItemsService {
   }
 
   private mapRowToItem(row: any): VendorItem {
+    const price = parseFloat(row.price);
+    // Items created before units were validated may still carry free-text units
+    const unit = normalizeUnit(row.unit);
+
     return {
       id: row.id,
       vendorId: row.vendor_id,
       name: row.name,
       category: row.category,
       description: row.description,
-      price: parseFloat(row.price),
+      price,
       unit: row.unit,
+      // Bag and crate weights are looked up by commodity; the name is the vendor's own label
+      pricePerQuintal: unit ? convertPrice(price, unit, BASE_UNIT, row.category) : undefined,
       quantity: parseInt(row.quantity),
       quality: row.quality,
       location: row.location,
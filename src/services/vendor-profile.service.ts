@@ -1,6 +1,6 @@
 import { Pool } from 'pg';
 import { DatabaseManager } from '../config/database';
-import { Vendor } from '../types';
+import { Vendor, QuantityUnit } from '../types';
 
 export interface VendorProfileData {
   name: string;
@@ -28,6 +28,7 @@ export interface VendorProfileUpdate {
   };
   preferredLanguage?: string;
   secondaryLanguages?: string[];
+  preferredUnit?: QuantityUnit;
   businessType?: 'farmer' | 'trader' | 'wholesaler' | 'retailer';
 }
 
@@ -88,7 +89,7 @@ export class VendorProfileService {
           $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'pending', 0, NOW(), NOW()
         ) RETURNING 
           id, name, email, phone, state, district, market, latitude, longitude,
-          preferred_language, secondary_languages, business_type, verification_status,
+          preferred_language, secondary_languages, preferred_unit, business_type, verification_status,
           trust_score, created_at, last_active
       `, [
         profileData.name,
@@ -123,7 +124,7 @@ export class VendorProfileService {
       const result = await client.query(`
         SELECT 
           id, name, email, phone, state, district, market, latitude, longitude,
-          preferred_language, secondary_languages, business_type, verification_status,
+          preferred_language, secondary_languages, preferred_unit, business_type, verification_status,
           trust_score, created_at, last_active
         FROM vendors 
         WHERE id = $1
@@ -139,6 +140,32 @@ export class VendorProfileService {
     }
   }
 
+  /**
+   * Unit the vendor wants prices shown in; quintal, the unit mandi prices are quoted in, by default.
+   */
+  async getPreferredUnit(vendorId: string): Promise<QuantityUnit> {
+    try {
+      const result = await this.pgPool.query('SELECT preferred_unit FROM vendors WHERE id = $1', [vendorId]);
+      return result.rows[0]?.preferred_unit || 'quintal';
+    } catch (error) {
+      console.error('Error fetching preferred unit:', error);
+      return 'quintal';
+    }
+  }
+
+  /**
+   * Language the vendor reads; English when it cannot be looked up.
+   */
+  async getPreferredLanguage(vendorId: string): Promise<string> {
+    try {
+      const result = await this.pgPool.query('SELECT preferred_language FROM vendors WHERE id = $1', [vendorId]);
+      return result.rows[0]?.preferred_language || 'en';
+    } catch (error) {
+      console.error('Error fetching preferred language:', error);
+      return 'en';
+    }
+  }
+
   async updateVendorProfile(vendorId: string, updateData: VendorProfileUpdate): Promise<Vendor> {
     const client = await this.pgPool.connect();
     
@@ -189,6 +216,11 @@ export class VendorProfileService {
         values.push(updateData.secondaryLanguages);
       }
 
+      if (updateData.preferredUnit) {
+        updateFields.push(`preferred_unit = $${paramIndex++}`);
+        values.push(updateData.preferredUnit);
+      }
+
       if (updateData.businessType) {
         updateFields.push(`business_type = $${paramIndex++}`);
         values.push(updateData.businessType);
@@ -207,7 +239,7 @@ export class VendorProfileService {
         WHERE id = $${paramIndex}
         RETURNING 
           id, name, email, phone, state, district, market, latitude, longitude,
-          preferred_language, secondary_languages, business_type, verification_status,
+          preferred_language, secondary_languages, preferred_unit, business_type, verification_status,
           trust_score, created_at, last_active
       `;
 
@@ -483,7 +515,7 @@ export class VendorProfileService {
       const query = `
         SELECT 
           id, name, email, phone, state, district, market, latitude, longitude,
-          preferred_language, secondary_languages, business_type, verification_status,
+          preferred_language, secondary_languages, preferred_unit, business_type, verification_status,
           trust_score, created_at, last_active
         FROM vendors 
         ${whereClause}
@@ -517,6 +549,7 @@ export class VendorProfileService {
       },
       preferredLanguage: row.preferred_language,
       secondaryLanguages: row.secondary_languages || [],
+      preferredUnit: row.preferred_unit || undefined,
       businessType: row.business_type,
       verificationStatus: row.verification_status,
       trustScore: parseFloat(row.trust_score) || 0,
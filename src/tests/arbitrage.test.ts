@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the cross-market arbitrage finder
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ArbitrageService, MarketQuote } from '../services/arbitrage.service';
+
+vi.mock('../config/database');
+
+function quote(market: string, state: string, modalPrice: number, coordinates?: { lat: number; lng: number }, overrides: Partial<MarketQuote> = {}): MarketQuote {
+  return {
+    commodity: 'Onion',
+    variety: 'Red',
+    grade: 'FAQ',
+    market,
+    state,
+    date: new Date('2024-03-01'),
+    modalPrice,
+    averagePrice: modalPrice,
+    volatility: 0.03,
+    samples: 10,
+    coordinates,
+    ...overrides
+  };
+}
+
+// About 200 km apart
+const LASALGAON = { lat: 20.15, lng: 74.23 };
+const PUNE = { lat: 18.52, lng: 73.86 };
+const INDORE = { lat: 22.72, lng: 75.86 };
+
+describe('ArbitrageService', () => {
+  const service = new ArbitrageService({ query: vi.fn() } as any);
+
+  it('nets freight and commission out of the spread', () => {
+    const result = service.rankOpportunities([
+      quote('Lasalgaon', 'Maharashtra', 1500, LASALGAON),
+      quote('Pune', 'Maharashtra', 2000, PUNE)
+    ], { transportRatePerQuintalKm: 0.5, commissionPercent: 2 });
+
+    expect(result.opportunities).toHaveLength(1);
+    const [opportunity] = result.opportunities;
+
+    expect(opportunity.buyMarket.market).toBe('Lasalgaon');
+    expect(opportunity.sellMarket.market).toBe('Pune');
+    expect(opportunity.grossSpread).toBe(500);
+    expect(opportunity.commissionPerQuintal).toBe(70);
+    expect(opportunity.transportCostPerQuintal).toBeCloseTo(opportunity.distanceKm * 0.5, 0);
+    expect(opportunity.netMarginPerQuintal).toBeCloseTo(500 - 70 - opportunity.transportCostPerQuintal, 1);
+  });
+
+  it('drops spreads that freight eats up', () => {
+    const result = service.rankOpportunities([
+      quote('Lasalgaon', 'Maharashtra', 1500, LASALGAON),
+      quote('Pune', 'Maharashtra', 1600, PUNE)
+    ], { transportRatePerQuintalKm: 0.5 });
+
+    expect(result.opportunities).toHaveLength(0);
+  });
+
+  it('only pairs like-for-like varieties and grades', () => {
+    const result = service.rankOpportunities([
+      quote('Lasalgaon', 'Maharashtra', 1500, LASALGAON, { grade: 'C' }),
+      quote('Pune', 'Maharashtra', 2200, PUNE, { grade: 'A' })
+    ]);
+
+    expect(result.opportunities).toHaveLength(0);
+  });
+
+  it('filters pairs by state', () => {
+    const quotes = [
+      quote('Lasalgaon', 'Maharashtra', 1500, LASALGAON),
+      quote('Pune', 'Maharashtra', 1900, PUNE),
+      quote('Indore', 'Madhya Pradesh', 2400, INDORE)
+    ];
+
+    const touching = service.rankOpportunities(quotes, { state: 'maharashtra' });
+    expect(touching.opportunities.length).toBe(3);
+
+    const within = service.rankOpportunities(quotes, { state: 'Maharashtra', withinState: true });
+    expect(within.opportunities.map(o => o.sellMarket.market)).toEqual(['Pune']);
+
+    const elsewhere = service.rankOpportunities(quotes, { state: 'Gujarat' });
+    expect(elsewhere.opportunities).toHaveLength(0);
+  });
+
+  it('ranks steady markets above volatile ones with a similar margin', () => {
+    const result = service.rankOpportunities([
+      quote('Lasalgaon', 'Maharashtra', 1500, LASALGAON),
+      quote('Pune', 'Maharashtra', 2000, PUNE, { volatility: 0.2 }),
+      quote('Indore', 'Madhya Pradesh', 2100, INDORE, { volatility: 0.02 })
+    ]);
+
+    expect(result.opportunities[0].sellMarket.market).toBe('Indore');
+    expect(result.opportunities[0].volatilityLevel).toBe('low');
+    const pune = result.opportunities.find(o => o.sellMarket.market === 'Pune' && o.buyMarket.market === 'Lasalgaon')!;
+    expect(pune.volatilityLevel).toBe('high');
+    expect(pune.stabilityScore).toBeLessThan(result.opportunities[0].stabilityScore);
+  });
+
+  it('reports mandis it cannot place on the map', () => {
+    const result = service.rankOpportunities([
+      quote('Lasalgaon', 'Maharashtra', 1500, LASALGAON),
+      quote('Unknown Mandi', 'Maharashtra', 2500)
+    ]);
+
+    expect(result.marketsCompared).toBe(1);
+    expect(result.marketsWithoutLocation).toEqual(['Unknown Mandi']);
+    expect(result.opportunities).toHaveLength(0);
+  });
+
+  it('looks varieties up by their canonical spelling', async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [] });
+    const lookup = new ArbitrageService({ query } as any);
+
+    await lookup.findOpportunities({ commodity: 'Rice', spec: { variety: 'basmati' } });
+    expect(query.mock.calls[0][0]).toContain('AND variety = $3');
+    expect(query.mock.calls[0][1]).toEqual([14, 'Rice', 'Basmati']);
+
+    await lookup.findOpportunities({ spec: { variety: ' basmati ' } });
+    expect(query.mock.calls[1][0]).toContain('AND LOWER(variety) = LOWER($2)');
+    expect(query.mock.calls[1][1]).toEqual([14, 'basmati']);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for arrivals-based supply signals
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ArrivalsAnalyticsService, ArrivalObservation } from '../services/arrivals-analytics.service';
+
+vi.mock('../config/database');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Two years of daily arrivals with a harvest bump every March and prices that move
+ * against arrivals with elasticity -0.5.
+ */
+function seasonalSeries(days: number, lastWeekFactor: number = 1): ArrivalObservation[] {
+  const start = Date.UTC(2022, 0, 1);
+  const series: ArrivalObservation[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const date = new Date(start + i * DAY_MS);
+    const seasonal = date.getUTCMonth() === 2 ? 1.6 : 1;
+    const noise = 1 + 0.08 * Math.sin(i * 1.7);
+    const shock = i >= days - 7 ? lastWeekFactor : 1;
+    const arrivals = 1000 * seasonal * noise * shock;
+
+    series.push({ date, arrivals, price: 2000 * Math.pow(arrivals / 1000, -0.5) });
+  }
+
+  return series;
+}
+
+describe('ArrivalsAnalyticsService', () => {
+  const service = new ArrivalsAnalyticsService({ query: vi.fn() } as any);
+
+  it('flags a glut against the seasonal norm and raises the pressure index', () => {
+    const signal = service.computeSupplySignal('Onion', { market: 'Lasalgaon' }, seasonalSeries(760, 2.5))!;
+
+    expect(signal.normBasis).toBe('seasonal');
+    expect(signal.anomaly).toBe('glut');
+    expect(signal.supplyLevel).toBe('high');
+    expect(signal.supplyPressureIndex).toBeGreaterThanOrEqual(65);
+    expect(signal.recentAnomalies.every(a => a.type === 'glut')).toBe(true);
+    expect(signal.expectedPriceImpactPercent!).toBeLessThan(0);
+  });
+
+  it('flags a shortage when arrivals collapse', () => {
+    const signal = service.computeSupplySignal('Onion', {}, seasonalSeries(760, 0.3))!;
+
+    expect(signal.anomaly).toBe('shortage');
+    expect(signal.supplyLevel).toBe('low');
+    expect(signal.supplyPressureIndex).toBeLessThanOrEqual(35);
+  });
+
+  it('does not treat the usual seasonal harvest bump as a glut', () => {
+    // Ends in mid-March, when arrivals are normally 60% higher
+    const signal = service.computeSupplySignal('Onion', {}, seasonalSeries(805))!;
+
+    expect(signal.anomaly).toBeNull();
+    expect(signal.supplyLevel).toBe('medium');
+    expect(signal.arrivalsRatio).toBeGreaterThan(0.8);
+    expect(signal.arrivalsRatio).toBeLessThan(1.25);
+  });
+
+  it('estimates a negative price elasticity to arrivals', () => {
+    const signal = service.computeSupplySignal('Onion', {}, seasonalSeries(400))!;
+
+    expect(signal.elasticity!.coefficient).toBeCloseTo(-0.5, 1);
+    expect(signal.elasticity!.rSquared).toBeGreaterThan(0.9);
+  });
+
+  it('falls back to a trailing norm with less than a year of history', () => {
+    const signal = service.computeSupplySignal('Onion', {}, seasonalSeries(40))!;
+
+    expect(signal.normBasis).toBe('trailing');
+    expect(signal.supplyPressureIndex).toBeGreaterThanOrEqual(0);
+    expect(signal.supplyPressureIndex).toBeLessThanOrEqual(100);
+  });
+
+  it('returns null without enough usable observations', () => {
+    const sparse = seasonalSeries(10).concat([{ date: new Date(), arrivals: NaN, price: 2000 }]);
+
+    expect(service.computeSupplySignal('Onion', {}, sparse)).toBeNull();
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Tests for auction rules and the auction service closing sold lots into the deal flow
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  LATE_BID_EXTENSION_MS,
+  checkBid,
+  highestBid,
+  minimumBid,
+  validateAuctionInput,
+  viewAuction
+} from '../utils/auction-rules';
+import { AuctionService, AuctionUpdateEvent } from '../services/auction.service';
+import { AuctionBid, AuctionSession } from '../types';
+
+vi.mock('../config/database');
+
+const at = new Date('2024-06-01T10:00:00Z');
+
+function bid(bidderId: string, amount: number, sequence: number): AuctionBid {
+  return { bidId: `bid-${sequence}`, bidderId, amount, sequence, placedAt: at };
+}
+
+function auction(overrides: Partial<AuctionSession> = {}): AuctionSession {
+  return {
+    auctionId: 'auction-1',
+    sellerId: 'seller',
+    commodity: 'Onion',
+    quantity: 50,
+    unit: 'quintal',
+    mode: 'english',
+    state: 'open',
+    startingPrice: 2000,
+    reservePrice: 2100,
+    increment: { amount: 25, percent: 0.5 },
+    bidCount: 0,
+    version: 1,
+    bids: [],
+    openedAt: at,
+    closesAt: new Date(at.getTime() + 10 * 60 * 1000),
+    ...overrides
+  };
+}
+
+// Keeps auctions, bids and negotiation_sessions rows in memory for the queries the service runs
+function createFakePool() {
+  const auctions = new Map<string, any>();
+  const bids: any[] = [];
+  const sessions: any[] = [];
+
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('INSERT INTO auctions')) {
+      const [auctionId, sellerId, commodity, quantity, unit, mode, startingPrice, reservePrice,
+        incrementAmount, incrementPercent, currentMarketPrice, terms, openedAt, closesAt] = params;
+      auctions.set(auctionId, {
+        auction_id: auctionId, seller_id: sellerId, commodity, quantity: String(quantity), unit, mode, state: 'open',
+        starting_price: String(startingPrice), reserve_price: reservePrice === null ? null : String(reservePrice),
+        increment_amount: String(incrementAmount), increment_percent: String(incrementPercent),
+        current_market_price: currentMarketPrice, terms, current_price: null, leading_bidder_id: null,
+        bid_count: 0, version: 1, winning_bid_id: null, opened_at: openedAt, closes_at: closesAt, closed_at: null
+      });
+      return { rows: [] };
+    }
+    if (sql.includes('FROM auctions WHERE auction_id')) {
+      const row = auctions.get(params[0]);
+      return { rows: row ? [{ ...row }] : [] };
+    }
+    if (sql.includes("FROM auctions WHERE state = 'open'")) {
+      return { rows: [...auctions.values()].filter(row => row.state === 'open' && row.closes_at <= params[0]) };
+    }
+    if (sql.includes('FROM auction_bids')) {
+      return { rows: bids.filter(row => row.auction_id === params[0]).sort((a, b) => a.sequence - b.sequence) };
+    }
+    if (sql.includes('INSERT INTO auction_bids')) {
+      const [bidId, auctionId, bidderId, amount, sequence, placedAt] = params;
+      bids.push({ bid_id: bidId, auction_id: auctionId, bidder_id: bidderId, amount: String(amount), sequence, placed_at: placedAt });
+      return { rows: [] };
+    }
+    if (sql.includes('SET current_price')) {
+      const [auctionId, currentPrice, leadingBidderId, bidCount, version, closesAt] = params;
+      Object.assign(auctions.get(auctionId), {
+        current_price: String(currentPrice), leading_bidder_id: leadingBidderId, bid_count: bidCount, version, closes_at: closesAt
+      });
+      return { rows: [] };
+    }
+    if (sql.includes('SET state')) {
+      const [auctionId, state, closedAt, winningBidId, version] = params;
+      Object.assign(auctions.get(auctionId), { state, closed_at: closedAt, winning_bid_id: winningBidId, version });
+      return { rows: [] };
+    }
+    if (sql.includes('INSERT INTO negotiation_sessions')) {
+      sessions.push({ sessionId: params[0], participants: params[1], liveOffer: JSON.parse(params[3]), finalDeal: JSON.parse(params[6]), sql });
+      return { rows: [] };
+    }
+    return { rows: [] };
+  });
+
+  const client = { query, release: vi.fn() };
+  return { pool: { query, connect: async () => client } as any, auctions, sessions };
+}
+
+describe('auction rules', () => {
+  it('requires the starting price first, then the leading bid plus the larger increment', () => {
+    expect(minimumBid(auction())).toBe(2000);
+    expect(minimumBid(auction({ currentPrice: 2000 }))).toBe(2025);
+    expect(minimumBid(auction({ currentPrice: 8000 }))).toBe(8040);
+    expect(minimumBid(auction({ mode: 'sealed_bid', currentPrice: 8000 }))).toBe(2000);
+  });
+
+  it('refuses low bids, the seller and the leading bidder', () => {
+    const leading = auction({ currentPrice: 2000, leadingBidderId: 'buyer-1', bids: [bid('buyer-1', 2000, 1)] });
+
+    expect(checkBid(leading, { bidderId: 'buyer-2', amount: 2010, at })).toMatchObject({ code: 'BELOW_MINIMUM_BID' });
+    expect(checkBid(leading, { bidderId: 'seller', amount: 3000, at })).toMatchObject({ code: 'SELLER_CANNOT_BID' });
+    expect(checkBid(leading, { bidderId: 'buyer-1', amount: 3000, at })).toMatchObject({ code: 'ALREADY_LEADING' });
+    expect(checkBid(leading, { bidderId: 'buyer-2', amount: 2025, at })).toEqual({ outcome: 'allowed', closesAt: leading.closesAt });
+  });
+
+  it('extends an English auction on a late bid and refuses bids after the close', () => {
+    const closing = auction();
+    const late = new Date(closing.closesAt.getTime() - 10 * 1000);
+
+    expect(checkBid(closing, { bidderId: 'buyer-1', amount: 2000, at: late })).toEqual({
+      outcome: 'allowed',
+      closesAt: new Date(late.getTime() + LATE_BID_EXTENSION_MS)
+    });
+    expect(checkBid(auction({ mode: 'sealed_bid' }), { bidderId: 'buyer-1', amount: 2000, at: late })).toEqual({
+      outcome: 'allowed',
+      closesAt: closing.closesAt
+    });
+    expect(checkBid(closing, { bidderId: 'buyer-1', amount: 2000, at: closing.closesAt })).toMatchObject({ code: 'AUCTION_CLOSED' });
+  });
+
+  it('takes one sealed bid per buyer and hides other amounts until the close', () => {
+    const sealed = auction({
+      mode: 'sealed_bid',
+      currentPrice: 2300,
+      leadingBidderId: 'buyer-2',
+      bidCount: 2,
+      bids: [bid('buyer-1', 2200, 1), bid('buyer-2', 2300, 2)]
+    });
+
+    expect(checkBid(sealed, { bidderId: 'buyer-1', amount: 2500, at })).toMatchObject({ code: 'ALREADY_BID' });
+
+    const view = viewAuction(sealed, 'buyer-1');
+    expect(view.currentPrice).toBeUndefined();
+    expect(view.leadingBidderId).toBeUndefined();
+    expect(view.reservePrice).toBeUndefined();
+    expect(view.bids.map(item => item.amount)).toEqual([2200, undefined]);
+
+    const opened = viewAuction({ ...sealed, state: 'sold' }, 'buyer-1');
+    expect(opened.bids.map(item => item.amount)).toEqual([2200, 2300]);
+    expect(opened.reserveMet).toBe(true);
+    expect(viewAuction(sealed, 'seller').reservePrice).toBe(2100);
+  });
+
+  it('awards ties to the earlier bid and validates new auctions', () => {
+    expect(highestBid([bid('buyer-1', 2300, 1), bid('buyer-2', 2300, 2)])!.bidderId).toBe('buyer-1');
+    expect(highestBid([])).toBeUndefined();
+
+    expect(validateAuctionInput({ commodity: 'Onion', quantity: 50, mode: 'english', startingPrice: 2000 })).toEqual([]);
+    expect(validateAuctionInput({ commodity: 'Onion', quantity: 50, mode: 'dutch' as any, startingPrice: 0 })).toEqual([
+      'mode must be one of: english, sealed_bid',
+      'startingPrice must be a positive number'
+    ]);
+  });
+});
+
+describe('AuctionService', () => {
+  it('orders bids on the server and broadcasts each one with a new version', async () => {
+    const { pool } = createFakePool();
+    const service = new AuctionService(pool);
+    const events: AuctionUpdateEvent[] = [];
+    service.setEventTransport({ publish: (_auctionId, _vendorIds, event) => events.push(event) });
+
+    const { auctionId } = await service.createAuction('seller', {
+      commodity: 'Onion', quantity: 50, mode: 'english', startingPrice: 2000, increment: { amount: 25 }
+    });
+
+    expect(await service.placeBid(auctionId, 'buyer-1', 2000)).toMatchObject({ outcome: 'ok' });
+    expect(await service.placeBid(auctionId, 'buyer-2', 2010)).toMatchObject({ outcome: 'rejected', code: 'BELOW_MINIMUM_BID' });
+    const second = await service.placeBid(auctionId, 'buyer-2', 2100);
+
+    expect(second).toMatchObject({ outcome: 'ok', auction: { currentPrice: 2100, leadingBidderId: 'buyer-2', bidCount: 2 } });
+    expect(events.map(event => [event.action, event.version, event.bid?.sequence])).toEqual([
+      ['open', 1, undefined],
+      ['bid', 2, 1],
+      ['bid', 3, 2]
+    ]);
+    expect(events[2].minimumBid).toBe(2125);
+  });
+
+  it('closes a sold auction into an accepted session between seller and winner', async () => {
+    const { pool, auctions, sessions } = createFakePool();
+    const service = new AuctionService(pool);
+    const events: AuctionUpdateEvent[] = [];
+    service.setEventTransport({ publish: (_auctionId, vendorIds, event) => events.push({ ...event, vendorIds } as any) });
+
+    const { auctionId, closesAt } = await service.createAuction('seller', {
+      commodity: 'Onion', quantity: 50, unit: 'quintal', mode: 'sealed_bid', startingPrice: 2000, reservePrice: 2200
+    });
+    await service.placeBid(auctionId, 'buyer-1', 2300);
+    await service.placeBid(auctionId, 'buyer-2', 2250);
+
+    expect(events[1].bid!.amount).toBeUndefined();
+    expect(await service.closeDueAuctions(new Date(closesAt.getTime() + 1000))).toBe(1);
+
+    expect(auctions.get(auctionId).state).toBe('sold');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      sessionId: auctionId,
+      participants: ['seller', 'buyer-1'],
+      liveOffer: { fromVendorId: 'buyer-1', toVendorId: 'seller', proposedPrice: 2300, quantity: 50, unit: 'quintal' },
+      finalDeal: { agreedPrice: 2300, acceptedBy: 'seller' }
+    });
+    expect(sessions[0].sql).toContain("'accepted'");
+
+    const close = events[events.length - 1] as any;
+    expect(close).toMatchObject({ action: 'close', state: 'sold', winningBid: { bidderId: 'buyer-1', amount: 2300 } });
+    expect(close.vendorIds).toEqual(['seller', 'buyer-1', 'buyer-2']);
+  });
+
+  it('closes only once the timer has run out and leaves a lot unsold below the reserve', async () => {
+    const { pool, auctions, sessions } = createFakePool();
+    const service = new AuctionService(pool);
+
+    const { auctionId, closesAt } = await service.createAuction('seller', {
+      commodity: 'Onion', quantity: 50, mode: 'english', startingPrice: 2000, reservePrice: 2500
+    });
+    await service.placeBid(auctionId, 'buyer-1', 2000);
+
+    const outbid = await service.placeBid(auctionId, 'buyer-2', 2600);
+    expect(outbid).toMatchObject({ outcome: 'ok' });
+    expect(await service.closeDueAuctions(new Date(closesAt.getTime() - 1000))).toBe(0);
+    expect(await service.closeDueAuctions(new Date(closesAt.getTime() + 1000))).toBe(1);
+    expect(auctions.get(auctionId).state).toBe('sold');
+
+    const { auctionId: unsoldId, closesAt: unsoldClose } = await service.createAuction('seller', {
+      commodity: 'Onion', quantity: 50, mode: 'english', startingPrice: 2000, reservePrice: 2500
+    });
+    await service.placeBid(unsoldId, 'buyer-1', 2000);
+    await service.closeDueAuctions(new Date(unsoldClose.getTime() + 1000));
+
+    expect(auctions.get(unsoldId).state).toBe('unsold');
+    expect(sessions.map(session => session.sessionId)).toEqual([auctionId]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the commodity catalogue and its fuzzy, multilingual search
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CommodityCatalogueService } from '../services/commodity-catalogue.service';
+import { COMMODITY_CATALOGUE, COMMODITY_CATEGORIES, categoryWithDescendants, searchCatalogue } from '../utils/commodity-catalogue';
+
+vi.mock('../config/database');
+
+describe('Commodity catalogue search', () => {
+  it('matches English, regional and native-script names', () => {
+    expect(searchCatalogue(COMMODITY_CATALOGUE, 'Onion')[0]).toMatchObject({ commodity: { id: 'onion' }, score: 1 });
+    expect(searchCatalogue(COMMODITY_CATALOGUE, 'kanda')[0].commodity.id).toBe('onion');
+    expect(searchCatalogue(COMMODITY_CATALOGUE, 'प्याज')[0].commodity.id).toBe('onion');
+    expect(searchCatalogue(COMMODITY_CATALOGUE, 'வெங்காயம்')[0].commodity.id).toBe('onion');
+  });
+
+  it('tolerates misspellings and ranks closer matches first', () => {
+    const results = searchCatalogue(COMMODITY_CATALOGUE, 'onoin');
+
+    expect(results[0].commodity.id).toBe('onion');
+    expect(results.every((result, index) => index === 0 || result.score <= results[index - 1].score)).toBe(true);
+    expect(searchCatalogue(COMMODITY_CATALOGUE, 'xyzzy')).toEqual([]);
+  });
+
+  it('includes subcategories when filtering by a parent category', () => {
+    const foodgrains = categoryWithDescendants(COMMODITY_CATEGORIES, 'foodgrains');
+
+    expect(foodgrains.has('cereals')).toBe(true);
+    expect(foodgrains.has('pulses')).toBe(true);
+    expect(foodgrains.has('vegetables')).toBe(false);
+  });
+});
+
+describe('CommodityCatalogueService', () => {
+  it('serves the bundled catalogue without touching the database', () => {
+    const query = vi.fn();
+    const service = new CommodityCatalogueService({ query } as any);
+
+    expect(service.canonicalName('gehun')).toBe('Wheat');
+    expect(service.canonicalName(' Tur ')).toBe('Arhar');
+    expect(service.canonicalName('Other')).toBe('Other');
+    expect(service.listCommodities({ categoryId: 'foodgrains' }).map(commodity => commodity.name)).toContain('Arhar');
+    expect(service.getCommodity('wheat')).toMatchObject({ name: 'Wheat', agmarknetCode: 1, defaultUnit: 'quintal' });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('builds the category tree with commodity counts', () => {
+    const service = new CommodityCatalogueService({ query: vi.fn() } as any);
+    const foodgrains = service.getCategoryTree().find(category => category.id === 'foodgrains')!;
+
+    expect(foodgrains.children.map(child => child.id).sort()).toEqual(['cereals', 'pulses']);
+    expect(foodgrains.children.find(child => child.id === 'pulses')!.commodityCount).toBeGreaterThan(0);
+    expect(service.wouldCreateCycle('foodgrains', 'cereals')).toBe(true);
+    expect(service.wouldCreateCycle('cereals', 'horticulture')).toBe(false);
+  });
+
+  it('refuses to delete categories that still hold commodities', async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+    const service = new CommodityCatalogueService({ query } as any);
+
+    expect(await service.deleteCategory('pulses')).toBe('in_use');
+    expect(await service.deleteCategory('foodgrains')).toBe('in_use');
+    expect(query).not.toHaveBeenCalled();
+    expect(await service.deleteCategory('unused')).toBe('not_found');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for database-backed cultural profiles
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CulturalProfileService } from '../services/cultural-profile.service';
+import { refineTradingCustoms, validateCulturalProfile } from '../utils/cultural-profiles';
+import { CulturalProfile, LearningData } from '../types';
+
+vi.mock('../config/database');
+
+function profileRow(region: string, displayName: string, customs: Partial<CulturalProfile['tradingCustoms']>, districts: string[] = []) {
+  return {
+    region,
+    display_name: displayName,
+    state: 'Maharashtra',
+    trading_customs: { negotiationStyle: 'relationship-based', decisionMaking: 'deliberate', priceFlexibility: 'high', relationshipImportance: 'high', ...customs },
+    communication_patterns: { formalityLevel: 'formal', directness: 'indirect', timeOrientation: 'flexible' },
+    market_practices: { commonPaymentTerms: ['cash_on_delivery'], typicalDeliveryMethods: ['mandi_delivery'], qualityAssessmentMethods: ['visual_inspection'], disputeResolutionPreferences: ['mandi_committee'] },
+    version: 1,
+    observed_outcomes: null,
+    districts
+  };
+}
+
+function createFakePool(observation: Record<string, string> = {}) {
+  const rows = [
+    profileRow('default', 'Default', { negotiationStyle: 'direct', priceFlexibility: 'medium' }),
+    profileRow('maharashtra', 'Maharashtra', {}, ['nashik']),
+    profileRow('pune', 'Pune', { negotiationStyle: 'direct', decisionMaking: 'quick', priceFlexibility: 'medium' }),
+    profileRow('vidarbha', 'Vidarbha', { priceFlexibility: 'low' }, ['akola', 'nagpur'])
+  ];
+
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('FROM cultural_profiles p')) {
+      return { rows: sql.includes('WHERE p.region = $1') ? rows.filter(row => row.region === params[0]) : rows };
+    }
+    if (sql.includes('FOR UPDATE')) {
+      return { rows: rows.filter(row => row.region === params[0]).map(row => ({ region: row.region })) };
+    }
+    if (sql.includes('observation_window')) {
+      return { rows: [{ since: '2024-01-01T00:00:00.000Z', ...observation }] };
+    }
+    if (sql.includes('SET trading_customs')) {
+      const row = rows.find(candidate => candidate.region === params[0]);
+      Object.assign(row, { trading_customs: JSON.parse(params[1]), observed_outcomes: params[2], version: row.version + 1 });
+    }
+    return { rows: [] };
+  });
+  const client = { query, release: vi.fn() };
+  return { pool: { query, connect: async () => client } as any, query };
+}
+
+describe('cultural profile resolution', () => {
+  it('resolves districts to their own profile before the state', async () => {
+    const service = new CulturalProfileService(createFakePool().pool);
+
+    expect((await service.resolve('Akola')).region).toBe('Vidarbha');
+    expect((await service.resolve('Nagpur, Maharashtra')).region).toBe('Vidarbha');
+    expect((await service.resolve('Pune')).tradingCustoms.decisionMaking).toBe('quick');
+    expect((await service.resolve('Nashik')).region).toBe('Maharashtra');
+
+    const unknown = await service.resolve('Kolhapur');
+    expect(unknown).toMatchObject({ key: 'default', region: 'Kolhapur', state: 'Kolhapur' });
+  });
+
+  it('falls back to built-in profiles when the database has none', async () => {
+    const service = new CulturalProfileService({ query: vi.fn().mockResolvedValue({ rows: [] }) } as any);
+
+    expect((await service.resolve('Tamil Nadu')).tradingCustoms.decisionMaking).toBe('consensus');
+    expect(await service.recordOutcome({ sessionId: 's1', region: 'Punjab' } as LearningData)).toBeNull();
+  });
+});
+
+describe('cultural profile editing and refinement', () => {
+  it('rejects unknown trait values and empty practices', () => {
+    const errors = validateCulturalProfile({
+      region: 'Vidarbha',
+      state: 'Maharashtra',
+      tradingCustoms: { negotiationStyle: 'direct', decisionMaking: 'slow', priceFlexibility: 'low', relationshipImportance: 'high' } as any,
+      communicationPatterns: { formalityLevel: 'informal', directness: 'indirect', timeOrientation: 'flexible' },
+      marketPractices: { commonPaymentTerms: [], typicalDeliveryMethods: ['mandi_delivery'], qualityAssessmentMethods: ['moisture_testing'], disputeResolutionPreferences: ['mandi_committee'] }
+    });
+
+    expect(errors).toEqual([
+      'tradingCustoms.decisionMaking must be one of: quick, deliberate, consensus',
+      'marketPractices.commonPaymentTerms must be a non-empty list of strings'
+    ]);
+  });
+
+  it('only moves traits once enough negotiations were observed', () => {
+    const customs: CulturalProfile['tradingCustoms'] = { negotiationStyle: 'direct', decisionMaking: 'consensus', priceFlexibility: 'medium', relationshipImportance: 'high' };
+    const observed = (sessions: number, averageOffers: number, averagePriceMovement: number) =>
+      ({ sessions, successRate: 0.5, averageOffers, averagePriceMovement, since: new Date(), updatedAt: new Date() });
+
+    expect(refineTradingCustoms(customs, observed(5, 2, 1))).toBe(customs);
+    expect(refineTradingCustoms(customs, observed(30, 7, 9))).toMatchObject({ decisionMaking: 'consensus', priceFlexibility: 'high' });
+    expect(refineTradingCustoms(customs, observed(30, 2.5, 3.5))).toMatchObject({ decisionMaking: 'quick', priceFlexibility: 'medium' });
+  });
+
+  it('refines the district profile from observed outcomes and records the change', async () => {
+    const { pool, query } = createFakePool({ sessions: '24', successful: '18', average_offers: '2.4', average_price_movement: '2.1' });
+    const service = new CulturalProfileService(pool);
+
+    const refined = await service.recordOutcome({ sessionId: 's9', outcome: 'successful', region: 'Yavatmal' } as LearningData);
+    expect(refined).toBeNull(); // Yavatmal is not mapped, so the default profile is left alone
+
+    const vidarbha = await service.recordOutcome({ sessionId: 's10', outcome: 'successful', region: 'Akola' } as LearningData);
+    expect(vidarbha).toMatchObject({ key: 'vidarbha', version: 2, tradingCustoms: { decisionMaking: 'quick', priceFlexibility: 'low' } });
+
+    const observationCall = query.mock.calls.find(([sql]) => sql.includes('observation_window'));
+    expect(observationCall[1]).toEqual(['vidarbha', ['vidarbha', 'akola', 'nagpur'], 180]);
+
+    const change = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO cultural_profile_changes'));
+    expect(change[1].slice(0, 4)).toEqual(['vidarbha', 2, 'observed', null]);
+    expect(change[1][4]).toBe('24 negotiations since 2024-01-01: 2.4 offers per negotiation, 2.1% average agreed price move');
+    expect(JSON.parse(change[1][5]).tradingCustoms.decisionMaking).toBe('deliberate');
+  });
+});
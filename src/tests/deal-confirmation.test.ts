@@ -0,0 +1,143 @@
+/**
+ * Tests for hash-chained deal confirmation and bilingual trade notes
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DealConfirmationService, TradeNote } from '../services/deal-confirmation.service';
+
+vi.mock('../config/database');
+
+const acceptedOffer = {
+  offerId: 'offer-2',
+  sessionId: 'session-1',
+  fromVendorId: 'buyer',
+  toVendorId: 'seller',
+  commodity: 'Wheat',
+  quantity: 120,
+  proposedPrice: 2350,
+  currentMarketPrice: 2300,
+  unit: 'quintal',
+  offerType: 'counter',
+  timestamp: '2024-06-01T09:00:00.000Z',
+  expiresAt: '2024-06-01T11:00:00.000Z',
+  terms: { creditDays: 15, deliveryMethod: 'farm_pickup' }
+};
+
+// negotiation_sessions, deal_records and vendors rows for the queries the service runs
+function createFakePool(state = 'accepted') {
+  const records: any[] = [];
+  const session = {
+    participants: ['seller', 'buyer'],
+    state,
+    live_offer: acceptedOffer,
+    final_deal: { agreedPrice: 2350, acceptedBy: 'seller', acceptedAt: '2024-06-01T09:30:00.000Z' }
+  };
+
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('FROM negotiation_sessions')) {
+      return { rows: params[0] === 'session-1' ? [session] : [] };
+    }
+    if (sql.includes('INSERT INTO deal_records')) {
+      const [sessionId, sequence, event, vendorId, payload, previousHash, recordHash, createdAt] = params;
+      // JSONB does not keep key order
+      const reordered = Object.fromEntries(Object.entries(JSON.parse(payload)).reverse());
+      records.push({
+        session_id: sessionId, sequence, event, vendor_id: vendorId, payload: reordered,
+        previous_hash: previousHash, record_hash: recordHash, created_at: createdAt
+      });
+      return { rows: [] };
+    }
+    if (sql.includes('FROM deal_records')) {
+      return { rows: records.filter(record => record.session_id === params[0]).map(record => ({ ...record })) };
+    }
+    if (sql.includes('FROM vendors')) {
+      return {
+        rows: [
+          { id: 'seller', name: 'Gurpreet Singh', market: 'Karnal', state: 'Haryana', preferred_language: 'pa' },
+          { id: 'buyer', name: 'Ramesh <Traders>', market: 'Delhi', preferred_language: 'hi' }
+        ]
+      };
+    }
+    return { rows: [] };
+  });
+
+  const pool = { query, connect: vi.fn(async () => ({ query, release: vi.fn() })) };
+  return { pool: pool as any, records };
+}
+
+const translator = {
+  translateMessage: vi.fn(async (text: string, _from: string, to: string) => ({
+    translatedText: `[${to}] ${text}`,
+    confidence: 0.9,
+    preservedTerms: []
+  }))
+};
+
+describe('DealConfirmationService', () => {
+  it('records the accepted terms and both confirmations as a verifiable chain', async () => {
+    const { pool, records } = createFakePool();
+    const service = new DealConfirmationService(pool, translator);
+
+    const first = await service.getConfirmation('session-1', 'buyer');
+    expect(first).toMatchObject({
+      outcome: 'ok',
+      confirmation: {
+        status: 'awaiting_confirmation',
+        pendingVendorIds: ['seller', 'buyer'],
+        chainValid: true,
+        terms: { price: 2350, quantity: 120, totalValue: 282000, offeredBy: 'buyer', acceptedBy: 'seller', terms: { creditDays: 15 } }
+      }
+    });
+    const { termsHash } = (first as any).confirmation;
+
+    // Looking again does not start a second chain
+    await service.getConfirmation('session-1', 'seller');
+    expect(records).toHaveLength(1);
+
+    expect(await service.confirm('session-1', 'seller', 'not-the-hash')).toMatchObject({ outcome: 'terms_mismatch' });
+    await service.confirm('session-1', 'seller', termsHash);
+    await service.confirm('session-1', 'seller', termsHash);
+    const done = await service.confirm('session-1', 'buyer', termsHash);
+
+    expect(done).toMatchObject({ outcome: 'ok', confirmation: { status: 'confirmed', pendingVendorIds: [], chainValid: true } });
+    expect(records.map(record => [record.sequence, record.event, record.vendor_id])).toEqual([
+      [1, 'accepted', 'seller'],
+      [2, 'confirmed', 'seller'],
+      [3, 'confirmed', 'buyer']
+    ]);
+    expect(records[2].previous_hash).toBe(records[1].record_hash);
+
+    // Editing the accepted price breaks the chain
+    records[0].payload = { ...records[0].payload, price: 2000 };
+    expect(await service.getConfirmation('session-1', 'buyer')).toMatchObject({ confirmation: { chainValid: false } });
+  });
+
+  it('only lets participants confirm accepted negotiations', async () => {
+    const { pool } = createFakePool('countering');
+    const service = new DealConfirmationService(pool, translator);
+
+    expect(await service.getConfirmation('session-1', 'buyer')).toEqual({ outcome: 'not_accepted', state: 'countering' });
+    expect(await service.getConfirmation('session-1', 'someone-else')).toEqual({ outcome: 'not_participant' });
+    expect(await service.getConfirmation('session-9', 'buyer')).toEqual({ outcome: 'not_found' });
+  });
+
+  it('renders a bilingual trade note in the vendor\'s language', async () => {
+    const { pool } = createFakePool();
+    const service = new DealConfirmationService(pool, translator);
+
+    const note = await service.buildTradeNote('session-1', 'buyer') as TradeNote;
+
+    expect(note.filename).toBe('trade-note-session-1.html');
+    expect(note.language).toBe('hi');
+    expect(note.html).toContain('Trade Note<br><span class="local" lang="hi">[hi] Trade Note</span>');
+    expect(note.html).toContain('₹2,82,000');
+    expect(note.html).toContain('15 days&#39; credit');
+    expect(note.html).toContain('Ramesh &lt;Traders&gt; (Delhi)');
+    expect(note.html).toContain('class="draft"');
+
+    translator.translateMessage.mockRejectedValueOnce(new Error('service down'));
+    const english = await service.buildTradeNote('session-1', 'seller', 'ta') as TradeNote;
+    expect(english.language).toBe('en');
+    expect(english.html).not.toContain('class="local"');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for per-vendor deal history models behind personalised opening prices
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DealHistoryService, PastDeal } from '../services/deal-history.service';
+
+vi.mock('../config/database');
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+function deal(agreedPrice: number, openingPrice: number | undefined, daysAgo: number, counterparty = 'buyer-1'): PastDeal {
+  return {
+    agreedPrice,
+    marketPrice: 2000,
+    openingPrice,
+    counterpartyIds: [counterparty],
+    closedAt: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000)
+  };
+}
+
+function sessionRow(sessionId: string, agreedPrice: number, openingPrice: number | null, counterparty: string) {
+  return {
+    session_id: sessionId,
+    participants: ['vendor-1', counterparty],
+    final_deal: { agreedPrice, marketPriceAtTime: 2000 },
+    closed_at: new Date(),
+    opening_price: openingPrice === null ? null : String(openingPrice)
+  };
+}
+
+describe('DealHistoryService models', () => {
+  const service = new DealHistoryService({ query: vi.fn() } as any);
+
+  it('learns closing ratio and concession rate from past deals', () => {
+    const model = service.buildModel([deal(1900, 2000, 1), deal(1900, 2000, 2), deal(1900, 2000, 3)], 'vendor', now);
+
+    expect(model).toEqual({ scope: 'vendor', deals: 3, closingRatio: 0.95, concessionRate: 0.05, confidence: 0.3 });
+  });
+
+  it('needs a few consistent deals before it is trusted', () => {
+    expect(service.buildModel([deal(1900, 2000, 1), deal(1900, 2000, 2)], 'vendor', now)).toBeNull();
+
+    const erratic = service.buildModel([deal(1700, undefined, 1), deal(2300, undefined, 2), deal(1700, undefined, 3), deal(2300, undefined, 4)], 'vendor', now)!;
+    expect(erratic.concessionRate).toBeNull();
+    expect(erratic.confidence).toBe(0);
+
+    // A deal at ten times the market is a unit mix-up, not a negotiating style
+    expect(service.buildModel([deal(1900, 2000, 1), deal(1900, 2000, 2), deal(19000, 20000, 3)], 'vendor', now)).toBeNull();
+  });
+
+  it('weights recent deals more heavily', () => {
+    const model = service.buildModel([deal(2000, undefined, 0), deal(1800, undefined, 90), deal(1800, undefined, 90)], 'vendor', now)!;
+
+    expect(model.closingRatio).toBe(0.95);
+  });
+});
+
+describe('DealHistoryService personal component', () => {
+  it('combines vendor and counterparty history into an opening price', async () => {
+    const query = vi.fn().mockImplementation((sql: string) => Promise.resolve({
+      rows: sql.includes('FROM negotiation_sessions')
+        ? [
+          sessionRow('s1', 1900, 2000, 'buyer-1'),
+          sessionRow('s2', 1900, 2000, 'buyer-1'),
+          sessionRow('s3', 1900, 2000, 'buyer-1'),
+          sessionRow('s4', 2100, 2200, 'buyer-2'),
+          sessionRow('s5', 2100, 2200, 'buyer-2'),
+          sessionRow('s6', 2100, 2200, 'buyer-2')
+        ]
+        : []
+    }));
+    const service = new DealHistoryService({ query } as any);
+
+    const overall = await service.getPersonalComponent('vendor-1', 'Onion', 2000);
+    const withBuyer = await service.getPersonalComponent('vendor-1', 'Onion', 2000, 'buyer-1');
+
+    expect(overall!.models.map(model => model.scope)).toEqual(['vendor']);
+    expect(withBuyer!.models.map(model => model.scope)).toEqual(['vendor', 'counterparty']);
+    expect(withBuyer!.suggestedPrice).toBeLessThan(overall!.suggestedPrice);
+    expect(withBuyer!.weight).toBeGreaterThan(0);
+    expect(withBuyer!.weight).toBeLessThanOrEqual(0.5);
+
+    // Deals are loaded once and cached until the vendor records another
+    expect(query).toHaveBeenCalledTimes(2);
+    service.forget('vendor-1');
+    await service.getPersonalComponent('vendor-1', 'Onion', 2000);
+    expect(query).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not count an evaluated deal twice when its session was recorded', async () => {
+    const query = vi.fn().mockImplementation((sql: string) => Promise.resolve({
+      rows: sql.includes('FROM negotiation_sessions')
+        ? [sessionRow('s1', 1900, 2000, 'buyer-1'), sessionRow('s2', 1900, 2000, 'buyer-1')]
+        : [{ session_id: 's1', counterparty_id: 'buyer-1', final_price: '1900', market_price: '2000', created_at: new Date() }]
+    }));
+    const service = new DealHistoryService({ query } as any);
+
+    expect(await service.getPersonalComponent('vendor-1', 'Onion', 2000)).toBeNull();
+  });
+});
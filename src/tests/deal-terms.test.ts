@@ -0,0 +1,107 @@
+/**
+ * Tests for valuing payment, delivery and quality terms alongside price
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { valueTerms, resolveCreditDays, priceForTerms } from '../utils/deal-terms';
+import { AIBasedNegotiationAssistant } from '../services/negotiation.service';
+import { NegotiationOffer, PriceData } from '../types';
+
+vi.mock('../config/database');
+
+function createAssistant() {
+  const query = vi.fn().mockResolvedValue({ rows: [] });
+  const redis = { get: vi.fn().mockResolvedValue(null), set: vi.fn(), setEx: vi.fn(), incr: vi.fn() };
+  return new AIBasedNegotiationAssistant({
+    dataStore: { getPostgresClient: () => ({ query }) as any, getRedisClient: () => redis as any },
+    priceDiscoveryService: {} as any,
+    mspService: { compare: vi.fn().mockReturnValue(null) } as any
+  });
+}
+
+function offer(proposedPrice: number, terms?: NegotiationOffer['terms']): NegotiationOffer {
+  return {
+    offerId: 'offer-1',
+    sessionId: 'session-1',
+    fromVendorId: 'buyer-1',
+    toVendorId: 'seller-1',
+    commodity: 'Wheat',
+    quantity: 100,
+    proposedPrice,
+    currentMarketPrice: 2000,
+    offerType: 'counter',
+    timestamp: new Date(),
+    terms
+  };
+}
+
+const marketData: PriceData = {
+  commodity: 'Wheat',
+  currentPrice: 2000,
+  priceRange: { min: 1900, max: 2100, modal: 2000 },
+  lastUpdated: new Date(),
+  sources: ['AGMARKNET'],
+  volatility: 0.05,
+  market: 'Karnal'
+};
+
+describe('valueTerms', () => {
+  it('prices credit, farm-gate pickup and moisture tolerance against a cash mandi price', () => {
+    const valuation = valueTerms(2000, { creditDays: 30, deliveryMethod: 'farm_pickup', maxMoisturePercent: 14 }, {
+      commodity: 'Wheat',
+      marketPrice: 2000
+    });
+
+    expect(valuation.adjustments.map(adjustment => [adjustment.attribute, adjustment.value])).toEqual([
+      ['payment', -29.59],
+      ['delivery', 60],
+      ['quality', -40]
+    ]);
+    expect(valuation.effectivePrice).toBe(1990.41);
+    expect(valuation.packageDeviation).toBe(-0.48);
+  });
+
+  it('reads payment terms codes and suggests trades that keep the deal even', () => {
+    expect(resolveCreditDays({ paymentTerms: '15_days_credit' })).toBe(15);
+    expect(resolveCreditDays({ paymentTerms: 'cash_on_delivery' })).toBe(0);
+    expect(resolveCreditDays({ paymentTerms: 'advance_payment' })).toBe(-7);
+    expect(resolveCreditDays({ paymentTerms: 'as discussed' })).toBeNull();
+
+    const { tradeOffs } = valueTerms(2000, { creditDays: 45 }, { unit: 'quintal' });
+    const sameDay = tradeOffs.find(option => option.attribute === 'payment')!;
+
+    expect(sameDay.change).toMatchObject({ creditDays: 0 });
+    expect(sameDay.priceChange).toBe(-44.38);
+    expect(sameDay.description).toBe("₹1956/quintal with same-day payment is worth the same as ₹2000/quintal with 45 days' credit (-₹44)");
+    expect(priceForTerms(1955.62, { creditDays: 45 })).toBe(2000);
+  });
+});
+
+describe('AIBasedNegotiationAssistant with terms', () => {
+  it('counters a fair price on costly terms and explains the trade', async () => {
+    const assistant = createAssistant();
+
+    const cash = await assistant.analyzeCounterOffer(offer(1950, { paymentTerms: 'cash_on_delivery' }), marketData);
+    const credit = await assistant.analyzeCounterOffer(offer(1950, { creditDays: 90, maxMoisturePercent: 14 }), marketData);
+
+    expect(cash.recommendation).toBe('accept');
+    expect(credit.recommendation).toBe('counter');
+    expect(credit.terms!.packageDeviation).toBeLessThan(-5);
+    expect(credit.suggestedCounterPrice!).toBeGreaterThan(1950);
+    expect(credit.suggestedCounterPrice!).toBeLessThanOrEqual(2160);
+    expect(credit.reasoning).toContain("90 days' credit");
+    expect(credit.negotiationStrategy).toContain('same-day payment');
+  });
+
+  it('keeps a low farm-gate offer in play and flags long credit in deal evaluations', async () => {
+    const assistant = createAssistant();
+
+    const analysis = await assistant.analyzeCounterOffer(offer(1580, { deliveryMethod: 'farm_pickup' }), marketData);
+    expect(analysis.recommendation).toBe('counter');
+
+    const evaluation = await assistant.evaluateDeal(2000, 2000, { commodity: 'Wheat', terms: { creditDays: 60 } });
+    expect(evaluation.terms!.effectivePrice).toBe(1940.82);
+    expect(evaluation.riskFactors).toContain("Payment on 60 days' credit leaves the seller exposed to late or missed payment");
+    expect(evaluation.marketComparison).toBe(0);
+  });
+});
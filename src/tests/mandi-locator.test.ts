@@ -0,0 +1,177 @@
+/**
+ * Unit tests for nearest-mandi price lookup with transport-adjusted effective prices
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MandiLocatorService } from '../services/mandi-locator.service';
+import { DatabaseManager } from '../config/database';
+import { haversineDistanceKm } from '../utils/geo';
+
+vi.mock('../config/database');
+
+const mandiRows = [
+  { id: 1, name: 'Pune', district: 'Pune', state: 'Maharashtra', latitude: '18.49', longitude: '73.865' },
+  { id: 2, name: 'Lasalgaon', district: 'Nashik', state: 'Maharashtra', latitude: '20.15', longitude: '74.2333' },
+  { id: 3, name: 'Vashi', district: 'Thane', state: 'Maharashtra', latitude: '19.076', longitude: '73.0' },
+  { id: 4, name: 'Azadpur', district: 'North West Delhi', state: 'Delhi', latitude: '28.7167', longitude: '77.175' }
+];
+
+function priceRow(market: string, modalPrice: number, arrivals: number, daysAgo: number = 0, variety: string = 'Other', grade: string = 'FAQ') {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  return {
+    market,
+    variety,
+    grade,
+    state: 'Maharashtra',
+    date,
+    min_price: String(modalPrice - 100),
+    max_price: String(modalPrice + 100),
+    modal_price: String(modalPrice),
+    arrivals: String(arrivals)
+  };
+}
+
+describe('MandiLocatorService', () => {
+  let mockDbClient: any;
+  let priceRows: any[];
+  let vendorRows: any[];
+  let service: MandiLocatorService;
+
+  beforeEach(() => {
+    priceRows = [];
+    vendorRows = [];
+
+    mockDbClient = {
+      query: vi.fn((sql: string, params: any[] = []) => {
+        if (sql.includes('FROM mandis')) return Promise.resolve({ rows: mandiRows });
+        if (sql.includes('FROM vendors')) return Promise.resolve({ rows: vendorRows });
+        if (sql.includes('GROUP BY variety')) {
+          const [, grade] = params;
+          const markets = new Map<string, Set<string>>();
+          priceRows.filter(row => row.grade === grade).forEach(row =>
+            markets.set(row.variety, (markets.get(row.variety) || new Set()).add(row.market)));
+          const ranked = [...markets.entries()].sort((a, b) => b[1].size - a[1].size);
+          return Promise.resolve({ rows: ranked.slice(0, 1).map(([variety]) => ({ variety })) });
+        }
+        if (sql.includes('FROM market_data')) {
+          const [, variety, grade] = params;
+          return Promise.resolve({ rows: priceRows.filter(row => row.variety === variety && row.grade === grade) });
+        }
+        return Promise.resolve({ rows: [] });
+      })
+    };
+
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getRedisClient: () => ({
+        get: vi.fn().mockResolvedValue(null),
+        setEx: vi.fn()
+      }),
+      getPostgresClient: () => mockDbClient
+    } as any);
+
+    service = new MandiLocatorService();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('computes great-circle distances', () => {
+    // Pune to Mumbai (Vashi) is roughly 120 km as the crow flies
+    const distance = haversineDistanceKm({ lat: 18.49, lng: 73.865 }, { lat: 19.076, lng: 73.0 });
+    expect(distance).toBeGreaterThan(100);
+    expect(distance).toBeLessThan(130);
+  });
+
+  it('ranks mandis by distance and subtracts transport cost', async () => {
+    priceRows = [priceRow('Pune', 1500, 200), priceRow('Vashi', 1700, 300), priceRow('Lasalgaon', 1400, 900)];
+
+    const result = await service.getNearestMarketPrices('Onion', { lat: 18.5, lng: 73.85 }, {
+      limit: 3,
+      transportRatePerQuintalKm: 1
+    });
+
+    expect(result).not.toBeNull();
+    expect(result!.markets.map(m => m.market)).toEqual(['Pune', 'Vashi', 'Lasalgaon']);
+
+    for (const market of result!.markets) {
+      expect(market.effectivePrice).toBeCloseTo(market.modalPrice - market.transportCostPerQuintal, 2);
+      expect(market.transportCostPerQuintal).toBeCloseTo(market.distanceKm, 0);
+    }
+
+    expect(result!.selectedMarket?.market).toBe('Pune');
+    expect(result!.fallbackUsed).toBe(false);
+    // Vashi pays more even after ~120 km of freight
+    expect(result!.bestEffectivePrice?.market).toBe('Vashi');
+  });
+
+  it('falls back to the nearest market with arrivals when the vendor market has none today', async () => {
+    vendorRows = [{ market: 'Pune', latitude: null, longitude: null }];
+    priceRows = [priceRow('Pune', 1500, 0), priceRow('Vashi', 1700, 300), priceRow('Lasalgaon', 1400, 900)];
+
+    const result = await service.getNearestMarketPrices('Onion', { vendorId: 'vendor-1' });
+
+    expect(result!.origin.homeMarket).toBe('Pune');
+    expect(result!.selectedMarket?.market).toBe('Vashi');
+    expect(result!.fallbackUsed).toBe(true);
+    expect(result!.fallbackReason).toContain('Vashi');
+  });
+
+  it('uses the latest stale price when no nearby mandi traded today', async () => {
+    priceRows = [priceRow('Pune', 1500, 200, 2)];
+
+    const result = await service.getNearestMarketPrices('Onion', { lat: 18.5, lng: 73.85 });
+
+    expect(result!.selectedMarket?.market).toBe('Pune');
+    expect(result!.selectedMarket?.hasArrivalsToday).toBe(false);
+    expect(result!.fallbackReason).toBeDefined();
+  });
+
+  it('respects the maximum distance', async () => {
+    priceRows = [priceRow('Pune', 1500, 200), priceRow('Azadpur', 1800, 500)];
+
+    const result = await service.getNearestMarketPrices('Onion', { lat: 18.5, lng: 73.85 }, { maxDistanceKm: 300 });
+
+    expect(result!.markets.every(m => m.distanceKm <= 300)).toBe(true);
+    expect(result!.markets.some(m => m.market === 'Azadpur')).toBe(false);
+  });
+
+  it('compares mandis on one variety and grade', async () => {
+    priceRows = [
+      priceRow('Pune', 4200, 200, 0, 'Basmati'),
+      priceRow('Pune', 2600, 400),
+      priceRow('Vashi', 2700, 300),
+      priceRow('Vashi', 3000, 100, 0, 'Other', 'Grade A')
+    ];
+
+    const common = await service.getNearestMarketPrices('Rice', { lat: 18.5, lng: 73.85 });
+    expect(common).toMatchObject({ variety: 'Other', grade: 'FAQ' });
+    expect(common!.markets.map(m => [m.market, m.modalPrice])).toEqual([['Pune', 2600], ['Vashi', 2700]]);
+
+    const basmati = await service.getNearestMarketPrices('Rice', { lat: 18.5, lng: 73.85 }, {}, { variety: 'basmati' });
+    expect(basmati!.variety).toBe('Basmati');
+    expect(basmati!.markets.map(m => [m.market, m.modalPrice])).toEqual([['Pune', 4200]]);
+
+    const premium = await service.getNearestMarketPrices('Rice', { lat: 18.5, lng: 73.85 }, {}, { grade: 'A' });
+    expect(premium!.markets.map(m => [m.market, m.modalPrice])).toEqual([['Vashi', 3000]]);
+  });
+
+  it('compares on the variety most nearby mandis quote when none is given', async () => {
+    priceRows = [
+      priceRow('Pune', 4200, 200, 0, 'Basmati'),
+      priceRow('Vashi', 4300, 150, 0, 'Basmati'),
+      priceRow('Vashi', 2700, 300, 0, 'Sona Masuri')
+    ];
+
+    const result = await service.getNearestMarketPrices('Rice', { lat: 18.5, lng: 73.85 });
+
+    expect(result).toMatchObject({ variety: 'Basmati', grade: 'FAQ' });
+    expect(result!.markets.map(m => [m.market, m.modalPrice])).toEqual([['Pune', 4200], ['Vashi', 4300]]);
+  });
+
+  it('returns null for an unknown vendor', async () => {
+    const result = await service.getNearestMarketPrices('Onion', { vendorId: 'missing' });
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for Minimum Support Price reference data and comparisons
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MspService } from '../services/msp.service';
+import { MSP_RATES, findMspRate, mspCommodityName } from '../utils/msp';
+
+vi.mock('../config/database');
+
+describe('MSP reference data', () => {
+  it('maps market names onto the notified crop', () => {
+    expect(mspCommodityName('Tur')).toBe('Arhar');
+    expect(mspCommodityName('Paddy(Dhan)')).toBe('Paddy');
+    expect(mspCommodityName('Bengal Gram')).toBe('Gram');
+    expect(mspCommodityName('wheat')).toBe('Wheat');
+    expect(mspCommodityName('Onion')).toBeUndefined();
+    expect(mspCommodityName('Rice')).toBeUndefined();
+  });
+
+  it('uses the rate of the season in force on the date', () => {
+    expect(findMspRate(MSP_RATES, 'Wheat', { date: new Date('2024-06-15') })!.pricePerQuintal).toBe(2275);
+    expect(findMspRate(MSP_RATES, 'Wheat', { date: new Date('2025-06-15') })!.pricePerQuintal).toBe(2425);
+    expect(findMspRate(MSP_RATES, 'Wheat', { date: new Date('2020-01-01') })).toBeNull();
+  });
+
+  it('falls back to the lowest variety rate when the variety is not distinguished', () => {
+    const date = new Date('2024-11-01');
+
+    expect(findMspRate(MSP_RATES, 'Paddy', { variety: 'Grade A', date })!.pricePerQuintal).toBe(2320);
+    expect(findMspRate(MSP_RATES, 'Paddy', { variety: 'Sona Masuri', date })!.pricePerQuintal).toBe(2300);
+    expect(findMspRate(MSP_RATES, 'Cotton', { date })!.variety).toBe('Medium Staple');
+  });
+});
+
+describe('MspService', () => {
+  it('compares a price with MSP', () => {
+    const service = new MspService({ query: vi.fn().mockResolvedValue({ rows: [] }) } as any);
+    const comparison = service.compare(2200, 'Wheat', { date: new Date('2024-06-15') })!;
+
+    expect(comparison.belowMsp).toBe(true);
+    expect(comparison.mspPerQuintal).toBe(2275);
+    expect(comparison.shortfallPerQuintal).toBe(75);
+    expect(comparison.shortfallPercent).toBe(3.3);
+    expect(service.compare(2400, 'Wheat', { date: new Date('2024-06-15') })!.belowMsp).toBe(false);
+    expect(service.compare(1500, 'Onion')).toBeNull();
+  });
+
+  it('parses single-season notifications and rejects bad rows', () => {
+    const service = new MspService({ query: vi.fn() } as any);
+    const result = service.parseNotification([
+      { commodity: 'Paddy', variety: 'Common', msp: '2,450' },
+      { commodity: 'Tur', variety: '', msp: '8500' },
+      { commodity: 'Maize', variety: '', msp: 'n/a' }
+    ], { cropYear: '2026-2027', season: 'kharif', notificationRef: 'CCEA, Jun 2026' });
+
+    expect(result.rates).toHaveLength(2);
+    expect(result.rates[0]).toMatchObject({ commodity: 'Paddy', variety: 'Common', cropYear: '2026-27', pricePerQuintal: 2450 });
+    expect(result.rates[0].effectiveFrom).toEqual(new Date('2026-10-01'));
+    expect(result.rates[1].commodity).toBe('Arhar');
+    expect(result.errors).toEqual([{ row: 3, reason: 'MSP must be a positive price per quintal' }]);
+  });
+
+  it('lets loaded notifications override the bundled rate for the same season', async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [] });
+    const service = new MspService({ query } as any);
+    const parsed = service.parseNotification([{ commodity: 'Wheat', msp: '2300' }], { cropYear: '2024-25', season: 'rabi' });
+
+    query.mockImplementation((sql: string) => Promise.resolve({
+      rows: sql.includes('FROM msp_rates')
+        ? [{ commodity: 'Wheat', variety: '', crop_year: '2024-25', season: 'rabi', price_per_quintal: '2300.00', effective_from: '2024-04-01' }]
+        : []
+    }));
+    const result = await service.loadRates(parsed, { source: 'corrigendum.csv' });
+
+    expect(result.loaded).toBe(1);
+    expect(query.mock.calls[0][0]).toContain('INSERT INTO msp_rates');
+    expect(service.findRate('Wheat', { date: new Date('2024-06-15') })!.pricePerQuintal).toBe(2300);
+    expect(service.getRates().filter(rate => rate.commodity === 'Wheat' && rate.cropYear === '2024-25')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for A/B experiments on negotiation suggestions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { bucketVariant, validateExperiment } from '../utils/negotiation-experiments';
+import { NegotiationExperimentService } from '../services/negotiation-experiment.service';
+import { AIBasedNegotiationAssistant } from '../services/negotiation.service';
+import { ExperimentVariant, NegotiationStep } from '../types';
+
+vi.mock('../config/database');
+
+const variants: ExperimentVariant[] = [
+  { key: 'control', weight: 1, parameters: {} },
+  { key: 'patient', weight: 3, parameters: { acceptWithinPercent: 5 } }
+];
+
+const runningRow = {
+  key: 'accept-threshold',
+  name: 'Accept sooner',
+  target: 'response',
+  unit: 'vendor',
+  status: 'running',
+  variants,
+  created_at: '2024-06-01T00:00:00.000Z',
+  started_at: '2024-06-02T00:00:00.000Z'
+};
+
+function createFakePool() {
+  const query = vi.fn(async (sql: string) => {
+    if (sql.includes('FROM negotiation_experiments')) {
+      return { rows: [runningRow] };
+    }
+    if (sql.includes('COUNT(*) AS sessions')) {
+      return { rows: [{ variant: 'control', sessions: '10', concluded: '8', deals: '4' }, { variant: 'patient', sessions: '12', concluded: '10', deals: '7' }] };
+    }
+    if (sql.includes('JOIN deal_evaluations')) {
+      return { rows: [{ variant: 'patient', evaluated: '6', average_score: '71.333' }] };
+    }
+    if (sql.includes('JOIN learning_data')) {
+      return { rows: [{ variant: 'control', responses: '5', average_satisfaction: '3.6' }] };
+    }
+    return { rows: [] };
+  });
+  return { query } as any;
+}
+
+function vendorIn(variant: string) {
+  return Array.from({ length: 50 }, (_, index) => `vendor-${index}`)
+    .find(id => bucketVariant('accept-threshold', id, variants).key === variant)!;
+}
+
+describe('experiment bucketing and validation', () => {
+  it('keeps a vendor in one variant and splits traffic by weight', () => {
+    expect(bucketVariant('exp', 'vendor-1', variants).key).toBe(bucketVariant('exp', 'vendor-1', variants).key);
+
+    const counts = { control: 0, patient: 0 } as Record<string, number>;
+    for (let i = 0; i < 4000; i++) {
+      counts[bucketVariant('exp', `vendor-${i}`, variants).key]++;
+    }
+    expect(counts.control / 4000).toBeGreaterThan(0.22);
+    expect(counts.control / 4000).toBeLessThan(0.28);
+  });
+
+  it('rejects parameters the target does not use and out of range values', () => {
+    expect(validateExperiment({ key: 'opening-nudge', name: 'Nudge', target: 'opening_price', unit: 'session', variants: [
+      { key: 'control', weight: 1, parameters: {} },
+      { key: 'higher', weight: 1, parameters: { openingPriceAdjustment: 0.03 } }
+    ] })).toEqual([]);
+
+    expect(validateExperiment({ key: 'Bad Key', name: 'x', target: 'opening_price', unit: 'vendor', variants: [
+      { key: 'a', weight: 1, parameters: { acceptWithinPercent: 3 } },
+      { key: 'a', weight: 0, parameters: { openingPriceAdjustment: 0.5 } }
+    ] })).toEqual([
+      'key must be 1-64 lowercase letters, digits, hyphens or underscores',
+      'variants[0].parameters.acceptWithinPercent does not apply to opening_price experiments',
+      "variants[1].key 'a' is used twice",
+      'variants[1].weight must be a positive number',
+      'variants[1].parameters.openingPriceAdjustment must be a number from -0.1 to 0.1'
+    ]);
+  });
+});
+
+describe('NegotiationExperimentService', () => {
+  it('tags assisted steps with the vendor\'s variant and reports results per variant', async () => {
+    const service = new NegotiationExperimentService(createFakePool());
+    const vendorId = vendorIn('patient');
+
+    expect(await service.variantsForStep({ action: 'counter', vendorId, sessionId: 's1', aiAssistanceUsed: true }))
+      .toEqual({ 'accept-threshold': 'patient' });
+    expect(await service.variantsForStep({ action: 'counter', vendorId, sessionId: 's1', aiAssistanceUsed: false })).toBeNull();
+    expect(await service.variantsForStep({ action: 'offer', vendorId, sessionId: 's1', aiAssistanceUsed: true })).toBeNull();
+
+    const results = await service.getResults('accept-threshold');
+    expect(results!.variants).toEqual([
+      { variant: 'control', sessions: 10, concludedSessions: 8, deals: 4, dealRate: 0.5, evaluatedDeals: 0, averageDealScore: null, feedbackResponses: 5, averageSatisfaction: 3.6 },
+      { variant: 'patient', sessions: 12, concludedSessions: 10, deals: 7, dealRate: 0.7, evaluatedDeals: 6, averageDealScore: 71.33, feedbackResponses: 0, averageSatisfaction: null }
+    ]);
+  });
+
+  it('changes the response recommendation for vendors in the variant', async () => {
+    const experimentService = new NegotiationExperimentService(createFakePool());
+    const query = vi.fn().mockResolvedValue({ rows: [] });
+    const assistant = new AIBasedNegotiationAssistant({
+      dataStore: { getPostgresClient: () => ({ query }) as any, getRedisClient: () => ({ get: vi.fn(), setEx: vi.fn() }) as any },
+      priceDiscoveryService: { getCurrentPrice: vi.fn().mockResolvedValue({ currentPrice: 2000 }) } as any,
+      experimentService
+    });
+
+    const offer = (proposedPrice: number) => ({
+      offerId: `o-${proposedPrice}`, sessionId: 's1', fromVendorId: 'a', toVendorId: 'b', commodity: 'Wheat',
+      quantity: 10, proposedPrice, currentMarketPrice: 2000, offerType: 'counter' as const, timestamp: new Date()
+    });
+    const history: NegotiationStep[] = [
+      { stepId: '1', sessionId: 's1', vendorId: 'a', action: 'offer', offer: offer(2000), timestamp: new Date(), aiAssistanceUsed: true },
+      { stepId: '2', sessionId: 's1', vendorId: 'b', action: 'counter', offer: offer(2060), timestamp: new Date(), aiAssistanceUsed: true }
+    ];
+
+    const control = await assistant.recommendResponse(history, vendorIn('control'));
+    const patient = await assistant.recommendResponse(history, vendorIn('patient'));
+
+    expect(control).toMatchObject({ recommendedAction: 'counter', experiments: [{ experimentKey: 'accept-threshold', variant: 'control' }] });
+    expect(patient).toMatchObject({ recommendedAction: 'accept', experiments: [{ variant: 'patient' }] });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for the versioned negotiation learning model
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { KEPT_MODEL_VERSIONS, NegotiationModelService } from '../services/negotiation-model.service';
+import { immediateLearningFactor } from '../utils/negotiation-model';
+import { LearningData } from '../types';
+
+vi.mock('../config/database');
+
+// negotiation_model_versions in an array, so inserts collide on version like the primary key
+function createFakeStore() {
+  const versions: any[] = [];
+
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('INSERT INTO negotiation_model_versions')) {
+      const [version, parentVersion, reason, restoredVersion, trainedSessionId, createdBy, parameterSets, createdAt] = params;
+      if (versions.some(row => row.version === version)) {
+        throw Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' });
+      }
+      versions.push({
+        version, parent_version: parentVersion, reason, restored_version: restoredVersion,
+        trained_session_id: trainedSessionId, created_by: createdBy, parameter_sets: JSON.parse(parameterSets), created_at: createdAt
+      });
+      return { rows: [] };
+    }
+    if (sql.includes('DELETE FROM negotiation_model_versions')) {
+      versions.splice(0, versions.length, ...versions.filter(row => row.version > params[0]));
+      return { rows: [] };
+    }
+    if (sql.includes('WHERE version = $1')) {
+      return { rows: versions.filter(row => row.version === params[0]) };
+    }
+    if (sql.includes('FROM negotiation_model_versions')) {
+      const latest = [...versions].sort((a, b) => b.version - a.version);
+      return { rows: sql.includes('LIMIT 1') ? latest.slice(0, 1) : latest };
+    }
+    if (sql.includes('COUNT(*) AS total')) {
+      return { rows: [{ total: '6', last_30_days: '4' }] };
+    }
+    if (sql.includes('GROUP BY LOWER(commodity)')) {
+      return { rows: [{ scope: 'wheat', count: '5' }] };
+    }
+    return { rows: [] };
+  });
+
+  const cache = new Map<string, string>();
+  const redis = {
+    get: vi.fn(async (key: string) => cache.get(key) ?? null),
+    setEx: vi.fn(async (key: string, _ttl: number, value: string) => {
+      cache.set(key, value);
+      return 'OK';
+    })
+  };
+
+  return {
+    versions,
+    cache,
+    dataStore: { getPostgresClient: () => ({ query }) as any, getRedisClient: () => redis as any }
+  };
+}
+
+function learning(sessionId: string, outcome: LearningData['outcome'], commodity?: string, region?: string): LearningData {
+  return {
+    sessionId,
+    outcome,
+    marketConditions: { volatility: 0.05, demand: 'medium', supply: 'medium', seasonality: 'normal' },
+    negotiationMetrics: { duration: 20, numberOfOffers: 4, priceMovement: 3, aiAccuracy: outcome === 'failed' ? 0.2 : 0.9 },
+    participantFeedback: [{ vendorId: 'v1', satisfactionScore: outcome === 'failed' ? 1 : 5, aiHelpfulness: 4, suggestions: [] }],
+    commodity,
+    region
+  };
+}
+
+describe('NegotiationModelService', () => {
+  it('publishes a version per session with separate commodity and region parameters', async () => {
+    const { dataStore, versions } = createFakeStore();
+    const service = new NegotiationModelService(dataStore);
+
+    expect((await service.getActiveModel()).version).toBe(0);
+    expect(immediateLearningFactor((await service.getParameters('Wheat')).parameters)).toBe(0.008);
+
+    for (let i = 1; i <= 5; i++) {
+      await service.train(learning(`wheat-${i}`, 'successful', 'Wheat', 'Tamil Nadu'));
+    }
+    await service.train(learning('onion-1', 'failed', 'Onion'));
+
+    expect(versions.map(row => [row.version, row.parent_version])).toEqual([[1, null], [2, 1], [3, 2], [4, 3], [5, 4], [6, 5]]);
+    expect(Object.keys(versions[5].parameter_sets).sort()).toEqual(['commodity:onion', 'commodity:wheat', 'global', 'region:tamil_nadu']);
+
+    const wheat = await service.getParameters('wheat', 'Punjab');
+    expect(wheat).toMatchObject({ version: 6, scope: 'commodity:wheat', parameters: { trainingSessions: 5, successfulSessions: 5 } });
+    expect(immediateLearningFactor(wheat.parameters)).toBeCloseTo(0.013);
+
+    // One onion session is too few to price onions on; the global set covers them
+    const onion = await service.getParameters('Onion', 'tamil nadu');
+    expect(onion).toMatchObject({ scope: 'region:tamil_nadu' });
+    expect((await service.getParameters('Onion')).scope).toBe('global');
+  });
+
+  it('keeps servers on the same version and rebuilds on top of a version published elsewhere', async () => {
+    const { dataStore, versions, cache } = createFakeStore();
+    const first = new NegotiationModelService(dataStore);
+    const second = new NegotiationModelService(dataStore);
+
+    await first.train(learning('s1', 'successful', 'Wheat'));
+    expect((await second.getActiveModel()).version).toBe(1);
+
+    await first.train(learning('s2', 'successful', 'Wheat'));
+    expect((await second.getParameters('Wheat')).version).toBe(2);
+
+    // The cache still points at version 1 when the second server trains
+    cache.set('negotiation_model:active', JSON.stringify({
+      version: 1, reason: 'training', parameterSets: versions[0].parameter_sets, createdAt: versions[0].created_at
+    }));
+    cache.set('negotiation_model:version', '1');
+
+    const published = await second.train(learning('s3', 'failed', 'Wheat'));
+    expect(published).toMatchObject({ version: 3, parentVersion: 2 });
+    expect(published.parameterSets.global.trainingSessions).toBe(3);
+  });
+
+  it('keeps only the most recent versions', async () => {
+    const { dataStore, versions } = createFakeStore();
+    const service = new NegotiationModelService(dataStore);
+
+    for (let i = 1; i <= KEPT_MODEL_VERSIONS + 2; i++) {
+      await service.train(learning(`s${i}`, 'successful', 'Wheat'));
+    }
+
+    expect(versions).toHaveLength(KEPT_MODEL_VERSIONS);
+    expect(Math.min(...versions.map(row => row.version))).toBe(3);
+    expect(await service.rollback(2, 'admin-1')).toEqual({ outcome: 'not_found' });
+    expect((await service.getActiveModel()).parameterSets.global.trainingSessions).toBe(KEPT_MODEL_VERSIONS + 2);
+  });
+
+  it('rolls back by republishing an earlier version and reports training counts', async () => {
+    const { dataStore } = createFakeStore();
+    const service = new NegotiationModelService(dataStore);
+
+    const v1 = await service.train(learning('s1', 'successful', 'Wheat'));
+    await service.train(learning('s2', 'failed', 'Wheat'));
+
+    const result = await service.rollback(1, 'admin-1');
+    expect(result).toMatchObject({ outcome: 'ok', model: { version: 3, parentVersion: 2, reason: 'rollback', restoredVersion: 1, createdBy: 'admin-1' } });
+    expect((await service.getActiveModel()).parameterSets).toEqual(v1.parameterSets);
+
+    expect(await service.rollback(9, 'admin-1')).toEqual({ outcome: 'not_found' });
+    expect(await service.rollback(3, 'admin-1')).toMatchObject({ outcome: 'already_active' });
+
+    const summary = await service.describe();
+    expect(summary).toMatchObject({
+      activeVersion: 3,
+      reason: 'rollback',
+      restoredVersion: 1,
+      learningData: { total: 6, last30Days: 4, byCommodity: { wheat: 5 }, byRegion: {} }
+    });
+    expect(summary.parameterSets.map(set => [set.scope, set.trainingSessions])).toEqual([['global', 1], ['commodity:wheat', 1]]);
+    expect(summary.history.map(entry => entry.version)).toEqual([3, 2, 1]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for negotiation explanations rendered from reason codes in the vendor's language
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { formatIndianNumber, formatRupees, joinSentences, normalizeLanguage, reason, renderReason } from '../utils/negotiation-reasons';
+import { AIBasedNegotiationAssistant } from '../services/negotiation.service';
+import { NegotiationOffer, PriceData } from '../types';
+
+vi.mock('../config/database');
+
+function createAssistant(translateMessage = vi.fn()) {
+  const query = vi.fn().mockResolvedValue({ rows: [] });
+  const redis = { get: vi.fn().mockResolvedValue(null), set: vi.fn(), setEx: vi.fn(), incr: vi.fn() };
+  return new AIBasedNegotiationAssistant({
+    dataStore: { getPostgresClient: () => ({ query }) as any, getRedisClient: () => redis as any },
+    priceDiscoveryService: {} as any,
+    mspService: { compare: vi.fn().mockReturnValue(null) } as any,
+    translator: { translateMessage }
+  });
+}
+
+const offer: NegotiationOffer = {
+  offerId: 'offer-1',
+  sessionId: 'session-1',
+  fromVendorId: 'buyer-1',
+  toVendorId: 'seller-1',
+  commodity: 'Wheat',
+  quantity: 100,
+  proposedPrice: 1950,
+  currentMarketPrice: 2000,
+  offerType: 'counter',
+  timestamp: new Date(),
+  terms: { creditDays: 90 }
+};
+
+const marketData: PriceData = {
+  commodity: 'Wheat',
+  currentPrice: 2000,
+  priceRange: { min: 1900, max: 2100, modal: 2000 },
+  lastUpdated: new Date(),
+  sources: ['AGMARKNET'],
+  volatility: 0.05,
+  market: 'Karnal'
+};
+
+describe('Indian number formatting', () => {
+  it('groups digits in lakhs and speaks large rupee amounts in lakh and crore', () => {
+    expect(formatIndianNumber(1234567.891)).toBe('12,34,567.89');
+    expect(formatRupees(2450)).toBe('₹2,450');
+    expect(formatRupees(99999.5)).toBe('₹99,999.5');
+    expect(formatRupees(350000)).toBe('₹3.5 lakh');
+    expect(formatRupees(282000, 'hi-IN')).toBe('₹2.82 लाख');
+    expect(formatRupees(12000000, 'mr')).toBe('₹1.2 कोटी');
+  });
+});
+
+describe('renderReason', () => {
+  const tradeOff = reason('terms.trade_off', {
+    newPrice: 1956,
+    price: 2000,
+    unit: 'quintal',
+    changed: reason('terms.same_day'),
+    current: reason('terms.credit', { days: 45 }),
+    change: -44
+  });
+
+  it('renders nested reasons and formats in the requested language', () => {
+    expect(renderReason(tradeOff, 'en')).toBe(
+      "₹1,956/quintal with same-day payment is worth the same as ₹2,000/quintal with 45 days' credit (-₹44)"
+    );
+    expect(renderReason(tradeOff, 'hi')).toBe(
+      'उसी दिन भुगतान के साथ ₹1,956/quintal, 45 दिन की उधारी के साथ ₹2,000/quintal के बराबर है (-₹44)'
+    );
+    expect(renderReason(reason('offer.risk_level', { level: reason('level.high') }), 'te')).toBe('రిస్క్ స్థాయి: ఎక్కువ');
+  });
+
+  it('returns null for languages without templates and closes sentences per language', () => {
+    expect(normalizeLanguage('mr_IN')).toBe('mr');
+    expect(normalizeLanguage(undefined)).toBe('en');
+    expect(renderReason(reason('price.urgent'), 'ta')).toBeNull();
+    expect(joinSentences(['a', 'b'], 'en')).toBe('a. b.');
+    expect(joinSentences(['क', 'ख'], 'hi')).toBe('क। ख।');
+  });
+});
+
+describe('AIBasedNegotiationAssistant explanations', () => {
+  it('keeps English explanations and records the reasons behind them', async () => {
+    const analysis = await createAssistant().analyzeCounterOffer(offer, marketData);
+
+    expect(analysis.reasoning).toContain("90 days' credit");
+    expect(analysis.explanation!.language).toBe('en');
+    expect(analysis.explanation!.reasons.reasoning.map(item => item.code)).toEqual([
+      'offer.within_market', 'offer.risk_level', 'terms.package_value'
+    ]);
+    expect(analysis.explanation!.reasons.negotiationStrategy.map(item => item.code)).toContain('strategy.trade_on_terms');
+  });
+
+  it('renders the analysis in Hindi from templates without calling the translator', async () => {
+    const translateMessage = vi.fn();
+    const analysis = await createAssistant(translateMessage).analyzeCounterOffer(offer, marketData, 'hi-IN');
+
+    expect(analysis.reasoning).toContain('पेशकश बाज़ार भाव के 5% के भीतर है (-2.5% अंतर)।');
+    expect(analysis.reasoning).toContain('90 दिन की उधारी');
+    expect(analysis.negotiationStrategy).toContain('भाव के साथ शर्तों पर भी मोलभाव करें');
+    expect(analysis.culturalConsiderations).toContain('पेशेवर लेकिन सहज बातचीत करें');
+    expect(analysis.explanation!.language).toBe('hi');
+    expect(translateMessage).not.toHaveBeenCalled();
+  });
+
+  it('translates from English when the language has no templates, keeping English if that fails', async () => {
+    const translateMessage = vi.fn(async (text: string) => {
+      if (text.startsWith('Risk level')) throw new Error('translation unavailable');
+      return { translatedText: `[ta] ${text}`, confidence: 0.9, preservedTerms: [] };
+    });
+
+    const analysis = await createAssistant(translateMessage).analyzeCounterOffer(offer, marketData, 'ta');
+
+    expect(translateMessage).toHaveBeenCalledWith('Offer is within 5% of market price (-2.5% deviation)', 'en', 'ta');
+    expect(analysis.reasoning).toMatch(/^\[ta\] Offer is within 5% of market price \(-2\.5% deviation\)\. Risk level assessed as low\. \[ta\] With/);
+  });
+});
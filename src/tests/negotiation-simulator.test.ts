@@ -0,0 +1,82 @@
+/**
+ * Backtests of the negotiation assistant against synthetic and replayed counterparties
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { NegotiationSimulator, RecordedSession } from '../services/negotiation-simulator.service';
+
+vi.mock('../config/database');
+
+describe('NegotiationSimulator synthetic runs', () => {
+  it('generates reproducible scenarios from a seed', () => {
+    const first = NegotiationSimulator.generateScenarios({ count: 20, seed: 7 });
+
+    expect(NegotiationSimulator.generateScenarios({ count: 20, seed: 7 })).toEqual(first);
+    expect(NegotiationSimulator.generateScenarios({ count: 20, seed: 8 })).not.toEqual(first);
+    expect(new Set(first.map(scenario => scenario.counterparty.style)).size).toBeGreaterThan(1);
+  });
+
+  it('reports deal rate, surplus and rounds without crossing the reservation price', async () => {
+    const scenarios = NegotiationSimulator.generateScenarios({ count: 30, seed: 3, commodity: 'Onion', marketPrice: 2000 });
+    const report = await new NegotiationSimulator().runSynthetic(scenarios);
+
+    expect(report.episodes).toBe(30);
+    expect(report.dealRate).toBeGreaterThan(0);
+    expect(report.dealRate).toBeLessThanOrEqual(1);
+    expect(report.averageRoundsToClose).toBeGreaterThanOrEqual(1);
+    expect(Object.keys(report.byStyle).length).toBeGreaterThan(1);
+
+    for (const episode of report.episodesDetail.filter(episode => episode.deal)) {
+      const scenario = scenarios.find(candidate => candidate.id === episode.id)!;
+      expect(episode.price!).toBeGreaterThanOrEqual(scenario.assisted.reservationPrice);
+      expect(episode.price!).toBeLessThanOrEqual(scenario.counterparty.reservationPrice);
+      expect(episode.rounds).toBeLessThanOrEqual(10);
+    }
+
+    // Same scenarios, same strategy, same result
+    const again = await new NegotiationSimulator().runSynthetic(scenarios);
+    expect(again.episodesDetail).toEqual(report.episodesDetail);
+  });
+
+  it('closes no deal when the reservation prices do not overlap', async () => {
+    const report = await new NegotiationSimulator({ maxRounds: 6 }).runSynthetic([{
+      id: 'no-zone',
+      commodity: 'Wheat',
+      quantity: 20,
+      marketPrice: 2200,
+      assisted: { role: 'seller', reservationPrice: 2300 },
+      counterparty: { reservationPrice: 2100, style: 'fair' }
+    }]);
+
+    expect(report.episodesDetail[0]).toMatchObject({ deal: false, availableSurplus: 0, assistedSurplus: 0 });
+    expect(report.episodesDetail[0].rounds).toBeLessThanOrEqual(6);
+  });
+});
+
+describe('NegotiationSimulator replay', () => {
+  it('replays recorded counter-offers and compares with the recorded outcome', async () => {
+    const session: RecordedSession = {
+      sessionId: 'recorded-1',
+      commodity: 'Onion',
+      marketPrice: 2000,
+      offers: [
+        { vendorId: 'seller-1', price: 2300, quantity: 50 },
+        { vendorId: 'buyer-1', price: 1850 },
+        { vendorId: 'seller-1', price: 2150 },
+        { vendorId: 'buyer-1', price: 1950 },
+        { vendorId: 'seller-1', price: 2000 }
+      ],
+      finalPrice: 2000
+    };
+
+    const report = await new NegotiationSimulator().replay([session]);
+    const [episode] = report.episodesDetail;
+
+    expect(episode).toMatchObject({ id: 'recorded-1', source: 'replay', assistedRole: 'seller', actual: { deal: true, price: 2000 } });
+    expect(report.actualDealRate).toBe(1);
+    if (episode.deal) {
+      expect(episode.price!).toBeGreaterThanOrEqual(2000);
+      expect(report.averagePriceGainVsActual).toBe(Math.round((episode.price! - 2000) * 1000) / 1000);
+    }
+  });
+});
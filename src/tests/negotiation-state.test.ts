@@ -0,0 +1,188 @@
+/**
+ * Tests for the negotiation state machine and the session service enforcing it
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { applyNegotiationMove, offerExpiry, DEFAULT_OFFER_TTL_MS, MAX_OFFER_TTL_MS } from '../utils/negotiation-state';
+import { NegotiationSessionService, NegotiationUpdateEvent } from '../services/negotiation-session.service';
+import { NegotiationOffer, NegotiationSession } from '../types';
+
+vi.mock('../config/database');
+
+const at = new Date('2024-06-01T10:00:00Z');
+
+function offer(fromVendorId: string, overrides: Partial<NegotiationOffer> = {}): NegotiationOffer {
+  return {
+    offerId: 'offer-1',
+    sessionId: 'session-1',
+    fromVendorId,
+    toVendorId: fromVendorId === 'seller' ? 'buyer' : 'seller',
+    commodity: 'Onion',
+    quantity: 50,
+    proposedPrice: 2200,
+    currentMarketPrice: 2000,
+    offerType: 'initial',
+    timestamp: at,
+    expiresAt: new Date(at.getTime() + 60 * 60 * 1000),
+    ...overrides
+  };
+}
+
+function session(overrides: Partial<NegotiationSession> = {}): NegotiationSession {
+  return {
+    sessionId: 'session-1',
+    participants: ['seller', 'buyer'],
+    commodity: 'Onion',
+    state: 'opening',
+    status: 'active',
+    liveOffer: offer('seller'),
+    startTime: at,
+    ...overrides
+  };
+}
+
+// Keeps negotiation_sessions and negotiation_steps rows in memory for the queries the service runs
+function createFakePool() {
+  const sessions = new Map<string, any>();
+  const steps: any[] = [];
+
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('INSERT INTO negotiation_sessions')) {
+      const [sessionId, participants, commodity, status, state, liveOffer, expiresAt, startTime] = params;
+      sessions.set(sessionId, {
+        session_id: sessionId, participants, commodity, status, state, live_offer: liveOffer,
+        offer_expires_at: expiresAt, start_time: startTime, end_time: null, final_deal: null
+      });
+      return { rows: [] };
+    }
+    if (sql.includes('INSERT INTO negotiation_steps')) {
+      steps.push({ sessionId: params[1], vendorId: params[2], action: params[3] });
+      return { rows: [] };
+    }
+    if (sql.includes('SELECT') && sql.includes('FROM negotiation_sessions')) {
+      const row = sessions.get(params[0]);
+      return { rows: row ? [{ ...row }] : [] };
+    }
+    if (sql.includes('UPDATE negotiation_sessions') && sql.includes('RETURNING')) {
+      const [now, states] = params;
+      const expired = [...sessions.values()].filter(row => states.includes(row.state) && row.offer_expires_at <= now);
+      for (const row of expired) {
+        Object.assign(row, { state: 'expired', status: 'expired', end_time: now, offer_expires_at: null });
+      }
+      return { rows: expired.map(row => ({ ...row })) };
+    }
+    if (sql.includes('UPDATE negotiation_sessions')) {
+      const [sessionId, state, status, liveOffer, expiresAt, endTime, finalDeal] = params;
+      const row = sessions.get(sessionId);
+      Object.assign(row, {
+        state, status, live_offer: liveOffer, offer_expires_at: expiresAt, end_time: endTime,
+        final_deal: finalDeal ?? row.final_deal
+      });
+      return { rows: [] };
+    }
+    return { rows: [] };
+  });
+
+  const pool = { query, connect: vi.fn(async () => ({ query, release: vi.fn() })) };
+  return { pool: pool as any, sessions, steps, query };
+}
+
+describe('applyNegotiationMove', () => {
+  it('lets the side an offer is addressed to counter, accept or reject it', () => {
+    expect(applyNegotiationMove(session(), { action: 'counter', actorId: 'buyer', at })).toEqual({ outcome: 'allowed', state: 'countering' });
+    expect(applyNegotiationMove(session(), { action: 'final_offer', actorId: 'buyer', at })).toEqual({ outcome: 'allowed', state: 'final_offer' });
+    expect(applyNegotiationMove(session(), { action: 'accept', actorId: 'buyer', at })).toEqual({ outcome: 'allowed', state: 'accepted' });
+    expect(applyNegotiationMove(session(), { action: 'reject', actorId: 'buyer', at })).toEqual({ outcome: 'allowed', state: 'rejected' });
+
+    // Walking away is open to either side; answering your own offer is not
+    expect(applyNegotiationMove(session(), { action: 'reject', actorId: 'seller', at })).toMatchObject({ outcome: 'allowed' });
+    expect(applyNegotiationMove(session(), { action: 'accept', actorId: 'seller', at })).toMatchObject({ code: 'NOT_YOUR_TURN' });
+    expect(applyNegotiationMove(session(), { action: 'counter', actorId: 'trader', at })).toMatchObject({ code: 'NOT_PARTICIPANT' });
+  });
+
+  it('refuses invalid transitions', () => {
+    const final = session({ state: 'final_offer', liveOffer: offer('seller', { offerType: 'final' }) });
+
+    expect(applyNegotiationMove(final, { action: 'counter', actorId: 'buyer', at })).toMatchObject({ code: 'FINAL_OFFER' });
+    expect(applyNegotiationMove(final, { action: 'accept', actorId: 'buyer', at })).toMatchObject({ state: 'accepted' });
+    expect(applyNegotiationMove(session({ state: 'accepted' }), { action: 'reject', actorId: 'buyer', at })).toMatchObject({ code: 'SESSION_CLOSED' });
+    expect(applyNegotiationMove(session(), { action: 'counter', actorId: 'buyer', inReplyTo: 'offer-0', at })).toMatchObject({ code: 'STALE_OFFER' });
+  });
+
+  it('expires a session only once its offer has lapsed', () => {
+    const later = new Date(at.getTime() + 2 * 60 * 60 * 1000);
+
+    expect(applyNegotiationMove(session(), { action: 'expire', at })).toMatchObject({ code: 'INVALID_TRANSITION' });
+    expect(applyNegotiationMove(session(), { action: 'expire', at: later })).toEqual({ outcome: 'allowed', state: 'expired' });
+    expect(applyNegotiationMove(session(), { action: 'accept', actorId: 'buyer', at: later })).toMatchObject({ code: 'OFFER_EXPIRED' });
+  });
+
+  it('clamps offer lifetimes', () => {
+    expect(offerExpiry(at).getTime() - at.getTime()).toBe(DEFAULT_OFFER_TTL_MS);
+    expect(offerExpiry(at, 30 * 24 * 60 * 60 * 1000).getTime() - at.getTime()).toBe(MAX_OFFER_TTL_MS);
+  });
+});
+
+describe('NegotiationSessionService', () => {
+  it('runs a negotiation to a deal and tells both participants', async () => {
+    const { pool, steps } = createFakePool();
+    const service = new NegotiationSessionService(pool);
+    const events: Array<{ vendorIds: string[]; event: NegotiationUpdateEvent }> = [];
+    service.setEventTransport({ publish: (vendorIds, event) => events.push({ vendorIds, event }) });
+
+    const opened = await service.openSession('seller', 'buyer', 'Onion', { proposedPrice: 2300, quantity: 50, currentMarketPrice: 2000 });
+    const countered = await service.counter(opened.sessionId, 'buyer', { proposedPrice: 2050, inReplyTo: opened.liveOffer!.offerId });
+    expect(countered).toMatchObject({ outcome: 'ok', session: { state: 'countering', liveOffer: { fromVendorId: 'buyer', quantity: 50 } } });
+
+    // The buyer cannot accept their own counter
+    expect(await service.accept(opened.sessionId, 'buyer')).toMatchObject({ outcome: 'rejected', code: 'NOT_YOUR_TURN' });
+
+    const accepted = await service.accept(opened.sessionId, 'seller');
+    expect(accepted).toMatchObject({
+      outcome: 'ok',
+      session: { state: 'accepted', status: 'completed', finalDeal: { agreedPrice: 2050, marketPriceAtTime: 2000, acceptedBy: 'seller' } }
+    });
+
+    expect(steps.map(step => step.action)).toEqual(['offer', 'counter', 'accept']);
+    expect(events.map(({ event }) => event.state)).toEqual(['opening', 'countering', 'accepted']);
+    expect(events[2].vendorIds).toEqual(['seller', 'buyer']);
+    expect(await service.reject(opened.sessionId, 'buyer')).toMatchObject({ outcome: 'rejected', code: 'SESSION_CLOSED' });
+  });
+
+  it('rejects replies to an expired offer and sweeps stale sessions', async () => {
+    const { pool, sessions, steps } = createFakePool();
+    const service = new NegotiationSessionService(pool);
+    const events: NegotiationUpdateEvent[] = [];
+    service.setEventTransport({ publish: (_vendorIds, event) => events.push(event) });
+
+    const first = await service.openSession('seller', 'buyer', 'Onion', { proposedPrice: 2300, quantity: 50 });
+    const second = await service.openSession('seller', 'buyer', 'Onion', { proposedPrice: 2300, quantity: 50 });
+    const lapsed = new Date(Date.now() - 1000);
+    for (const row of sessions.values()) {
+      const liveOffer = { ...JSON.parse(row.live_offer), expiresAt: lapsed };
+      Object.assign(row, { live_offer: JSON.stringify(liveOffer), offer_expires_at: lapsed });
+    }
+
+    const late = await service.counter(first.sessionId, 'buyer', { proposedPrice: 2100 });
+    expect(late).toMatchObject({ outcome: 'rejected', code: 'OFFER_EXPIRED', session: { state: 'expired' } });
+    expect(sessions.get(first.sessionId).state).toBe('expired');
+    expect(steps).toHaveLength(2);
+
+    expect(await service.expireStaleOffers()).toBe(1);
+    expect(sessions.get(second.sessionId)).toMatchObject({ state: 'expired', status: 'expired' });
+    expect(events.filter(event => event.action === 'expire').map(event => event.sessionId)).toEqual([first.sessionId, second.sessionId]);
+  });
+
+  it('maps recorded steps onto the state machine', async () => {
+    const { pool } = createFakePool();
+    const service = new NegotiationSessionService(pool);
+    const step = { stepId: 'step-1', sessionId: 'client-session', timestamp: at, aiAssistanceUsed: false };
+
+    const opened = await service.recordStep({ ...step, vendorId: 'seller', action: 'offer', offer: offer('seller', { expiresAt: undefined }) });
+    expect(opened).toMatchObject({ outcome: 'ok', session: { sessionId: 'client-session', state: 'opening' } });
+
+    expect(await service.recordStep({ ...step, vendorId: 'seller', action: 'accept' })).toMatchObject({ code: 'NOT_YOUR_TURN' });
+    expect(await service.recordStep({ ...step, sessionId: 'unknown', vendorId: 'buyer', action: 'accept' })).toEqual({ outcome: 'not_found' });
+    expect(await service.recordStep({ ...step, vendorId: 'buyer', action: 'reject' })).toMatchObject({ outcome: 'ok', session: { state: 'rejected' } });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Unit tests for the vendor price alert rules engine
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PriceAlertRulesService } from '../services/price-alert-rules.service';
+import { AGMARKNETPriceDiscoveryService } from '../services/price-discovery.service';
+import { PriceSourceRegistry, FixturePriceSourceAdapter } from '../services/price-sources.service';
+import { DatabaseManager } from '../config/database';
+import { PriceData } from '../types';
+
+vi.mock('../config/database');
+vi.mock('../config/environment', () => ({
+  config: {
+    externalApis: {
+      agmarknetApiKey: ''
+    }
+  }
+}));
+
+function ruleRow(overrides: Record<string, any> = {}) {
+  return {
+    id: '6f1c2a3e-0000-4000-8000-000000000001',
+    vendor_id: 'vendor-1',
+    name: null,
+    commodity: 'Onion',
+    market: null,
+    metric: 'modal_price',
+    operator: '>',
+    threshold: '2500.00',
+    window_days: 7,
+    cooldown_minutes: 360,
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    is_active: true,
+    last_triggered_at: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+function price(overrides: Partial<PriceData> = {}): PriceData {
+  return {
+    commodity: 'Onion',
+    currentPrice: 2600,
+    priceRange: { min: 2400, max: 2800, modal: 2600 },
+    lastUpdated: new Date(),
+    sources: ['AGMARKNET'],
+    volatility: 0.02,
+    market: 'Lasalgaon',
+    arrivals: 900,
+    ...overrides
+  };
+}
+
+// 10:00 IST
+const MORNING = new Date('2024-03-01T04:30:00Z');
+
+describe('PriceAlertRulesService', () => {
+  let mockDbClient: any;
+  let rules: any[];
+  let claimed: Set<string>;
+  let service: PriceAlertRulesService;
+
+  beforeEach(() => {
+    rules = [];
+    claimed = new Set();
+    mockDbClient = {
+      query: vi.fn().mockImplementation((sql: string, params: any[] = []) => {
+        if (sql.includes('FROM price_alert_rules')) return Promise.resolve({ rows: rules });
+        // The cooldown claim succeeds once per rule, as the conditional UPDATE would
+        if (sql.includes('SET last_triggered_at')) {
+          const [, ruleId] = params;
+          if (claimed.has(ruleId)) return Promise.resolve({ rows: [] });
+          claimed.add(ruleId);
+          return Promise.resolve({ rows: [{ id: ruleId }] });
+        }
+        if (sql.includes('AVG(modal_price)')) return Promise.resolve({ rows: [{ price: '3000' }] });
+        if (sql.includes('AVG(daily_arrivals)')) return Promise.resolve({ rows: [{ average: '400' }] });
+        return Promise.resolve({ rows: [], rowCount: 1 });
+      })
+    };
+    mockDbClient.connect = vi.fn().mockResolvedValue({ query: mockDbClient.query, release: vi.fn() });
+
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getRedisClient: () => ({
+        get: vi.fn().mockResolvedValue(null),
+        setEx: vi.fn()
+      }),
+      getPostgresClient: () => mockDbClient
+    } as any);
+
+    service = new PriceAlertRulesService();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const alertInserts = () =>
+    mockDbClient.query.mock.calls.filter((call: any[]) => String(call[0]).includes('INSERT INTO vendor_alerts'));
+
+  it('fires a market-specific price threshold and records the alert', async () => {
+    rules = [ruleRow({ market: 'lasalgaon' })];
+
+    const alerts = await service.evaluate(price(), MORNING);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].alertType).toBe('price_threshold');
+    expect(alerts[0].message).toContain('Lasalgaon');
+    expect(alertInserts()).toHaveLength(1);
+    expect(claimed.has(rules[0].id)).toBe(true);
+  });
+
+  it('fires once when two fetches evaluate the same rule at the same time', async () => {
+    rules = [ruleRow()];
+
+    const results = await Promise.all([service.evaluate(price(), MORNING), service.evaluate(price(), MORNING)]);
+
+    expect(results.map(alerts => alerts.length).sort()).toEqual([0, 1]);
+    expect(alertInserts()).toHaveLength(1);
+    const [claimSql] = mockDbClient.query.mock.calls.find((call: any[]) => String(call[0]).includes('SET last_triggered_at'));
+    expect(claimSql).toContain('last_triggered_at IS NULL OR last_triggered_at <=');
+    expect(claimSql).toContain('RETURNING id');
+  });
+
+  it('matches rules on the canonical commodity regardless of case', async () => {
+    mockDbClient.query.mockResolvedValueOnce({ rows: [ruleRow()] });
+    await service.createRule('vendor-1', { commodity: ' kanda ', metric: 'modal_price', operator: '>', threshold: 2500 });
+    expect(mockDbClient.query.mock.calls[0][1][2]).toBe('Onion');
+
+    rules = [ruleRow()];
+    await service.evaluate(price({ commodity: 'onion' }), MORNING);
+
+    const [sql, params] = mockDbClient.query.mock.calls.find((call: any[]) => String(call[0]).includes('FROM price_alert_rules WHERE'));
+    expect(sql).toContain('LOWER(commodity) = LOWER($1)');
+    expect(params).toEqual(['Onion']);
+  });
+
+  it('ignores updates from other markets', async () => {
+    rules = [ruleRow({ market: 'Pimpalgaon' })];
+
+    expect(await service.evaluate(price(), MORNING)).toHaveLength(0);
+  });
+
+  it('evaluates percentage change and arrivals spikes against history', async () => {
+    rules = [
+      ruleRow({ id: 'change', metric: 'change_percent', operator: '<', threshold: '-10' }),
+      ruleRow({ id: 'arrivals', metric: 'arrivals_ratio', operator: '>=', threshold: '2' })
+    ];
+
+    const alerts = await service.evaluate(price(), MORNING);
+
+    // 2600 vs 3000 a week ago is -13.3%; 900 arrivals vs a 400/day average is 2.25x
+    expect(alerts.map(a => a.currentValue)).toEqual([-13.33, 2.25]);
+    expect(alerts.every(a => a.alertType === 'market_change')).toBe(true);
+  });
+
+  it('measures history against the same canonical commodity, variety and grade', async () => {
+    rules = [ruleRow({ metric: 'change_percent', operator: '<', threshold: '-10' })];
+
+    await service.evaluate(price({ commodity: 'rice', variety: 'basmati', grade: 'Grade A' }), MORNING);
+
+    const [sql, params] = mockDbClient.query.mock.calls.find((call: any[]) => String(call[0]).includes('AVG(modal_price)'));
+    expect(sql).toContain('AND variety = $3 AND grade = $4');
+    expect(params).toEqual([7, 'Rice', 'Basmati', 'Grade A', 'Lasalgaon']);
+  });
+
+  it('rolls the cooldown claim back when the alert cannot be recorded', async () => {
+    rules = [ruleRow()];
+    const query = mockDbClient.query.getMockImplementation();
+    mockDbClient.query.mockImplementation((sql: string, params: any[]) =>
+      sql.includes('INSERT INTO vendor_alerts') ? Promise.reject(new Error('connection lost')) : query(sql, params));
+
+    await expect(service.evaluate(price(), MORNING)).rejects.toThrow('connection lost');
+
+    const statements = mockDbClient.query.mock.calls.map((call: any[]) => String(call[0]).trim());
+    expect(statements.slice(-4, -2)).toEqual(['BEGIN', expect.stringContaining('SET last_triggered_at')]);
+    expect(statements[statements.length - 1]).toBe('ROLLBACK');
+    expect(statements).not.toContain('COMMIT');
+  });
+
+  it('respects the cooldown after a rule fires', async () => {
+    rules = [ruleRow({ cooldown_minutes: 60, last_triggered_at: new Date(MORNING.getTime() - 30 * 60 * 1000) })];
+    expect(await service.evaluate(price(), MORNING)).toHaveLength(0);
+
+    rules = [ruleRow({ cooldown_minutes: 60, last_triggered_at: new Date(MORNING.getTime() - 90 * 60 * 1000) })];
+    expect(await service.evaluate(price(), MORNING)).toHaveLength(1);
+  });
+
+  it('stays silent during quiet hours, including windows that wrap past midnight', async () => {
+    const rule = {
+      id: 'rule-1',
+      vendorId: 'vendor-1',
+      commodity: 'Onion',
+      metric: 'modal_price' as const,
+      operator: '>' as const,
+      threshold: 2500,
+      windowDays: 7,
+      cooldownMinutes: 360,
+      quietHours: { start: '22:00', end: '06:00' },
+      isActive: true,
+      createdAt: MORNING,
+      updatedAt: MORNING
+    };
+
+    expect(service.isInQuietHours(rule, new Date('2024-03-01T17:00:00Z'))).toBe(true);  // 22:30 IST
+    expect(service.isInQuietHours(rule, new Date('2024-03-01T23:00:00Z'))).toBe(true);  // 04:30 IST
+    expect(service.isInQuietHours(rule, MORNING)).toBe(false);
+
+    rules = [ruleRow({ quiet_hours_start: '09:00', quiet_hours_end: '11:00' })];
+    expect(await service.evaluate(price(), MORNING)).toHaveLength(0);
+    expect(alertInserts()).toHaveLength(0);
+  });
+
+  it('only updates the fields that were sent', async () => {
+    mockDbClient.query.mockResolvedValueOnce({ rows: [ruleRow({ threshold: '2800' })] });
+
+    const updated = await service.updateRule('vendor-1', 'rule-1', { threshold: 2800, quietHours: null });
+
+    const [sql, values] = mockDbClient.query.mock.calls[0];
+    expect(sql).toContain('threshold = $1, quiet_hours_start = $2, quiet_hours_end = $3');
+    expect(values).toEqual([2800, null, null, 'rule-1', 'vendor-1']);
+    expect(updated?.threshold).toBe(2800);
+  });
+});
+
+describe('AGMARKNETPriceDiscoveryService alert rule hook', () => {
+  it('evaluates alert rules when a fresh price is fetched', async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [] });
+
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getRedisClient: () => ({
+        get: vi.fn().mockResolvedValue(null),
+        setEx: vi.fn(),
+        del: vi.fn()
+      }),
+      getPostgresClient: () => ({ query })
+    } as any);
+
+    const registry = new PriceSourceRegistry();
+    registry.register(new FixturePriceSourceAdapter('apmc', 'State APMC', [{
+      commodity: 'Onion',
+      market: 'Lasalgaon',
+      state: 'Maharashtra',
+      date: new Date('2024-01-15'),
+      minPrice: 2400,
+      maxPrice: 2800,
+      modalPrice: 2600,
+      arrivals: 900
+    }]));
+
+    await new AGMARKNETPriceDiscoveryService(registry).getCurrentPrice('Onion', 'Lasalgaon');
+
+    expect(query.mock.calls.some((call: any[]) => String(call[0]).includes('FROM price_alert_rules'))).toBe(true);
+  });
+});
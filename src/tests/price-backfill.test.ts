@@ -0,0 +1,128 @@
+/**
+ * Unit tests for historical price backfill: parsing, validation and quarantine
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PriceBackfillService } from '../services/price-backfill.service';
+import { DatabaseManager } from '../config/database';
+import { parseCsv } from '../utils/csv';
+
+vi.mock('../config/database');
+
+const header = 'State,District,Market,Commodity,Variety,Grade,Arrival_Date,Min_Price,Max_Price,Modal_Price';
+
+function csvRow(date: string, min: number, max: number, modal: number, market: string = 'Lasalgaon'): string {
+  return `Maharashtra,Nashik,${market},Onion,Red,FAQ,${date},${min},${max},${modal}`;
+}
+
+describe('PriceBackfillService', () => {
+  let mockClient: any;
+  let service: PriceBackfillService;
+
+  beforeEach(() => {
+    mockClient = {
+      query: vi.fn().mockResolvedValue({ rows: [] }),
+      release: vi.fn()
+    };
+
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getPostgresClient: () => ({ connect: vi.fn().mockResolvedValue(mockClient) })
+    } as any);
+
+    service = new PriceBackfillService();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const insertsInto = (table: string) =>
+    mockClient.query.mock.calls.filter((call: any[]) => new RegExp(`INSERT INTO ${table}\\s`).test(String(call[0])));
+
+  it('parses AGMARKNET day-first dates and rejects impossible ones', () => {
+    expect(service.parseArrivalDate('15/01/2024')?.toISOString().slice(0, 10)).toBe('2024-01-15');
+    expect(service.parseArrivalDate('2024-01-15')?.toISOString().slice(0, 10)).toBe('2024-01-15');
+    expect(service.parseArrivalDate('31/02/2024')).toBeNull();
+    expect(service.parseArrivalDate('')).toBeNull();
+  });
+
+  it('accepts data.gov.in JSON dumps', () => {
+    const rows = service.parseJsonDump(JSON.stringify({
+      records: [{ State: 'Punjab', Market: 'Khanna', Commodity: 'Wheat', Arrival_Date: '10/04/2024', Min_x0020_Price: 2200, Max_x0020_Price: 2400, Modal_x0020_Price: 2275 }]
+    }));
+
+    const parsed = service.parseRow(rows[0]);
+    expect(parsed.market).toBe('Khanna');
+    expect(parsed.modalPrice).toBe(2275);
+    expect(parsed.grade).toBe('FAQ');
+  });
+
+  it('imports valid rows and quarantines invalid and anomalous ones instead of dropping them', async () => {
+    const csv = [
+      header,
+      csvRow('01/01/2024', 1200, 1600, 1400),
+      csvRow('02/01/2024', 1250, 1650, 1450),
+      csvRow('03/01/2024', 1200, 1500, 1380),
+      csvRow('04/01/2024', 3000, 3800, 3500), // spike vs. a ~1400 median
+      csvRow('05/01/2024', 1700, 1600, 1650), // min above max
+      csvRow('not-a-date', 1200, 1600, 1400)
+    ].join('\n');
+
+    const progress: number[] = [];
+    const result = await service.importRows(parseCsv(csv), {
+      source: 'lasalgaon.csv',
+      batchSize: 2,
+      onProgress: p => progress.push(p.processed)
+    });
+
+    expect(result.total).toBe(6);
+    expect(result.imported).toBe(3);
+    expect(result.quarantined).toBe(3);
+    expect(result.quarantineReasons).toEqual({
+      deviation_from_median: 1,
+      invalid_price_range: 1,
+      invalid_date: 1
+    });
+    expect(progress).toEqual([2, 4, 6]);
+
+    expect(insertsInto('market_data')).toHaveLength(3);
+    expect(insertsInto('market_data_quarantine')).toHaveLength(3);
+    expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+  });
+
+  it('is idempotent: upserts on the natural key and hashes quarantined rows deterministically', async () => {
+    const csv = [header, csvRow('01/01/2024', 1200, 1600, 1400), csvRow('02/01/2024', 1700, 1600, 1650)].join('\n');
+
+    await service.importRows(parseCsv(csv));
+    await service.importRows(parseCsv(csv));
+
+    const upserts = insertsInto('market_data');
+    expect(upserts[0][0]).toContain('ON CONFLICT (commodity, variety, grade, market, date) DO UPDATE');
+
+    const quarantineHashes = insertsInto('market_data_quarantine').map((call: any[]) => call[1][14]);
+    expect(quarantineHashes).toHaveLength(2);
+    expect(quarantineHashes[0]).toBe(quarantineHashes[1]);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const csv = [header, csvRow('01/01/2024', 1200, 1600, 1400)].join('\n');
+
+    const result = await service.importRows(parseCsv(csv), { dryRun: true });
+
+    expect(result.imported).toBe(1);
+    expect(result.dryRun).toBe(true);
+    expect(mockClient.query).not.toHaveBeenCalled();
+  });
+
+  it('rolls back the batch when the database rejects it', async () => {
+    mockClient.query.mockImplementation((sql: string) =>
+      String(sql).includes('INSERT INTO market_data ') ? Promise.reject(new Error('db down')) : Promise.resolve({ rows: [] })
+    );
+
+    const csv = [header, csvRow('01/01/2024', 1200, 1600, 1400)].join('\n');
+
+    await expect(service.importRows(parseCsv(csv))).rejects.toThrow('db down');
+    expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+});
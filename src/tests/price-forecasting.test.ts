@@ -0,0 +1,160 @@
+/**
+ * Unit tests for seasonal price forecasting and backtesting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PriceForecastingService, PriceObservation } from '../services/price-forecasting.service';
+import { AGMARKNETPriceDiscoveryService } from '../services/price-discovery.service';
+import { PriceSourceRegistry } from '../services/price-sources.service';
+import { DatabaseManager } from '../config/database';
+
+vi.mock('../config/database');
+vi.mock('../config/environment', () => ({
+  config: {
+    externalApis: {
+      agmarknetApiKey: ''
+    }
+  }
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Onion-like series: prices peak in Oct-Dec, dip in Mar-May, Mondays run 4% high
+function seasonalSeries(endDate: string, days: number, noise: number = 0.01): PriceObservation[] {
+  const end = new Date(endDate).getTime();
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648 - 0.5;
+  };
+
+  const series: PriceObservation[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(end - i * DAY_MS);
+    const dayOfYear = (date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS;
+    const annual = 0.25 * Math.cos(((dayOfYear - 320) / 365) * 2 * Math.PI);
+    const weekly = date.getUTCDay() === 1 ? 0.04 : 0;
+    const trend = 0.0002 * (days - i);
+    series.push({ date, price: 1500 * Math.exp(annual + weekly + trend + noise * random()) });
+  }
+  return series;
+}
+
+describe('PriceForecastingService', () => {
+  const forecaster = new PriceForecastingService();
+
+  it('produces 1/2/4/12-week forecasts with widening prediction intervals', () => {
+    const forecast = forecaster.forecast('Onion', seasonalSeries('2024-06-30', 730))!;
+
+    expect(forecast.horizons.map(h => h.weeksAhead)).toEqual([1, 2, 4, 12]);
+    for (const point of forecast.horizons) {
+      expect(point.lower).toBeLessThan(point.price);
+      expect(point.upper).toBeGreaterThan(point.price);
+    }
+
+    const widths = forecast.horizons.map(h => (h.upper - h.lower) / h.price);
+    expect(widths).toEqual([...widths].sort((a, b) => a - b));
+    expect(forecast.intervalLevel).toBe(0.8);
+  });
+
+  it('recovers weekly and annual seasonality', () => {
+    const forecast = forecaster.forecast('Onion', seasonalSeries('2024-06-30', 730))!;
+    const { weeklyEffects, annualEffects } = forecast.decomposition;
+
+    expect(weeklyEffects![1]).toBeGreaterThan(3);
+    expect(Math.abs(weeklyEffects![3])).toBeLessThan(1.5);
+
+    // November is the peak month, April the trough
+    expect(annualEffects![10]).toBeGreaterThan(15);
+    expect(annualEffects![3]).toBeLessThan(-15);
+
+    // The 12-week forecast from June lands in the September climb
+    const twelveWeeks = forecast.horizons.find(h => h.weeksAhead === 12)!;
+    expect(twelveWeeks.price).toBeGreaterThan(forecast.horizons[0].price);
+  });
+
+  it('classifies the current month as peak, off-peak or normal', () => {
+    expect(forecaster.forecast('Onion', seasonalSeries('2024-11-20', 730))!.seasonality).toBe('peak');
+    expect(forecaster.forecast('Onion', seasonalSeries('2024-04-15', 730))!.seasonality).toBe('off-peak');
+  });
+
+  it('leaves out seasonal components the history cannot support', () => {
+    const short = forecaster.forecast('Onion', seasonalSeries('2024-06-30', 60))!;
+    expect(short.decomposition.annualEffects).toBeNull();
+    expect(short.decomposition.weeklyEffects).not.toBeNull();
+    expect(short.seasonality).toBe('normal');
+
+    expect(forecaster.forecast('Onion', seasonalSeries('2024-06-30', 5))).toBeNull();
+  });
+
+  it('averages multiple markets into one price per day', () => {
+    const history = seasonalSeries('2024-06-30', 30, 0).flatMap(({ date, price }) => [
+      { date, price: price * 0.9 },
+      { date, price: price * 1.1 }
+    ]);
+
+    const forecast = forecaster.forecast('Onion', history)!;
+    expect(forecast.decomposition.observations).toBe(30);
+  });
+
+  it('backtests each horizon and beats a naive forecast on seasonal data', () => {
+    const backtest = forecaster.backtest('Onion', seasonalSeries('2024-06-30', 730, 0.04))!;
+
+    expect(backtest.origins).toBe(26);
+    // Only origins at least 12 weeks back have an actual to compare against
+    const twelveWeeks = backtest.horizons.find(h => h.weeksAhead === 12)!;
+    expect(twelveWeeks.samples).toBe(15);
+    expect(twelveWeeks.mape!).toBeLessThan(twelveWeeks.naiveMape!);
+    expect(twelveWeeks.rmse!).toBeGreaterThanOrEqual(twelveWeeks.mae!);
+
+    for (const horizon of backtest.horizons) {
+      expect(horizon.intervalCoverage).toBeGreaterThanOrEqual(0);
+      expect(horizon.intervalCoverage).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('reports empty metrics when history is too short to backtest', () => {
+    const backtest = forecaster.backtest('Onion', seasonalSeries('2024-06-30', 30))!;
+
+    expect(backtest.origins).toBe(0);
+    expect(backtest.horizons.every(h => h.samples === 0 && h.mape === null)).toBe(true);
+  });
+});
+
+describe('AGMARKNETPriceDiscoveryService trends', () => {
+  beforeEach(() => {
+    const recent = seasonalSeries(new Date().toISOString().slice(0, 10), 400);
+
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getRedisClient: () => ({
+        get: vi.fn().mockResolvedValue(null),
+        setEx: vi.fn()
+      }),
+      getPostgresClient: () => ({
+        query: vi.fn().mockImplementation((sql: string) => {
+          if (sql.includes('GROUP BY date')) {
+            return Promise.resolve({ rows: recent.map(({ date, price }) => ({ date, price: price.toFixed(2) })) });
+          }
+          if (sql.includes('FROM market_data')) {
+            const lastMonth = recent.slice(-30).reverse();
+            return Promise.resolve({ rows: lastMonth.map(({ date, price }) => ({ date, price: price.toFixed(2), arrivals: '100', market: 'Lasalgaon' })) });
+          }
+          return Promise.resolve({ rows: [] });
+        })
+      })
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('adds multi-horizon forecasts and computed seasonality to trend analysis', async () => {
+    const service = new AGMARKNETPriceDiscoveryService(new PriceSourceRegistry());
+    const trends = await service.getPriceTrends('Onion');
+
+    expect(trends.prediction.horizons).toHaveLength(4);
+    expect(trends.prediction.nextWeek).toBe(trends.prediction.horizons![0].price);
+    expect(['peak', 'off-peak', 'normal']).toContain(trends.seasonality);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for price provenance and the explain trail
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AGMARKNETPriceDiscoveryService } from '../services/price-discovery.service';
+import { PriceSourceRegistry, FixturePriceSourceAdapter, SourcePriceRecord } from '../services/price-sources.service';
+import { DatabaseManager } from '../config/database';
+
+vi.mock('../config/database');
+vi.mock('../config/environment', () => ({
+  config: {
+    externalApis: {
+      agmarknetApiKey: ''
+    }
+  }
+}));
+
+function record(modalPrice: number, overrides: Partial<SourcePriceRecord> = {}): SourcePriceRecord {
+  return {
+    commodity: 'Onion',
+    variety: 'Red',
+    grade: 'FAQ',
+    market: 'Lasalgaon',
+    state: 'Maharashtra',
+    date: new Date('2024-01-15'),
+    minPrice: modalPrice - 200,
+    maxPrice: modalPrice + 200,
+    modalPrice,
+    arrivals: 500,
+    ...overrides
+  };
+}
+
+describe('AGMARKNETPriceDiscoveryService provenance', () => {
+  let query: any;
+  let cache: Map<string, string>;
+  let service: AGMARKNETPriceDiscoveryService;
+
+  beforeEach(() => {
+    query = vi.fn().mockResolvedValue({ rows: [] });
+    cache = new Map();
+
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getRedisClient: () => ({
+        get: vi.fn().mockImplementation((key: string) => Promise.resolve(cache.get(key) || null)),
+        setEx: vi.fn().mockImplementation((key: string, _ttl: number, value: string) => {
+          cache.set(key, value);
+          return Promise.resolve();
+        }),
+        del: vi.fn()
+      }),
+      getPostgresClient: () => ({ query })
+    } as any);
+
+    const registry = new PriceSourceRegistry();
+    registry.register(new FixturePriceSourceAdapter('apmc', 'State APMC', [record(2600)], 0.6));
+    registry.register(new FixturePriceSourceAdapter('enam', 'eNAM', [record(2700)], 0.4));
+    registry.register(new FixturePriceSourceAdapter('private', 'Private Feed', [record(4000)], 0.4));
+    registry.register(new FixturePriceSourceAdapter('grade-a', 'Export Feed', [record(3200, { grade: 'Grade A' })], 0.2));
+
+    service = new AGMARKNETPriceDiscoveryService(registry);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('records every input quote and why it was dropped', async () => {
+    const price = await service.getCurrentPrice('Onion', 'Lasalgaon');
+    const inputs = price.provenance!.inputs;
+    const bySource = (name: string) => inputs.find(input => input.source === name)!;
+
+    expect(price.provenance!.servedFrom).toBe('live');
+    expect(price.provenance!.method).toBe('trust_weighted_mean');
+    expect(bySource('State APMC').included).toBe(true);
+    expect(bySource('eNAM').included).toBe(true);
+    expect(bySource('Private Feed').included).toBe(false);
+    expect(bySource('Private Feed').rejectionReason).toContain('from the median 2700');
+    expect(bySource('Export Feed').included).toBe(false);
+    expect(bySource('Export Feed').rejectionReason).toContain('variety/grade');
+    expect(price.currentPrice).toBe(2640);
+  });
+
+  it('stores the computation so it can be looked up later', async () => {
+    const price = await service.getCurrentPrice('Onion', 'Lasalgaon');
+
+    const insert = query.mock.calls.find((call: any[]) => String(call[0]).includes('INSERT INTO price_provenance'));
+    expect(insert[1][0]).toBe(price.provenance!.id);
+    expect(JSON.parse(insert[1][6]).currentPrice).toBe(price.currentPrice);
+  });
+
+  it('reports cache hits with the original computation and its age', async () => {
+    const live = await service.getCurrentPrice('Onion', 'Lasalgaon');
+    const cached = await service.getCurrentPrice('Onion', 'Lasalgaon');
+
+    expect(cached.provenance!.servedFrom).toBe('cache');
+    expect(cached.provenance!.id).toBe(live.provenance!.id);
+    expect(cached.provenance!.ageMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('falls back to stored data for the requested variety and grade only', async () => {
+    const offline = new AGMARKNETPriceDiscoveryService(new PriceSourceRegistry());
+    cache.set('price:Rice:Lasalgaon:basmati:FAQ', JSON.stringify({
+      data: { commodity: 'Rice', currentPrice: 5000 },
+      timestamp: new Date(Date.now() - 6 * 60 * 60 * 1000)
+    }));
+    query.mockImplementation((sql: string) => Promise.resolve({
+      rows: sql.includes('FROM market_data WHERE commodity = $1 AND LOWER(variety)')
+        ? [{ commodity: 'Rice', variety: 'Basmati', grade: 'FAQ', date: new Date(), min_price: '4800', max_price: '5400', modal_price: '5100' }]
+        : []
+    }));
+
+    const price = await offline.getCurrentPrice('Rice', 'Lasalgaon', { variety: 'basmati', grade: 'FAQ' });
+
+    const fallback = query.mock.calls.find((call: any[]) => String(call[0]).includes('ORDER BY date DESC LIMIT 1'));
+    expect(fallback[1]).toEqual(['Rice', 'Basmati', 'FAQ']);
+    expect(price.provenance!.servedFrom).toBe('database');
+    expect(price.variety).toBe('Basmati');
+    expect(price.currentPrice).toBe(5100);
+  });
+
+  it('serves stored prices without fetching from the sources', async () => {
+    const live = await service.getCurrentPrice('Onion');
+    query.mockClear();
+
+    expect((await service.getStoredPrice('kanda'))!.currentPrice).toBe(live.currentPrice);
+    expect(query).not.toHaveBeenCalled();
+
+    query.mockResolvedValueOnce({
+      rows: [{
+        commodity: 'Potato', variety: 'Jyoti', grade: 'FAQ', market: 'Agra', date: '2024-01-15',
+        min_price: '1100', max_price: '1300', modal_price: '1200', sources: '["State APMC"]', arrivals: '300'
+      }]
+    });
+
+    const stored = await service.getStoredPrice('Potato');
+    expect(stored!.currentPrice).toBe(1200);
+    expect(stored!.sources).toEqual(['State APMC']);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('explains the price in plain language', async () => {
+    const lines = service.describeProvenance(await service.getCurrentPrice('Onion', 'Lasalgaon'));
+
+    expect(lines[0]).toContain('computed live');
+    expect(lines.some(line => line.startsWith('Private Feed: ₹4000 dropped'))).toBe(true);
+    expect(lines[lines.length - 1]).toContain('trust weight');
+  });
+});
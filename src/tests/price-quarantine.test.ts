@@ -0,0 +1,218 @@
+/**
+ * Unit tests for price screening, quarantine and the admin review workflow
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PriceQuarantineService, SeriesPricePoint } from '../services/price-quarantine.service';
+import { AGMARKNETPriceDiscoveryService } from '../services/price-discovery.service';
+import { PriceSourceRegistry, FixturePriceSourceAdapter } from '../services/price-sources.service';
+import { DatabaseManager } from '../config/database';
+
+vi.mock('../config/database');
+vi.mock('../config/environment', () => ({
+  config: {
+    externalApis: {
+      agmarknetApiKey: ''
+    }
+  }
+}));
+
+function historyRow(modalPrice: number, daysAgo: number) {
+  return {
+    date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+    min_price: String(modalPrice - 100),
+    max_price: String(modalPrice + 100),
+    modal_price: String(modalPrice),
+    sources: ['State APMC']
+  };
+}
+
+function quarantineRow(overrides: Record<string, any> = {}) {
+  return {
+    id: 7,
+    commodity: 'Onion',
+    variety: 'Red',
+    grade: 'FAQ',
+    market: 'Lasalgaon',
+    state: 'Maharashtra',
+    date: '2024-01-15',
+    min_price: '24800.00',
+    max_price: '25200.00',
+    modal_price: '25000.00',
+    arrivals: 500,
+    reason: 'anomaly',
+    details: 'deviation_from_median',
+    baseline_price: '2500.00',
+    source: 'live:State APMC',
+    status: 'pending',
+    raw_data: { sources: ['State APMC'] },
+    created_at: '2024-01-15T06:00:00Z',
+    ...overrides
+  };
+}
+
+describe('PriceQuarantineService screening', () => {
+  const history: SeriesPricePoint[] = [2500, 2450, 2550, 2600].map((price, index) => ({
+    date: new Date(Date.UTC(2024, 0, 14 - index)),
+    minPrice: price - 100,
+    maxPrice: price + 100,
+    modalPrice: price,
+    sources: ['State APMC']
+  }));
+
+  it('flags prices far from the series median', () => {
+    const service = new PriceQuarantineService({ query: vi.fn() } as any);
+    const price = (modal: number) => ({ currentPrice: modal, priceRange: { min: modal - 100, max: modal + 100, modal } });
+
+    expect(service.checkPrice(price(2700), history)).toBeNull();
+    expect(service.checkPrice(price(25000), history)).toEqual({
+      reason: 'anomaly',
+      details: 'deviation_from_median',
+      baselinePrice: 2550
+    });
+    expect(service.checkPrice({ currentPrice: 2500, priceRange: { min: 2600, max: 2400, modal: 2500 } }, history)!.reason).toBe('invalid');
+  });
+
+  it('needs a few days of history before flagging anomalies', () => {
+    const service = new PriceQuarantineService({ query: vi.fn() } as any);
+
+    expect(service.checkPrice({ currentPrice: 25000, priceRange: { min: 24800, max: 25200, modal: 25000 } }, history.slice(0, 2))).toBeNull();
+  });
+});
+
+describe('PriceQuarantineService review', () => {
+  it('approves with corrected prices and writes them to market_data', async () => {
+    const clientQuery = vi.fn().mockImplementation((sql: string, params: any[]) => {
+      if (sql.includes('FOR UPDATE')) return Promise.resolve({ rows: [quarantineRow()] });
+      if (sql.includes('UPDATE market_data_quarantine')) {
+        return Promise.resolve({
+          rows: [quarantineRow({ status: 'approved', min_price: params[1], max_price: params[2], modal_price: params[3], reviewed_by: params[4] })]
+        });
+      }
+      return Promise.resolve({ rows: [] });
+    });
+    const release = vi.fn();
+    const service = new PriceQuarantineService({ connect: vi.fn().mockResolvedValue({ query: clientQuery, release }) } as any);
+
+    const result = await service.approve(7, 'admin-1', { minPrice: 2480, maxPrice: 2520, modalPrice: 2500, note: 'Decimal slip' });
+
+    expect(result.outcome).toBe('approved');
+    expect(result.entry).toMatchObject({ status: 'approved', modalPrice: 2500, reviewedBy: 'admin-1' });
+
+    const insert = clientQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO market_data'))!;
+    expect(insert[1].slice(6, 9)).toEqual([2480, 2520, 2500]);
+    expect(JSON.parse(insert[1][10])).toEqual(['State APMC', 'quarantine:approved']);
+    expect(clientQuery).toHaveBeenLastCalledWith('COMMIT');
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('does not approve entries that were already reviewed or lack a valid price', async () => {
+    const rows = [quarantineRow({ status: 'rejected' }), quarantineRow({ min_price: null })];
+    const clientQuery = vi.fn().mockImplementation((sql: string) =>
+      Promise.resolve({ rows: sql.includes('FOR UPDATE') ? [rows.shift()] : [] })
+    );
+    const service = new PriceQuarantineService({ connect: vi.fn().mockResolvedValue({ query: clientQuery, release: vi.fn() }) } as any);
+
+    expect((await service.approve(7, 'admin-1')).outcome).toBe('already_reviewed');
+    expect((await service.approve(7, 'admin-1')).outcome).toBe('incomplete');
+    expect(clientQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO market_data'))).toBe(false);
+  });
+
+  it('rejects only pending entries', async () => {
+    const query = vi.fn()
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [quarantineRow({ status: 'approved' })] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+    const service = new PriceQuarantineService({ query } as any);
+
+    expect((await service.reject(7, 'admin-1')).outcome).toBe('already_reviewed');
+    expect((await service.reject(8, 'admin-1')).outcome).toBe('not_found');
+  });
+});
+
+describe('AGMARKNETPriceDiscoveryService quarantine', () => {
+  let query: any;
+  let cache: Map<string, string>;
+
+  beforeEach(() => {
+    cache = new Map();
+    query = vi.fn().mockImplementation((sql: string) => Promise.resolve({
+      rows: sql.includes('FROM market_data') && sql.includes('variety = $3')
+        ? [historyRow(2500, 1), historyRow(2450, 2), historyRow(2550, 3)]
+        : []
+    }));
+
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getRedisClient: () => ({
+        get: vi.fn().mockImplementation((key: string) => Promise.resolve(cache.get(key) || null)),
+        setEx: vi.fn().mockImplementation((key: string, _ttl: number, value: string) => {
+          cache.set(key, value);
+          return Promise.resolve();
+        }),
+        keys: vi.fn().mockImplementation((pattern: string) => Promise.resolve(
+          [...cache.keys()].filter(key => key.startsWith(pattern.replace(/\*$/, '')))
+        )),
+        del: vi.fn().mockImplementation((keys: string[]) => {
+          keys.forEach(key => cache.delete(key));
+          return Promise.resolve();
+        })
+      }),
+      getPostgresClient: () => ({ query })
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('quarantines an outlier and serves the last accepted price instead', async () => {
+    const registry = new PriceSourceRegistry();
+    registry.register(new FixturePriceSourceAdapter('apmc', 'State APMC', [{
+      commodity: 'Onion',
+      variety: 'Red',
+      grade: 'FAQ',
+      market: 'Lasalgaon',
+      state: 'Maharashtra',
+      date: new Date(),
+      minPrice: 24800,
+      maxPrice: 25200,
+      modalPrice: 25000,
+      arrivals: 500
+    }], 0.6));
+    const service = new AGMARKNETPriceDiscoveryService(registry);
+
+    const price = await service.getCurrentPrice('Onion', 'Lasalgaon');
+
+    expect(price.currentPrice).toBe(2500);
+    expect(price.provenance!.method).toBe('stored');
+    expect(price.provenance!.notes!.join(' ')).toContain('Quote of ₹25000 quarantined');
+
+    const statements = query.mock.calls.map(([sql]: [string]) => sql);
+    expect(statements.some((sql: string) => sql.includes('INSERT INTO market_data_quarantine'))).toBe(true);
+    expect(statements.some((sql: string) => /INSERT INTO market_data \(/.test(sql))).toBe(false);
+
+    const provenanceInsert = query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO price_provenance'));
+    expect(provenanceInsert![1][0]).toBe(price.provenance!.id);
+    expect(provenanceInsert![1][5]).toBe(2500);
+  });
+
+  it('clears cached prices and forecasts under the catalogue name after a correction', async () => {
+    const service = new AGMARKNETPriceDiscoveryService(new PriceSourceRegistry());
+    [
+      'price:Onion:all',
+      'price_history:Onion:30',
+      'price_trends:Onion',
+      'price_forecast:Onion',
+      'price_forecast:Onion:red:FAQ',
+      'price_forecast_backtest:Onion',
+      'price_forecast:Potato'
+    ].forEach(key => cache.set(key, '{}'));
+
+    await service.recalculateAfterCorrection('kanda');
+
+    // Anything left under Onion was recomputed by the recalculation itself
+    const stale = [...cache.entries()].filter(([, value]) => value === '{}').map(([key]) => key);
+    expect(stale).toEqual(['price_forecast:Potato']);
+  });
+});
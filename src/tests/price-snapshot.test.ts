@@ -0,0 +1,172 @@
+/**
+ * Unit tests for signed offline price snapshots and their incremental diffs
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { PriceSnapshotService } from '../services/price-snapshot.service';
+import { PriceSnapshotDiff } from '../types';
+
+vi.mock('../config/database');
+
+const signingKeyPem = generateKeyPairSync('ed25519').privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+function day(daysAgo: number, modalPrice: number) {
+  return {
+    date: new Date(Date.UTC(2024, 0, 31 - daysAgo)),
+    modalPrice,
+    minPrice: modalPrice - 100,
+    maxPrice: modalPrice + 100,
+    markets: 3
+  };
+}
+
+function seriesRows(commodity: string, prices: number[]) {
+  return prices.map((price, index) => ({
+    commodity,
+    date: new Date(Date.UTC(2024, 0, index + 1)),
+    modal_price: String(price),
+    min_price: String(price - 100),
+    max_price: String(price + 100),
+    markets: '2'
+  }));
+}
+
+/**
+ * Pool stand-in keeping price_snapshot_bundles in memory; market data comes from `series`,
+ * keyed by state ('' for national queries). `racing` bundles are stored by a concurrent request
+ * just as the next insert runs, taking the version it allocates.
+ */
+function createPool(series: Record<string, any[]>, vendor: { state?: string; followed?: string[] } = {}) {
+  const bundles: any[] = [];
+  const racing: any[] = [];
+  const query = vi.fn().mockImplementation((sql: string, params: any[]) => {
+    if (sql.includes('FROM vendors')) return Promise.resolve({ rows: [{ state: vendor.state }] });
+    if (sql.includes('FROM price_alerts')) {
+      return Promise.resolve({ rows: (vendor.followed || []).map(commodity => ({ commodity })) });
+    }
+    if (sql.includes('FROM market_data')) {
+      const rows = (series[params[2] || ''] || []).filter(row => params[0].includes(row.commodity));
+      return Promise.resolve({ rows });
+    }
+    if (sql.includes('INSERT INTO price_snapshot_bundles')) {
+      const version = Math.max(0, ...bundles.map(bundle => bundle.version)) + 1;
+      const competitor = racing.shift();
+      if (competitor) {
+        bundles.push({ ...competitor, version });
+        return Promise.resolve({ rows: [] });
+      }
+      bundles.push({ version, state: params[1], commodities: params[2], entries: params[3], content_hash: params[4] });
+      return Promise.resolve({ rows: [{ version }] });
+    }
+    if (sql.includes('DELETE FROM price_snapshot_bundles')) {
+      bundles.splice(0, bundles.length, ...bundles.filter(bundle => bundle.version > params[1]));
+      return Promise.resolve({ rows: [] });
+    }
+    if (sql.includes('FROM price_snapshot_bundles')) {
+      const matching = bundles
+        .filter(bundle => params[1] === null || bundle.version === params[1])
+        .sort((a, b) => b.version - a.version);
+      return Promise.resolve({ rows: matching.slice(0, 1) });
+    }
+    return Promise.resolve({ rows: [] });
+  });
+
+  return { pool: { query } as any, bundles, racing };
+}
+
+describe('PriceSnapshotService summaries', () => {
+  const service = new PriceSnapshotService({ query: vi.fn() } as any, signingKeyPem);
+
+  it('derives trend, change and 30-day range from the daily series', () => {
+    const entry = service.summariseSeries('Onion', [day(10, 2000), day(9, 2000), day(3, 2300), day(0, 2500)], 'regional');
+
+    expect(entry).toEqual({
+      commodity: 'Onion',
+      scope: 'regional',
+      currentPrice: 2500,
+      priceRange: { min: 1900, max: 2600 },
+      trend: 'rising',
+      changePercent: 20,
+      markets: 3,
+      lastUpdated: '2024-01-31'
+    });
+    expect(service.summariseSeries('Onion', [day(10, 2000), day(0, 2020)], 'national')!.trend).toBe('stable');
+    expect(service.summariseSeries('Onion', [], 'national')).toBeNull();
+  });
+
+  it('diffs entries by commodity', () => {
+    const onion = service.summariseSeries('Onion', [day(0, 2500)], 'regional')!;
+    const rice = service.summariseSeries('Rice', [day(0, 3000)], 'regional')!;
+    const wheat = service.summariseSeries('Wheat', [day(0, 2200)], 'regional')!;
+
+    expect(service.diffEntries([onion, rice], [{ ...onion, currentPrice: 2600 }, wheat])).toEqual({
+      upserts: [{ ...onion, currentPrice: 2600 }, wheat],
+      removed: ['Rice']
+    });
+  });
+});
+
+describe('PriceSnapshotService bundles', () => {
+  it('serves a signed full bundle, then a diff against the version the client holds', async () => {
+    const series: Record<string, any[]> = {
+      Maharashtra: [...seriesRows('Onion', [2400, 2500]), ...seriesRows('Rice', [3000, 3000])]
+    };
+    const { pool } = createPool(series, { state: 'Maharashtra', followed: ['onion', 'Rice', 'Vegetables'] });
+    const service = new PriceSnapshotService(pool, signingKeyPem);
+
+    const first = await service.getSnapshot('vendor-1');
+
+    expect(first.snapshot).toMatchObject({ type: 'full', version: 1, region: { state: 'Maharashtra' }, commodities: ['Onion', 'Rice'] });
+    expect(service.verifySnapshot(first)).toBe(true);
+    expect(service.verifySnapshot({ ...first, snapshot: { ...first.snapshot, version: 2 } })).toBe(false);
+
+    series.Maharashtra = [...seriesRows('Onion', [2400, 2500, 2700]), ...seriesRows('Rice', [3000, 3000])];
+    const second = await service.getSnapshot('vendor-1', { since: 1 });
+    const diff = second.snapshot as PriceSnapshotDiff;
+
+    expect(diff).toMatchObject({ type: 'diff', version: 2, baseVersion: 1, removed: [] });
+    expect(diff.upserts.map(entry => [entry.commodity, entry.currentPrice])).toEqual([['Onion', 2700]]);
+    expect(service.verifySnapshot(second)).toBe(true);
+  });
+
+  it('keeps the version while content is unchanged and falls back to a full bundle for unknown versions', async () => {
+    const { pool, bundles } = createPool({ '': seriesRows('Wheat', [2200, 2250]) });
+    const service = new PriceSnapshotService(pool, signingKeyPem);
+
+    await service.getSnapshot('vendor-1', { commodities: ['Wheat'] });
+    const polled = await service.getSnapshot('vendor-1', { commodities: ['Wheat'], since: 1 });
+    const stale = await service.getSnapshot('vendor-1', { commodities: ['Wheat'], since: 99 });
+
+    expect(bundles).toHaveLength(1);
+    expect(polled.snapshot).toMatchObject({ type: 'diff', version: 1, upserts: [], removed: [] });
+    expect(stale.snapshot).toMatchObject({ type: 'full', version: 1 });
+  });
+
+  it('signs content under the version that stored it when a concurrent request takes the next version', async () => {
+    const { pool, bundles, racing } = createPool({ '': seriesRows('Wheat', [2200, 2250]) });
+    const service = new PriceSnapshotService(pool, signingKeyPem);
+
+    racing.push({ state: null, commodities: '["Rice"]', entries: '[]', content_hash: 'other-content' });
+    const signed = await service.getSnapshot('vendor-1', { commodities: ['Wheat'] });
+
+    expect(signed.snapshot).toMatchObject({ type: 'full', version: 2, commodities: ['Wheat'] });
+    expect(bundles.map(bundle => [bundle.version, JSON.parse(bundle.commodities)])).toEqual([[1, ['Rice']], [2, ['Wheat']]]);
+  });
+
+  it('uses national figures for commodities without regional quotes', async () => {
+    const { pool } = createPool({
+      Punjab: seriesRows('Wheat', [2200]),
+      '': [...seriesRows('Wheat', [2300]), ...seriesRows('Turmeric', [9000])]
+    }, { state: 'Punjab' });
+    const service = new PriceSnapshotService(pool, signingKeyPem);
+
+    const { snapshot } = await service.getSnapshot('vendor-1', { commodities: ['Wheat', 'Turmeric'] });
+
+    expect(snapshot.type).toBe('full');
+    expect(snapshot.type === 'full' && snapshot.entries.map(entry => [entry.commodity, entry.scope, entry.currentPrice])).toEqual([
+      ['Turmeric', 'national', 9000],
+      ['Wheat', 'regional', 2200]
+    ]);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Unit tests for pluggable price source adapters and trust-weighted merging
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { AGMARKNETPriceDiscoveryService } from '../services/price-discovery.service';
+import {
+  PriceSourceRegistry,
+  AGMARKNETSourceAdapter,
+  FixturePriceSourceAdapter,
+  BasePriceSourceAdapter,
+  SourcePriceRecord
+} from '../services/price-sources.service';
+import { DatabaseManager } from '../config/database';
+import { gradeForQuality, normalizeGrade } from '../utils/commodity-grades';
+
+vi.mock('../config/database');
+vi.mock('../config/environment', () => ({
+  config: {
+    externalApis: {
+      agmarknetApiKey: ''
+    }
+  }
+}));
+
+function record(
+  commodity: string,
+  market: string,
+  modalPrice: number,
+  date: string = '2024-01-15',
+  variety: string = 'Other',
+  grade: string = 'FAQ'
+): SourcePriceRecord {
+  return {
+    commodity,
+    variety,
+    grade,
+    market,
+    state: 'Maharashtra',
+    date: new Date(date),
+    minPrice: modalPrice - 100,
+    maxPrice: modalPrice + 100,
+    modalPrice,
+    arrivals: 100
+  };
+}
+
+class FailingSourceAdapter extends BasePriceSourceAdapter {
+  constructor() {
+    super('failing', 'Failing Feed', 1);
+  }
+
+  protected async fetchRecord(): Promise<SourcePriceRecord | null> {
+    throw new Error('feed unavailable');
+  }
+}
+
+describe('Price source adapters', () => {
+  let mockDbClient: any;
+
+  beforeEach(() => {
+    mockDbClient = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getRedisClient: () => ({
+        get: vi.fn().mockResolvedValue(null),
+        setEx: vi.fn(),
+        del: vi.fn()
+      }),
+      getPostgresClient: () => mockDbClient
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  describe('PriceSourceRegistry', () => {
+    it('rejects sources without a positive trust weight', () => {
+      const registry = new PriceSourceRegistry();
+      expect(() => registry.register(new FixturePriceSourceAdapter('bad', 'Bad', [], 0))).toThrow();
+    });
+
+    it('rejects a second source with the same id', () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixturePriceSourceAdapter('apmc', 'State APMC', [record('Onion', 'Pune', 1500)]));
+
+      expect(() => registry.register(new FixturePriceSourceAdapter('apmc', 'Other APMC', []))).toThrow(/already registered/);
+      expect(registry.get('apmc')?.name).toBe('State APMC');
+    });
+
+    it('only returns adapters whose coverage includes the commodity and market', () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixturePriceSourceAdapter('pune', 'Pune Ledger', [record('Onion', 'Pune', 1500)]));
+      registry.register(new FixturePriceSourceAdapter('nashik', 'Nashik Feed', [record('Onion', 'Nashik', 1400)]));
+
+      expect(registry.getAdaptersFor('onion').map(a => a.id)).toEqual(['pune', 'nashik']);
+      expect(registry.getAdaptersFor('Onion', 'Nashik').map(a => a.id)).toEqual(['nashik']);
+      expect(registry.getAdaptersFor('Wheat')).toHaveLength(0);
+    });
+  });
+
+  describe('FixturePriceSourceAdapter', () => {
+    it('returns the most recent record and tracks health', async () => {
+      const adapter = new FixturePriceSourceAdapter('ledger', 'Mandi Ledger', [
+        record('Wheat', 'Indore', 2100, '2024-01-10'),
+        record('Wheat', 'Indore', 2250, '2024-01-12'),
+        record('Wheat', 'Bhopal', 2300, '2024-01-14')
+      ]);
+
+      const result = await adapter.fetchPrice('Wheat', 'Indore');
+      expect(result?.modalPrice).toBe(2250);
+
+      expect(await adapter.fetchPrice('Rice')).toBeNull();
+
+      const health = adapter.getHealth();
+      expect(health.status).toBe('healthy');
+      expect(health.successCount).toBe(1);
+      expect(health.emptyCount).toBe(1);
+      expect(health.lastLatencyMs).not.toBeNull();
+    });
+  });
+
+  describe('AGMARKNETSourceAdapter', () => {
+    it('counts request failures so the circuit opens and the source reports down', async () => {
+      vi.spyOn(axios, 'get').mockRejectedValue(new Error('socket hang up'));
+      const adapter = new AGMARKNETSourceAdapter('key');
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await expect(adapter.fetchPrice('Onion')).rejects.toThrow('socket hang up');
+      }
+
+      const health = adapter.getHealth();
+      expect(health.failureCount).toBe(3);
+      expect(health.emptyCount).toBe(0);
+      expect(health.lastError).toBe('socket hang up');
+      expect(health.status).toBe('down');
+    });
+
+    it('reports an empty result set as no data rather than a failure', async () => {
+      vi.spyOn(axios, 'get').mockResolvedValue({ data: { records: [] } });
+      const adapter = new AGMARKNETSourceAdapter('key');
+
+      expect(await adapter.fetchPrice('Onion')).toBeNull();
+      expect(adapter.getHealth()).toMatchObject({ status: 'healthy', emptyCount: 1, failureCount: 0 });
+    });
+  });
+
+  describe('AGMARKNETPriceDiscoveryService with a custom registry', () => {
+    it('merges source prices by trust weight', async () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixturePriceSourceAdapter('apmc', 'State APMC', [record('Tomato', 'Pune', 2000)], 1));
+      registry.register(new FixturePriceSourceAdapter('wholesale', 'Private Wholesale', [record('Tomato', 'Pune', 2100)], 3));
+
+      const service = new AGMARKNETPriceDiscoveryService(registry);
+      const price = await service.getCurrentPrice('Tomato', 'Pune');
+
+      expect(price.sources).toEqual(['State APMC', 'Private Wholesale']);
+      expect(price.currentPrice).toBe(2075);
+      expect(price.priceRange.min).toBe(2000);
+      expect(price.priceRange.max).toBe(2100);
+      expect(price.arrivals).toBe(200);
+    });
+
+    it('weights sources by id even when two share a display name', async () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixturePriceSourceAdapter('ledger-pune', 'Mandi Ledger', [record('Tomato', 'Pune', 2000)], 1));
+      registry.register(new FixturePriceSourceAdapter('ledger-nashik', 'Mandi Ledger', [record('Tomato', 'Pune', 2100)], 3));
+
+      const service = new AGMARKNETPriceDiscoveryService(registry);
+      const price = await service.getCurrentPrice('Tomato', 'Pune');
+
+      expect(price.currentPrice).toBe(2075);
+    });
+
+    it('continues with healthy sources when one source fails', async () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FailingSourceAdapter());
+      registry.register(new FixturePriceSourceAdapter('apmc', 'State APMC', [record('Tomato', 'Pune', 2000)]));
+
+      const service = new AGMARKNETPriceDiscoveryService(registry);
+      const price = await service.getCurrentPrice('Tomato', 'Pune');
+
+      expect(price.sources).toEqual(['State APMC']);
+      expect(price.currentPrice).toBe(2000);
+
+      const failing = service.getSourceHealth().find(h => h.id === 'failing');
+      expect(failing?.failureCount).toBeGreaterThan(0);
+      expect(failing?.lastError).toBe('feed unavailable');
+      expect(failing?.status).not.toBe('healthy');
+    });
+
+    it('exposes health for newly registered sources', () => {
+      const service = new AGMARKNETPriceDiscoveryService(new PriceSourceRegistry());
+      service.registerPriceSource(new FixturePriceSourceAdapter('enam', 'eNAM', [record('Gram', 'Latur', 5200)]));
+
+      const health = service.getSourceHealth();
+      expect(health).toHaveLength(1);
+      expect(health[0].coverage.commodities).toEqual(['Gram']);
+    });
+  });
+
+  describe('Variety and grade', () => {
+    it('maps vendor item quality and source grade labels onto canonical grades', () => {
+      expect(gradeForQuality('premium')).toBe('Grade A');
+      expect(gradeForQuality('standard')).toBe('FAQ');
+      expect(gradeForQuality('economy')).toBe('Non-FAQ');
+      expect(normalizeGrade('F.A.Q.')).toBe('FAQ');
+      expect(normalizeGrade('Non FAQ')).toBe('Non-FAQ');
+      expect(normalizeGrade('unknown')).toBeUndefined();
+    });
+
+    it('never merges quotes for different varieties', async () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixturePriceSourceAdapter('apmc', 'State APMC', [
+        record('Rice', 'Karnal', 4200, '2024-01-15', 'Basmati')
+      ], 1));
+      registry.register(new FixturePriceSourceAdapter('ledger', 'Mandi Ledger', [
+        record('Rice', 'Karnal', 3900, '2024-01-15', 'Basmati'),
+        record('Rice', 'Karnal', 2600, '2024-01-16', 'Sona Masuri')
+      ], 1));
+      registry.register(new FixturePriceSourceAdapter('wholesale', 'Private Wholesale', [
+        record('Rice', 'Karnal', 2700, '2024-01-15', 'Sona Masuri')
+      ], 0.5));
+
+      const service = new AGMARKNETPriceDiscoveryService(registry);
+
+      const basmati = await service.getCurrentPrice('Rice', 'Karnal', { variety: 'basmati' });
+      expect(basmati.variety).toBe('Basmati');
+      expect(basmati.currentPrice).toBe(4050);
+
+      // Without a variety the best-supported variety wins and is reported
+      const unspecified = await service.getCurrentPrice('Rice', 'Karnal');
+      expect(unspecified.variety).toBe('Sona Masuri');
+      expect(unspecified.sources).toEqual(['Mandi Ledger', 'Private Wholesale']);
+    });
+
+    it('prices a grade against matching quotes only', async () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixturePriceSourceAdapter('apmc', 'State APMC', [
+        record('Cotton', 'Rajkot', 7200, '2024-01-15', 'Shankar-6', 'Grade A'),
+        record('Cotton', 'Rajkot', 6400, '2024-01-15', 'Shankar-6', 'FAQ')
+      ]));
+
+      const service = new AGMARKNETPriceDiscoveryService(registry);
+      const premium = await service.getCurrentPrice('Cotton', 'Rajkot', { grade: gradeForQuality('premium') });
+
+      expect(premium.grade).toBe('Grade A');
+      expect(premium.currentPrice).toBe(7200);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for real-time price streaming
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PriceStreamService, PriceUpdateBatch, MAX_SUBSCRIPTIONS_PER_CONNECTION, MAX_UPDATES_PER_BATCH } from '../services/price-stream.service';
+import { PriceData } from '../types';
+
+function price(commodity: string, market: string, currentPrice: number, overrides: Partial<PriceData> = {}): PriceData {
+  return {
+    commodity,
+    market,
+    currentPrice,
+    priceRange: { min: currentPrice - 100, max: currentPrice + 100, modal: currentPrice },
+    lastUpdated: new Date('2024-03-01'),
+    sources: ['AGMARKNET'],
+    volatility: 0.05,
+    ...overrides
+  };
+}
+
+function fakeTransport() {
+  const batches: PriceUpdateBatch[] = [];
+  const transport = {
+    congested: false,
+    batches,
+    send: (batch: PriceUpdateBatch) => { batches.push(batch); },
+    isCongested: () => transport.congested
+  };
+  return transport;
+}
+
+describe('PriceStreamService', () => {
+  let stream: PriceStreamService;
+
+  beforeEach(() => {
+    stream = PriceStreamService.getInstance();
+  });
+
+  afterEach(() => {
+    stream.shutdown();
+  });
+
+  it('sends deltas with the change percent to matching channels only', () => {
+    const client = fakeTransport();
+    stream.addConnection('c1', client);
+    stream.subscribe('c1', [{ commodity: 'Onion', market: 'Lasalgaon' }]);
+
+    stream.publish(price('Onion', 'Lasalgaon', 2000));
+    stream.publish(price('Onion', 'Pune', 2500));
+    stream.flush(10000);
+
+    stream.publish(price('Onion', 'Lasalgaon', 2100));
+    stream.flush(20000);
+
+    expect(client.batches).toHaveLength(2);
+    expect(client.batches[0].updates[0].changePercent).toBeNull();
+    const [delta] = client.batches[1].updates;
+    expect(delta.channel).toBe('onion:lasalgaon');
+    expect(delta.previousPrice).toBe(2000);
+    expect(delta.change).toBe(100);
+    expect(delta.changePercent).toBe(5);
+  });
+
+  it('coalesces updates that arrive before the next flush', () => {
+    const client = fakeTransport();
+    stream.addConnection('c1', client);
+    stream.subscribe('c1', [{ commodity: 'Onion' }]);
+
+    stream.publish(price('Onion', 'Lasalgaon', 2000));
+    stream.publish(price('Onion', 'Lasalgaon', 2050));
+    stream.publish(price('Onion', 'Lasalgaon', 2200));
+    stream.flush(10000);
+
+    expect(client.batches).toHaveLength(1);
+    expect(client.batches[0].coalesced).toBe(2);
+    expect(client.batches[0].updates).toHaveLength(1);
+    expect(client.batches[0].updates[0].price).toBe(2200);
+    expect(client.batches[0].updates[0].previousPrice).toBeNull();
+  });
+
+  it('holds updates back while the connection is congested', () => {
+    const client = fakeTransport();
+    stream.addConnection('c1', client);
+    stream.subscribe('c1', [{ commodity: 'Onion' }]);
+
+    client.congested = true;
+    stream.publish(price('Onion', 'Lasalgaon', 2000));
+    stream.flush(10000);
+    expect(client.batches).toHaveLength(0);
+
+    stream.publish(price('Onion', 'Lasalgaon', 2100));
+    client.congested = false;
+    stream.flush(20000);
+
+    expect(client.batches).toHaveLength(1);
+    expect(client.batches[0].updates[0].price).toBe(2100);
+  });
+
+  it('caps batch size and carries the rest over', () => {
+    const client = fakeTransport();
+    stream.addConnection('c1', client);
+    stream.subscribe('c1', [{ commodity: 'Onion' }]);
+
+    for (let i = 0; i < MAX_UPDATES_PER_BATCH + 3; i++) {
+      stream.publish(price('Onion', `Market ${i}`, 2000 + i));
+    }
+    stream.flush(10000);
+    stream.flush(20000);
+
+    expect(client.batches[0].updates).toHaveLength(MAX_UPDATES_PER_BATCH);
+    expect(client.batches[0].pending).toBe(3);
+    expect(client.batches[1].updates).toHaveLength(3);
+  });
+
+  it('limits subscriptions per connection', () => {
+    stream.addConnection('c1', fakeTransport());
+    const channels = Array.from({ length: MAX_SUBSCRIPTIONS_PER_CONNECTION + 2 }, (_, i) => ({ commodity: 'Onion', market: `Market ${i}` }));
+
+    const result = stream.subscribe('c1', channels);
+
+    expect(result.subscribed).toHaveLength(MAX_SUBSCRIPTIONS_PER_CONNECTION);
+    expect(result.rejected).toHaveLength(2);
+    expect(result.rejected[0].reason).toContain('Limit');
+  });
+
+  it('skips changes below the client threshold', () => {
+    const client = fakeTransport();
+    stream.addConnection('c1', client);
+    stream.subscribe('c1', [{ commodity: 'Onion' }], { minChangePercent: 2 });
+
+    stream.publish(price('Onion', 'Lasalgaon', 2000));
+    stream.flush(10000);
+    stream.publish(price('Onion', 'Lasalgaon', 2010));
+    stream.flush(20000);
+    stream.publish(price('Onion', 'Lasalgaon', 2100));
+    stream.flush(30000);
+
+    expect(client.batches).toHaveLength(2);
+    expect(client.batches[1].updates[0].previousPrice).toBe(2000);
+    expect(client.batches[1].updates[0].changePercent).toBe(5);
+  });
+});
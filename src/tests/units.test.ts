@@ -0,0 +1,79 @@
+/**
+ * Unit tests for quantity unit normalisation and conversion
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { convertPrice, convertQuantity, normalizeUnit, priceDataInUnit, unitWeightKg } from '../utils/units';
+import { VendorItemsService } from '../services/vendor-items.service';
+import { DatabaseManager } from '../config/database';
+
+vi.mock('../config/database');
+
+describe('units', () => {
+  it('normalises the unit spellings vendors use', () => {
+    expect(normalizeUnit('Qtl')).toBe('quintal');
+    expect(normalizeUnit('per quintal')).toBe('quintal');
+    expect(normalizeUnit('/kg')).toBe('kg');
+    expect(normalizeUnit('KGs')).toBe('kg');
+    expect(normalizeUnit('Tonne')).toBe('ton');
+    expect(normalizeUnit('bori')).toBe('bag');
+    expect(normalizeUnit('peti')).toBe('crate');
+    expect(normalizeUnit('dozen')).toBeUndefined();
+    expect(normalizeUnit('')).toBeUndefined();
+  });
+
+  it('uses commodity-specific bag and crate weights', () => {
+    expect(unitWeightKg('bag', 'Onion')).toBe(50);
+    expect(unitWeightKg('bag', 'chillies')).toBe(40);
+    expect(unitWeightKg('bag', 'Unknown')).toBe(50);
+    expect(unitWeightKg('crate', 'Tomato')).toBe(25);
+  });
+
+  it('converts quantities between units', () => {
+    expect(convertQuantity(20, 'bag', 'quintal', 'Onion')).toBe(10);
+    expect(convertQuantity(2.5, 'ton', 'kg')).toBe(2500);
+    expect(convertQuantity(250, 'kg', 'quintal')).toBe(2.5);
+  });
+
+  it('converts prices in the opposite direction to quantities', () => {
+    expect(convertPrice(2500, 'quintal', 'kg')).toBe(25);
+    expect(convertPrice(2500, 'quintal', 'bag', 'Chillies')).toBe(1000);
+    expect(convertPrice(30, 'kg', 'quintal')).toBe(3000);
+    expect(convertPrice(2500, 'quintal', 'quintal')).toBe(2500);
+  });
+
+  it('re-expresses market prices in the requested unit', () => {
+    const priceData = priceDataInUnit({
+      commodity: 'Onion',
+      currentPrice: 2400,
+      priceRange: { min: 2000, max: 2800, modal: 2400 },
+      lastUpdated: new Date(),
+      sources: ['AGMARKNET'],
+      volatility: 0.05
+    }, 'kg');
+
+    expect(priceData.unit).toBe('kg');
+    expect(priceData.currentPrice).toBe(24);
+    expect(priceData.priceRange).toEqual({ min: 20, max: 28, modal: 24 });
+    expect(priceDataInUnit(priceData, 'bag').currentPrice).toBe(1200);
+  });
+});
+
+describe('VendorItemsService per-quintal prices', () => {
+  it('weighs bags by the item category rather than its free-text name', async () => {
+    const row = {
+      id: 'item-1', vendor_id: 'vendor-1', name: 'Sample Cotton', category: 'Cotton', description: null,
+      price: '7000', unit: 'bag', quantity: '10', quality: 'premium', location: 'Rajkot', images: '[]',
+      status: 'active', created_at: new Date(), updated_at: new Date()
+    };
+    const client = { query: vi.fn().mockResolvedValue({ rows: [row] }), release: vi.fn() };
+    vi.mocked(DatabaseManager.getInstance).mockReturnValue({
+      getPostgreSQLPool: () => ({ connect: async () => client })
+    } as any);
+
+    const item = await new VendorItemsService().getItemById('item-1');
+
+    // A bag of cotton is 100 kg, so one quintal costs the same as one bag
+    expect(item!.pricePerQuintal).toBe(7000);
+  });
+});
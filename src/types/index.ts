@@ -11,6 +11,7 @@ export interface Vendor {
   };
   preferredLanguage: string;
   secondaryLanguages: string[];
+  preferredUnit?: QuantityUnit;
   businessType: 'farmer' | 'trader' | 'wholesaler' | 'retailer';
   verificationStatus: 'pending' | 'verified' | 'rejected';
   trustScore: number;
@@ -83,8 +84,73 @@ export interface LanguagePreference {
 }
 
 // Price Discovery Service Types
+export interface CommoditySpec {
+  variety?: string;
+  grade?: string;
+}
+
+// Trade units; prices are stored per quintal, as AGMARKNET quotes them
+export type QuantityUnit = 'kg' | 'quintal' | 'ton' | 'bag' | 'crate';
+
+// Commodity catalogue: canonical commodities with regional names and category hierarchy
+export type Perishability = 'high' | 'medium' | 'low';
+
+export interface CommodityCategory {
+  id: string;
+  name: string;
+  parentId?: string;
+  names?: Record<string, string>; // language code -> name
+}
+
+export interface CatalogueCommodity {
+  id: string;                     // canonical slug, e.g. 'onion'
+  name: string;                   // canonical English name, as market_data stores it
+  categoryId: string;
+  names: Record<string, string>;  // language code -> name, e.g. { hi: 'प्याज', ta: 'வெங்காயம்' }
+  aliases: string[];              // regional and trade names, e.g. 'kanda', 'pyaz'
+  defaultUnit: QuantityUnit;
+  perishability: Perishability;
+  shelfLifeDays?: number;
+  agmarknetCode?: number;
+  indicativePrice?: number;       // rough ₹/quintal, used only where no market data exists
+  isActive: boolean;
+}
+
+export interface CommoditySearchResult {
+  commodity: CatalogueCommodity;
+  score: number;     // 0-1
+  matchedOn: string; // the name or alias that matched
+}
+
+// Government Minimum Support Price, notified per crop year and season
+export type CropSeason = 'kharif' | 'rabi';
+
+export interface MspRate {
+  commodity: string;
+  variety?: string;       // e.g. Paddy: Common / Grade A; absent when one rate covers the crop
+  cropYear: string;       // e.g. '2024-25'
+  season: CropSeason;
+  pricePerQuintal: number;
+  effectiveFrom: Date;    // start of the marketing season the rate applies to
+  notificationRef?: string;
+}
+
+export interface MspComparison {
+  commodity: string;
+  variety?: string;
+  cropYear: string;
+  season: CropSeason;
+  mspPerQuintal: number;
+  pricePerQuintal: number;
+  belowMsp: boolean;
+  shortfallPerQuintal: number; // 0 when at or above MSP
+  shortfallPercent: number;
+}
+
 export interface PriceData {
   commodity: string;
+  variety?: string;
+  grade?: string;
   currentPrice: number;
   priceRange: { min: number; max: number; modal: number };
   lastUpdated: Date;
@@ -93,6 +159,80 @@ export interface PriceData {
   market?: string;
   state?: string;
   arrivals?: number;
+  unit?: QuantityUnit; // per quintal when absent
+  provenance?: PriceProvenance;
+  msp?: MspComparison;
+}
+
+export interface PriceInputRecord {
+  source: string;
+  sourceId?: string;
+  market?: string;
+  variety?: string;
+  grade?: string;
+  date?: Date;
+  modalPrice?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  arrivals?: number;
+  trustWeight?: number;
+  included: boolean;
+  rejectionReason?: string;
+}
+
+// How a price was computed and served, so a disputed price can be reconstructed
+export interface PriceProvenance {
+  id?: string;                 // key into price_provenance; absent for prices rebuilt from stored market data
+  computedAt: Date;
+  inputs: PriceInputRecord[];
+  method: 'trust_weighted_mean' | 'median' | 'stored';
+  maxDeviationFromMedian?: number;
+  servedFrom: 'live' | 'cache' | 'stale_cache' | 'database';
+  ageMs: number;               // time since computation when served
+  notes?: string[];
+}
+
+/**
+ * One commodity in an offline price snapshot. Prices are per quintal.
+ */
+export interface PriceSnapshotEntry {
+  commodity: string;
+  scope: 'regional' | 'national'; // national when the vendor's state has no recent quotes
+  currentPrice: number;
+  priceRange: { min: number; max: number }; // over the last 30 days
+  trend: 'rising' | 'falling' | 'stable';
+  changePercent: number;        // last 7 days against the rest of the 30-day window
+  markets: number;
+  lastUpdated: string;          // ISO date of the latest quote
+}
+
+interface PriceSnapshotBase {
+  vendorId: string;
+  version: number;
+  generatedAt: string;
+  region: { state?: string };
+  commodities: string[];
+  unit: QuantityUnit;
+}
+
+export interface PriceSnapshotBundle extends PriceSnapshotBase {
+  type: 'full';
+  entries: PriceSnapshotEntry[];
+}
+
+// Changes since baseVersion, which the client already holds
+export interface PriceSnapshotDiff extends PriceSnapshotBase {
+  type: 'diff';
+  baseVersion: number;
+  upserts: PriceSnapshotEntry[];
+  removed: string[];
+}
+
+export interface SignedPriceSnapshot {
+  snapshot: PriceSnapshotBundle | PriceSnapshotDiff;
+  signature: string;  // base64 Ed25519 signature over JSON.stringify(snapshot)
+  keyId: string;
+  algorithm: 'Ed25519';
 }
 
 export interface PriceHistory {
@@ -100,6 +240,18 @@ export interface PriceHistory {
   price: number;
   arrivals: number;
   market: string;
+  variety?: string;
+  grade?: string;
+}
+
+export type SeasonalityLevel = 'peak' | 'off-peak' | 'normal';
+
+export interface PriceForecastPoint {
+  weeksAhead: number;
+  date: Date;
+  price: number;
+  lower: number; // prediction interval bounds
+  upper: number;
 }
 
 export interface TrendAnalysis {
@@ -110,12 +262,17 @@ export interface TrendAnalysis {
   prediction: {
     nextWeek: number;
     confidence: number;
+    horizons?: PriceForecastPoint[];
+    intervalLevel?: number;
   };
+  seasonality?: SeasonalityLevel;
 }
 
 export interface MarketData {
   id: string;
   commodity: string;
+  variety: string;
+  grade: string;
   market: string;
   state: string;
   date: Date;
@@ -217,6 +374,7 @@ export interface VendorProfileUpdate {
   };
   preferredLanguage?: string;
   secondaryLanguages?: string[];
+  preferredUnit?: QuantityUnit;
   businessType?: 'farmer' | 'trader' | 'wholesaler' | 'retailer';
 }
 
@@ -297,6 +455,22 @@ export interface VendorReliabilityScore {
 }
 
 // Negotiation Service Types
+// Why the assistant suggested what it did, as a template code and its values, so the
+// explanation can be rendered in any language
+export type ReasonParameter = string | number | NegotiationReason | NegotiationReason[];
+
+export interface NegotiationReason {
+  code: string;
+  params?: Record<string, ReasonParameter>;
+}
+
+// Reasons behind each text field of a suggestion, keyed by field name ('reasoning',
+// 'negotiationStrategy', ...), and the language the text fields were rendered in
+export interface NegotiationExplanation {
+  language: string;
+  reasons: Record<string, NegotiationReason[]>;
+}
+
 export interface MarketContext {
   commodity: string;
   quantity: number;
@@ -304,7 +478,28 @@ export interface MarketContext {
   quality?: string;
   deliveryTerms?: string;
   urgency?: 'low' | 'medium' | 'high';
-  seasonality?: 'peak' | 'off-peak' | 'normal';
+  seasonality?: SeasonalityLevel;
+  unit?: QuantityUnit; // unit of quantity and prices; quintal when absent
+  vendorId?: string;       // personalises the suggestion with the vendor's own deal history
+  counterpartyId?: string; // and their history with this trading partner
+  sessionId?: string;      // negotiation the suggestion is for; session-bucketed experiments need it
+  language?: string;       // language explanations are written in; English when absent
+}
+
+// What a vendor's past deals in a commodity say about how they negotiate
+export interface DealHistoryModel {
+  scope: 'vendor' | 'counterparty';
+  deals: number;
+  closingRatio: number;          // agreed price / market price at the time, recency weighted
+  concessionRate: number | null; // share of their opening price given up before closing
+  confidence: number;            // 0-1, from sample size and how consistent the deals are
+}
+
+export interface PersonalPriceComponent {
+  suggestedPrice: number; // opening price the vendor's history points to
+  weight: number;         // share of the final suggestion taken from it
+  confidence: number;
+  models: DealHistoryModel[];
 }
 
 export interface PriceSuggestion {
@@ -317,6 +512,12 @@ export interface PriceSuggestion {
     maximum: number;
     optimal: number;
   };
+  unit?: QuantityUnit;
+  priceProvenanceId?: string; // market price computation the suggestion was based on
+  msp?: MspComparison;
+  personal?: PersonalPriceComponent;
+  experiments?: ExperimentAssignment[]; // variants that shaped this suggestion
+  explanation?: NegotiationExplanation;
 }
 
 export interface NegotiationOffer {
@@ -328,15 +529,48 @@ export interface NegotiationOffer {
   quantity: number;
   proposedPrice: number;
   currentMarketPrice: number;
+  unit?: QuantityUnit; // unit of quantity and prices; quintal when absent
   offerType: 'initial' | 'counter' | 'final';
   timestamp: Date;
   expiresAt?: Date;
-  terms?: {
-    deliveryLocation?: string;
-    deliveryDate?: Date;
-    paymentTerms?: string;
-    qualitySpecs?: string;
-  };
+  terms?: DealTerms;
+}
+
+export type DeliveryMethod = 'farm_pickup' | 'mandi_delivery' | 'warehouse_delivery';
+
+export interface DealTerms {
+  deliveryLocation?: string;
+  deliveryDate?: Date;
+  paymentTerms?: string;         // free text or a code such as 'cash_on_delivery', '15_days_credit'
+  qualitySpecs?: string;
+  deliveryMethod?: DeliveryMethod;
+  creditDays?: number;           // days after delivery that payment is due; negative for advance payment
+  maxMoisturePercent?: number;   // moisture tolerance for grains and oilseeds
+}
+
+// A non-price term expressed as a change to the price, per unit of the offer
+export interface TermsAdjustment {
+  attribute: 'payment' | 'delivery' | 'quality';
+  description: string;
+  reason: NegotiationReason; // the term, for explanations in the vendor's language
+  value: number; // positive when the term makes the deal worth more than its headline price to the seller
+}
+
+// A change of terms and the price change that leaves the package worth the same
+export interface TermsTradeOff {
+  attribute: TermsAdjustment['attribute'];
+  change: Partial<DealTerms>;
+  priceChange: number;
+  description: string;
+  reason: NegotiationReason;
+}
+
+// What a price and its terms are worth as a same-day cash price for standard quality at the mandi
+export interface TermsValuation {
+  effectivePrice: number;
+  adjustments: TermsAdjustment[];
+  packageDeviation?: number; // percentage deviation of effectivePrice from market price
+  tradeOffs: TermsTradeOff[];
 }
 
 export interface OfferAnalysis {
@@ -347,6 +581,8 @@ export interface OfferAnalysis {
   suggestedCounterPrice?: number;
   negotiationStrategy: string;
   culturalConsiderations?: string;
+  terms?: TermsValuation; // present when the offer has terms that change what its price is worth
+  explanation?: NegotiationExplanation;
 }
 
 export interface NegotiationStep {
@@ -370,6 +606,8 @@ export interface ResponseRecommendation {
     level: 'low' | 'medium' | 'high';
     factors: string[];
   };
+  experiments?: ExperimentAssignment[];
+  explanation?: NegotiationExplanation;
 }
 
 export interface DealEvaluation {
@@ -379,6 +617,113 @@ export interface DealEvaluation {
   riskFactors: string[];
   learningPoints: string[];
   overallScore: number; // 0-100
+  msp?: MspComparison;
+  terms?: TermsValuation;
+}
+
+export type NegotiationState = 'opening' | 'countering' | 'final_offer' | 'accepted' | 'rejected' | 'expired';
+
+// A negotiation as tracked by the server-side state machine; at most one offer is live at a time
+export interface NegotiationSession {
+  sessionId: string;
+  participants: string[];
+  commodity: string;
+  state: NegotiationState;
+  status: 'active' | 'completed' | 'cancelled' | 'expired';
+  liveOffer?: NegotiationOffer; // the offer awaiting a response, or the one that was accepted/expired
+  startTime: Date;
+  endTime?: Date;
+  finalDeal?: {
+    agreedPrice: number;
+    marketPriceAtTime?: number;
+    quantity: number;
+    unit?: QuantityUnit;
+    offerId: string;
+    acceptedBy: string;
+  };
+  sessionType?: 'negotiation' | 'auction'; // a sold auction is an accepted session between seller and winner
+}
+
+export type AuctionMode = 'english' | 'sealed_bid';
+
+export type AuctionState = 'open' | 'sold' | 'unsold';
+
+// Smallest raise over the leading bid in an English auction: the larger of the two
+export interface BidIncrementRule {
+  amount: number;   // per unit, in the auction's unit
+  percent: number;  // of the leading bid
+}
+
+export interface AuctionBid {
+  bidId: string;
+  bidderId: string;
+  amount?: number;  // withheld from everyone but the bidder until a sealed-bid auction closes
+  sequence: number; // order the server accepted bids in
+  placedAt: Date;
+}
+
+// A lot offered to several buyers at once; the highest bid at the close wins if it meets the reserve
+export interface AuctionSession {
+  auctionId: string;
+  sellerId: string;
+  commodity: string;
+  quantity: number;
+  unit?: QuantityUnit;
+  mode: AuctionMode;
+  state: AuctionState;
+  startingPrice: number;
+  reservePrice?: number;     // shown to the seller only
+  reserveMet?: boolean;      // shown to bidders instead, once there is a leading bid
+  increment: BidIncrementRule;
+  currentMarketPrice?: number;
+  terms?: DealTerms;
+  currentPrice?: number;     // leading bid; hidden while a sealed-bid auction is open
+  leadingBidderId?: string;
+  minimumBid?: number;       // lowest bid the server will accept now
+  bidCount: number;
+  version: number;           // bumped on every change; updates apply in version order
+  bids: AuctionBid[];
+  winningBid?: AuctionBid;
+  openedAt: Date;
+  closesAt: Date;
+  closedAt?: Date;
+}
+
+// The accepted offer as written into the deal record; dates are ISO strings so the hash is stable
+export interface DealRecordTerms {
+  offerId: string;
+  commodity: string;
+  quantity: number;
+  unit: QuantityUnit;
+  price: number;
+  totalValue: number;
+  currentMarketPrice?: number;
+  terms?: DealTerms;
+  offeredBy: string;
+  acceptedBy: string;
+  participants: string[];
+  acceptedAt: string;
+}
+
+export interface DealRecordEntry {
+  sequence: number;
+  event: 'accepted' | 'confirmed';
+  vendorId: string;
+  payload: DealRecordTerms | { termsHash: string };
+  previousHash?: string;
+  recordHash: string;
+  createdAt: Date;
+}
+
+export interface DealConfirmation {
+  sessionId: string;
+  status: 'awaiting_confirmation' | 'confirmed';
+  terms: DealRecordTerms;
+  termsHash: string; // hash of the accepted record; parties confirm by quoting it
+  confirmations: Array<{ vendorId: string; confirmedAt: Date }>;
+  pendingVendorIds: string[];
+  records: DealRecordEntry[];
+  chainValid: boolean;
 }
 
 export interface NegotiationHistory {
@@ -404,8 +749,12 @@ export interface NegotiationHistory {
 }
 
 export interface CulturalProfile {
+  key?: string;         // cultural_profiles row the profile was read from, for admin edits
   region: string;
   state: string;
+  districts?: string[]; // districts resolved to this profile, e.g. Vidarbha's rather than all of Maharashtra
+  version?: number;
+  observedOutcomes?: CulturalProfileObservations;
   tradingCustoms: {
     negotiationStyle: 'direct' | 'indirect' | 'relationship-based';
     decisionMaking: 'quick' | 'deliberate' | 'consensus';
@@ -425,6 +774,27 @@ export interface CulturalProfile {
   };
 }
 
+// What negotiations in a profile's districts looked like since its last admin edit
+export interface CulturalProfileObservations {
+  sessions: number;
+  successRate: number;
+  averageOffers: number;
+  averagePriceMovement: number; // mean absolute % move of successful sessions
+  since: Date;
+  updatedAt: Date;
+}
+
+export interface CulturalProfileChange {
+  key: string;
+  version: number;
+  source: 'admin' | 'observed';
+  changedBy?: string;
+  note?: string;
+  previous?: CulturalProfile; // absent when the change created the profile
+  profile: CulturalProfile;
+  createdAt: Date;
+}
+
 export interface LearningData {
   sessionId: string;
   outcome: 'successful' | 'failed' | 'partial';
@@ -446,6 +816,58 @@ export interface LearningData {
     aiHelpfulness: number; // 1-5
     suggestions: string[];
   }[];
+  commodity?: string; // what was traded and where, so the outcome trains that commodity's and region's parameters
+  region?: string;
+}
+
+// Negotiation model: the assistant's learned parameters, versioned so a bad update can be rolled back
+export interface LearningWeights {
+  recentSuccess: number;
+  marketAccuracy: number;
+  culturalAdaptation: number;
+  userSatisfaction: number;
+}
+
+export interface LearnedSession {
+  sessionId: string;
+  outcome: LearningData['outcome'];
+  avgSatisfaction: number;
+  aiAccuracy: number;
+  timestamp: number;
+}
+
+export interface NegotiationModelParameters {
+  weights: LearningWeights;
+  recentSessions: LearnedSession[]; // the latest sessions, which drive the immediate price adjustment
+  trainingSessions: number;
+  successfulSessions: number;
+}
+
+export interface NegotiationModelVersion {
+  version: number; // 0 is the untrained default, never stored
+  parentVersion?: number;
+  reason: 'initial' | 'training' | 'rollback';
+  restoredVersion?: number; // for rollbacks, the version whose parameters were restored
+  trainedSessionId?: string;
+  createdBy?: string;
+  parameterSets: Record<string, NegotiationModelParameters>; // keyed by scope: 'global', 'commodity:wheat', 'region:punjab'
+  createdAt: Date;
+}
+
+export interface NegotiationModelSummary {
+  activeVersion: number;
+  parentVersion?: number;
+  reason: NegotiationModelVersion['reason'];
+  restoredVersion?: number;
+  createdAt: Date;
+  parameterSets: Array<{ scope: string; trainingSessions: number; successfulSessions: number; weights: LearningWeights }>;
+  learningData: {
+    total: number;
+    last30Days: number;
+    byCommodity: Record<string, number>;
+    byRegion: Record<string, number>;
+  };
+  history: Array<Omit<NegotiationModelVersion, 'parameterSets'>>;
 }
 
 // Analytics and Reporting Types
@@ -483,6 +905,7 @@ export interface MarketTrendData {
   volatility: number;
   demandLevel: 'high' | 'medium' | 'low';
   supplyLevel: 'high' | 'medium' | 'low';
+  supplyPressureIndex?: number;
   seasonalFactor: number;
   predictedPrice: number;
   confidence: number;
@@ -511,7 +934,7 @@ export interface WeeklyTradingSummary {
 export interface MarketInsight {
   id: string;
   vendorId: string;
-  insightType: 'price_opportunity' | 'market_trend' | 'seasonal_advice' | 'performance_tip';
+  insightType: 'price_opportunity' | 'market_trend' | 'seasonal_advice' | 'performance_tip' | 'arbitrage_opportunity';
   title: string;
   message: string;
   actionable: boolean;
@@ -530,4 +953,59 @@ export interface AnalyticsExportData {
   format: 'csv' | 'json';
   generatedAt: Date;
   downloadUrl?: string;
-}
\ No newline at end of file
+}
+
+// A/B experiments on the negotiation assistant's suggestions
+export type ExperimentTarget = 'opening_price' | 'response';
+export type ExperimentUnit = 'vendor' | 'session'; // what is bucketed: every session of a vendor, or each session
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export interface ExperimentVariantParameters {
+  openingPriceAdjustment?: number;    // opening_price: share added to the suggested price, -0.1 to 0.1
+  acceptWithinPercent?: number;       // response: recommend accepting once offers are this close (2 by default)
+  negotiateTermsAfterOffers?: number; // response: turn heated haggling to terms after this many offers (5)
+}
+
+export interface ExperimentVariant {
+  key: string;
+  weight: number; // relative share of traffic
+  parameters: ExperimentVariantParameters;
+}
+
+export interface NegotiationExperiment {
+  key: string;
+  name: string;
+  description?: string;
+  target: ExperimentTarget;
+  unit: ExperimentUnit;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[]; // the first is the control
+  createdBy?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  stoppedAt?: Date;
+}
+
+export interface ExperimentAssignment {
+  experimentKey: string;
+  variant: string;
+  parameters: ExperimentVariantParameters;
+}
+
+export interface ExperimentVariantResults {
+  variant: string;
+  sessions: number;          // sessions with an assisted step made under this variant
+  concludedSessions: number;
+  deals: number;
+  dealRate: number | null;   // deals / concluded sessions
+  evaluatedDeals: number;
+  averageDealScore: number | null;
+  feedbackResponses: number;
+  averageSatisfaction: number | null; // 1-5
+}
+
+export interface ExperimentResults {
+  experiment: NegotiationExperiment;
+  variants: ExperimentVariantResults[];
+  generatedAt: Date;
+}
@@ -0,0 +1,184 @@
+/**
+ * Auction rules.
+ *
+ * In an English auction bids are open: the first must reach the starting price and each later
+ * one must beat the leading bid by the increment, the larger of a fixed amount and a share of
+ * the leading bid. A bid in the last half minute pushes the close back, so a lot is not won by
+ * sniping. In a sealed-bid auction each buyer bids once, at or above the starting price, without
+ * seeing anyone else's bid; the bids are opened at the close. Either way the highest bid wins,
+ * the earlier one on a tie, as long as it meets the seller's reserve.
+ */
+
+import { AuctionBid, AuctionMode, AuctionSession, BidIncrementRule, DealTerms, QuantityUnit } from '../types';
+import { QUANTITY_UNITS } from './units';
+
+export type AuctionBidError =
+  | 'AUCTION_CLOSED'
+  | 'SELLER_CANNOT_BID'
+  | 'ALREADY_LEADING'
+  | 'ALREADY_BID'
+  | 'BELOW_MINIMUM_BID';
+
+export type AuctionBidCheck =
+  | { outcome: 'allowed'; closesAt: Date }
+  | { outcome: 'refused'; code: AuctionBidError; reason: string };
+
+export interface AuctionInput {
+  commodity: string;
+  quantity: number;
+  unit?: QuantityUnit;
+  mode: AuctionMode;
+  startingPrice: number;
+  reservePrice?: number;
+  increment?: Partial<BidIncrementRule>;
+  durationMs?: number;
+  currentMarketPrice?: number;
+  terms?: DealTerms;
+}
+
+export const AUCTION_MODES: AuctionMode[] = ['english', 'sealed_bid'];
+
+export const DEFAULT_AUCTION_DURATION_MS = 10 * 60 * 1000;
+export const MIN_AUCTION_DURATION_MS = 60 * 1000;
+export const MAX_AUCTION_DURATION_MS = 24 * 60 * 60 * 1000;
+export const LATE_BID_EXTENSION_MS = 30 * 1000;
+
+// Half a percent of the leading bid, whatever unit the lot is priced in
+export const DEFAULT_BID_INCREMENT: BidIncrementRule = { amount: 0, percent: 0.5 };
+
+/**
+ * Clamps a requested auction length, falling back to the default when none is given.
+ */
+export function auctionCloseTime(from: Date, durationMs?: number): Date {
+  const duration = durationMs === undefined || !isFinite(durationMs)
+    ? DEFAULT_AUCTION_DURATION_MS
+    : Math.min(MAX_AUCTION_DURATION_MS, Math.max(MIN_AUCTION_DURATION_MS, durationMs));
+  return new Date(from.getTime() + duration);
+}
+
+/**
+ * Lowest bid the auction accepts now. Sealed bids only have to reach the starting price.
+ */
+export function minimumBid(auction: Pick<AuctionSession, 'mode' | 'startingPrice' | 'currentPrice' | 'increment'>): number {
+  if (auction.mode === 'sealed_bid' || auction.currentPrice === undefined) {
+    return auction.startingPrice;
+  }
+  const raise = Math.max(auction.increment.amount, auction.currentPrice * auction.increment.percent / 100);
+  return round(auction.currentPrice + raise);
+}
+
+/**
+ * Checks a bid against the auction and returns when the auction closes if it is accepted.
+ */
+export function checkBid(
+  auction: Pick<AuctionSession, 'mode' | 'state' | 'sellerId' | 'startingPrice' | 'currentPrice' | 'leadingBidderId' | 'increment' | 'bids' | 'closesAt'>,
+  bid: { bidderId: string; amount: number; at: Date }
+): AuctionBidCheck {
+  if (auction.state !== 'open' || auction.closesAt.getTime() <= bid.at.getTime()) {
+    return { outcome: 'refused', code: 'AUCTION_CLOSED', reason: 'The auction has closed' };
+  }
+
+  if (bid.bidderId === auction.sellerId) {
+    return { outcome: 'refused', code: 'SELLER_CANNOT_BID', reason: 'Sellers cannot bid on their own lot' };
+  }
+
+  if (auction.mode === 'sealed_bid' && auction.bids.some(existing => existing.bidderId === bid.bidderId)) {
+    return { outcome: 'refused', code: 'ALREADY_BID', reason: 'Each buyer gets one sealed bid' };
+  }
+
+  if (auction.mode === 'english' && auction.leadingBidderId === bid.bidderId) {
+    return { outcome: 'refused', code: 'ALREADY_LEADING', reason: 'You already hold the leading bid' };
+  }
+
+  const minimum = minimumBid(auction);
+  if (bid.amount < minimum) {
+    return { outcome: 'refused', code: 'BELOW_MINIMUM_BID', reason: `Bids must be at least ${minimum}` };
+  }
+
+  const remaining = auction.closesAt.getTime() - bid.at.getTime();
+  const closesAt = auction.mode === 'english' && remaining < LATE_BID_EXTENSION_MS
+    ? new Date(bid.at.getTime() + LATE_BID_EXTENSION_MS)
+    : auction.closesAt;
+
+  return { outcome: 'allowed', closesAt };
+}
+
+/**
+ * Highest bid, the earliest one on a tie.
+ */
+export function highestBid(bids: AuctionBid[]): AuctionBid | undefined {
+  return bids.reduce<AuctionBid | undefined>((best, bid) =>
+    !best || bid.amount > best.amount || (bid.amount === best.amount && bid.sequence < best.sequence) ? bid : best,
+  undefined);
+}
+
+export function meetsReserve(amount: number, reservePrice?: number): boolean {
+  return reservePrice === undefined || amount >= reservePrice;
+}
+
+/**
+ * The auction as one vendor may see it: the reserve is the seller's alone, and while a
+ * sealed-bid auction is open nobody sees the amounts but their own. Without a viewer, this is
+ * what goes out to everyone watching.
+ */
+export function viewAuction(auction: AuctionSession, viewerId?: string): AuctionSession {
+  const isSeller = viewerId !== undefined && viewerId === auction.sellerId;
+  const sealed = auction.mode === 'sealed_bid' && auction.state === 'open';
+  const leading = sealed ? undefined : auction.currentPrice;
+
+  return {
+    ...auction,
+    reservePrice: isSeller ? auction.reservePrice : undefined,
+    reserveMet: leading !== undefined ? meetsReserve(leading, auction.reservePrice) : undefined,
+    currentPrice: leading,
+    leadingBidderId: sealed ? undefined : auction.leadingBidderId,
+    minimumBid: auction.state === 'open' ? minimumBid(auction) : undefined,
+    bids: auction.bids.map(bid => sealed && bid.bidderId !== viewerId ? withoutAmount(bid) : bid)
+  };
+}
+
+export function withoutAmount(bid: AuctionBid): AuctionBid {
+  return { bidId: bid.bidId, bidderId: bid.bidderId, sequence: bid.sequence, placedAt: bid.placedAt };
+}
+
+/**
+ * Problems with an auction request, empty when it can be opened.
+ */
+export function validateAuctionInput(input: Partial<AuctionInput>): string[] {
+  const errors: string[] = [];
+  const positive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+
+  if (typeof input.commodity !== 'string' || !input.commodity.trim()) {
+    errors.push('commodity is required');
+  }
+  if (!positive(input.quantity)) {
+    errors.push('quantity must be a positive number');
+  }
+  if (input.unit !== undefined && !QUANTITY_UNITS.includes(input.unit)) {
+    errors.push(`unit must be one of: ${QUANTITY_UNITS.join(', ')}`);
+  }
+  if (!AUCTION_MODES.includes(input.mode)) {
+    errors.push(`mode must be one of: ${AUCTION_MODES.join(', ')}`);
+  }
+  if (!positive(input.startingPrice)) {
+    errors.push('startingPrice must be a positive number');
+  }
+  if (input.reservePrice !== undefined && !positive(input.reservePrice)) {
+    errors.push('reservePrice must be a positive number');
+  }
+  if (input.increment !== undefined) {
+    const { amount = 0, percent = 0 } = input.increment;
+    if (typeof amount !== 'number' || typeof percent !== 'number' || amount < 0 || percent < 0 || percent > 100 || amount + percent <= 0) {
+      errors.push('increment needs a positive amount or a percent between 0 and 100');
+    }
+  }
+  if (input.durationMs !== undefined && !positive(input.durationMs)) {
+    errors.push('durationMinutes must be a positive number');
+  }
+
+  return errors;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
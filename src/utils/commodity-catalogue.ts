@@ -0,0 +1,184 @@
+/**
+ * Bundled commodity catalogue and name matching.
+ *
+ * The catalogue is seeded from this list and then maintained by admins in the database.
+ * Names cover English, Hindi (hi) and Tamil (ta) plus the trade names vendors type, so
+ * "kanda", "प्याज" and "வெங்காயம்" all resolve to Onion.
+ */
+
+import { CatalogueCommodity, CommodityCategory, CommoditySearchResult } from '../types';
+
+export const COMMODITY_CATEGORIES: CommodityCategory[] = [
+  { id: 'foodgrains', name: 'Foodgrains', names: { hi: 'खाद्यान्न', ta: 'உணவு தானியங்கள்' } },
+  { id: 'cereals', name: 'Cereals', parentId: 'foodgrains', names: { hi: 'अनाज', ta: 'தானியங்கள்' } },
+  { id: 'pulses', name: 'Pulses', parentId: 'foodgrains', names: { hi: 'दालें', ta: 'பருப்பு வகைகள்' } },
+  { id: 'oilseeds', name: 'Oilseeds', names: { hi: 'तिलहन', ta: 'எண்ணெய் வித்துக்கள்' } },
+  { id: 'commercial', name: 'Commercial Crops', names: { hi: 'नकदी फसलें', ta: 'பணப் பயிர்கள்' } },
+  { id: 'fibres', name: 'Fibres', parentId: 'commercial', names: { hi: 'रेशा फसलें', ta: 'நார் பயிர்கள்' } },
+  { id: 'horticulture', name: 'Horticulture', names: { hi: 'बागवानी', ta: 'தோட்டக்கலை' } },
+  { id: 'vegetables', name: 'Vegetables', parentId: 'horticulture', names: { hi: 'सब्ज़ियाँ', ta: 'காய்கறிகள்' } },
+  { id: 'fruits', name: 'Fruits', parentId: 'horticulture', names: { hi: 'फल', ta: 'பழங்கள்' } },
+  { id: 'spices', name: 'Spices', parentId: 'horticulture', names: { hi: 'मसाले', ta: 'மசாலாப் பொருட்கள்' } }
+];
+
+type SeedCommodity = Omit<CatalogueCommodity, 'isActive'>;
+
+// AGMARKNET codes are only filled in where verified; admins can add the rest
+const SEED_COMMODITIES: SeedCommodity[] = [
+  { id: 'rice', name: 'Rice', categoryId: 'cereals', names: { hi: 'चावल', ta: 'அரிசி' }, aliases: ['chawal', 'arisi'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 3, indicativePrice: 2500 },
+  { id: 'paddy', name: 'Paddy', categoryId: 'cereals', names: { hi: 'धान', ta: 'நெல்' }, aliases: ['dhan', 'nel', 'paddy dhan'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 2 },
+  { id: 'wheat', name: 'Wheat', categoryId: 'cereals', names: { hi: 'गेहूं', ta: 'கோதுமை' }, aliases: ['gehun', 'gehu', 'godhumai'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 1, indicativePrice: 2200 },
+  { id: 'jowar', name: 'Jowar', categoryId: 'cereals', names: { hi: 'ज्वार', ta: 'சோளம்' }, aliases: ['sorghum', 'jawar', 'cholam', 'jola'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 5 },
+  { id: 'bajra', name: 'Bajra', categoryId: 'cereals', names: { hi: 'बाजरा', ta: 'கம்பு' }, aliases: ['pearl millet', 'kambu', 'sajje'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 270, agmarknetCode: 28 },
+  { id: 'maize', name: 'Maize', categoryId: 'cereals', names: { hi: 'मक्का', ta: 'மக்காச்சோளம்' }, aliases: ['corn', 'makka', 'makkai'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 270, agmarknetCode: 4, indicativePrice: 1800 },
+  { id: 'ragi', name: 'Ragi', categoryId: 'cereals', names: { hi: 'रागी', ta: 'கேழ்வரகு' }, aliases: ['finger millet', 'nachni', 'mandua', 'kezhvaragu'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 30 },
+  { id: 'barley', name: 'Barley', categoryId: 'cereals', names: { hi: 'जौ', ta: 'பார்லி' }, aliases: ['jau'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 29 },
+  { id: 'arhar', name: 'Arhar', categoryId: 'pulses', names: { hi: 'अरहर', ta: 'துவரை' }, aliases: ['tur', 'tuar', 'red gram', 'thuvarai'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 49 },
+  { id: 'moong', name: 'Moong', categoryId: 'pulses', names: { hi: 'मूंग', ta: 'பாசிப்பயறு' }, aliases: ['green gram', 'mung', 'pasi payaru'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 9 },
+  { id: 'urad', name: 'Urad', categoryId: 'pulses', names: { hi: 'उड़द', ta: 'உளுந்து' }, aliases: ['black gram', 'urd', 'ulundu'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 8 },
+  { id: 'masoor', name: 'Masoor', categoryId: 'pulses', names: { hi: 'मसूर', ta: 'மசூர் பருப்பு' }, aliases: ['lentil', 'masur'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365 },
+  { id: 'gram', name: 'Gram', categoryId: 'pulses', names: { hi: 'चना', ta: 'கொண்டைக்கடலை' }, aliases: ['chana', 'bengal gram', 'chickpea', 'kondai kadalai'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 6 },
+  { id: 'groundnut', name: 'Groundnut', categoryId: 'oilseeds', names: { hi: 'मूंगफली', ta: 'நிலக்கடலை' }, aliases: ['peanut', 'moongphali', 'verkadalai'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 180, agmarknetCode: 10 },
+  { id: 'sesamum', name: 'Sesamum', categoryId: 'oilseeds', names: { hi: 'तिल', ta: 'எள்' }, aliases: ['sesame', 'til', 'ellu', 'gingelly'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 11 },
+  { id: 'nigerseed', name: 'Nigerseed', categoryId: 'oilseeds', names: { hi: 'रामतिल', ta: 'பேயெள்' }, aliases: ['niger', 'ramtil'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365 },
+  { id: 'safflower', name: 'Safflower', categoryId: 'oilseeds', names: { hi: 'कुसुम', ta: 'குசம்பப்பூ' }, aliases: ['kusum', 'kardi'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365 },
+  { id: 'sunflower', name: 'Sunflower', categoryId: 'oilseeds', names: { hi: 'सूरजमुखी', ta: 'சூரியகாந்தி' }, aliases: ['sunflower seed', 'surajmukhi'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 270, agmarknetCode: 14 },
+  { id: 'soyabean', name: 'Soyabean', categoryId: 'oilseeds', names: { hi: 'सोयाबीन', ta: 'சோயா பீன்ஸ்' }, aliases: ['soybean', 'soya'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 13 },
+  { id: 'castor-seed', name: 'Castor seed', categoryId: 'oilseeds', names: { hi: 'अरंडी', ta: 'ஆமணக்கு' }, aliases: ['castor', 'arandi', 'amanakku'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365 },
+  { id: 'mustard', name: 'Rapeseed & Mustard', categoryId: 'oilseeds', names: { hi: 'सरसों', ta: 'கடுகு' }, aliases: ['mustard', 'sarson', 'rai', 'kadugu'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 12 },
+  { id: 'cotton', name: 'Cotton', categoryId: 'fibres', names: { hi: 'कपास', ta: 'பருத்தி' }, aliases: ['kapas', 'paruthi'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 15, indicativePrice: 2500 },
+  { id: 'jute', name: 'Jute', categoryId: 'fibres', names: { hi: 'जूट', ta: 'சணல்' }, aliases: ['pat', 'patsan', 'sanal'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 16 },
+  { id: 'mesta', name: 'Mesta', categoryId: 'fibres', names: { hi: 'मेस्ता', ta: 'புளிச்சை' }, aliases: ['kenaf'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365 },
+  { id: 'sugarcane', name: 'Sugarcane', categoryId: 'commercial', names: { hi: 'गन्ना', ta: 'கரும்பு' }, aliases: ['ganna', 'karumbu'], defaultUnit: 'ton', perishability: 'high', shelfLifeDays: 2, indicativePrice: 300 },
+  { id: 'potato', name: 'Potato', categoryId: 'vegetables', names: { hi: 'आलू', ta: 'உருளைக்கிழங்கு' }, aliases: ['aloo', 'alu', 'urulai'], defaultUnit: 'quintal', perishability: 'medium', shelfLifeDays: 90, agmarknetCode: 24 },
+  { id: 'onion', name: 'Onion', categoryId: 'vegetables', names: { hi: 'प्याज़', ta: 'வெங்காயம்' }, aliases: ['pyaz', 'pyaaz', 'kanda', 'vengayam', 'प्याज'], defaultUnit: 'quintal', perishability: 'medium', shelfLifeDays: 120, agmarknetCode: 23 },
+  { id: 'tomato', name: 'Tomato', categoryId: 'vegetables', names: { hi: 'टमाटर', ta: 'தக்காளி' }, aliases: ['tamatar', 'thakkali'], defaultUnit: 'crate', perishability: 'high', shelfLifeDays: 7, agmarknetCode: 78 },
+  { id: 'garlic', name: 'Garlic', categoryId: 'vegetables', names: { hi: 'लहसुन', ta: 'பூண்டு' }, aliases: ['lahsun', 'poondu'], defaultUnit: 'quintal', perishability: 'medium', shelfLifeDays: 120, agmarknetCode: 25 },
+  { id: 'ginger', name: 'Ginger', categoryId: 'vegetables', names: { hi: 'अदरक', ta: 'இஞ்சி' }, aliases: ['adrak', 'inji'], defaultUnit: 'quintal', perishability: 'medium', shelfLifeDays: 30 },
+  { id: 'turmeric', name: 'Turmeric', categoryId: 'spices', names: { hi: 'हल्दी', ta: 'மஞ்சள்' }, aliases: ['haldi', 'manjal'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 365, agmarknetCode: 39, indicativePrice: 8000 },
+  { id: 'coriander', name: 'Coriander', categoryId: 'spices', names: { hi: 'धनिया', ta: 'கொத்தமல்லி' }, aliases: ['dhaniya', 'kothamalli'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 180 },
+  { id: 'chillies', name: 'Chillies', categoryId: 'spices', names: { hi: 'मिर्च', ta: 'மிளகாய்' }, aliases: ['chilli', 'mirchi', 'milagai', 'dry chillies'], defaultUnit: 'quintal', perishability: 'low', shelfLifeDays: 180 },
+  { id: 'mango', name: 'Mango', categoryId: 'fruits', names: { hi: 'आम', ta: 'மாம்பழம்' }, aliases: ['aam', 'mambazham'], defaultUnit: 'crate', perishability: 'high', shelfLifeDays: 7, agmarknetCode: 20 },
+  { id: 'banana', name: 'Banana', categoryId: 'fruits', names: { hi: 'केला', ta: 'வாழைப்பழம்' }, aliases: ['kela', 'vazhaipazham'], defaultUnit: 'crate', perishability: 'high', shelfLifeDays: 5, agmarknetCode: 19 },
+  { id: 'apple', name: 'Apple', categoryId: 'fruits', names: { hi: 'सेब', ta: 'ஆப்பிள்' }, aliases: ['seb'], defaultUnit: 'crate', perishability: 'medium', shelfLifeDays: 60 },
+  { id: 'grapes', name: 'Grapes', categoryId: 'fruits', names: { hi: 'अंगूर', ta: 'திராட்சை' }, aliases: ['angoor', 'draksha'], defaultUnit: 'crate', perishability: 'high', shelfLifeDays: 7 }
+];
+
+export const COMMODITY_CATALOGUE: CatalogueCommodity[] = SEED_COMMODITIES.map(commodity => ({ ...commodity, isActive: true }));
+
+export const MIN_SEARCH_SCORE = 0.5;
+
+/**
+ * Lower-cases and strips punctuation while keeping letters and vowel signs of any script,
+ * so Devanagari and Tamil names compare the same way as English ones.
+ */
+export function normalizeCommodityText(text: string): string {
+  return text.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+}
+
+export function commodityNames(commodity: CatalogueCommodity): string[] {
+  return [commodity.name, commodity.id, ...Object.values(commodity.names), ...commodity.aliases];
+}
+
+// Edit distance where swapping two adjacent letters counts as one typo
+function editDistance(a: string[], b: string[]): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * How well a query matches one name: exact 1, prefix 0.9, word prefix 0.85, substring 0.75,
+ * otherwise edit-distance similarity (so "onoin" and "tamatr" still find their commodity).
+ */
+export function matchScore(query: string, name: string): number {
+  const q = normalizeCommodityText(query);
+  const n = normalizeCommodityText(name);
+  if (!q || !n) return 0;
+
+  if (q === n) return 1;
+  if (n.startsWith(q)) return 0.9;
+  if (n.split(' ').some(word => word.startsWith(q))) return 0.85;
+  if (n.includes(q)) return 0.75;
+
+  // Compare by code point so each Devanagari/Tamil letter counts once
+  const queryChars = Array.from(q);
+  const similarity = (candidate: string) => {
+    const chars = Array.from(candidate);
+    return 1 - editDistance(queryChars, chars) / Math.max(queryChars.length, chars.length);
+  };
+
+  return Math.round(Math.max(similarity(n), ...n.split(' ').map(similarity)) * 0.8 * 100) / 100;
+}
+
+export function searchCatalogue(
+  commodities: CatalogueCommodity[],
+  query: string,
+  options: { limit?: number; includeInactive?: boolean } = {}
+): CommoditySearchResult[] {
+  const results: CommoditySearchResult[] = [];
+
+  for (const commodity of commodities) {
+    if (!commodity.isActive && !options.includeInactive) continue;
+
+    let best: CommoditySearchResult | null = null;
+    for (const name of commodityNames(commodity)) {
+      const score = matchScore(query, name);
+      if (!best || score > best.score) {
+        best = { commodity, score, matchedOn: name };
+      }
+    }
+
+    if (best && best.score >= MIN_SEARCH_SCORE) {
+      results.push(best);
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.commodity.name.localeCompare(b.commodity.name))
+    .slice(0, options.limit || 10);
+}
+
+/**
+ * Exact lookup by id, canonical name, translated name or alias.
+ */
+export function findCatalogueCommodity(commodities: CatalogueCommodity[], name?: string | null): CatalogueCommodity | undefined {
+  if (!name) return undefined;
+
+  const key = normalizeCommodityText(name);
+  return commodities.find(commodity => commodityNames(commodity).some(candidate => normalizeCommodityText(candidate) === key));
+}
+
+/**
+ * A category and everything under it, e.g. horticulture -> vegetables, fruits, spices.
+ */
+export function categoryWithDescendants(categories: CommodityCategory[], categoryId: string): Set<string> {
+  const ids = new Set([categoryId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+
+  return ids;
+}
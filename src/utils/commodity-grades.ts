@@ -0,0 +1,79 @@
+/**
+ * Variety and grade vocabulary for mandi price quotes.
+ *
+ * AGMARKNET quotes each commodity per variety (e.g. Rice: Basmati, Sona Masuri) and
+ * per grade. FAQ (Fair Average Quality) is the reference grade most arrivals are quoted at.
+ */
+
+export type CommodityGrade = 'Grade A' | 'FAQ' | 'Non-FAQ';
+
+export type VendorItemQuality = 'premium' | 'standard' | 'economy';
+
+export const COMMODITY_GRADES: CommodityGrade[] = ['Grade A', 'FAQ', 'Non-FAQ'];
+
+export const DEFAULT_GRADE: CommodityGrade = 'FAQ';
+
+// AGMARKNET uses "Other" when a quote is not broken down by variety
+export const DEFAULT_VARIETY = 'Other';
+
+export const COMMODITY_VARIETIES: Record<string, string[]> = {
+  'Rice': ['Basmati', 'Sona Masuri', 'Ponni', 'IR-64', 'Common'],
+  'Wheat': ['Sharbati', 'Lokwan', 'Dara', 'Mill Quality'],
+  'Maize': ['Yellow', 'Hybrid', 'Local'],
+  'Cotton': ['Shankar-6', 'H-4', 'DCH-32', 'Bunny', 'LRA'],
+  'Turmeric': ['Finger', 'Bulb', 'Salem', 'Rajapuri'],
+  'Onion': ['Red', 'Pole', 'Big', 'Small'],
+  'Potato': ['Jyoti', 'Chipsona', 'Desi'],
+  'Chillies': ['Teja', 'Byadgi', 'Guntur Sannam', '334'],
+  'Soyabean': ['Yellow', 'Black'],
+  'Groundnut': ['Bold', 'Java', 'TJ']
+};
+
+/**
+ * Vendor item quality maps onto the grade an item should be priced against.
+ */
+const QUALITY_TO_GRADE: Record<VendorItemQuality, CommodityGrade> = {
+  premium: 'Grade A',
+  standard: 'FAQ',
+  economy: 'Non-FAQ'
+};
+
+// Typical spread of each grade relative to FAQ, used when a source only quotes FAQ
+export const GRADE_PRICE_FACTORS: Record<CommodityGrade, number> = {
+  'Grade A': 1.15,
+  'FAQ': 1.0,
+  'Non-FAQ': 0.85
+};
+
+export function gradeForQuality(quality: VendorItemQuality): CommodityGrade {
+  return QUALITY_TO_GRADE[quality];
+}
+
+/**
+ * Normalises the grade labels seen across sources ("F.A.Q.", "A", "Superior", "Non FAQ", ...).
+ * Returns undefined for labels we cannot place.
+ */
+export function normalizeGrade(raw?: string | null): CommodityGrade | undefined {
+  if (!raw) return undefined;
+
+  const label = raw.toLowerCase().replace(/[^a-z]/g, '');
+
+  if (['faq', 'fairaveragequality', 'medium', 'standard'].includes(label)) return 'FAQ';
+  if (['gradea', 'a', 'superior', 'premium', 'best', 'large'].includes(label)) return 'Grade A';
+  if (['nonfaq', 'gradeb', 'b', 'inferior', 'economy', 'small', 'local'].includes(label)) return 'Non-FAQ';
+
+  return undefined;
+}
+
+/**
+ * Canonical casing for a known variety; unknown varieties are passed through trimmed.
+ */
+export function normalizeVariety(commodity: string, raw?: string | null): string {
+  if (!raw || !raw.trim()) return DEFAULT_VARIETY;
+
+  const known = Object.entries(COMMODITY_VARIETIES)
+    .find(([name]) => name.toLowerCase() === (commodity || '').toLowerCase())?.[1] || [];
+  const match = known.find(variety => variety.toLowerCase() === raw.trim().toLowerCase());
+
+  return match || raw.trim();
+}
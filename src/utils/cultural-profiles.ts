@@ -0,0 +1,221 @@
+/**
+ * Regional cultural profiles for Indian markets.
+ *
+ * Profiles live in the cultural_profiles table, keyed by a state ('maharashtra') or an area
+ * within one ('vidarbha'), and districts map to the profile that describes how they trade. The
+ * profiles below are only used when the database cannot be read.
+ */
+
+import { CulturalProfile, CulturalProfileObservations } from '../types';
+
+export const DEFAULT_PROFILE_KEY = 'default';
+
+// Sessions a profile needs since its last admin edit before outcomes may change its traits
+export const MIN_OBSERVED_SESSIONS = 20;
+
+export const BUILT_IN_CULTURAL_PROFILES: CulturalProfile[] = [
+  {
+    key: 'punjab',
+    region: 'Punjab',
+    state: 'Punjab',
+    tradingCustoms: {
+      negotiationStyle: 'direct',
+      decisionMaking: 'quick',
+      priceFlexibility: 'medium',
+      relationshipImportance: 'high'
+    },
+    communicationPatterns: {
+      formalityLevel: 'semi-formal',
+      directness: 'direct',
+      timeOrientation: 'punctual'
+    },
+    marketPractices: {
+      commonPaymentTerms: ['cash_on_delivery', 'advance_payment', '15_days_credit'],
+      typicalDeliveryMethods: ['farm_pickup', 'mandi_delivery', 'warehouse_delivery'],
+      qualityAssessmentMethods: ['visual_inspection', 'moisture_testing', 'sample_testing'],
+      disputeResolutionPreferences: ['community_elder', 'mandi_committee', 'direct_negotiation']
+    }
+  },
+  {
+    key: 'maharashtra',
+    region: 'Maharashtra',
+    state: 'Maharashtra',
+    tradingCustoms: {
+      negotiationStyle: 'relationship-based',
+      decisionMaking: 'deliberate',
+      priceFlexibility: 'high',
+      relationshipImportance: 'high'
+    },
+    communicationPatterns: {
+      formalityLevel: 'formal',
+      directness: 'indirect',
+      timeOrientation: 'flexible'
+    },
+    marketPractices: {
+      commonPaymentTerms: ['cash_on_delivery', '30_days_credit', 'seasonal_payment'],
+      typicalDeliveryMethods: ['mandi_delivery', 'warehouse_delivery', 'direct_transport'],
+      qualityAssessmentMethods: ['grade_certification', 'visual_inspection', 'lab_testing'],
+      disputeResolutionPreferences: ['mandi_committee', 'arbitration', 'community_mediation']
+    }
+  },
+  {
+    key: 'tamil_nadu',
+    region: 'Tamil Nadu',
+    state: 'Tamil Nadu',
+    tradingCustoms: {
+      negotiationStyle: 'indirect',
+      decisionMaking: 'consensus',
+      priceFlexibility: 'medium',
+      relationshipImportance: 'high'
+    },
+    communicationPatterns: {
+      formalityLevel: 'formal',
+      directness: 'indirect',
+      timeOrientation: 'flexible'
+    },
+    marketPractices: {
+      commonPaymentTerms: ['cash_on_delivery', 'advance_payment', 'cooperative_payment'],
+      typicalDeliveryMethods: ['cooperative_collection', 'mandi_delivery', 'direct_pickup'],
+      qualityAssessmentMethods: ['cooperative_grading', 'visual_inspection', 'traditional_methods'],
+      disputeResolutionPreferences: ['cooperative_committee', 'village_elder', 'government_officer']
+    }
+  }
+];
+
+export const DEFAULT_CULTURAL_PROFILE: CulturalProfile = {
+  key: DEFAULT_PROFILE_KEY,
+  region: 'default',
+  state: 'default',
+  tradingCustoms: {
+    negotiationStyle: 'direct',
+    decisionMaking: 'deliberate',
+    priceFlexibility: 'medium',
+    relationshipImportance: 'medium'
+  },
+  communicationPatterns: {
+    formalityLevel: 'semi-formal',
+    directness: 'direct',
+    timeOrientation: 'punctual'
+  },
+  marketPractices: {
+    commonPaymentTerms: ['cash_on_delivery', '15_days_credit'],
+    typicalDeliveryMethods: ['mandi_delivery', 'direct_pickup'],
+    qualityAssessmentMethods: ['visual_inspection', 'sample_testing'],
+    disputeResolutionPreferences: ['direct_negotiation', 'mandi_committee']
+  }
+};
+
+const TRAIT_VALUES = {
+  tradingCustoms: {
+    negotiationStyle: ['direct', 'indirect', 'relationship-based'],
+    decisionMaking: ['quick', 'deliberate', 'consensus'],
+    priceFlexibility: ['high', 'medium', 'low'],
+    relationshipImportance: ['high', 'medium', 'low']
+  },
+  communicationPatterns: {
+    formalityLevel: ['formal', 'semi-formal', 'informal'],
+    directness: ['direct', 'indirect'],
+    timeOrientation: ['punctual', 'flexible']
+  }
+} as const;
+
+const PRACTICE_LISTS = ['commonPaymentTerms', 'typicalDeliveryMethods', 'qualityAssessmentMethods', 'disputeResolutionPreferences'] as const;
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,99}$/;
+
+export interface CulturalProfileInput {
+  region: string;     // display name
+  state: string;
+  districts?: string[];
+  tradingCustoms: CulturalProfile['tradingCustoms'];
+  communicationPatterns: CulturalProfile['communicationPatterns'];
+  marketPractices: CulturalProfile['marketPractices'];
+}
+
+/**
+ * Profile key or district for a place name: 'Tamil Nadu' -> 'tamil_nadu'.
+ */
+export function normalizeRegionKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+/**
+ * Keys to try for a location, most specific first, so 'Akola, Maharashtra' finds the district
+ * before the state.
+ */
+export function locationKeys(location: string): string[] {
+  return location.split(',').map(normalizeRegionKey).filter(key => key.length > 0);
+}
+
+export function isValidProfileKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Problems with an admin's profile, empty when it can be saved.
+ */
+export function validateCulturalProfile(input: Partial<CulturalProfileInput>): string[] {
+  const errors: string[] = [];
+
+  if (typeof input.region !== 'string' || !input.region.trim()) {
+    errors.push('region is required');
+  }
+  if (typeof input.state !== 'string' || !input.state.trim() || input.state.length > 50) {
+    errors.push('state is required and at most 50 characters');
+  }
+  if (input.districts !== undefined &&
+      (!Array.isArray(input.districts) || input.districts.some(district => typeof district !== 'string' || !isValidProfileKey(normalizeRegionKey(district))))) {
+    errors.push('districts must be a list of district names');
+  }
+
+  for (const [group, traits] of Object.entries(TRAIT_VALUES)) {
+    const values = (input as Record<string, any>)[group];
+    for (const [trait, allowed] of Object.entries(traits)) {
+      if (!(allowed as readonly string[]).includes(values?.[trait])) {
+        errors.push(`${group}.${trait} must be one of: ${allowed.join(', ')}`);
+      }
+    }
+  }
+
+  for (const list of PRACTICE_LISTS) {
+    const values = input.marketPractices?.[list];
+    if (!Array.isArray(values) || values.length === 0 || values.some(value => typeof value !== 'string' || !value.trim())) {
+      errors.push(`marketPractices.${list} must be a non-empty list of strings`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Trading customs adjusted to what negotiations in the profile's districts showed. Only the
+ * traits outcomes measure move: few offers per deal means quick decisions, many means
+ * deliberate ones (consensus is kept, as offer counts cannot tell it apart), and the size of
+ * agreed price moves sets price flexibility. Between the thresholds the trait is left alone.
+ */
+export function refineTradingCustoms(
+  customs: CulturalProfile['tradingCustoms'],
+  observations: CulturalProfileObservations
+): CulturalProfile['tradingCustoms'] {
+  if (observations.sessions < MIN_OBSERVED_SESSIONS) {
+    return customs;
+  }
+
+  let decisionMaking = customs.decisionMaking;
+  if (observations.averageOffers <= 3) {
+    decisionMaking = 'quick';
+  } else if (observations.averageOffers >= 6 && decisionMaking === 'quick') {
+    decisionMaking = 'deliberate';
+  }
+
+  let priceFlexibility = customs.priceFlexibility;
+  if (observations.averagePriceMovement >= 8) {
+    priceFlexibility = 'high';
+  } else if (observations.averagePriceMovement <= 3) {
+    priceFlexibility = 'low';
+  } else if (observations.averagePriceMovement >= 4 && observations.averagePriceMovement <= 7) {
+    priceFlexibility = 'medium';
+  }
+
+  return { ...customs, decisionMaking, priceFlexibility };
+}
@@ -0,0 +1,226 @@
+/**
+ * Valuing a deal's non-price terms.
+ *
+ * Market prices are same-day cash prices for standard quality delivered at the mandi, so an
+ * offer's terms are priced against that: credit is worth less than cash, a farm-gate pickup
+ * spares the seller transport and mandi handling, and a looser moisture tolerance means the buyer
+ * pays for water. Both sides see the same effective price; a seller wants it high, a buyer low.
+ */
+
+import { DealTerms, DeliveryMethod, NegotiationReason, QuantityUnit, TermsAdjustment, TermsTradeOff, TermsValuation } from '../types';
+import { BASE_UNIT } from './units';
+import { reason } from './negotiation-reasons';
+
+const ANNUAL_CREDIT_RATE = 0.18;        // informal mandi credit runs around 1.5% a month
+const ADVANCE_PAYMENT_DAYS = 7;         // 'advance payment' without a date: about a week before delivery
+const SUGGESTED_CREDIT_DAYS = 15;
+
+// Share of the price the seller saves or spends on delivery compared with selling at the mandi
+const DELIVERY_VALUE: Record<DeliveryMethod, number> = {
+  farm_pickup: 0.03,          // transport, loading and mandi handling the seller no longer pays
+  mandi_delivery: 0,
+  warehouse_delivery: -0.01   // haul beyond the mandi and unloading at the buyer's godown
+};
+
+interface DescribedTerm {
+  description: string;
+  reason: NegotiationReason;
+}
+
+interface TermRate extends DescribedTerm {
+  attribute: TermsAdjustment['attribute'];
+  rate: number;
+}
+
+const DELIVERY_DESCRIPTIONS: Record<DeliveryMethod, string> = {
+  farm_pickup: 'pickup at the farm gate',
+  mandi_delivery: 'delivery at the mandi',
+  warehouse_delivery: "delivery to the buyer's warehouse"
+};
+
+// Fair average quality moisture limits (%); each point above the limit is water sold as grain
+const STANDARD_MOISTURE_PERCENT: Record<string, number> = {
+  wheat: 12,
+  paddy: 17,
+  maize: 14,
+  soyabean: 12
+};
+
+/**
+ * Days of credit in the terms: the explicit field, else read from payment terms text such as
+ * '15_days_credit', 'advance_payment' or 'cash_on_delivery'. Null when the terms do not say.
+ */
+export function resolveCreditDays(terms?: DealTerms): number | null {
+  if (terms?.creditDays !== undefined && isFinite(terms.creditDays)) {
+    return terms.creditDays;
+  }
+
+  const text = terms?.paymentTerms?.toLowerCase();
+  if (!text) return null;
+
+  const days = text.match(/(\d+)[\s_-]*days?/);
+  if (text.includes('advance')) return -(days ? parseInt(days[1]) : ADVANCE_PAYMENT_DAYS);
+  if (days) return parseInt(days[1]);
+  if (/cash|same[\s_-]?day|immediate|on[\s_-]?delivery/.test(text)) return 0;
+  return null;
+}
+
+export function describeCredit(days: number): string {
+  if (days === 0) return 'same-day payment';
+  return days > 0 ? `${days} days' credit` : `payment ${-days} days in advance`;
+}
+
+export function describeDelivery(method: DeliveryMethod): string {
+  return DELIVERY_DESCRIPTIONS[method] || method;
+}
+
+export function creditReason(days: number): NegotiationReason {
+  if (days === 0) return reason('terms.same_day');
+  return days > 0 ? reason('terms.credit', { days }) : reason('terms.advance', { days: -days });
+}
+
+function deliveryReason(method: DeliveryMethod): NegotiationReason {
+  return reason(`terms.${method}`);
+}
+
+export function standardMoisture(commodity?: string): number | undefined {
+  return commodity ? STANDARD_MOISTURE_PERCENT[commodity.trim().toLowerCase()] : undefined;
+}
+
+/**
+ * Prices an offer's terms. Terms the function cannot value (free-text quality specs, moisture
+ * for commodities without a standard) are left out rather than guessed.
+ */
+export function valueTerms(
+  price: number,
+  terms: DealTerms | undefined,
+  options: { commodity?: string; unit?: QuantityUnit; marketPrice?: number } = {}
+): TermsValuation {
+  const rates = termRates(terms, options.commodity);
+  const adjustments: TermsAdjustment[] = rates.map(rate => ({
+    attribute: rate.attribute,
+    description: rate.description,
+    reason: rate.reason,
+    value: round(price * rate.rate)
+  }));
+  const effectivePrice = round(price * (1 + totalRate(rates)));
+
+  return {
+    effectivePrice,
+    adjustments,
+    ...(options.marketPrice > 0
+      ? { packageDeviation: round((effectivePrice - options.marketPrice) / options.marketPrice * 100) }
+      : {}),
+    tradeOffs: suggestTradeOffs(price, terms, options.commodity, options.unit || BASE_UNIT)
+  };
+}
+
+/**
+ * Headline price that makes a package with the given terms worth `effectivePrice`.
+ */
+export function priceForTerms(effectivePrice: number, terms: DealTerms | undefined, commodity?: string): number {
+  return round(effectivePrice / (1 + totalRate(termRates(terms, commodity))));
+}
+
+// Alternative terms worth offering or asking for, each with the price change that keeps the deal even
+function suggestTradeOffs(price: number, terms: DealTerms | undefined, commodity: string | undefined, unit: QuantityUnit): TermsTradeOff[] {
+  const tradeOffs: TermsTradeOff[] = [];
+  const current = terms || {};
+
+  const creditDays = resolveCreditDays(current) ?? 0;
+  const creditChange: Partial<DealTerms> = creditDays > 0
+    ? { creditDays: 0, paymentTerms: 'same_day' }
+    : { creditDays: SUGGESTED_CREDIT_DAYS, paymentTerms: `${SUGGESTED_CREDIT_DAYS}_days_credit` };
+  tradeOffs.push(tradeOff('payment', price, current, creditChange, commodity, unit,
+    { description: describeCredit(creditChange.creditDays!), reason: creditReason(creditChange.creditDays!) },
+    { description: describeCredit(creditDays), reason: creditReason(creditDays) }));
+
+  const delivery = current.deliveryMethod || 'mandi_delivery';
+  const deliveryChange: DeliveryMethod = delivery === 'farm_pickup' ? 'mandi_delivery' : 'farm_pickup';
+  tradeOffs.push(tradeOff('delivery', price, current, { deliveryMethod: deliveryChange }, commodity, unit,
+    { description: DELIVERY_DESCRIPTIONS[deliveryChange], reason: deliveryReason(deliveryChange) },
+    { description: DELIVERY_DESCRIPTIONS[delivery], reason: deliveryReason(delivery) }));
+
+  const standard = standardMoisture(commodity);
+  if (standard !== undefined && current.maxMoisturePercent !== undefined && current.maxMoisturePercent !== standard) {
+    tradeOffs.push(tradeOff('quality', price, current, { maxMoisturePercent: standard }, commodity, unit,
+      { description: `the standard ${standard}% moisture limit`, reason: reason('terms.standard_moisture', { standard }) },
+      { description: `${current.maxMoisturePercent}% moisture`, reason: reason('terms.current_moisture', { max: current.maxMoisturePercent }) }));
+  }
+
+  return tradeOffs.filter(option => Math.abs(option.priceChange) >= 1);
+}
+
+function tradeOff(
+  attribute: TermsTradeOff['attribute'],
+  price: number,
+  terms: DealTerms,
+  change: Partial<DealTerms>,
+  commodity: string | undefined,
+  unit: QuantityUnit,
+  changed: DescribedTerm,
+  current: DescribedTerm
+): TermsTradeOff {
+  const effectivePrice = price * (1 + totalRate(termRates(terms, commodity)));
+  const newPrice = priceForTerms(effectivePrice, { ...terms, ...change }, commodity);
+  const priceChange = round(newPrice - price);
+
+  return {
+    attribute,
+    change,
+    priceChange,
+    description: `₹${Math.round(newPrice)}/${unit} with ${changed.description} is worth the same as ` +
+      `₹${Math.round(price)}/${unit} with ${current.description} (${priceChange < 0 ? '-' : '+'}₹${Math.abs(Math.round(priceChange))})`,
+    reason: reason('terms.trade_off', {
+      newPrice: Math.round(newPrice),
+      price: Math.round(price),
+      unit,
+      changed: changed.reason,
+      current: current.reason,
+      change: priceChange
+    })
+  };
+}
+
+function termRates(terms: DealTerms | undefined, commodity?: string): TermRate[] {
+  const rates: TermRate[] = [];
+
+  const creditDays = resolveCreditDays(terms);
+  if (creditDays) {
+    rates.push({
+      attribute: 'payment',
+      description: describeCredit(creditDays),
+      reason: creditReason(creditDays),
+      rate: -ANNUAL_CREDIT_RATE * creditDays / 365
+    });
+  }
+
+  if (terms?.deliveryMethod && DELIVERY_VALUE[terms.deliveryMethod]) {
+    rates.push({
+      attribute: 'delivery',
+      description: DELIVERY_DESCRIPTIONS[terms.deliveryMethod],
+      reason: deliveryReason(terms.deliveryMethod),
+      rate: DELIVERY_VALUE[terms.deliveryMethod]
+    });
+  }
+
+  const standard = standardMoisture(commodity);
+  if (standard !== undefined && terms?.maxMoisturePercent !== undefined && terms.maxMoisturePercent !== standard) {
+    rates.push({
+      attribute: 'quality',
+      description: `up to ${terms.maxMoisturePercent}% moisture against the ${standard}% standard`,
+      reason: reason('terms.moisture', { max: terms.maxMoisturePercent, standard }),
+      rate: (standard - terms.maxMoisturePercent) / 100
+    });
+  }
+
+  return rates;
+}
+
+function totalRate(rates: Array<{ rate: number }>): number {
+  return rates.reduce((sum, rate) => sum + rate.rate, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
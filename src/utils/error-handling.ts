@@ -16,6 +16,14 @@ export interface FallbackOptions {
   retryDelay?: number; // in milliseconds
 }
 
+export type ServedFrom = 'live' | 'cache' | 'stale_cache' | 'database';
+
+export interface CacheFallbackResult<T> {
+  data: T;
+  servedFrom: ServedFrom;
+  cachedAt?: Date; // when the cached copy was written; absent for live and database results
+}
+
 export interface ServiceError extends Error {
   code: string;
   service: string;
@@ -208,6 +216,18 @@ export class ErrorHandler {
     context: ErrorContext,
     options: FallbackOptions = {}
   ): Promise<T> {
+    return (await this.withCacheFallbackDetailed(cacheKey, dataFetcher, context, options)).data;
+  }
+
+  /**
+   * Same as withCacheFallback, but also reports which layer served the data
+   */
+  public async withCacheFallbackDetailed<T>(
+    cacheKey: string,
+    dataFetcher: () => Promise<T>,
+    context: ErrorContext,
+    options: FallbackOptions = {}
+  ): Promise<CacheFallbackResult<T>> {
     const { useCache = true, maxCacheAge = 4 * 60 * 60 * 1000 } = options; // 4 hours default
 
     if (useCache) {
@@ -221,7 +241,7 @@ export class ErrorHandler {
           
           // Return cached data if within 4-hour limit
           if (cacheAge <= maxCacheAge) {
-            return cachedData.data;
+            return { data: cachedData.data, servedFrom: 'cache', cachedAt: new Date(cachedData.timestamp) };
           }
         }
       } catch (cacheError) {
@@ -245,7 +265,7 @@ export class ErrorHandler {
         }
       }
       
-      return data;
+      return { data, servedFrom: 'live' };
     } catch (error) {
       // Try to get stale cache data as last resort (Requirement 5.3)
       if (useCache) {
@@ -264,7 +284,7 @@ export class ErrorHandler {
               try {
                 const dbFallback = await this.getDatabaseFallback(context);
                 if (dbFallback) {
-                  return dbFallback;
+                  return { data: dbFallback, servedFrom: 'database' };
                 }
               } catch (dbError) {
                 console.warn('Database fallback failed, using stale cache');
@@ -282,7 +302,7 @@ export class ErrorHandler {
                   'medium'
                 ));
                 
-                return cachedData.data;
+                return { data: cachedData.data, servedFrom: 'stale_cache', cachedAt: new Date(cachedData.timestamp) };
               }
             }
           }
@@ -309,16 +329,31 @@ export class ErrorHandler {
       const db = this.dbManager.getPostgresClient();
       
       if (context.service === 'price_discovery') {
-        // Get recent price data from database
+        // Get recent price data from database, for the requested variety/grade only
+        const params: any[] = [context.metadata?.commodity || 'Rice'];
+        let specFilter = '';
+
+        if (context.metadata?.variety) {
+          params.push(context.metadata.variety);
+          specFilter += ` AND LOWER(variety) = LOWER($${params.length})`;
+        }
+
+        if (context.metadata?.grade) {
+          params.push(context.metadata.grade);
+          specFilter += ` AND grade = $${params.length}`;
+        }
+
         const result = await db.query(
-          'SELECT * FROM market_data WHERE commodity = $1 ORDER BY date DESC LIMIT 1',
-          [context.metadata?.commodity || 'Rice']
+          `SELECT * FROM market_data WHERE commodity = $1${specFilter} ORDER BY date DESC LIMIT 1`,
+          params
         );
         
         if (result.rows.length > 0) {
           const row = result.rows[0];
           return {
             commodity: row.commodity,
+            variety: row.variety,
+            grade: row.grade,
             currentPrice: parseFloat(row.modal_price),
             priceRange: {
               min: parseFloat(row.min_price),
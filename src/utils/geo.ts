@@ -0,0 +1,31 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * Great-circle distance between two points using the haversine formula.
+ * Road distance is typically 20-30% longer; callers apply their own factor if needed.
+ */
+export function haversineDistanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function isValidCoordinate(point: Partial<GeoPoint> | undefined | null): point is GeoPoint {
+  return !!point &&
+    typeof point.lat === 'number' && typeof point.lng === 'number' &&
+    isFinite(point.lat) && isFinite(point.lng) &&
+    point.lat >= -90 && point.lat <= 90 &&
+    point.lng >= -180 && point.lng <= 180;
+}
@@ -0,0 +1,179 @@
+/**
+ * Minimum Support Price (MSP) reference data.
+ *
+ * MSP is notified per crop year: kharif crops (paddy, pulses, oilseeds, cotton) around June for
+ * the marketing season starting in October, rabi crops (wheat, gram, mustard) around October for
+ * the season starting the following April. A rate applies until the next season's notification.
+ * Prices are per quintal.
+ *
+ * Rice is deliberately absent: mandi rice quotes are for milled rice, while MSP is for paddy.
+ */
+
+import { CropSeason, MspComparison, MspRate, NegotiationReason } from '../types';
+import { reason } from './negotiation-reasons';
+
+interface MspNotification {
+  cropYear: string;
+  season: CropSeason;
+  effectiveFrom: string;
+  notificationRef: string;
+  rates: Record<string, number | Record<string, number>>; // commodity -> rate, or variety -> rate
+}
+
+const MSP_NOTIFICATIONS: MspNotification[] = [
+  {
+    cropYear: '2023-24', season: 'kharif', effectiveFrom: '2023-10-01', notificationRef: 'CCEA, 7 Jun 2023',
+    rates: {
+      'Paddy': { 'Common': 2183, 'Grade A': 2203 },
+      'Jowar': { 'Hybrid': 3180, 'Maldandi': 3225 },
+      'Bajra': 2500, 'Ragi': 3846, 'Maize': 2090,
+      'Arhar': 7000, 'Moong': 8558, 'Urad': 6950,
+      'Groundnut': 6377, 'Sunflower': 6760, 'Soyabean': 4600, 'Sesamum': 8635, 'Nigerseed': 7734,
+      'Cotton': { 'Medium Staple': 6620, 'Long Staple': 7020 }
+    }
+  },
+  {
+    cropYear: '2024-25', season: 'rabi', effectiveFrom: '2024-04-01', notificationRef: 'CCEA, 18 Oct 2023',
+    rates: { 'Wheat': 2275, 'Barley': 1850, 'Gram': 5440, 'Masoor': 6425, 'Rapeseed & Mustard': 5650, 'Safflower': 5800 }
+  },
+  {
+    cropYear: '2024-25', season: 'kharif', effectiveFrom: '2024-10-01', notificationRef: 'CCEA, 19 Jun 2024',
+    rates: {
+      'Paddy': { 'Common': 2300, 'Grade A': 2320 },
+      'Jowar': { 'Hybrid': 3371, 'Maldandi': 3421 },
+      'Bajra': 2625, 'Ragi': 4290, 'Maize': 2225,
+      'Arhar': 7550, 'Moong': 8682, 'Urad': 7400,
+      'Groundnut': 6783, 'Sunflower': 7280, 'Soyabean': 4892, 'Sesamum': 9267, 'Nigerseed': 8717,
+      'Cotton': { 'Medium Staple': 7121, 'Long Staple': 7521 }
+    }
+  },
+  {
+    cropYear: '2025-26', season: 'rabi', effectiveFrom: '2025-04-01', notificationRef: 'CCEA, 16 Oct 2024',
+    rates: { 'Wheat': 2425, 'Barley': 1980, 'Gram': 5650, 'Masoor': 6700, 'Rapeseed & Mustard': 5950, 'Safflower': 5940 }
+  },
+  {
+    cropYear: '2025-26', season: 'kharif', effectiveFrom: '2025-10-01', notificationRef: 'CCEA, 28 May 2025',
+    rates: {
+      'Paddy': { 'Common': 2369, 'Grade A': 2389 },
+      'Jowar': { 'Hybrid': 3699, 'Maldandi': 3749 },
+      'Bajra': 2775, 'Ragi': 4886, 'Maize': 2400,
+      'Arhar': 8000, 'Moong': 8768, 'Urad': 7800,
+      'Groundnut': 7263, 'Sunflower': 7721, 'Soyabean': 5328, 'Sesamum': 9846, 'Nigerseed': 9537,
+      'Cotton': { 'Medium Staple': 7710, 'Long Staple': 8110 }
+    }
+  },
+  {
+    cropYear: '2026-27', season: 'rabi', effectiveFrom: '2026-04-01', notificationRef: 'CCEA, 1 Oct 2025',
+    rates: { 'Wheat': 2585, 'Barley': 2150, 'Gram': 5875, 'Masoor': 7000, 'Rapeseed & Mustard': 6200, 'Safflower': 6540 }
+  }
+];
+
+export const MSP_RATES: MspRate[] = MSP_NOTIFICATIONS.flatMap(notification =>
+  Object.entries(notification.rates).flatMap(([commodity, rate]) => {
+    const byVariety: Array<[string | undefined, number]> = typeof rate === 'number'
+      ? [[undefined, rate]]
+      : Object.entries(rate);
+
+    return byVariety.map(([variety, pricePerQuintal]) => ({
+      commodity,
+      ...(variety ? { variety } : {}),
+      cropYear: notification.cropYear,
+      season: notification.season,
+      pricePerQuintal,
+      effectiveFrom: new Date(notification.effectiveFrom),
+      notificationRef: notification.notificationRef
+    }));
+  })
+);
+
+export const MSP_COMMODITIES: string[] = Array.from(new Set(MSP_RATES.map(rate => rate.commodity)));
+
+// Market and notification names for the same crop
+const MSP_COMMODITY_ALIASES: Record<string, string> = {
+  paddy: 'Paddy', dhan: 'Paddy', paddydhan: 'Paddy', paddydhancommon: 'Paddy',
+  tur: 'Arhar', arhartur: 'Arhar', redgram: 'Arhar', tuar: 'Arhar',
+  moonggreengram: 'Moong', greengram: 'Moong',
+  uradblackgram: 'Urad', blackgram: 'Urad',
+  chana: 'Gram', bengalgram: 'Gram', gramwhole: 'Gram',
+  lentil: 'Masoor', masoordal: 'Masoor',
+  sesame: 'Sesamum', til: 'Sesamum', gingellyseed: 'Sesamum',
+  sunflowerseed: 'Sunflower',
+  soybean: 'Soyabean',
+  mustard: 'Rapeseed & Mustard', rapeseed: 'Rapeseed & Mustard', sarson: 'Rapeseed & Mustard',
+  kapas: 'Cotton',
+  jawar: 'Jowar', sorghum: 'Jowar',
+  pearlmillet: 'Bajra', fingermillet: 'Ragi', nachni: 'Ragi'
+};
+
+function nameKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Maps a market or notification commodity name onto the name MSP is notified under.
+ * Returns undefined for commodities without an MSP.
+ */
+export function mspCommodityName(commodity?: string | null): string | undefined {
+  if (!commodity) return undefined;
+
+  const key = nameKey(commodity);
+  return MSP_COMMODITY_ALIASES[key] || MSP_COMMODITIES.find(name => nameKey(name) === key);
+}
+
+/**
+ * The rate in force on a date: the most recent season notified before it. When the variety
+ * isn't one MSP distinguishes, the lowest rate of the season is used so we never over-flag.
+ */
+export function findMspRate(
+  rates: MspRate[],
+  commodity: string,
+  options: { variety?: string; date?: Date } = {}
+): MspRate | null {
+  const name = mspCommodityName(commodity);
+  if (!name) return null;
+
+  const date = options.date || new Date();
+  const inForce = rates.filter(rate => rate.commodity === name && rate.effectiveFrom.getTime() <= date.getTime());
+  if (inForce.length === 0) return null;
+
+  const latest = Math.max(...inForce.map(rate => rate.effectiveFrom.getTime()));
+  const season = inForce.filter(rate => rate.effectiveFrom.getTime() === latest);
+
+  const variety = options.variety ? nameKey(options.variety) : undefined;
+  const matching = variety ? season.find(rate => rate.variety && nameKey(rate.variety) === variety) : undefined;
+
+  return matching || season.reduce((lowest, rate) => rate.pricePerQuintal < lowest.pricePerQuintal ? rate : lowest);
+}
+
+export function compareWithMsp(pricePerQuintal: number, rate: MspRate): MspComparison {
+  const shortfall = Math.max(0, rate.pricePerQuintal - pricePerQuintal);
+
+  return {
+    commodity: rate.commodity,
+    ...(rate.variety ? { variety: rate.variety } : {}),
+    cropYear: rate.cropYear,
+    season: rate.season,
+    mspPerQuintal: rate.pricePerQuintal,
+    pricePerQuintal: Math.round(pricePerQuintal * 100) / 100,
+    belowMsp: pricePerQuintal < rate.pricePerQuintal,
+    shortfallPerQuintal: Math.round(shortfall * 100) / 100,
+    shortfallPercent: Math.round((shortfall / rate.pricePerQuintal) * 10000) / 100
+  };
+}
+
+export function describeMspShortfall(comparison: MspComparison): string {
+  const label = comparison.variety ? `${comparison.commodity} (${comparison.variety})` : comparison.commodity;
+  return `₹${comparison.pricePerQuintal}/quintal is ${comparison.shortfallPercent}% below the ` +
+    `${comparison.cropYear} ${comparison.season} MSP of ₹${comparison.mspPerQuintal} for ${label}`;
+}
+
+export function mspShortfallReason(comparison: MspComparison): NegotiationReason {
+  return reason('msp.shortfall', {
+    price: comparison.pricePerQuintal,
+    percent: comparison.shortfallPercent,
+    cropYear: comparison.cropYear,
+    season: comparison.season,
+    msp: comparison.mspPerQuintal,
+    commodity: comparison.variety ? `${comparison.commodity} (${comparison.variety})` : comparison.commodity
+  });
+}
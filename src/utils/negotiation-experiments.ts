@@ -0,0 +1,124 @@
+/**
+ * A/B experiments on negotiation suggestions.
+ *
+ * Bucketing hashes the experiment key with the vendor or session id, so the same vendor or
+ * session always lands in the same variant on every server without storing assignments.
+ * Variants and weights are fixed once an experiment is created; changing them would move
+ * vendors between variants mid-experiment.
+ */
+
+import { createHash } from 'crypto';
+import {
+  ExperimentTarget,
+  ExperimentUnit,
+  ExperimentVariant,
+  ExperimentVariantParameters,
+  NegotiationStep
+} from '../types';
+
+export const EXPERIMENT_TARGETS: ExperimentTarget[] = ['opening_price', 'response'];
+export const EXPERIMENT_UNITS: ExperimentUnit[] = ['vendor', 'session'];
+
+export const DEFAULT_ACCEPT_WITHIN_PERCENT = 2;
+export const DEFAULT_NEGOTIATE_TERMS_AFTER_OFFERS = 5;
+
+// Parameters each target reads, with the range an experiment may set them to
+const PARAMETER_LIMITS: Record<ExperimentTarget, Partial<Record<keyof ExperimentVariantParameters, { min: number; max: number; integer?: boolean }>>> = {
+  opening_price: {
+    openingPriceAdjustment: { min: -0.1, max: 0.1 }
+  },
+  response: {
+    acceptWithinPercent: { min: 0, max: 20 },
+    negotiateTermsAfterOffers: { min: 1, max: 50, integer: true }
+  }
+};
+
+const KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export interface ExperimentInput {
+  key: string;
+  name: string;
+  description?: string;
+  target: ExperimentTarget;
+  unit: ExperimentUnit;
+  variants: ExperimentVariant[];
+}
+
+/**
+ * Which experiments a recorded step answers to: the opening offer follows the opening price
+ * suggestion, later moves follow response recommendations. Messages follow neither.
+ */
+export function experimentTargetForStep(action: NegotiationStep['action']): ExperimentTarget | null {
+  if (action === 'offer') return 'opening_price';
+  if (action === 'counter' || action === 'accept' || action === 'reject') return 'response';
+  return null;
+}
+
+/**
+ * Sticky variant for a vendor or session id: a point in [0, 1) from the hash, placed on the
+ * variants' cumulative weights.
+ */
+export function bucketVariant(experimentKey: string, unitId: string, variants: ExperimentVariant[]): ExperimentVariant {
+  const hash = createHash('sha256').update(`${experimentKey}:${unitId}`).digest();
+  const point = hash.readUInt32BE(0) / 0x100000000;
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight / totalWeight;
+    if (point < cumulative) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Problems with a new experiment, empty when it can be created.
+ */
+export function validateExperiment(input: Partial<ExperimentInput>): string[] {
+  const errors: string[] = [];
+
+  if (typeof input.key !== 'string' || !KEY_PATTERN.test(input.key)) {
+    errors.push('key must be 1-64 lowercase letters, digits, hyphens or underscores');
+  }
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    errors.push('name is required');
+  }
+  if (!EXPERIMENT_TARGETS.includes(input.target as ExperimentTarget)) {
+    errors.push(`target must be one of: ${EXPERIMENT_TARGETS.join(', ')}`);
+  }
+  if (!EXPERIMENT_UNITS.includes(input.unit as ExperimentUnit)) {
+    errors.push(`unit must be one of: ${EXPERIMENT_UNITS.join(', ')}`);
+  }
+  if (!Array.isArray(input.variants) || input.variants.length < 2) {
+    errors.push('at least two variants are required');
+    return errors;
+  }
+
+  const limits = PARAMETER_LIMITS[input.target as ExperimentTarget] || {};
+  const seen = new Set<string>();
+  input.variants.forEach((variant, index) => {
+    const label = `variants[${index}]`;
+    if (typeof variant?.key !== 'string' || !KEY_PATTERN.test(variant.key)) {
+      errors.push(`${label}.key must be 1-64 lowercase letters, digits, hyphens or underscores`);
+    } else if (seen.has(variant.key)) {
+      errors.push(`${label}.key '${variant.key}' is used twice`);
+    } else {
+      seen.add(variant.key);
+    }
+
+    if (typeof variant?.weight !== 'number' || !isFinite(variant.weight) || variant.weight <= 0) {
+      errors.push(`${label}.weight must be a positive number`);
+    }
+
+    for (const [name, value] of Object.entries(variant?.parameters || {})) {
+      const limit = limits[name as keyof ExperimentVariantParameters];
+      if (!limit) {
+        errors.push(`${label}.parameters.${name} does not apply to ${input.target} experiments`);
+      } else if (typeof value !== 'number' || !isFinite(value) || value < limit.min || value > limit.max || (limit.integer && !Number.isInteger(value))) {
+        errors.push(`${label}.parameters.${name} must be ${limit.integer ? 'an integer' : 'a number'} from ${limit.min} to ${limit.max}`);
+      }
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,149 @@
+/**
+ * The negotiation assistant's learned parameters.
+ *
+ * A model holds one parameter set trained on every negotiation, plus one per commodity and per
+ * region it has seen. Training folds a finished negotiation into each set it belongs to; pricing
+ * reads the most specific set with enough sessions behind it, so a commodity with two recorded
+ * deals does not swing on them.
+ */
+
+import { LearningData, LearnedSession, LearningWeights, NegotiationModelParameters } from '../types';
+
+export const GLOBAL_SCOPE = 'global';
+export const RECENT_SESSION_WINDOW = 10;
+export const MIN_SCOPE_SESSIONS = 5;
+
+export const DEFAULT_LEARNING_WEIGHTS: LearningWeights = {
+  recentSuccess: 0.4,
+  marketAccuracy: 0.3,
+  culturalAdaptation: 0.2,
+  userSatisfaction: 0.1
+};
+
+// Price adjustment before the parameter set has learned from any session
+const BASELINE_IMMEDIATE_FACTOR = 0.008;
+
+// Same normalisation as cultural profile regions: 'Tamil Nadu' -> 'tamil_nadu'
+export function normalizeScopeName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+export function commodityScope(commodity: string): string {
+  return `commodity:${normalizeScopeName(commodity)}`;
+}
+
+export function regionScope(region: string): string {
+  return `region:${normalizeScopeName(region)}`;
+}
+
+// Scopes a negotiation trains, broadest first
+export function learningScopes(commodity?: string, region?: string): string[] {
+  return [
+    GLOBAL_SCOPE,
+    ...(commodity?.trim() ? [commodityScope(commodity)] : []),
+    ...(region?.trim() && normalizeScopeName(region) !== 'default' ? [regionScope(region)] : [])
+  ];
+}
+
+export function emptyParameters(): NegotiationModelParameters {
+  return { weights: { ...DEFAULT_LEARNING_WEIGHTS }, recentSessions: [], trainingSessions: 0, successfulSessions: 0 };
+}
+
+/**
+ * Parameter sets after learning from one negotiation. Sets the negotiation does not belong to
+ * are carried over unchanged.
+ */
+export function trainParameterSets(
+  parameterSets: Record<string, NegotiationModelParameters>,
+  learningData: LearningData,
+  now: number = Date.now()
+): Record<string, NegotiationModelParameters> {
+  const trained = { ...parameterSets };
+  for (const scope of learningScopes(learningData.commodity, learningData.region)) {
+    trained[scope] = trainParameters(trained[scope] || emptyParameters(), learningData, now);
+  }
+  return trained;
+}
+
+/**
+ * The parameter set pricing should use: commodity, then region, then global, skipping sets
+ * with fewer than MIN_SCOPE_SESSIONS sessions.
+ */
+export function resolveParameters(
+  parameterSets: Record<string, NegotiationModelParameters>,
+  commodity?: string,
+  region?: string
+): { scope: string; parameters: NegotiationModelParameters } {
+  const [, ...specific] = learningScopes(commodity, region);
+  const scope = specific.find(candidate => (parameterSets[candidate]?.trainingSessions || 0) >= MIN_SCOPE_SESSIONS) || GLOBAL_SCOPE;
+  return { scope, parameters: parameterSets[scope] || emptyParameters() };
+}
+
+/**
+ * Price adjustment from the recent sessions: up after satisfied deals and accurate suggestions,
+ * down harder after failures and poor suggestions. Bounded to ±3%.
+ */
+export function immediateLearningFactor(parameters: NegotiationModelParameters): number {
+  const sessions = parameters.recentSessions;
+  if (sessions.length === 0) {
+    return BASELINE_IMMEDIATE_FACTOR;
+  }
+
+  let totalAdjustment = 0;
+  for (const session of sessions) {
+    if (session.outcome === 'successful' && session.avgSatisfaction > 3.5) {
+      totalAdjustment += 0.008;
+    } else if (session.outcome === 'failed' || session.avgSatisfaction < 2.5) {
+      totalAdjustment -= 0.012;
+    }
+
+    if (session.aiAccuracy > 0.7) {
+      totalAdjustment += 0.005;
+    } else if (session.aiAccuracy < 0.3) {
+      totalAdjustment -= 0.015;
+    }
+  }
+
+  return Math.max(-0.03, Math.min(0.03, totalAdjustment / sessions.length));
+}
+
+function trainParameters(parameters: NegotiationModelParameters, learningData: LearningData, now: number): NegotiationModelParameters {
+  const feedback = learningData.participantFeedback || [];
+  const avgSatisfaction = feedback.length > 0
+    ? feedback.reduce((sum, f) => sum + f.satisfactionScore, 0) / feedback.length
+    : 3;
+  const aiAccuracy = learningData.negotiationMetrics?.aiAccuracy ?? 0.5;
+  const successful = learningData.outcome === 'successful';
+  const weights = { ...parameters.weights };
+
+  if (avgSatisfaction > 4) {
+    weights.userSatisfaction = Math.min(0.5, weights.userSatisfaction * 1.05);
+  } else if (avgSatisfaction < 3) {
+    weights.userSatisfaction = Math.max(0.05, weights.userSatisfaction * 0.95);
+  }
+
+  if (aiAccuracy > 0.8) {
+    weights.marketAccuracy = Math.min(0.5, weights.marketAccuracy * 1.03);
+  } else if (aiAccuracy < 0.4) {
+    weights.marketAccuracy = Math.max(0.1, weights.marketAccuracy * 0.97);
+  }
+
+  weights.recentSuccess = successful
+    ? Math.min(0.6, weights.recentSuccess * 1.02)
+    : Math.max(0.2, weights.recentSuccess * 0.98);
+
+  const session: LearnedSession = {
+    sessionId: learningData.sessionId,
+    outcome: learningData.outcome,
+    avgSatisfaction,
+    aiAccuracy,
+    timestamp: now
+  };
+
+  return {
+    weights,
+    recentSessions: [...parameters.recentSessions, session].slice(-RECENT_SESSION_WINDOW),
+    trainingSessions: parameters.trainingSessions + 1,
+    successfulSessions: parameters.successfulSessions + (successful ? 1 : 0)
+  };
+}
@@ -0,0 +1,386 @@
+/**
+ * Per-language templates for negotiation reason codes.
+ *
+ * A placeholder is `{name}` or `{name:format}`; the formats are described in
+ * negotiation-reasons.ts. Placeholders holding another reason render that reason in the same
+ * language. English covers every code; a code missing from another language is translated from
+ * its English rendering.
+ */
+
+const EN = {
+  // Opening price reasoning
+  'price.market_price': 'Current market price for {commodity} is {price:currency}',
+  'price.market_below_msp': 'The mandi price is under MSP: {shortfall}',
+  'price.suggested_below_msp': 'The suggested price is under MSP: {shortfall}',
+  'price.msp_procurement': 'Government procurement centres buy at MSP, which may pay more than this deal',
+  'price.trend': 'Market trend is {trend} with {change:percent}% change',
+  'price.volatility_low': 'Low market volatility indicates stable pricing conditions',
+  'price.supply_high': 'Arrivals are running at {percent:integer}% of the seasonal norm, putting pressure on prices',
+  'price.supply_low': 'Arrivals are only {percent:integer}% of the seasonal norm, supporting firmer prices',
+  'price.bulk_quantity': 'Bulk quantity ({quantity} {unit}) allows for volume pricing',
+  'price.urgent': 'Urgent delivery requirement adds premium',
+  'price.negotiation_room': 'Regional trading customs suggest allowing negotiation room',
+  'msp.shortfall': '{price:currency}/quintal is {percent}% below the {cropYear} {season} MSP of {msp:currency} for {commodity}',
+  'trend.rising': 'rising',
+  'trend.falling': 'falling',
+  'trend.stable': 'stable',
+
+  // The vendor's own deal history
+  'personal.counterparty_deals': 'Your {deals:integer} {commodity} deals with this trader closed on average {movement}{concession}',
+  'personal.recent_deals': 'Your last {deals:integer} {commodity} deals closed on average {movement}{concession}',
+  'personal.above_market': '{percent:percent}% above market',
+  'personal.below_market': '{percent:percent}% below market',
+  'personal.conceding': ', conceding {percent:percent}% from your opening offer',
+  'personal.gaining': ', gaining {percent:percent}% from your opening offer',
+  'personal.summary': 'Your track record points to opening near {price:currency} and makes up {weight:integer}% of this suggestion ({confidence:integer}% confidence)',
+
+  // What the learning model contributed
+  'learning.trained_peak': 'AI learning system ({sessions:integer} sessions processed) suggests significant price adjustment based on similar successful negotiations during peak season with enhanced accuracy metrics',
+  'learning.trained_urgent': 'Historical data ({sessions:integer} learning iterations) indicates premium pricing for urgent off-season requests with improved accuracy and user satisfaction feedback integration',
+  'learning.trained_regional': 'Regional market analysis for {location} influences pricing strategy with enhanced learning insights ({sessions:integer} sessions) and pattern recognition from recent successful trades',
+  'learning.trained': 'Price recommendation incorporates advanced machine learning insights from recent market activity, user feedback analysis, and adaptive algorithm improvements ({sessions:integer} learning sessions completed)',
+  'learning.initial_peak': 'Initial AI analysis suggests price adjustment based on peak season market conditions',
+  'learning.initial_urgent': 'Standard pricing model indicates premium for urgent off-season requests',
+  'learning.initial_regional': 'Regional market analysis for {location} influences basic pricing strategy',
+  'learning.initial': 'Price recommendation based on standard market analysis and baseline algorithms',
+  'learning.unavailable': 'Price recommendation incorporates machine learning insights from market activity',
+
+  // Market justification
+  'market.sources': 'Based on data from {count:integer} market sources',
+  'market.volatility_low': 'Low market volatility ({volatility:percent}%) indicates stable pricing',
+  'market.volatility_high': 'High market volatility ({volatility:percent}%) suggests price uncertainty',
+  'market.prediction_confidence': 'Strong market prediction confidence ({confidence:integer}%)',
+
+  // Offer analysis
+  'offer.within_market': 'Offer is within 5% of market price ({deviation:percent}% deviation)',
+  'offer.deviates': 'Offer deviates {deviation:percent}% from market price',
+  'offer.risk_level': 'Risk level assessed as {level}',
+  'offer.flexible_customs': 'Regional trading customs suggest high price flexibility',
+  'level.low': 'low',
+  'level.medium': 'medium',
+  'level.high': 'high',
+
+  // Payment, delivery and quality terms
+  'terms.package_value': 'With {terms}, the deal is worth {price:currency}/{unit} as a same-day cash price at the mandi{deviation}',
+  'terms.package_deviation': ' ({deviation:signedPercent}% against market)',
+  'terms.same_day': 'same-day payment',
+  'terms.credit': "{days:integer} days' credit",
+  'terms.advance': 'payment {days:integer} days in advance',
+  'terms.farm_pickup': 'pickup at the farm gate',
+  'terms.mandi_delivery': 'delivery at the mandi',
+  'terms.warehouse_delivery': "delivery to the buyer's warehouse",
+  'terms.moisture': 'up to {max}% moisture against the {standard}% standard',
+  'terms.standard_moisture': 'the standard {standard}% moisture limit',
+  'terms.current_moisture': '{max}% moisture',
+  'terms.trade_off': '{newPrice:currency}/{unit} with {changed} is worth the same as {price:currency}/{unit} with {current} ({change:signedCurrency})',
+
+  // Negotiation strategy
+  'strategy.direct': 'Use direct communication and factual market data',
+  'strategy.relationship': 'Emphasize long-term partnership benefits',
+  'strategy.gradual': 'Allow for gradual price movement through multiple rounds',
+  'strategy.build_trust': 'Focus on building trust and mutual benefit',
+  'strategy.trade_on_terms': 'Trade on terms as well as price: {tradeOff}',
+
+  // Cultural considerations
+  'culture.formal': 'Maintain formal communication style and respectful tone',
+  'culture.semi_formal': 'Use professional but approachable communication',
+  'culture.informal': 'Casual and friendly communication is appropriate',
+  'culture.indirect': 'Use indirect communication and avoid confrontational language',
+  'culture.direct': 'Direct and clear communication is preferred',
+  'culture.consensus': 'Allow time for consultation with partners or family',
+  'culture.deliberate': 'Provide detailed information and allow time for consideration',
+  'culture.quick': 'Quick decision-making is typical in this region',
+  'culture.relationship_high': 'Building long-term business relationships is highly valued',
+  'culture.relationship_medium': 'Balance relationship building with business efficiency',
+  'culture.relationship_low': 'Focus on transaction efficiency and clear terms',
+  'culture.time_flexible': 'Allow flexibility in timing and deadlines',
+  'culture.time_punctual': 'Punctuality and adherence to schedules is important',
+
+  // Response recommendations
+  'response.summary': 'Based on {steps:integer} negotiation steps with {intensity} intensity',
+  'response.terms_focus': 'Focus on non-price terms like delivery or payment',
+  'response.converged': 'Prices have converged, good time to close',
+  'response.mutual_benefit': 'Emphasize mutual benefit and long-term partnership',
+  'response.polite_indirect': 'Use polite, indirect language to maintain harmony',
+  'response.offers_exchanged': '{count:integer} offers exchanged',
+  'response.price_movement': '{movement:percent}% price movement'
+};
+
+export type ReasonCode = keyof typeof EN;
+
+const HI: Partial<Record<ReasonCode, string>> = {
+  'price.market_price': '{commodity} का मौजूदा बाज़ार भाव {price:currency} है',
+  'price.market_below_msp': 'मंडी भाव MSP से कम है: {shortfall}',
+  'price.suggested_below_msp': 'सुझाया गया भाव MSP से कम है: {shortfall}',
+  'price.msp_procurement': 'सरकारी खरीद केंद्र MSP पर खरीदते हैं, जहाँ इस सौदे से ज़्यादा मिल सकता है',
+  'price.trend': 'बाज़ार का रुख {trend} है, {change:percent}% बदलाव के साथ',
+  'price.volatility_low': 'बाज़ार में कम उतार-चढ़ाव स्थिर भाव का संकेत है',
+  'price.supply_high': 'आवक मौसमी औसत के {percent:integer}% पर है, जिससे भाव पर दबाव है',
+  'price.supply_low': 'आवक मौसमी औसत का केवल {percent:integer}% है, जिससे भाव मज़बूत रहते हैं',
+  'price.bulk_quantity': 'बड़ी मात्रा ({quantity} {unit}) पर थोक भाव दिया जा सकता है',
+  'price.urgent': 'जल्दी डिलीवरी की ज़रूरत पर प्रीमियम बनता है',
+  'price.negotiation_room': 'क्षेत्र के व्यापारिक रिवाज़ के अनुसार मोलभाव की गुंजाइश रखें',
+  'msp.shortfall': '{price:currency}/क्विंटल, {commodity} के {cropYear} {season} MSP {msp:currency} से {percent}% कम है',
+  'trend.rising': 'बढ़त का',
+  'trend.falling': 'गिरावट का',
+  'trend.stable': 'स्थिर',
+
+  'personal.counterparty_deals': 'इस व्यापारी के साथ आपके {deals:integer} {commodity} सौदे औसतन {movement} पर तय हुए{concession}',
+  'personal.recent_deals': 'आपके पिछले {deals:integer} {commodity} सौदे औसतन {movement} पर तय हुए{concession}',
+  'personal.above_market': 'बाज़ार से {percent:percent}% ऊपर',
+  'personal.below_market': 'बाज़ार से {percent:percent}% नीचे',
+  'personal.conceding': ', आपकी शुरुआती पेशकश से {percent:percent}% कम पर',
+  'personal.gaining': ', आपकी शुरुआती पेशकश से {percent:percent}% ज़्यादा पर',
+  'personal.summary': 'आपके पिछले सौदों के हिसाब से {price:currency} के आसपास शुरुआत करना ठीक है; यह इस सुझाव का {weight:integer}% हिस्सा है ({confidence:integer}% भरोसा)',
+
+  'learning.trained_peak': 'AI लर्निंग सिस्टम ({sessions:integer} सत्रों के आधार पर) पीक सीज़न के मिलते-जुलते सफल सौदों को देखकर भाव में बड़ा बदलाव सुझाता है',
+  'learning.trained_urgent': 'पिछले आँकड़े ({sessions:integer} लर्निंग चरण) ऑफ़-सीज़न की जल्दी वाली माँग पर प्रीमियम भाव बताते हैं',
+  'learning.trained_regional': '{location} के क्षेत्रीय बाज़ार विश्लेषण ({sessions:integer} सत्र) और हाल के सफल सौदों से भाव की रणनीति तय हुई है',
+  'learning.trained': 'भाव का सुझाव हाल की बाज़ार गतिविधि, उपयोगकर्ताओं की राय और {sessions:integer} लर्निंग सत्रों से मिली जानकारी पर आधारित है',
+  'learning.initial_peak': 'शुरुआती AI विश्लेषण पीक सीज़न की बाज़ार स्थिति के आधार पर भाव में बदलाव सुझाता है',
+  'learning.initial_urgent': 'मानक मूल्य मॉडल ऑफ़-सीज़न की जल्दी वाली माँग पर प्रीमियम बताता है',
+  'learning.initial_regional': '{location} का क्षेत्रीय बाज़ार विश्लेषण बुनियादी भाव रणनीति तय करता है',
+  'learning.initial': 'भाव का सुझाव मानक बाज़ार विश्लेषण पर आधारित है',
+  'learning.unavailable': 'भाव का सुझाव बाज़ार गतिविधि से सीखी गई जानकारी पर आधारित है',
+
+  'market.sources': '{count:integer} बाज़ार स्रोतों के आँकड़ों पर आधारित',
+  'market.volatility_low': 'बाज़ार में कम उतार-चढ़ाव ({volatility:percent}%) स्थिर भाव दिखाता है',
+  'market.volatility_high': 'बाज़ार में भारी उतार-चढ़ाव ({volatility:percent}%) भाव की अनिश्चितता दिखाता है',
+  'market.prediction_confidence': 'बाज़ार अनुमान पर पक्का भरोसा ({confidence:integer}%)',
+
+  'offer.within_market': 'पेशकश बाज़ार भाव के 5% के भीतर है ({deviation:percent}% अंतर)',
+  'offer.deviates': 'पेशकश बाज़ार भाव से {deviation:percent}% अलग है',
+  'offer.risk_level': 'जोखिम का स्तर: {level}',
+  'offer.flexible_customs': 'क्षेत्र के व्यापारिक रिवाज़ में भाव में काफ़ी लचीलापन रहता है',
+  'level.low': 'कम',
+  'level.medium': 'मध्यम',
+  'level.high': 'ज़्यादा',
+
+  'terms.package_value': '{terms} के साथ यह सौदा मंडी में उसी दिन के नकद भाव के हिसाब से {price:currency}/{unit} का है{deviation}',
+  'terms.package_deviation': ' (बाज़ार के मुक़ाबले {deviation:signedPercent}%)',
+  'terms.same_day': 'उसी दिन भुगतान',
+  'terms.credit': '{days:integer} दिन की उधारी',
+  'terms.advance': '{days:integer} दिन पहले अग्रिम भुगतान',
+  'terms.farm_pickup': 'खेत से उठान',
+  'terms.mandi_delivery': 'मंडी में डिलीवरी',
+  'terms.warehouse_delivery': 'ख़रीदार के गोदाम तक डिलीवरी',
+  'terms.moisture': '{standard}% मानक के मुक़ाबले {max}% तक नमी',
+  'terms.standard_moisture': '{standard}% की मानक नमी सीमा',
+  'terms.current_moisture': '{max}% नमी',
+  'terms.trade_off': '{changed} के साथ {newPrice:currency}/{unit}, {current} के साथ {price:currency}/{unit} के बराबर है ({change:signedCurrency})',
+
+  'strategy.direct': 'सीधी बात करें और बाज़ार के ठोस आँकड़े रखें',
+  'strategy.relationship': 'लंबे समय की साझेदारी के फ़ायदों पर ज़ोर दें',
+  'strategy.gradual': 'कई दौर में धीरे-धीरे भाव बदलने दें',
+  'strategy.build_trust': 'भरोसा और आपसी फ़ायदा बनाने पर ध्यान दें',
+  'strategy.trade_on_terms': 'भाव के साथ शर्तों पर भी मोलभाव करें: {tradeOff}',
+
+  'culture.formal': 'औपचारिक भाषा और सम्मानजनक लहजा रखें',
+  'culture.semi_formal': 'पेशेवर लेकिन सहज बातचीत करें',
+  'culture.informal': 'अनौपचारिक और दोस्ताना बातचीत ठीक है',
+  'culture.indirect': 'घुमा-फिराकर बात करें और टकराव वाली भाषा से बचें',
+  'culture.direct': 'सीधी और साफ़ बात पसंद की जाती है',
+  'culture.consensus': 'साझेदारों या परिवार से सलाह के लिए समय दें',
+  'culture.deliberate': 'पूरी जानकारी दें और सोचने का समय दें',
+  'culture.quick': 'इस क्षेत्र में फ़ैसले जल्दी लिए जाते हैं',
+  'culture.relationship_high': 'लंबे व्यापारिक रिश्तों को बहुत अहमियत दी जाती है',
+  'culture.relationship_medium': 'रिश्ते और कारोबार की रफ़्तार में संतुलन रखें',
+  'culture.relationship_low': 'सौदे की रफ़्तार और साफ़ शर्तों पर ध्यान दें',
+  'culture.time_flexible': 'समय और समय-सीमा में लचीलापन रखें',
+  'culture.time_punctual': 'समय की पाबंदी और तय कार्यक्रम ज़रूरी है',
+
+  'response.summary': '{steps:integer} मोलभाव चरणों के आधार पर, {intensity} तीव्रता के साथ',
+  'response.terms_focus': 'डिलीवरी या भुगतान जैसी भाव के अलावा की शर्तों पर ध्यान दें',
+  'response.converged': 'भाव करीब आ गए हैं, सौदा पक्का करने का अच्छा समय है',
+  'response.mutual_benefit': 'आपसी फ़ायदे और लंबी साझेदारी पर ज़ोर दें',
+  'response.polite_indirect': 'मेलजोल बनाए रखने के लिए विनम्र और घुमावदार भाषा का प्रयोग करें',
+  'response.offers_exchanged': '{count:integer} पेशकशों का लेन-देन हुआ',
+  'response.price_movement': 'भाव में {movement:percent}% बदलाव'
+};
+
+const MR: Partial<Record<ReasonCode, string>> = {
+  'price.market_price': '{commodity} चा सध्याचा बाजारभाव {price:currency} आहे',
+  'price.market_below_msp': 'मंडीतील भाव MSP पेक्षा कमी आहे: {shortfall}',
+  'price.suggested_below_msp': 'सुचवलेला भाव MSP पेक्षा कमी आहे: {shortfall}',
+  'price.msp_procurement': 'सरकारी खरेदी केंद्रे MSP ने खरेदी करतात, तिथे या व्यवहारापेक्षा जास्त भाव मिळू शकतो',
+  'price.trend': 'बाजाराचा कल {trend} आहे, {change:percent}% बदलासह',
+  'price.volatility_low': 'बाजारातील कमी चढ-उतार स्थिर भावाचे लक्षण आहे',
+  'price.supply_high': 'आवक हंगामी सरासरीच्या {percent:integer}% आहे, त्यामुळे भावावर दबाव आहे',
+  'price.supply_low': 'आवक हंगामी सरासरीच्या फक्त {percent:integer}% आहे, त्यामुळे भाव टिकून राहतात',
+  'price.bulk_quantity': 'मोठ्या प्रमाणामुळे ({quantity} {unit}) घाऊक भाव देता येतो',
+  'price.urgent': 'तातडीच्या डिलिव्हरीसाठी जादा भाव लागतो',
+  'price.negotiation_room': 'भागातील व्यापारी रीतीनुसार घासाघीसीला वाव ठेवा',
+  'msp.shortfall': '{price:currency}/क्विंटल हा {commodity} च्या {cropYear} {season} MSP {msp:currency} पेक्षा {percent}% कमी आहे',
+  'trend.rising': 'वाढता',
+  'trend.falling': 'घसरता',
+  'trend.stable': 'स्थिर',
+
+  'personal.counterparty_deals': 'या व्यापाऱ्यासोबतचे तुमचे {deals:integer} {commodity} व्यवहार सरासरी {movement} ठरले{concession}',
+  'personal.recent_deals': 'तुमचे मागील {deals:integer} {commodity} व्यवहार सरासरी {movement} ठरले{concession}',
+  'personal.above_market': 'बाजारापेक्षा {percent:percent}% जास्त',
+  'personal.below_market': 'बाजारापेक्षा {percent:percent}% कमी',
+  'personal.conceding': ', तुमच्या सुरुवातीच्या ऑफरपेक्षा {percent:percent}% कमी',
+  'personal.gaining': ', तुमच्या सुरुवातीच्या ऑफरपेक्षा {percent:percent}% जास्त',
+  'personal.summary': 'तुमच्या मागील व्यवहारांनुसार {price:currency} च्या आसपास सुरुवात करणे योग्य आहे; हा या सूचनेचा {weight:integer}% भाग आहे ({confidence:integer}% खात्री)',
+
+  'learning.trained_peak': 'AI शिक्षण प्रणाली ({sessions:integer} सत्रांवर आधारित) हंगामातील अशाच यशस्वी व्यवहारांवरून भावात मोठा बदल सुचवते',
+  'learning.trained_urgent': 'मागील माहिती ({sessions:integer} शिक्षण टप्पे) बिगरहंगामी तातडीच्या मागणीसाठी जादा भाव दाखवते',
+  'learning.trained_regional': '{location} च्या प्रादेशिक बाजार विश्लेषणावरून ({sessions:integer} सत्रे) आणि अलीकडच्या यशस्वी व्यवहारांवरून भावाचे धोरण ठरले आहे',
+  'learning.trained': 'भावाची सूचना अलीकडील बाजार हालचाली, वापरकर्त्यांचा अभिप्राय आणि {sessions:integer} शिक्षण सत्रांतील माहितीवर आधारित आहे',
+  'learning.initial_peak': 'सुरुवातीचे AI विश्लेषण हंगामातील बाजार परिस्थितीनुसार भावात बदल सुचवते',
+  'learning.initial_urgent': 'मानक भाव मॉडेल बिगरहंगामी तातडीच्या मागणीसाठी जादा भाव दाखवते',
+  'learning.initial_regional': '{location} चे प्रादेशिक बाजार विश्लेषण मूलभूत भाव धोरण ठरवते',
+  'learning.initial': 'भावाची सूचना मानक बाजार विश्लेषणावर आधारित आहे',
+  'learning.unavailable': 'भावाची सूचना बाजार हालचालींतून शिकलेल्या माहितीवर आधारित आहे',
+
+  'market.sources': '{count:integer} बाजार स्रोतांच्या माहितीवर आधारित',
+  'market.volatility_low': 'बाजारातील कमी चढ-उतार ({volatility:percent}%) स्थिर भाव दाखवते',
+  'market.volatility_high': 'बाजारातील मोठी चढ-उतार ({volatility:percent}%) भावाची अनिश्चितता दाखवते',
+  'market.prediction_confidence': 'बाजार अंदाजावर ठाम विश्वास ({confidence:integer}%)',
+
+  'offer.within_market': 'ऑफर बाजारभावाच्या 5% च्या आत आहे ({deviation:percent}% फरक)',
+  'offer.deviates': 'ऑफर बाजारभावापेक्षा {deviation:percent}% वेगळी आहे',
+  'offer.risk_level': 'जोखमीची पातळी: {level}',
+  'offer.flexible_customs': 'भागातील व्यापारी रीतीत भावात बरीच लवचिकता असते',
+  'level.low': 'कमी',
+  'level.medium': 'मध्यम',
+  'level.high': 'जास्त',
+
+  'terms.package_value': '{terms} सह हा व्यवहार मंडीतील त्याच दिवशीच्या रोख भावाप्रमाणे {price:currency}/{unit} चा आहे{deviation}',
+  'terms.package_deviation': ' (बाजाराच्या तुलनेत {deviation:signedPercent}%)',
+  'terms.same_day': 'त्याच दिवशी पेमेंट',
+  'terms.credit': '{days:integer} दिवसांची उधारी',
+  'terms.advance': '{days:integer} दिवस आधी आगाऊ पेमेंट',
+  'terms.farm_pickup': 'शेतातून उचल',
+  'terms.mandi_delivery': 'मंडीत डिलिव्हरी',
+  'terms.warehouse_delivery': 'खरेदीदाराच्या गोदामापर्यंत डिलिव्हरी',
+  'terms.moisture': '{standard}% मानकाच्या तुलनेत {max}% पर्यंत ओलावा',
+  'terms.standard_moisture': '{standard}% ची मानक ओलावा मर्यादा',
+  'terms.current_moisture': '{max}% ओलावा',
+  'terms.trade_off': '{changed} सह {newPrice:currency}/{unit} हा {current} सह {price:currency}/{unit} इतकाच आहे ({change:signedCurrency})',
+
+  'strategy.direct': 'थेट बोला आणि बाजाराची ठोस माहिती मांडा',
+  'strategy.relationship': 'दीर्घकालीन भागीदारीच्या फायद्यांवर भर द्या',
+  'strategy.gradual': 'अनेक फेऱ्यांत हळूहळू भाव बदलू द्या',
+  'strategy.build_trust': 'विश्वास आणि परस्पर फायदा निर्माण करण्यावर लक्ष द्या',
+  'strategy.trade_on_terms': 'भावासोबत अटींवरही घासाघीस करा: {tradeOff}',
+
+  'culture.formal': 'औपचारिक भाषा आणि आदरयुक्त सूर ठेवा',
+  'culture.semi_formal': 'व्यावसायिक पण सहज संवाद साधा',
+  'culture.informal': 'अनौपचारिक आणि मैत्रीपूर्ण संवाद चालतो',
+  'culture.indirect': 'अप्रत्यक्षपणे बोला आणि संघर्षाची भाषा टाळा',
+  'culture.direct': 'थेट आणि स्पष्ट संवाद पसंत केला जातो',
+  'culture.consensus': 'भागीदार किंवा कुटुंबाशी सल्लामसलत करण्यासाठी वेळ द्या',
+  'culture.deliberate': 'सविस्तर माहिती द्या आणि विचार करण्यास वेळ द्या',
+  'culture.quick': 'या भागात निर्णय लवकर घेतले जातात',
+  'culture.relationship_high': 'दीर्घकालीन व्यापारी संबंधांना खूप महत्त्व दिले जाते',
+  'culture.relationship_medium': 'संबंध आणि व्यवहाराचा वेग यांचा समतोल ठेवा',
+  'culture.relationship_low': 'व्यवहाराचा वेग आणि स्पष्ट अटींवर लक्ष द्या',
+  'culture.time_flexible': 'वेळ आणि मुदतीत लवचिकता ठेवा',
+  'culture.time_punctual': 'वक्तशीरपणा आणि ठरलेले वेळापत्रक पाळणे महत्त्वाचे आहे',
+
+  'response.summary': '{steps:integer} घासाघीस टप्प्यांवर आधारित, {intensity} तीव्रतेसह',
+  'response.terms_focus': 'डिलिव्हरी किंवा पेमेंटसारख्या भावाव्यतिरिक्त अटींवर लक्ष द्या',
+  'response.converged': 'भाव जवळ आले आहेत, व्यवहार पक्का करण्याची योग्य वेळ आहे',
+  'response.mutual_benefit': 'परस्पर फायदा आणि दीर्घकालीन भागीदारीवर भर द्या',
+  'response.polite_indirect': 'सलोखा टिकवण्यासाठी नम्र, अप्रत्यक्ष भाषा वापरा',
+  'response.offers_exchanged': '{count:integer} ऑफरची देवाणघेवाण झाली',
+  'response.price_movement': 'भावात {movement:percent}% बदल'
+};
+
+const TE: Partial<Record<ReasonCode, string>> = {
+  'price.market_price': '{commodity} ప్రస్తుత మార్కెట్ ధర {price:currency}',
+  'price.market_below_msp': 'మండీ ధర MSP కంటే తక్కువగా ఉంది: {shortfall}',
+  'price.suggested_below_msp': 'సూచించిన ధర MSP కంటే తక్కువగా ఉంది: {shortfall}',
+  'price.msp_procurement': 'ప్రభుత్వ కొనుగోలు కేంద్రాలు MSP వద్ద కొంటాయి, అక్కడ ఈ ఒప్పందం కంటే ఎక్కువ ధర రావచ్చు',
+  'price.trend': 'మార్కెట్ ధోరణి {trend}, {change:percent}% మార్పుతో',
+  'price.volatility_low': 'మార్కెట్‌లో తక్కువ హెచ్చుతగ్గులు స్థిరమైన ధరలను సూచిస్తున్నాయి',
+  'price.supply_high': 'రాకలు సీజన్ సగటులో {percent:integer}% వద్ద ఉన్నాయి, ధరలపై ఒత్తిడి ఉంది',
+  'price.supply_low': 'రాకలు సీజన్ సగటులో {percent:integer}% మాత్రమే, ధరలు గట్టిగా ఉంటాయి',
+  'price.bulk_quantity': 'పెద్ద పరిమాణం ({quantity} {unit}) కావడంతో టోకు ధర ఇవ్వవచ్చు',
+  'price.urgent': 'అత్యవసర డెలివరీకి అదనపు ధర ఉంటుంది',
+  'price.negotiation_room': 'ప్రాంతీయ వ్యాపార ఆచారాల ప్రకారం బేరానికి అవకాశం ఉంచండి',
+  'msp.shortfall': '{price:currency}/క్వింటాల్ ధర {commodity} కు {cropYear} {season} MSP {msp:currency} కంటే {percent}% తక్కువ',
+  'trend.rising': 'పెరుగుతోంది',
+  'trend.falling': 'తగ్గుతోంది',
+  'trend.stable': 'స్థిరంగా ఉంది',
+
+  'personal.counterparty_deals': 'ఈ వ్యాపారితో మీ {deals:integer} {commodity} ఒప్పందాలు సగటున {movement} వద్ద ముగిశాయి{concession}',
+  'personal.recent_deals': 'మీ గత {deals:integer} {commodity} ఒప్పందాలు సగటున {movement} వద్ద ముగిశాయి{concession}',
+  'personal.above_market': 'మార్కెట్ కంటే {percent:percent}% ఎక్కువ',
+  'personal.below_market': 'మార్కెట్ కంటే {percent:percent}% తక్కువ',
+  'personal.conceding': ', మీ మొదటి ఆఫర్ కంటే {percent:percent}% తగ్గి',
+  'personal.gaining': ', మీ మొదటి ఆఫర్ కంటే {percent:percent}% పెరిగి',
+  'personal.summary': 'మీ గత ఒప్పందాల ప్రకారం {price:currency} దగ్గర మొదలుపెట్టడం మంచిది; ఇది ఈ సూచనలో {weight:integer}% భాగం ({confidence:integer}% నమ్మకం)',
+
+  'learning.trained_peak': 'AI లెర్నింగ్ సిస్టమ్ ({sessions:integer} సెషన్ల ఆధారంగా) పీక్ సీజన్‌లో ఇలాంటి విజయవంతమైన ఒప్పందాలను బట్టి ధరలో పెద్ద మార్పును సూచిస్తోంది',
+  'learning.trained_urgent': 'గత సమాచారం ({sessions:integer} లెర్నింగ్ దశలు) ఆఫ్-సీజన్ అత్యవసర అభ్యర్థనలకు అదనపు ధరను సూచిస్తోంది',
+  'learning.trained_regional': '{location} ప్రాంతీయ మార్కెట్ విశ్లేషణ ({sessions:integer} సెషన్లు) మరియు ఇటీవలి విజయవంతమైన ఒప్పందాలు ధర వ్యూహాన్ని నిర్ణయిస్తున్నాయి',
+  'learning.trained': 'ఈ ధర సూచన ఇటీవలి మార్కెట్ కార్యకలాపాలు, వినియోగదారుల అభిప్రాయం మరియు {sessions:integer} లెర్నింగ్ సెషన్ల సమాచారం ఆధారంగా ఉంది',
+  'learning.initial_peak': 'ప్రాథమిక AI విశ్లేషణ పీక్ సీజన్ మార్కెట్ పరిస్థితుల ఆధారంగా ధర మార్పును సూచిస్తోంది',
+  'learning.initial_urgent': 'ప్రామాణిక ధర నమూనా ఆఫ్-సీజన్ అత్యవసర అభ్యర్థనలకు అదనపు ధరను సూచిస్తోంది',
+  'learning.initial_regional': '{location} ప్రాంతీయ మార్కెట్ విశ్లేషణ ప్రాథమిక ధర వ్యూహాన్ని నిర్ణయిస్తోంది',
+  'learning.initial': 'ఈ ధర సూచన ప్రామాణిక మార్కెట్ విశ్లేషణ ఆధారంగా ఉంది',
+  'learning.unavailable': 'ఈ ధర సూచన మార్కెట్ కార్యకలాపాల నుండి నేర్చుకున్న సమాచారం ఆధారంగా ఉంది',
+
+  'market.sources': '{count:integer} మార్కెట్ వనరుల సమాచారం ఆధారంగా',
+  'market.volatility_low': 'మార్కెట్‌లో తక్కువ హెచ్చుతగ్గులు ({volatility:percent}%) స్థిరమైన ధరలను సూచిస్తున్నాయి',
+  'market.volatility_high': 'మార్కెట్‌లో అధిక హెచ్చుతగ్గులు ({volatility:percent}%) ధరపై అనిశ్చితిని సూచిస్తున్నాయి',
+  'market.prediction_confidence': 'మార్కెట్ అంచనాపై బలమైన నమ్మకం ({confidence:integer}%)',
+
+  'offer.within_market': 'ఆఫర్ మార్కెట్ ధరకు 5% లోపే ఉంది ({deviation:percent}% తేడా)',
+  'offer.deviates': 'ఆఫర్ మార్కెట్ ధర నుండి {deviation:percent}% తేడాగా ఉంది',
+  'offer.risk_level': 'రిస్క్ స్థాయి: {level}',
+  'offer.flexible_customs': 'ప్రాంతీయ వ్యాపార ఆచారాల్లో ధరలో ఎక్కువ సడలింపు ఉంటుంది',
+  'level.low': 'తక్కువ',
+  'level.medium': 'మధ్యస్థం',
+  'level.high': 'ఎక్కువ',
+
+  'terms.package_value': '{terms} తో ఈ ఒప్పందం మండీలో అదే రోజు నగదు ధరగా {price:currency}/{unit} విలువ{deviation}',
+  'terms.package_deviation': ' (మార్కెట్‌తో పోలిస్తే {deviation:signedPercent}%)',
+  'terms.same_day': 'అదే రోజు చెల్లింపు',
+  'terms.credit': '{days:integer} రోజుల అరువు',
+  'terms.advance': '{days:integer} రోజులు ముందుగా చెల్లింపు',
+  'terms.farm_pickup': 'పొలం వద్ద సరుకు తీసుకోవడం',
+  'terms.mandi_delivery': 'మండీలో డెలివరీ',
+  'terms.warehouse_delivery': 'కొనుగోలుదారు గోదాముకు డెలివరీ',
+  'terms.moisture': '{standard}% ప్రమాణానికి బదులు {max}% వరకు తేమ',
+  'terms.standard_moisture': '{standard}% ప్రామాణిక తేమ పరిమితి',
+  'terms.current_moisture': '{max}% తేమ',
+  'terms.trade_off': '{changed} తో {newPrice:currency}/{unit}, {current} తో {price:currency}/{unit} కు సమానం ({change:signedCurrency})',
+
+  'strategy.direct': 'నేరుగా మాట్లాడండి, మార్కెట్ వాస్తవ గణాంకాలను చూపండి',
+  'strategy.relationship': 'దీర్ఘకాల భాగస్వామ్య ప్రయోజనాలను నొక్కి చెప్పండి',
+  'strategy.gradual': 'పలు దఫాల్లో ధర నెమ్మదిగా మారేందుకు అవకాశం ఇవ్వండి',
+  'strategy.build_trust': 'నమ్మకం, పరస్పర ప్రయోజనం పెంచడంపై దృష్టి పెట్టండి',
+  'strategy.trade_on_terms': 'ధరతో పాటు షరతులపైనా బేరం చేయండి: {tradeOff}',
+
+  'culture.formal': 'అధికారిక భాష, గౌరవప్రదమైన స్వరం పాటించండి',
+  'culture.semi_formal': 'వృత్తిపరంగా కానీ సులువుగా మాట్లాడండి',
+  'culture.informal': 'సాధారణ, స్నేహపూర్వక సంభాషణ సరిపోతుంది',
+  'culture.indirect': 'పరోక్షంగా మాట్లాడండి, ఘర్షణాత్మక భాష వద్దు',
+  'culture.direct': 'నేరుగా, స్పష్టంగా మాట్లాడటాన్ని ఇష్టపడతారు',
+  'culture.consensus': 'భాగస్వాములు లేదా కుటుంబంతో సంప్రదించడానికి సమయం ఇవ్వండి',
+  'culture.deliberate': 'పూర్తి వివరాలు ఇచ్చి ఆలోచించడానికి సమయం ఇవ్వండి',
+  'culture.quick': 'ఈ ప్రాంతంలో నిర్ణయాలు త్వరగా తీసుకుంటారు',
+  'culture.relationship_high': 'దీర్ఘకాల వ్యాపార సంబంధాలకు చాలా విలువ ఇస్తారు',
+  'culture.relationship_medium': 'సంబంధాలు, వ్యాపార వేగం మధ్య సమతుల్యం పాటించండి',
+  'culture.relationship_low': 'లావాదేవీ వేగం, స్పష్టమైన షరతులపై దృష్టి పెట్టండి',
+  'culture.time_flexible': 'సమయం, గడువుల విషయంలో సడలింపు ఇవ్వండి',
+  'culture.time_punctual': 'సమయపాలన, నిర్ణీత షెడ్యూల్ ముఖ్యం',
+
+  'response.summary': '{steps:integer} బేర దశల ఆధారంగా, {intensity} తీవ్రతతో',
+  'response.terms_focus': 'డెలివరీ లేదా చెల్లింపు వంటి ధరేతర షరతులపై దృష్టి పెట్టండి',
+  'response.converged': 'ధరలు దగ్గరయ్యాయి, ఒప్పందం ముగించడానికి ఇది మంచి సమయం',
+  'response.mutual_benefit': 'పరస్పర ప్రయోజనం, దీర్ఘకాల భాగస్వామ్యాన్ని నొక్కి చెప్పండి',
+  'response.polite_indirect': 'సామరస్యం కోసం మర్యాదపూర్వక, పరోక్ష భాష వాడండి',
+  'response.offers_exchanged': '{count:integer} ఆఫర్లు మార్చుకున్నారు',
+  'response.price_movement': 'ధరలో {movement:percent}% మార్పు'
+};
+
+export const REASON_TEMPLATES: Record<string, Partial<Record<ReasonCode, string>>> = {
+  en: EN,
+  hi: HI,
+  mr: MR,
+  te: TE
+};
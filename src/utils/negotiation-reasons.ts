@@ -0,0 +1,142 @@
+/**
+ * Negotiation explanations as structured reason codes.
+ *
+ * The assistant explains its suggestions with reason codes and parameters rather than finished
+ * sentences, and renders them with the templates for the vendor's language. A placeholder may
+ * name a format:
+ *   currency        ₹ with Indian digit grouping, in lakh or crore from one lakh upwards
+ *   signedCurrency  currency with a leading + or -, rounded to the rupee
+ *   percent         one decimal place
+ *   signedPercent   percent with a leading + for increases
+ *   integer         rounded, with Indian digit grouping
+ * Other numbers get Indian digit grouping with up to two decimals. A parameter that is itself a
+ * reason renders in the same language; a list of reasons is joined with commas.
+ */
+
+import { NegotiationReason, ReasonParameter } from '../types';
+import { REASON_TEMPLATES, ReasonCode } from './negotiation-reason-templates';
+
+export type { ReasonCode } from './negotiation-reason-templates';
+
+const LAKH = 100000;
+const CRORE = 10000000;
+
+const AMOUNT_WORDS: Record<string, { lakh: string; crore: string }> = {
+  en: { lakh: 'lakh', crore: 'crore' },
+  hi: { lakh: 'लाख', crore: 'करोड़' },
+  mr: { lakh: 'लाख', crore: 'कोटी' },
+  te: { lakh: 'లక్షలు', crore: 'కోట్లు' }
+};
+
+// Hindi closes sentences with a danda; the other languages use a full stop
+const SENTENCE_ENDS: Record<string, string> = {
+  hi: '।'
+};
+
+const PLACEHOLDER = /\{(\w+)(?::(\w+))?\}/g;
+
+export function reason(code: ReasonCode, params?: Record<string, ReasonParameter>): NegotiationReason {
+  return params ? { code, params } : { code };
+}
+
+/**
+ * Base language of a language tag: 'hi-IN' -> 'hi'. Missing tags mean English.
+ */
+export function normalizeLanguage(language?: string): string {
+  const base = language?.trim().toLowerCase().split(/[-_]/)[0];
+  return base || 'en';
+}
+
+export function hasReasonTemplates(language: string): boolean {
+  return REASON_TEMPLATES[normalizeLanguage(language)] !== undefined;
+}
+
+/**
+ * Digits grouped the Indian way: 1234567.5 -> '12,34,567.5'.
+ */
+export function formatIndianNumber(value: number, maximumFractionDigits = 2): string {
+  return value.toLocaleString('en-IN', { maximumFractionDigits });
+}
+
+/**
+ * Rupee amount as a vendor would say it: '₹2,450', '₹3.5 lakh', '₹1.2 crore'.
+ */
+export function formatRupees(amount: number, language = 'en'): string {
+  const words = AMOUNT_WORDS[normalizeLanguage(language)] ?? AMOUNT_WORDS.en;
+  const magnitude = Math.abs(amount);
+  const sign = amount < 0 ? '-' : '';
+
+  if (magnitude >= CRORE) {
+    return `${sign}₹${formatIndianNumber(magnitude / CRORE)} ${words.crore}`;
+  }
+  if (magnitude >= LAKH) {
+    return `${sign}₹${formatIndianNumber(magnitude / LAKH)} ${words.lakh}`;
+  }
+  return `${sign}₹${formatIndianNumber(magnitude)}`;
+}
+
+function formatNumber(value: number, format: string | undefined, language: string): string {
+  switch (format) {
+    case 'currency':
+      return formatRupees(value, language);
+    case 'signedCurrency':
+      return `${value < 0 ? '-' : '+'}${formatRupees(Math.abs(Math.round(value)), language)}`;
+    case 'percent':
+      return value.toFixed(1);
+    case 'signedPercent':
+      return `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+    case 'integer':
+      return formatIndianNumber(Math.round(value), 0);
+    default:
+      return formatIndianNumber(value);
+  }
+}
+
+function renderParameter(value: ReasonParameter | undefined, format: string | undefined, language: string): string | null {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    const parts = value.map(item => renderReason(item, language));
+    return parts.includes(null) ? null : parts.join(', ');
+  }
+  if (typeof value === 'object') {
+    return renderReason(value, language);
+  }
+  if (typeof value === 'number') {
+    return formatNumber(value, format, language);
+  }
+  return value;
+}
+
+/**
+ * A reason rendered with the language's templates, or null when the language has no template
+ * for it or for one of the reasons nested in it.
+ */
+export function renderReason(reason: NegotiationReason, language: string): string | null {
+  const normalized = normalizeLanguage(language);
+  const template = REASON_TEMPLATES[normalized]?.[reason.code as ReasonCode];
+  if (template === undefined) {
+    return null;
+  }
+
+  let complete = true;
+  const text = template.replace(PLACEHOLDER, (_match, name: string, format?: string) => {
+    const rendered = renderParameter(reason.params?.[name], format, normalized);
+    if (rendered === null) {
+      complete = false;
+      return '';
+    }
+    return rendered;
+  });
+
+  return complete ? text : null;
+}
+
+/**
+ * Rendered reasons as one paragraph, each closed the way the language closes sentences.
+ */
+export function joinSentences(sentences: string[], language: string): string {
+  const end = SENTENCE_ENDS[normalizeLanguage(language)] ?? '.';
+  return sentences.map(sentence => sentence + end).join(' ');
+}
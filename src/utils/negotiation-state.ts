@@ -0,0 +1,127 @@
+/**
+ * Negotiation state machine.
+ *
+ * A session opens with an offer from one vendor and then alternates: the vendor an offer is
+ * addressed to may counter it, accept it or walk away. A final offer can only be accepted or
+ * rejected. Every live offer carries an expiry; once it passes, the session expires instead of
+ * letting a late counter or acceptance through. Accepted, rejected and expired are terminal.
+ */
+
+import { NegotiationOffer, NegotiationSession, NegotiationState } from '../types';
+
+export type NegotiationAction = 'open' | 'counter' | 'final_offer' | 'accept' | 'reject' | 'expire';
+
+export type NegotiationMoveError =
+  | 'SESSION_CLOSED'
+  | 'NOT_PARTICIPANT'
+  | 'NOT_YOUR_TURN'
+  | 'OFFER_EXPIRED'
+  | 'STALE_OFFER'
+  | 'FINAL_OFFER'
+  | 'INVALID_TRANSITION';
+
+export interface NegotiationMove {
+  action: NegotiationAction;
+  actorId?: string;   // absent for the scheduler's expiry
+  inReplyTo?: string; // offerId the actor was looking at, to catch replies to superseded offers
+  at: Date;
+}
+
+export type NegotiationMoveResult =
+  | { outcome: 'allowed'; state: NegotiationState }
+  | { outcome: 'refused'; code: NegotiationMoveError; reason: string };
+
+export const LIVE_STATES: NegotiationState[] = ['opening', 'countering', 'final_offer'];
+
+export const DEFAULT_OFFER_TTL_MS = 2 * 60 * 60 * 1000;
+export const MIN_OFFER_TTL_MS = 60 * 1000;
+export const MAX_OFFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const TRANSITIONS: Record<NegotiationState, Partial<Record<NegotiationAction, NegotiationState>>> = {
+  opening: { counter: 'countering', final_offer: 'final_offer', accept: 'accepted', reject: 'rejected', expire: 'expired' },
+  countering: { counter: 'countering', final_offer: 'final_offer', accept: 'accepted', reject: 'rejected', expire: 'expired' },
+  final_offer: { accept: 'accepted', reject: 'rejected', expire: 'expired' },
+  accepted: {},
+  rejected: {},
+  expired: {}
+};
+
+export function isLiveState(state: NegotiationState): boolean {
+  return LIVE_STATES.includes(state);
+}
+
+export function isOfferExpired(offer: NegotiationOffer | undefined, at: Date): boolean {
+  return !!offer?.expiresAt && new Date(offer.expiresAt).getTime() <= at.getTime();
+}
+
+/**
+ * Session status column for a state, kept in step for code that only knows the older statuses.
+ */
+export function statusForState(state: NegotiationState): NegotiationSession['status'] {
+  switch (state) {
+    case 'accepted': return 'completed';
+    case 'rejected': return 'cancelled';
+    case 'expired': return 'expired';
+    default: return 'active';
+  }
+}
+
+/**
+ * Clamps a requested offer lifetime, falling back to the default when none is given.
+ */
+export function offerExpiry(from: Date, ttlMs?: number): Date {
+  const ttl = ttlMs === undefined || !isFinite(ttlMs)
+    ? DEFAULT_OFFER_TTL_MS
+    : Math.min(MAX_OFFER_TTL_MS, Math.max(MIN_OFFER_TTL_MS, ttlMs));
+  return new Date(from.getTime() + ttl);
+}
+
+/**
+ * Checks a move against the session and returns the state it leads to. Opening a session is
+ * not a move; sessions start in 'opening' or, for a take-it-or-leave-it first offer, 'final_offer'.
+ */
+export function applyNegotiationMove(
+  session: Pick<NegotiationSession, 'state' | 'participants' | 'liveOffer'>,
+  move: NegotiationMove
+): NegotiationMoveResult {
+  if (!isLiveState(session.state)) {
+    return { outcome: 'refused', code: 'SESSION_CLOSED', reason: `Negotiation is already ${session.state}` };
+  }
+
+  const offer = session.liveOffer;
+  const expired = isOfferExpired(offer, move.at);
+
+  if (move.action === 'expire') {
+    return expired
+      ? { outcome: 'allowed', state: 'expired' }
+      : { outcome: 'refused', code: 'INVALID_TRANSITION', reason: 'The current offer has not expired yet' };
+  }
+
+  if (!move.actorId || !session.participants.includes(move.actorId)) {
+    return { outcome: 'refused', code: 'NOT_PARTICIPANT', reason: 'Only participants can act on this negotiation' };
+  }
+
+  if (expired) {
+    return { outcome: 'refused', code: 'OFFER_EXPIRED', reason: 'The offer has expired' };
+  }
+
+  if (move.inReplyTo && offer && move.inReplyTo !== offer.offerId) {
+    return { outcome: 'refused', code: 'STALE_OFFER', reason: 'The offer has been superseded by a newer one' };
+  }
+
+  // Either side may walk away; everything else answers the other side's offer
+  if (move.action !== 'reject' && offer && offer.fromVendorId === move.actorId) {
+    return { outcome: 'refused', code: 'NOT_YOUR_TURN', reason: 'Waiting for the other party to respond to your offer' };
+  }
+
+  if (session.state === 'final_offer' && (move.action === 'counter' || move.action === 'final_offer')) {
+    return { outcome: 'refused', code: 'FINAL_OFFER', reason: 'A final offer can only be accepted or rejected' };
+  }
+
+  const next = TRANSITIONS[session.state][move.action];
+  if (!next) {
+    return { outcome: 'refused', code: 'INVALID_TRANSITION', reason: `Cannot ${move.action} while ${session.state}` };
+  }
+
+  return { outcome: 'allowed', state: next };
+}
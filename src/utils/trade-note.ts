@@ -0,0 +1,151 @@
+/**
+ * Trade note: the printable record of a confirmed deal.
+ *
+ * Rendered as a self-contained HTML page with every label in English and, beside it, the
+ * reader's language. Names, figures and hashes are never translated.
+ */
+
+import { DealConfirmation } from '../types';
+import { describeCredit, describeDelivery, resolveCreditDays } from './deal-terms';
+
+export interface TradeNoteParty {
+  vendorId: string;
+  name: string;
+  phone?: string;
+  location?: string;
+  language?: string;
+}
+
+// English source texts; the confirmation service translates these for the second column
+export const TRADE_NOTE_TEXTS = {
+  title: 'Trade Note',
+  intro: 'This note records a deal agreed through Bharat Mandi. Both parties confirmed the terms below.',
+  draft: 'Draft: not yet confirmed by every party. It is not a binding record.',
+  parties: 'Parties',
+  offeredBy: 'Offered by',
+  acceptedBy: 'Accepted by',
+  commodity: 'Commodity',
+  quantity: 'Quantity',
+  price: 'Price',
+  totalValue: 'Total value',
+  marketPrice: 'Market price at the time',
+  payment: 'Payment',
+  delivery: 'Delivery',
+  deliveryDate: 'Delivery date',
+  quality: 'Quality',
+  acceptedAt: 'Accepted at',
+  confirmations: 'Confirmations',
+  confirmedAt: 'Confirmed at',
+  pending: 'Awaiting confirmation',
+  record: 'Deal record',
+  recordNote: 'Each entry includes the hash of the entry before it. Changing any entry breaks the chain.',
+  chainValid: 'Record chain verified',
+  chainBroken: 'Record chain does not verify: this note may have been altered'
+};
+
+export type TradeNoteTextKey = keyof typeof TRADE_NOTE_TEXTS;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Indian digit grouping (12,34,567.50) for amounts
+function formatRupees(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+export function renderTradeNote(
+  confirmation: DealConfirmation,
+  options: { parties: TradeNoteParty[]; language: string; translations: Record<string, string> | null }
+): string {
+  const { terms } = confirmation;
+  const translated = options.translations;
+  const label = (key: TradeNoteTextKey) => {
+    const english = escapeHtml(TRADE_NOTE_TEXTS[key]);
+    const local = translated?.[key];
+    return local && local !== TRADE_NOTE_TEXTS[key]
+      ? `${english}<br><span class="local" lang="${escapeHtml(options.language)}">${escapeHtml(local)}</span>`
+      : english;
+  };
+  const partyName = (vendorId: string) => {
+    const party = options.parties.find(candidate => candidate.vendorId === vendorId);
+    return escapeHtml(party ? `${party.name}${party.location ? ` (${party.location})` : ''}` : vendorId);
+  };
+  const row = (key: TradeNoteTextKey, value: string) => `<tr><th>${label(key)}</th><td>${value}</td></tr>`;
+
+  const creditDays = resolveCreditDays(terms.terms);
+  const termRows = [
+    creditDays !== null ? row('payment', escapeHtml(describeCredit(creditDays))) : terms.terms?.paymentTerms ? row('payment', escapeHtml(terms.terms.paymentTerms)) : '',
+    terms.terms?.deliveryMethod ? row('delivery', escapeHtml(describeDelivery(terms.terms.deliveryMethod) + (terms.terms.deliveryLocation ? `, ${terms.terms.deliveryLocation}` : ''))) : '',
+    terms.terms?.deliveryDate ? row('deliveryDate', escapeHtml(new Date(terms.terms.deliveryDate).toDateString())) : '',
+    terms.terms?.qualitySpecs || terms.terms?.maxMoisturePercent !== undefined
+      ? row('quality', escapeHtml([
+        terms.terms.qualitySpecs,
+        terms.terms.maxMoisturePercent !== undefined ? `max ${terms.terms.maxMoisturePercent}% moisture` : ''
+      ].filter(Boolean).join(', ')))
+      : ''
+  ].join('');
+
+  const confirmationRows = [
+    ...confirmation.confirmations.map(entry =>
+      `<tr><th>${partyName(entry.vendorId)}</th><td>${label('confirmedAt')}: ${escapeHtml(entry.confirmedAt.toISOString())}</td></tr>`),
+    ...confirmation.pendingVendorIds.map(vendorId =>
+      `<tr><th>${partyName(vendorId)}</th><td>${label('pending')}</td></tr>`)
+  ].join('');
+
+  const recordRows = confirmation.records.map(record =>
+    `<tr><td>${record.sequence}</td><td>${escapeHtml(record.event)}</td><td>${escapeHtml(record.vendorId)}</td>` +
+    `<td>${escapeHtml(record.createdAt.toISOString())}</td><td class="hash">${escapeHtml(record.recordHash)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(TRADE_NOTE_TEXTS.title)} ${escapeHtml(confirmation.sessionId)}</title>
+<style>
+  body { font-family: 'Noto Sans', Arial, sans-serif; max-width: 800px; margin: 2em auto; color: #222; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 1.5em; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { width: 35%; background: #f6f6f6; }
+  .local { color: #555; }
+  .draft { border: 2px solid #c0392b; color: #c0392b; padding: 8px; }
+  .hash { font-family: monospace; font-size: 0.8em; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>${label('title')}</h1>
+<p>${label('intro')}</p>
+${confirmation.status === 'confirmed' ? '' : `<p class="draft">${label('draft')}</p>`}
+<h2>${label('parties')}</h2>
+<table>
+${row('offeredBy', partyName(terms.offeredBy))}
+${row('acceptedBy', partyName(terms.acceptedBy))}
+</table>
+<table>
+${row('commodity', escapeHtml(terms.commodity))}
+${row('quantity', escapeHtml(`${terms.quantity} ${terms.unit}`))}
+${row('price', escapeHtml(`${formatRupees(terms.price)}/${terms.unit}`))}
+${row('totalValue', escapeHtml(formatRupees(terms.totalValue)))}
+${terms.currentMarketPrice ? row('marketPrice', escapeHtml(`${formatRupees(terms.currentMarketPrice)}/${terms.unit}`)) : ''}
+${termRows}
+${row('acceptedAt', escapeHtml(terms.acceptedAt))}
+</table>
+<h2>${label('confirmations')}</h2>
+<table>
+${confirmationRows}
+</table>
+<h2>${label('record')}</h2>
+<p>${label('recordNote')}</p>
+<table>
+${recordRows}
+</table>
+<p>${confirmation.chainValid ? label('chainValid') : `<strong>${label('chainBroken')}</strong>`}</p>
+</body>
+</html>
+`;
+}
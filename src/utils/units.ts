@@ -0,0 +1,114 @@
+/**
+ * Quantity units for mandi trade and conversions between them.
+ *
+ * AGMARKNET quotes prices per quintal (100 kg), so the quintal is the unit prices are stored
+ * and compared in. Bags and crates are commodity-specific: a bag of onions is 50 kg while a
+ * bag of chillies is usually 40 kg.
+ */
+
+import { PriceData, QuantityUnit } from '../types';
+
+export const QUANTITY_UNITS: QuantityUnit[] = ['kg', 'quintal', 'ton', 'bag', 'crate'];
+
+export const BASE_UNIT: QuantityUnit = 'quintal';
+
+const FIXED_UNIT_WEIGHTS_KG: Record<'kg' | 'quintal' | 'ton', number> = {
+  kg: 1,
+  quintal: 100,
+  ton: 1000
+};
+
+export const DEFAULT_BAG_WEIGHT_KG = 50;
+export const DEFAULT_CRATE_WEIGHT_KG = 20;
+
+export const COMMODITY_BAG_WEIGHTS_KG: Record<string, number> = {
+  'Rice': 50,
+  'Wheat': 50,
+  'Maize': 50,
+  'Cotton': 100,
+  'Turmeric': 50,
+  'Onion': 50,
+  'Potato': 50,
+  'Chillies': 40,
+  'Soyabean': 60,
+  'Groundnut': 40
+};
+
+export const COMMODITY_CRATE_WEIGHTS_KG: Record<string, number> = {
+  'Tomato': 25,
+  'Mango': 20,
+  'Apple': 25,
+  'Grapes': 8,
+  'Banana': 13
+};
+
+// Spellings and local names vendors type into the unit field
+const UNIT_ALIASES: Record<string, QuantityUnit> = {
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg', kilogramme: 'kg',
+  q: 'quintal', qtl: 'quintal', qtls: 'quintal', quintal: 'quintal', quintals: 'quintal', kwintal: 'quintal',
+  t: 'ton', ton: 'ton', tons: 'ton', tonne: 'ton', tonnes: 'ton', mt: 'ton',
+  bag: 'bag', bags: 'bag', sack: 'bag', sacks: 'bag', bori: 'bag', bora: 'bag', katta: 'bag',
+  crate: 'crate', crates: 'crate', peti: 'crate', box: 'crate', boxes: 'crate'
+};
+
+/**
+ * Maps free-text units ("Qtl", "kgs", "bori", "per quintal") onto a known unit.
+ * Returns undefined for units we cannot convert.
+ */
+export function normalizeUnit(raw?: string | null): QuantityUnit | undefined {
+  if (!raw) return undefined;
+
+  const label = raw.toLowerCase().replace(/^\s*(per|\/)\s*/, '').replace(/[^a-z]/g, '');
+  return UNIT_ALIASES[label];
+}
+
+function lookupWeight(weights: Record<string, number>, commodity?: string): number | undefined {
+  if (!commodity) return undefined;
+  return Object.entries(weights).find(([name]) => name.toLowerCase() === commodity.trim().toLowerCase())?.[1];
+}
+
+export function unitWeightKg(unit: QuantityUnit, commodity?: string): number {
+  switch (unit) {
+    case 'bag':
+      return lookupWeight(COMMODITY_BAG_WEIGHTS_KG, commodity) ?? DEFAULT_BAG_WEIGHT_KG;
+    case 'crate':
+      return lookupWeight(COMMODITY_CRATE_WEIGHTS_KG, commodity) ?? DEFAULT_CRATE_WEIGHT_KG;
+    default:
+      return FIXED_UNIT_WEIGHTS_KG[unit];
+  }
+}
+
+/**
+ * Converts an amount of produce, e.g. 20 bags of onion to 10 quintals. Rounded to 3 decimals.
+ */
+export function convertQuantity(quantity: number, from: QuantityUnit, to: QuantityUnit, commodity?: string): number {
+  if (from === to) return quantity;
+  return Math.round(quantity * unitWeightKg(from, commodity) / unitWeightKg(to, commodity) * 1000) / 1000;
+}
+
+/**
+ * Converts a price per unit, e.g. ₹2500 per quintal to ₹25 per kg. Rounded to paise.
+ */
+export function convertPrice(price: number, from: QuantityUnit, to: QuantityUnit, commodity?: string): number {
+  if (from === to) return price;
+  return Math.round(price * unitWeightKg(to, commodity) / unitWeightKg(from, commodity) * 100) / 100;
+}
+
+/**
+ * Re-expresses a per-quintal market price in another unit.
+ */
+export function priceDataInUnit(priceData: PriceData, unit: QuantityUnit): PriceData {
+  const from = priceData.unit || BASE_UNIT;
+  const convert = (price: number) => convertPrice(price, from, unit, priceData.commodity);
+
+  return {
+    ...priceData,
+    currentPrice: convert(priceData.currentPrice),
+    priceRange: {
+      min: convert(priceData.priceRange.min),
+      max: convert(priceData.priceRange.max),
+      modal: convert(priceData.priceRange.modal)
+    },
+    unit
+  };
+}